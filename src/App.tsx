@@ -11,6 +11,12 @@ import Onboarding from "./pages/Onboarding";
 import Channels from "./pages/Channels";
 import Compose from "./pages/Compose";
 import Queue from "./pages/Queue";
+import CalendarPage from "./pages/Calendar";
+import Evergreen from "./pages/Evergreen";
+import Recovery from "./pages/Recovery";
+import PostDetail from "./pages/PostDetail";
+import Approvals from "./pages/Approvals";
+import MediaLibrary from "./pages/MediaLibrary";
 import Admin from "./pages/Admin";
 import TeamMembers from "./pages/TeamMembers";
 import AcceptInvite from "./pages/AcceptInvite";
@@ -46,6 +52,12 @@ const App = () => (
             <Route path="/channels" element={<Channels />} />
             <Route path="/compose" element={<Compose />} />
             <Route path="/queue" element={<Queue />} />
+            <Route path="/calendar" element={<CalendarPage />} />
+            <Route path="/evergreen" element={<Evergreen />} />
+            <Route path="/recovery" element={<Recovery />} />
+            <Route path="/posts/:id" element={<PostDetail />} />
+            <Route path="/approvals" element={<Approvals />} />
+            <Route path="/media" element={<MediaLibrary />} />
             <Route path="/admin" element={<Admin />} />
             <Route path="/team" element={<TeamMembers />} />
             <Route path="/accept-invite" element={<AcceptInvite />} />
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { QuotaStatus, loadQuotaStatus, publishesLeft } from "@/lib/quotas";
+
+export const QuotaUsage = () => {
+  const [rows, setRows] = useState<QuotaStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchQuotas = async () => {
+    setLoading(true);
+    try {
+      setRows(await loadQuotaStatus());
+    } catch (error) {
+      console.error("Error loading quotas:", error);
+      toast.error((error as { message?: string }).message || "Failed to load quotas");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchQuotas(); }, []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>API Quotas</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Publishes that would go over a budget wait for it to reset. Accounts appear once they publish in the current window.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchQuotas} disabled={loading}>
+          <RefreshCw className="w-4 h-4 mr-2" />Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Platform</TableHead>
+                <TableHead>Budget</TableHead>
+                <TableHead className="w-[220px]">Used</TableHead>
+                <TableHead>Publishes left</TableHead>
+                <TableHead>Resets</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const left = publishesLeft(row);
+                return (
+                  <TableRow key={`${row.budget_id}:${row.social_account_id ?? 'app'}`}>
+                    <TableCell className="font-medium capitalize">{row.platform}</TableCell>
+                    <TableCell>
+                      {row.scope === 'app' ? (
+                        <span>Whole app</span>
+                      ) : (
+                        <span>{row.account_name} <span className="text-muted-foreground">· {row.workspace_name}</span></span>
+                      )}
+                      {row.note && <p className="text-xs text-muted-foreground">{row.note}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={row.exhausted ? 100 : Math.min(100, (row.used / row.daily_limit) * 100)} className="h-2" />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {row.used.toLocaleString()} / {row.daily_limit.toLocaleString()} {row.unit}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {row.exhausted ? (
+                        <Badge variant="destructive">Platform limit hit</Badge>
+                      ) : (
+                        <Badge variant={left === 0 ? "destructive" : "secondary"}>{left}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(row.resets_at), { addSuffix: true })}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
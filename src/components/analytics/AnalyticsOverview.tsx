@@ -6,9 +6,12 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { exportToCSV } from "@/lib/csv-export";
+import { collectAnalytics, latestByAccount, loadSnapshotHistory } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
+import { formatDistanceToNow } from "date-fns";
 import { 
   Users, Eye, Heart, MessageCircle, TrendingUp,
-  Instagram, Facebook, Linkedin, Twitter, Youtube, MessageCircle as ThreadsIcon,
+  Instagram, Facebook, Linkedin, Twitter, Youtube, Video, Cloud, MessageCircle as ThreadsIcon,
   RefreshCw, Loader2, ArrowUpRight, AlertCircle, Download
 } from "lucide-react";
 interface PlatformSummary {
@@ -17,9 +20,11 @@ interface PlatformSummary {
   accountId?: string;
   displayName?: string;
   handle?: string;
+  capturedAt?: string;
   metrics?: {
     followers?: number;
     views?: number;
+    reach?: number;
     engagement?: number;
   };
   loading?: boolean;
@@ -37,6 +42,8 @@ const platformConfig: Record<string, { icon: any; color: string; bgColor: string
   linkedin: { icon: Linkedin, color: 'text-white', bgColor: 'bg-[#0A66C2]' },
   x: { icon: Twitter, color: 'text-white', bgColor: 'bg-black' },
   youtube: { icon: Youtube, color: 'text-white', bgColor: 'bg-[#FF0000]' },
+  tiktok: { icon: Video, color: 'text-white', bgColor: 'bg-black' },
+  bluesky: { icon: Cloud, color: 'text-white', bgColor: 'bg-[#0085FF]' },
 };
 
 export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
@@ -44,11 +51,12 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
   const [platforms, setPlatforms] = useState<PlatformSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
   useEffect(() => {
-    loadPlatforms();
+    loadOrCollect();
   }, [workspaceId]);
 
-  const loadPlatforms = async () => {
+  const loadPlatforms = async (collectErrors: Record<string, string> = {}) => {
     try {
       // Get all connected accounts
       const { data: accounts, error } = await supabase
@@ -59,106 +67,49 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
 
       if (error) throw error;
 
-      const allPlatforms = ['threads', 'instagram', 'facebook', 'linkedin', 'x', 'youtube'];
+      // Latest stored snapshot per account (written by collect-analytics)
+      const history = accounts?.length
+        ? await loadSnapshotHistory({ accountIds: accounts.map(a => a.id) }, 90)
+        : [];
+      const latest = latestByAccount(history);
+
+      const allPlatforms = ['threads', 'instagram', 'facebook', 'linkedin', 'x', 'youtube', 'tiktok', 'bluesky'];
       
       const platformSummaries: PlatformSummary[] = allPlatforms.map(platform => {
         const account = accounts?.find(a => a.platform === platform);
+        const snapshot = account ? latest.get(account.id) : undefined;
         return {
           platform,
           connected: !!account,
           accountId: account?.id,
           displayName: account?.display_name,
           handle: account?.handle,
-          loading: !!account,
+          capturedAt: snapshot?.captured_at,
+          metrics: snapshot ? {
+            followers: snapshot.followers ?? undefined,
+            views: snapshot.views ?? undefined,
+            reach: snapshot.reach ?? undefined,
+            engagement: snapshot.engagement ?? undefined,
+          } : undefined,
+          error: account ? collectErrors[account.id] || (snapshot ? undefined : 'No data collected yet') : undefined,
         };
       });
 
       setPlatforms(platformSummaries);
-      setLoading(false);
-
-      // Fetch insights for connected platforms
-      for (const summary of platformSummaries) {
-        if (summary.connected && summary.accountId) {
-          fetchPlatformInsights(summary.platform, summary.accountId);
-        }
-      }
+      return platformSummaries;
     } catch (err) {
       console.error('Error loading platforms:', err);
+      return [];
+    } finally {
       setLoading(false);
     }
   };
 
-  const fetchPlatformInsights = async (platform: string, accountId: string) => {
-    try {
-      const functionName = `${platform === 'x' ? 'x' : platform}-insights`;
-      const response = await supabase.functions.invoke(functionName, {
-        body: { accountId },
-      });
-
-      if (response.error || response.data.error) {
-        setPlatforms(prev => prev.map(p => 
-          p.platform === platform 
-            ? { ...p, loading: false, error: response.data?.error || 'Failed to fetch' }
-            : p
-        ));
-        return;
-      }
-
-      const data = response.data;
-      let metrics: PlatformSummary['metrics'] = {};
-
-      switch (platform) {
-        case 'threads':
-          metrics = {
-            followers: data.userMetrics?.followers || 0,
-            views: data.userMetrics?.views || 0,
-            engagement: (data.userMetrics?.likes || 0) + (data.userMetrics?.replies || 0),
-          };
-          break;
-        case 'instagram':
-          metrics = {
-            followers: data.profile?.followersCount || 0,
-            views: data.metrics?.impressions || 0,
-            engagement: data.metrics?.reach || 0,
-          };
-          break;
-        case 'facebook':
-          metrics = {
-            followers: data.page?.fanCount || 0,
-            views: data.metrics?.impressions || 0,
-            engagement: data.metrics?.engagedUsers || 0,
-          };
-          break;
-        case 'linkedin':
-          metrics = {
-            engagement: (data.metrics?.totalLikes || 0) + (data.metrics?.totalComments || 0),
-          };
-          break;
-        case 'x':
-          metrics = {
-            followers: data.metrics?.followers || 0,
-          };
-          break;
-        case 'youtube':
-          metrics = {
-            followers: data.metrics?.subscribers || 0,
-            views: data.metrics?.totalViews || 0,
-          };
-          break;
-      }
-
-      setPlatforms(prev => prev.map(p => 
-        p.platform === platform 
-          ? { ...p, metrics, loading: false }
-          : p
-      ));
-    } catch (err) {
-      console.error(`Error fetching ${platform} insights:`, err);
-      setPlatforms(prev => prev.map(p => 
-        p.platform === platform 
-          ? { ...p, loading: false, error: 'Failed to fetch' }
-          : p
-      ));
+  // First visit for a workspace: collect once instead of showing empty cards
+  const loadOrCollect = async () => {
+    const summaries = await loadPlatforms();
+    if (summaries.some(p => p.connected && !p.capturedAt)) {
+      await handleRefresh();
     }
   };
 
@@ -166,13 +117,19 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
     setRefreshing(true);
     setPlatforms(prev => prev.map(p => ({ ...p, loading: p.connected, error: undefined })));
     
-    for (const platform of platforms) {
-      if (platform.connected && platform.accountId) {
-        await fetchPlatformInsights(platform.platform, platform.accountId);
-      }
+    try {
+      const result = await collectAnalytics({ workspaceId });
+      const errors = Object.fromEntries(
+        result.results.filter(r => !r.ok).map(r => [r.accountId, r.error || 'Failed to fetch'])
+      );
+      await loadPlatforms(errors);
+      setRefreshKey(Date.now());
+    } catch (err) {
+      console.error('Error collecting analytics:', err);
+      setPlatforms(prev => prev.map(p => ({ ...p, loading: false, error: p.connected ? 'Failed to fetch' : undefined })));
+    } finally {
+      setRefreshing(false);
     }
-    
-    setRefreshing(false);
   };
 
   const formatNumber = (num: number) => {
@@ -188,7 +145,9 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
       handle: p.handle || '',
       followers: p.metrics?.followers || 0,
       views: p.metrics?.views || 0,
+      reach: p.metrics?.reach || 0,
       engagement: p.metrics?.engagement || 0,
+      capturedAt: p.capturedAt || '',
     }));
 
     exportToCSV(exportData, [
@@ -197,7 +156,9 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
       { key: 'handle', header: 'Handle' },
       { key: 'followers', header: 'Followers' },
       { key: 'views', header: 'Views' },
+      { key: 'reach', header: 'Reach' },
       { key: 'engagement', header: 'Engagement' },
+      { key: 'capturedAt', header: 'Collected At' },
     ], 'analytics_overview');
 
     toast({
@@ -305,6 +266,8 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
         </Card>
       </div>
 
+      <MetricTrends workspaceId={workspaceId} refreshKey={refreshKey} />
+
       {/* Platform Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {platforms.map((platform) => {
@@ -367,6 +330,11 @@ export const AnalyticsOverview = ({ workspaceId }: AnalyticsOverviewProps) => {
                         )}
                       </div>
                     )}
+                    {platform.capturedAt && !platform.loading && (
+                      <p className="text-[10px] text-muted-foreground text-center mt-3">
+                        Collected {formatDistanceToNow(new Date(platform.capturedAt), { addSuffix: true })}
+                      </p>
+                    )}
                   </>
                 )}
 
@@ -0,0 +1,334 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { exportToCSV } from "@/lib/csv-export";
+import { loadInsights } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
+import { 
+  Heart, MessageCircle, Repeat2, Quote, Users, UserPlus, FileText, Cloud,
+  RefreshCw, TrendingUp, ExternalLink, AlertCircle, Loader2, Download
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface BlueskyAccount {
+  id: string;
+  display_name: string;
+  handle: string | null;
+}
+
+interface BlueskyPost {
+  id: string;
+  text: string;
+  createdAt: string | null;
+  url: string;
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+}
+
+interface BlueskyInsights {
+  profile: {
+    did: string;
+    handle: string;
+    displayName?: string;
+    avatarUrl?: string;
+  };
+  metrics: {
+    followers: number;
+    following: number;
+    posts: number;
+  };
+  recentPosts: BlueskyPost[];
+  fetchedAt: string;
+}
+
+interface BlueskyAnalyticsProps {
+  workspaceId: string;
+}
+
+export const BlueskyAnalytics = ({ workspaceId }: BlueskyAnalyticsProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [account, setAccount] = useState<BlueskyAccount | null>(null);
+  const [insights, setInsights] = useState<BlueskyInsights | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBlueskyAccount();
+  }, [workspaceId]);
+
+  const loadBlueskyAccount = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('social_accounts')
+        .select('id, display_name, handle')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'bluesky')
+        .eq('status', 'connected')
+        .maybeSingle();
+
+      if (error) throw error;
+      
+      if (data) {
+        setAccount(data);
+        await fetchInsights(data.id);
+      } else {
+        setError('No Bluesky account connected');
+      }
+    } catch (err) {
+      console.error('Error loading account:', err);
+      setError('Failed to load Bluesky account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stored snapshot by default; refresh collects a new one first
+  const fetchInsights = async (accountId: string, refresh = false) => {
+    setRefreshing(true);
+    setError(null);
+    
+    try {
+      setInsights(await loadInsights<BlueskyInsights>(accountId, refresh));
+    } catch (err) {
+      console.error('Error fetching insights:', err);
+      const message = err instanceof Error ? err.message : '';
+      setError(message || 'Failed to fetch insights');
+      toast({
+        title: "Error",
+        description: message || "Failed to fetch Bluesky insights",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    if (account) {
+      fetchInsights(account.id, true);
+    }
+  };
+
+  const formatNumber = (num: number) => {
+    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return num.toString();
+  };
+
+  const handleExportCSV = () => {
+    const exportData = insights?.recentPosts.map(post => ({
+      text: post.text,
+      createdAt: post.createdAt || '',
+      likes: post.likes,
+      replies: post.replies,
+      reposts: post.reposts,
+      quotes: post.quotes,
+      url: post.url,
+    })) || [];
+
+    exportToCSV(exportData, [
+      { key: 'text', header: 'Post Text' },
+      { key: 'createdAt', header: 'Posted At' },
+      { key: 'likes', header: 'Likes' },
+      { key: 'replies', header: 'Replies' },
+      { key: 'reposts', header: 'Reposts' },
+      { key: 'quotes', header: 'Quotes' },
+      { key: 'url', header: 'URL' },
+    ], 'bluesky_analytics');
+
+    toast({
+      title: "Export complete",
+      description: "Bluesky analytics downloaded as CSV",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-24" />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i}>
+              <CardContent className="pt-6">
+                <Skeleton className="h-16 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+            <Cloud className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">No Bluesky Account Connected</h3>
+          <p className="text-muted-foreground mb-4">
+            Connect your Bluesky account to view analytics
+          </p>
+          <Button variant="outline" asChild>
+            <a href="/channels">Connect Bluesky</a>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const metrics = [
+    { label: 'Followers', value: insights?.metrics.followers || 0, icon: Users, color: 'text-sky-500' },
+    { label: 'Following', value: insights?.metrics.following || 0, icon: UserPlus, color: 'text-emerald-500' },
+    { label: 'Posts', value: insights?.metrics.posts || 0, icon: FileText, color: 'text-purple-500' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-[#0085FF] flex items-center justify-center text-white">
+            <Cloud className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold">{insights?.profile.displayName || account.display_name}</h2>
+            {(insights?.profile.handle || account.handle) && (
+              <p className="text-sm text-muted-foreground">@{insights?.profile.handle || account.handle}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button 
+            variant="outline" 
+            onClick={handleExportCSV}
+            disabled={!insights || refreshing}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button 
+            variant="outline" 
+            onClick={handleRefresh}
+            disabled={refreshing}
+          >
+            {refreshing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Metrics Grid */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {metrics.map((metric) => {
+          const Icon = metric.icon;
+          return (
+            <Card key={metric.label} className="hover-lift">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2 mb-2">
+                  <Icon className={`w-4 h-4 ${metric.color}`} />
+                  <span className="text-xs text-muted-foreground">{metric.label}</span>
+                </div>
+                <p className="text-2xl font-bold">{formatNumber(metric.value)}</p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Recent Posts */}
+      {insights?.recentPosts && insights.recentPosts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="w-5 h-5" />
+              Recent Posts Performance
+            </CardTitle>
+            <CardDescription>
+              Likes, replies, reposts and quotes on your latest Bluesky posts
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {insights.recentPosts.map((post) => (
+                <div 
+                  key={post.id} 
+                  className="p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm line-clamp-2 mb-2">{post.text}</p>
+                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Heart className="w-3 h-3" />
+                          {post.likes}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <MessageCircle className="w-3 h-3" />
+                          {post.replies}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Repeat2 className="w-3 h-3" />
+                          {post.reposts}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Quote className="w-3 h-3" />
+                          {post.quotes}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      {post.createdAt && (
+                        <Badge variant="outline" className="text-xs">
+                          {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
+                        </Badge>
+                      )}
+                      {post.url && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={post.url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <MetricTrends accountIds={[account.id]} refreshKey={insights?.fetchedAt} />
+
+      {insights && (
+        <p className="text-xs text-muted-foreground text-center">
+          Last updated: {formatDistanceToNow(new Date(insights.fetchedAt), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -7,6 +7,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { exportToCSV } from "@/lib/csv-export";
+import { loadInsights } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
 import { 
   Eye, Heart, MessageCircle, Users, Share2,
   RefreshCw, TrendingUp, ExternalLink, AlertCircle, Loader2, Facebook, Download
@@ -86,22 +88,13 @@ export const FacebookAnalytics = ({ workspaceId }: FacebookAnalyticsProps) => {
     }
   };
 
-  const fetchInsights = async (accountId: string) => {
+  // Stored snapshot by default; refresh collects a new one first
+  const fetchInsights = async (accountId: string, refresh = false) => {
     setRefreshing(true);
     setError(null);
     
     try {
-      const response = await supabase.functions.invoke('facebook-insights', {
-        body: { accountId },
-      });
-
-      if (response.error) throw response.error;
-      
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      setInsights(response.data);
+      setInsights(await loadInsights<FacebookInsights>(accountId, refresh));
     } catch (err: any) {
       console.error('Error fetching insights:', err);
       setError(err.message || 'Failed to fetch insights');
@@ -112,7 +105,7 @@ export const FacebookAnalytics = ({ workspaceId }: FacebookAnalyticsProps) => {
 
   const handleRefresh = () => {
     if (account) {
-      fetchInsights(account.id);
+      fetchInsights(account.id, true);
     }
   };
 
@@ -312,6 +305,8 @@ export const FacebookAnalytics = ({ workspaceId }: FacebookAnalyticsProps) => {
         </Card>
       )}
 
+      <MetricTrends accountIds={[account.id]} refreshKey={insights?.fetchedAt} />
+
       {insights && (
         <p className="text-xs text-muted-foreground text-center">
           Last updated: {formatDistanceToNow(new Date(insights.fetchedAt), { addSuffix: true })}
@@ -7,6 +7,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { exportToCSV } from "@/lib/csv-export";
+import { loadInsights } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
 import { 
   Heart, MessageCircle, FileText,
   RefreshCw, TrendingUp, AlertCircle, Loader2, Linkedin, Download
@@ -83,22 +85,13 @@ export const LinkedInAnalytics = ({ workspaceId }: LinkedInAnalyticsProps) => {
     }
   };
 
-  const fetchInsights = async (accountId: string) => {
+  // Stored snapshot by default; refresh collects a new one first
+  const fetchInsights = async (accountId: string, refresh = false) => {
     setRefreshing(true);
     setError(null);
     
     try {
-      const response = await supabase.functions.invoke('linkedin-insights', {
-        body: { accountId },
-      });
-
-      if (response.error) throw response.error;
-      
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      setInsights(response.data);
+      setInsights(await loadInsights<LinkedInInsights>(accountId, refresh));
     } catch (err: any) {
       console.error('Error fetching insights:', err);
       setError(err.message || 'Failed to fetch insights');
@@ -109,7 +102,7 @@ export const LinkedInAnalytics = ({ workspaceId }: LinkedInAnalyticsProps) => {
 
   const handleRefresh = () => {
     if (account) {
-      fetchInsights(account.id);
+      fetchInsights(account.id, true);
     }
   };
 
@@ -300,6 +293,8 @@ export const LinkedInAnalytics = ({ workspaceId }: LinkedInAnalyticsProps) => {
         </Card>
       )}
 
+      <MetricTrends accountIds={[account.id]} refreshKey={insights?.fetchedAt} />
+
       {insights && (
         <p className="text-xs text-muted-foreground text-center">
           Last updated: {formatDistanceToNow(new Date(insights.fetchedAt), { addSuffix: true })}
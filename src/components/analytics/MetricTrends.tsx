@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ArrowDownRight, ArrowUpRight, LineChart as LineChartIcon } from "lucide-react";
+import { format } from "date-fns";
+import {
+  AccountSnapshot,
+  TREND_METRIC_LABELS,
+  TREND_PERIODS,
+  TrendMetric,
+  TrendPeriod,
+  buildTrend,
+  loadSnapshotHistory,
+  periodChange,
+} from "@/lib/analytics";
+
+interface MetricTrendsProps {
+  // either every account in a workspace or specific accounts
+  workspaceId?: string;
+  accountIds?: string[];
+  metrics?: TrendMetric[];
+  // bump to reload after a refresh
+  refreshKey?: unknown;
+}
+
+const chartConfig: ChartConfig = {
+  followers: { label: 'Followers', color: 'hsl(217 91% 60%)' },
+  views: { label: 'Views', color: 'hsl(271 81% 56%)' },
+  reach: { label: 'Reach', color: 'hsl(142 71% 45%)' },
+  engagement: { label: 'Engagement', color: 'hsl(350 89% 60%)' },
+};
+
+const gridCols: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+};
+
+const formatNumber = (num: number) => {
+  const abs = Math.abs(num);
+  if (abs >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (abs >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+// 7/30/90-day trend chart with period-over-period change per metric, drawn
+// from stored analytics snapshots
+export const MetricTrends = ({
+  workspaceId,
+  accountIds,
+  metrics = ['followers', 'views', 'engagement'],
+  refreshKey,
+}: MetricTrendsProps) => {
+  const [period, setPeriod] = useState<TrendPeriod>(30);
+  const [selected, setSelected] = useState<TrendMetric>(metrics[0]);
+  const [snapshots, setSnapshots] = useState<AccountSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const accountKey = accountIds?.join(',');
+
+  useEffect(() => {
+    const filter = workspaceId ? { workspaceId } : { accountIds: accountIds || [] };
+    setLoading(true);
+    loadSnapshotHistory(filter, Math.max(...TREND_PERIODS))
+      .then(setSnapshots)
+      .catch(err => console.error('Error loading analytics history:', err))
+      .finally(() => setLoading(false));
+  }, [workspaceId, accountKey, refreshKey]);
+
+  const trend = useMemo(() => buildTrend(snapshots, period), [snapshots, period]);
+  const hasData = trend.some(p => metrics.some(m => p[m] != null));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="w-5 h-5" />
+            Trends
+          </CardTitle>
+          <CardDescription>Change over the last {period} days</CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {TREND_PERIODS.map(p => (
+            <Button
+              key={p}
+              size="sm"
+              variant={period === p ? 'default' : 'outline'}
+              className="h-7 px-2 text-xs"
+              onClick={() => setPeriod(p)}
+            >
+              {p}d
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !hasData ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No history yet. Snapshots are collected every six hours.
+          </p>
+        ) : (
+          <>
+            <div className={`grid gap-3 grid-cols-2 ${gridCols[metrics.length] || 'md:grid-cols-4'}`}>
+              {metrics.map(metric => {
+                const change = periodChange(trend, metric);
+                const up = (change.delta ?? 0) >= 0;
+                return (
+                  <button
+                    key={metric}
+                    type="button"
+                    onClick={() => setSelected(metric)}
+                    className={`text-left p-3 rounded-lg border transition-colors ${
+                      selected === metric ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <p className="text-xs text-muted-foreground">{TREND_METRIC_LABELS[metric]}</p>
+                    <p className="text-lg font-semibold">
+                      {change.current != null ? formatNumber(change.current) : '—'}
+                    </p>
+                    {change.delta != null && (
+                      <p className={`text-xs flex items-center gap-0.5 ${up ? 'text-green-600' : 'text-red-500'}`}>
+                        {up ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
+                        {up ? '+' : ''}{formatNumber(change.delta)}
+                        {change.percent != null && ` (${up ? '+' : ''}${change.percent.toFixed(1)}%)`}
+                      </p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <LineChart data={trend} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(d: string) => format(new Date(`${d}T00:00:00`), 'MMM d')}
+                />
+                <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatNumber} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  type="monotone"
+                  dataKey={selected}
+                  stroke={`var(--color-${selected})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              </LineChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
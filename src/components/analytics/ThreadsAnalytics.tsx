@@ -7,6 +7,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { exportToCSV } from "@/lib/csv-export";
+import { loadInsights } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
 import { 
   Eye, Heart, MessageCircle, Repeat2, Quote, Users, 
   RefreshCw, TrendingUp, ExternalLink, AlertCircle, Loader2, Download
@@ -87,22 +89,13 @@ export const ThreadsAnalytics = ({ workspaceId }: ThreadsAnalyticsProps) => {
     }
   };
 
-  const fetchInsights = async (accountId: string) => {
+  // Stored snapshot by default; refresh collects a new one first
+  const fetchInsights = async (accountId: string, refresh = false) => {
     setRefreshing(true);
     setError(null);
     
     try {
-      const response = await supabase.functions.invoke('threads-insights', {
-        body: { accountId },
-      });
-
-      if (response.error) throw response.error;
-      
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      setInsights(response.data);
+      setInsights(await loadInsights<ThreadsInsights>(accountId, refresh));
     } catch (err: any) {
       console.error('Error fetching insights:', err);
       setError(err.message || 'Failed to fetch insights');
@@ -118,7 +111,7 @@ export const ThreadsAnalytics = ({ workspaceId }: ThreadsAnalyticsProps) => {
 
   const handleRefresh = () => {
     if (account) {
-      fetchInsights(account.id);
+      fetchInsights(account.id, true);
     }
   };
 
@@ -328,6 +321,8 @@ export const ThreadsAnalytics = ({ workspaceId }: ThreadsAnalyticsProps) => {
         </Card>
       )}
 
+      <MetricTrends accountIds={[account.id]} refreshKey={insights?.fetchedAt} />
+
       {insights && (
         <p className="text-xs text-muted-foreground text-center">
           Last updated: {formatDistanceToNow(new Date(insights.fetchedAt), { addSuffix: true })}
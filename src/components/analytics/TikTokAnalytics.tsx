@@ -0,0 +1,343 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { exportToCSV } from "@/lib/csv-export";
+import { loadInsights } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
+import { 
+  Eye, Heart, MessageCircle, Users, Video, Play, Share2,
+  RefreshCw, TrendingUp, ExternalLink, AlertCircle, Loader2, Download
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface TikTokAccount {
+  id: string;
+  display_name: string;
+  handle: string | null;
+}
+
+interface TikTokInsights {
+  profile: {
+    id: string;
+    displayName: string;
+    username?: string;
+    avatarUrl?: string;
+  };
+  metrics: {
+    followers: number;
+    following: number;
+    totalLikes: number;
+    videoCount: number;
+    recentViews: number;
+  };
+  recentVideos: Array<{
+    id: string;
+    title: string;
+    createdAt: string | null;
+    thumbnail?: string;
+    url?: string;
+    views: number;
+    likes: number;
+    comments: number;
+    shares: number;
+  }>;
+  fetchedAt: string;
+}
+
+interface TikTokAnalyticsProps {
+  workspaceId: string;
+}
+
+export const TikTokAnalytics = ({ workspaceId }: TikTokAnalyticsProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [account, setAccount] = useState<TikTokAccount | null>(null);
+  const [insights, setInsights] = useState<TikTokInsights | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTikTokAccount();
+  }, [workspaceId]);
+
+  const loadTikTokAccount = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('social_accounts')
+        .select('id, display_name, handle')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'tiktok')
+        .eq('status', 'connected')
+        .maybeSingle();
+
+      if (error) throw error;
+      
+      if (data) {
+        setAccount(data);
+        await fetchInsights(data.id);
+      } else {
+        setError('No TikTok account connected');
+      }
+    } catch (err) {
+      console.error('Error loading account:', err);
+      setError('Failed to load TikTok account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stored snapshot by default; refresh collects a new one first
+  const fetchInsights = async (accountId: string, refresh = false) => {
+    setRefreshing(true);
+    setError(null);
+    
+    try {
+      setInsights(await loadInsights<TikTokInsights>(accountId, refresh));
+    } catch (err) {
+      console.error('Error fetching insights:', err);
+      const message = err instanceof Error ? err.message : '';
+      setError(message || 'Failed to fetch insights');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    if (account) {
+      fetchInsights(account.id, true);
+    }
+  };
+
+  const formatNumber = (num: number) => {
+    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return num.toString();
+  };
+
+  const handleExportCSV = () => {
+    const exportData = insights?.recentVideos.map(video => ({
+      title: video.title,
+      createdAt: video.createdAt || '',
+      views: video.views,
+      likes: video.likes,
+      comments: video.comments,
+      shares: video.shares,
+      url: video.url || '',
+    })) || [];
+
+    exportToCSV(exportData, [
+      { key: 'title', header: 'Video Title' },
+      { key: 'createdAt', header: 'Posted At' },
+      { key: 'views', header: 'Plays' },
+      { key: 'likes', header: 'Likes' },
+      { key: 'comments', header: 'Comments' },
+      { key: 'shares', header: 'Shares' },
+      { key: 'url', header: 'URL' },
+    ], 'tiktok_analytics');
+
+    toast({
+      title: "Export complete",
+      description: "TikTok analytics downloaded as CSV",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-24" />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <Card key={i}>
+              <CardContent className="pt-6">
+                <Skeleton className="h-16 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="w-16 h-16 rounded-2xl bg-black flex items-center justify-center mx-auto mb-4">
+            <Video className="w-8 h-8 text-white" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">No TikTok Account Connected</h3>
+          <p className="text-muted-foreground mb-4">
+            Connect your TikTok account to view analytics
+          </p>
+          <Button variant="outline" asChild>
+            <a href="/channels">Connect TikTok</a>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const metrics = [
+    { label: 'Followers', value: insights?.metrics.followers || 0, icon: Users, color: 'text-cyan-500' },
+    { label: 'Total Likes', value: insights?.metrics.totalLikes || 0, icon: Heart, color: 'text-rose-500' },
+    { label: 'Videos', value: insights?.metrics.videoCount || 0, icon: Video, color: 'text-purple-500' },
+    { label: 'Recent Plays', value: insights?.metrics.recentViews || 0, icon: Eye, color: 'text-blue-500' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-black flex items-center justify-center text-white">
+            <Video className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold">{insights?.profile.displayName || account.display_name}</h2>
+            {(insights?.profile.username || account.handle) && (
+              <p className="text-sm text-muted-foreground">@{insights?.profile.username || account.handle}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button 
+            variant="outline" 
+            onClick={handleExportCSV}
+            disabled={!insights || refreshing}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button 
+            variant="outline" 
+            onClick={handleRefresh}
+            disabled={refreshing}
+          >
+            {refreshing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Metrics Grid */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map((metric) => {
+          const Icon = metric.icon;
+          return (
+            <Card key={metric.label} className="hover-lift">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2 mb-2">
+                  <Icon className={`w-4 h-4 ${metric.color}`} />
+                  <span className="text-xs text-muted-foreground">{metric.label}</span>
+                </div>
+                <p className="text-2xl font-bold">{formatNumber(metric.value)}</p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Recent Videos */}
+      {insights?.recentVideos && insights.recentVideos.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="w-5 h-5" />
+              Recent Videos Performance
+            </CardTitle>
+            <CardDescription>
+              Plays and engagement for your latest TikTok videos
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {insights.recentVideos.map((video) => (
+                <div 
+                  key={video.id} 
+                  className="p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
+                >
+                  <div className="flex gap-4">
+                    {video.thumbnail && (
+                      <div className="relative w-16 h-28 rounded-md overflow-hidden flex-shrink-0 bg-muted">
+                        <img 
+                          src={video.thumbnail} 
+                          alt={video.title}
+                          className="w-full h-full object-cover"
+                        />
+                        <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+                          <Play className="w-6 h-6 text-white" />
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium line-clamp-2 mb-2">{video.title}</p>
+                      <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
+                        <span className="flex items-center gap-1">
+                          <Eye className="w-3 h-3" />
+                          {formatNumber(video.views)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Heart className="w-3 h-3" />
+                          {formatNumber(video.likes)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <MessageCircle className="w-3 h-3" />
+                          {video.comments}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Share2 className="w-3 h-3" />
+                          {video.shares}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between mt-2">
+                        {video.createdAt && (
+                          <Badge variant="outline" className="text-xs">
+                            {formatDistanceToNow(new Date(video.createdAt), { addSuffix: true })}
+                          </Badge>
+                        )}
+                        {video.url && (
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={video.url} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <MetricTrends accountIds={[account.id]} refreshKey={insights?.fetchedAt} />
+
+      {insights && (
+        <p className="text-xs text-muted-foreground text-center">
+          Last updated: {formatDistanceToNow(new Date(insights.fetchedAt), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -7,6 +7,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { exportToCSV } from "@/lib/csv-export";
+import { loadInsights } from "@/lib/analytics";
+import { MetricTrends } from "./MetricTrends";
 import { 
   Heart, MessageCircle, Repeat2, Users, UserPlus, FileText, Eye,
   RefreshCw, TrendingUp, ExternalLink, AlertCircle, Loader2, Twitter, Download
@@ -88,22 +90,13 @@ export const XAnalytics = ({ workspaceId }: XAnalyticsProps) => {
     }
   };
 
-  const fetchInsights = async (accountId: string) => {
+  // Stored snapshot by default; refresh collects a new one first
+  const fetchInsights = async (accountId: string, refresh = false) => {
     setRefreshing(true);
     setError(null);
     
     try {
-      const response = await supabase.functions.invoke('x-insights', {
-        body: { accountId },
-      });
-
-      if (response.error) throw response.error;
-      
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      setInsights(response.data);
+      setInsights(await loadInsights<XInsights>(accountId, refresh));
     } catch (err: any) {
       console.error('Error fetching insights:', err);
       setError(err.message || 'Failed to fetch insights');
@@ -114,7 +107,7 @@ export const XAnalytics = ({ workspaceId }: XAnalyticsProps) => {
 
   const handleRefresh = () => {
     if (account) {
-      fetchInsights(account.id);
+      fetchInsights(account.id, true);
     }
   };
 
@@ -320,6 +313,8 @@ export const XAnalytics = ({ workspaceId }: XAnalyticsProps) => {
         </Card>
       )}
 
+      <MetricTrends accountIds={[account.id]} refreshKey={insights?.fetchedAt} />
+
       {insights && (
         <p className="text-xs text-muted-foreground text-center">
           Last updated: {formatDistanceToNow(new Date(insights.fetchedAt), { addSuffix: true })}
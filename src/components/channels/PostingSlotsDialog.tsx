@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { WEEKDAY_LABELS } from "@/lib/recurrence";
+import { PostingSlot, addSlot, loadSlots, removeSlot } from "@/lib/slots";
+import { Loader2, Plus, X } from "lucide-react";
+
+interface PostingSlotsDialogProps {
+  workspaceId: string;
+  account: { id: string; display_name: string };
+  timezone: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Monday-first, matching the calendar
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Weekly slots "Add to queue" fills for one channel
+export function PostingSlotsDialog({ workspaceId, account, timezone, open, onOpenChange }: PostingSlotsDialogProps) {
+  const { handleError } = useErrorHandler();
+  const [slots, setSlots] = useState<PostingSlot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [time, setTime] = useState('18:00');
+  const [adding, setAdding] = useState(false);
+  const [preset, setPreset] = useState('custom');
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    loadSlots(workspaceId)
+      .then(all => setSlots(all.filter(s => s.social_account_id === account.id)))
+      .catch(handleError)
+      .finally(() => setLoading(false));
+  }, [open, workspaceId, account.id]);
+
+  const applyPreset = (value: string) => {
+    setPreset(value);
+    if (value === 'weekdays') setWeekdays([1, 2, 3, 4, 5]);
+    if (value === 'mwf') setWeekdays([1, 3, 5]);
+    if (value === 'daily') setWeekdays([0, 1, 2, 3, 4, 5, 6]);
+  };
+
+  const toggleDay = (day: number) => {
+    setPreset('custom');
+    setWeekdays(d => d.includes(day) ? d.filter(x => x !== day) : [...d, day]);
+  };
+
+  const add = async () => {
+    if (!time || !weekdays.length) return;
+    setAdding(true);
+    try {
+      const existing = new Set(slots.map(s => `${s.weekday}@${s.slot_time.slice(0, 5)}`));
+      const created: PostingSlot[] = [];
+      for (const day of weekdays.filter(d => !existing.has(`${d}@${time}`))) {
+        created.push(await addSlot(workspaceId, account.id, day, time));
+      }
+      setSlots(prev => [...prev, ...created]);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const remove = async (slot: PostingSlot) => {
+    try {
+      await removeSlot(slot.id);
+      setSlots(prev => prev.filter(s => s.id !== slot.id));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Posting slots · {account.display_name}</DialogTitle>
+          <DialogDescription>
+            "Add to queue" puts posts into the next free slot. Times are in {timezone}.
+            Removing a slot moves queued posts up.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-primary" /></div>
+        ) : (
+          <div className="space-y-1.5">
+            {WEEK_ORDER.map(day => {
+              const daySlots = slots
+                .filter(s => s.weekday === day)
+                .sort((a, b) => a.slot_time.localeCompare(b.slot_time));
+              return (
+                <div key={day} className="flex items-center gap-3 text-sm">
+                  <span className="w-10 text-muted-foreground">{WEEKDAY_LABELS[day]}</span>
+                  <div className="flex flex-wrap gap-1.5">
+                    {daySlots.length === 0 && <span className="text-xs text-muted-foreground">—</span>}
+                    {daySlots.map(s => (
+                      <span key={s.id} className="inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs">
+                        {s.slot_time.slice(0, 5)}
+                        <button type="button" onClick={() => remove(s)} className="text-muted-foreground hover:text-destructive">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Label className="text-xs">Days</Label>
+              <Select value={preset} onValueChange={applyPreset}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="custom">Pick days</SelectItem>
+                  <SelectItem value="weekdays">Weekdays</SelectItem>
+                  <SelectItem value="mwf">Mon, Wed, Fri</SelectItem>
+                  <SelectItem value="daily">Every day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Time</Label>
+              <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} className="mt-1 w-32" />
+            </div>
+            <Button onClick={add} disabled={adding || !weekdays.length || !time}>
+              {adding ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+              Add
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {WEEK_ORDER.map(day => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={`px-2.5 py-1 rounded-md border text-xs ${weekdays.includes(day) ? 'border-primary bg-primary/10 text-primary' : 'text-muted-foreground'}`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
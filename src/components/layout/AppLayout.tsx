@@ -3,16 +3,22 @@ import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
 import { useAdmin } from "@/hooks/use-admin";
+import { PublishNotifier } from "./PublishNotifier";
 import { 
   LayoutDashboard, Calendar, Send, FileText, 
-  History, Settings, LogOut, Zap, Menu, X, ChevronRight, Users, UserPlus, ShieldCheck, BarChart3, Sparkles
+  History, Settings, LogOut, Zap, Menu, X, ChevronRight, Users, UserPlus, ShieldCheck, BarChart3, Sparkles, ClipboardCheck, Images, CalendarDays, Recycle, LifeBuoy
 } from "lucide-react";
 
 const navItems = [
   { label: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
   { label: "Compose", icon: Send, path: "/compose" },
   { label: "Queue", icon: Calendar, path: "/queue" },
+  { label: "Calendar", icon: CalendarDays, path: "/calendar" },
+  { label: "Evergreen", icon: Recycle, path: "/evergreen" },
+  { label: "Recovery", icon: LifeBuoy, path: "/recovery" },
+  { label: "Approvals", icon: ClipboardCheck, path: "/approvals" },
   { label: "Drafts", icon: FileText, path: "/drafts" },
+  { label: "Media", icon: Images, path: "/media" },
   { label: "Channels", icon: Users, path: "/channels" },
   { label: "Platforms", icon: Sparkles, path: "/platforms" },
   { label: "Analytics", icon: BarChart3, path: "/analytics" },
@@ -41,6 +47,7 @@ export const AppLayout = ({ children }: { children: ReactNode }) => {
 
   return (
     <div className="min-h-screen flex bg-background">
+      <PublishNotifier />
       {/* Mobile overlay */}
       {sidebarOpen && <div className="fixed inset-0 bg-foreground/50 z-40 lg:hidden" onClick={() => setSidebarOpen(false)} />}
 
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaceChanges } from "@/hooks/use-workspace-changes";
+import { ToastAction } from "@/components/ui/toast";
+
+type PostStatus = Database['public']['Enums']['post_status'];
+
+// Posts that haven't gone out yet. Realtime doesn't send the old row for
+// RLS-protected tables, so we remember which of the user's posts are still
+// on their way and toast when one lands in published or failed.
+const PENDING_STATUSES: PostStatus[] = ['pending_approval', 'approved', 'scheduled', 'publishing'];
+
+export const PublishNotifier = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const userId = useRef<string | null>(null);
+  const pending = useRef(new Set<string>());
+
+  useEffect(() => {
+    const init = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!membership) return;
+
+      const { data: posts } = await supabase
+        .from('posts')
+        .select('id')
+        .eq('workspace_id', membership.workspace_id)
+        .eq('created_by', user.id)
+        .in('status', PENDING_STATUSES);
+      pending.current = new Set((posts || []).map(p => p.id));
+      userId.current = user.id;
+      setWorkspaceId(membership.workspace_id);
+    };
+    init();
+  }, []);
+
+  useWorkspaceChanges(workspaceId, ({ table, row }) => {
+    if (table !== 'posts' || row.created_by !== userId.current) return;
+    const id = row.id as string;
+    const status = row.status as PostStatus;
+
+    if (PENDING_STATUSES.includes(status)) {
+      pending.current.add(id);
+      return;
+    }
+    if (!pending.current.delete(id)) return;
+
+    const title = (row.title as string | null) || 'Your post';
+    if (status === 'published') {
+      toast({ title: 'Published', description: `"${title}" is live` });
+    } else if (status === 'failed') {
+      toast({
+        title: 'Publishing failed',
+        description: `"${title}" could not be published`,
+        variant: 'destructive',
+        action: <ToastAction altText="Open recovery" onClick={() => navigate('/recovery')}>Review</ToastAction>,
+      });
+    }
+  });
+
+  return null;
+};
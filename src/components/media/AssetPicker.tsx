@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { FileVideo, Image, Loader2 } from "lucide-react";
+import { LibraryAsset, UploadedAsset, formatDuration, loadLibrary, signStoragePath } from "@/lib/assets";
+
+interface AssetPickerProps {
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (selected: UploadedAsset) => void;
+}
+
+// Dialog for reusing a file from the workspace media library in a composer
+export function AssetPicker({ workspaceId, open, onOpenChange, onSelect }: AssetPickerProps) {
+  const { handleError } = useErrorHandler();
+  const [assets, setAssets] = useState<LibraryAsset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [picking, setPicking] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    loadLibrary(workspaceId)
+      .then(setAssets)
+      .catch(handleError)
+      .finally(() => setLoading(false));
+  }, [open, workspaceId]);
+
+  const pick = async (asset: LibraryAsset) => {
+    setPicking(asset.id);
+    try {
+      const url = await signStoragePath(asset.original_storage_path);
+      onSelect({ asset, url, thumbnailUrl: asset.thumbnailUrl ?? undefined, reused: true });
+      onOpenChange(false);
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setPicking(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Media library</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+        ) : assets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">No media uploaded yet</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto">
+            {assets.map(asset => (
+              <button
+                key={asset.id}
+                type="button"
+                onClick={() => pick(asset)}
+                disabled={!!picking}
+                className="relative aspect-square rounded-lg overflow-hidden bg-muted border hover:ring-2 hover:ring-primary/50 transition-all"
+              >
+                {asset.thumbnailUrl ? (
+                  <img src={asset.thumbnailUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                ) : (
+                  <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                    {asset.type === 'video' ? <FileVideo className="w-6 h-6" /> : <Image className="w-6 h-6" />}
+                  </div>
+                )}
+                {asset.duration_seconds && (
+                  <Badge variant="secondary" className="absolute bottom-1 right-1 text-[10px] h-4 px-1">
+                    {formatDuration(Number(asset.duration_seconds))}
+                  </Badge>
+                )}
+                {picking === asset.id && (
+                  <div className="absolute inset-0 bg-background/60 flex items-center justify-center">
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Pause, Play, RotateCcw, WifiOff, X } from "lucide-react";
+import { QueuedUpload } from "@/hooks/use-upload-queue";
+import { formatFileSize } from "@/lib/assets";
+
+interface UploadQueueProps {
+  items: QueuedUpload[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+function statusText(item: QueuedUpload): string {
+  if (item.status === 'failed') return item.error || 'Upload failed';
+  if (item.status === 'paused') return 'Paused';
+  if (item.status === 'queued') return 'Waiting';
+  if (item.stalled === 'offline') return 'Waiting for the connection to come back';
+  if (item.stalled === 'retrying') return 'Retrying';
+  if (item.sent === 0) return 'Preparing';
+  return `${formatFileSize(item.sent)} of ${formatFileSize(item.file.size)}`;
+}
+
+// Byte progress and pause/resume/retry controls for useUploadQueue()
+export function UploadQueue({ items, onPause, onResume, onRemove }: UploadQueueProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={item.id} className="border rounded-lg p-3">
+          <div className="flex items-center gap-2">
+            {item.status === 'uploading' && (item.stalled === 'offline'
+              ? <WifiOff className="w-4 h-4 text-amber-500 shrink-0" />
+              : <Loader2 className="w-4 h-4 text-primary animate-spin shrink-0" />)}
+            <span className="text-sm font-medium truncate flex-1" title={item.file.name}>{item.file.name}</span>
+            {item.status === 'uploading' && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onPause(item.id)} title="Pause">
+                <Pause className="w-4 h-4" />
+              </Button>
+            )}
+            {item.status === 'paused' && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onResume(item.id)} title="Resume">
+                <Play className="w-4 h-4" />
+              </Button>
+            )}
+            {item.status === 'failed' && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onResume(item.id)} title="Retry">
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onRemove(item.id)} title="Cancel">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <Progress value={item.file.size ? (item.sent / item.file.size) * 100 : 0} className="h-1.5 mt-2" />
+          <p className={`text-xs mt-1 ${item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {statusText(item)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { ChevronDown, Loader2, Upload, X, AlertCircle, AlertTriangle, Image } from "lucide-react";
+import { PLATFORM_CONFIG, ProviderName } from "@/lib/social/types";
+import {
+  ChannelOverride,
+  ChannelVersion,
+  formatHashtags,
+  parseHashtags,
+  resolveChannelVersion,
+  validateChannelVersion,
+} from "@/lib/social/overrides";
+import { validateChannelMedia } from "@/lib/social/media-validation";
+import { UploadedAsset, formatFileSize, uploadAsset } from "@/lib/assets";
+import { PLANS, loadUploadLimit } from "@/lib/plans";
+import { AssetPicker } from "@/components/media/AssetPicker";
+import { YouTubeOptionsEditor } from "./YouTubeOptionsEditor";
+import { TikTokOptionsEditor } from "./TikTokOptionsEditor";
+import { InstagramOptionsEditor } from "./InstagramOptionsEditor";
+
+const ACCEPTED = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/quicktime', 'video/webm'];
+
+interface ChannelOverrideEditorProps {
+  workspaceId: string;
+  account: { id: string; platform: ProviderName; display_name: string };
+  base: ChannelVersion;
+  value: ChannelOverride | undefined;
+  onChange: (value: ChannelOverride) => void;
+  disabled?: boolean;
+}
+
+// Collapsible "customize for this channel" panel shown under each selected
+// account in the composers.
+export function ChannelOverrideEditor({ workspaceId, account, base, value, onChange, disabled }: ChannelOverrideEditorProps) {
+  const { handleError } = useErrorHandler();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [hashtagText, setHashtagText] = useState(formatHashtags(value?.hashtags));
+  const [uploading, setUploading] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [maxFileSize, setMaxFileSize] = useState(PLANS.free.maxUploadBytes);
+
+  useEffect(() => {
+    if (!open) return;
+    loadUploadLimit(workspaceId)
+      .then(setMaxFileSize)
+      .catch((err) => console.error("Error loading upload limit:", err));
+  }, [open, workspaceId]);
+
+  const override = value || {};
+  const config = PLATFORM_CONFIG[account.platform];
+  const version = resolveChannelVersion(base, value);
+  const error = validateChannelVersion(account.platform, version);
+  const mediaReport = validateChannelMedia(account.platform, version);
+  const customized = Object.values(override).some(v => Array.isArray(v) ? v.length > 0 : !!v);
+
+  const update = (patch: Partial<ChannelOverride>) => onChange({ ...override, ...patch });
+
+  const applyAsset = ({ asset, url }: UploadedAsset) => update({
+    media_url: url,
+    media_type: asset.type,
+    media_meta: {
+      width: asset.width ?? undefined,
+      height: asset.height ?? undefined,
+      durationSeconds: asset.duration_seconds != null ? Number(asset.duration_seconds) : undefined,
+      sizeBytes: asset.file_size_bytes ?? undefined,
+      mimeType: asset.mime,
+    },
+    asset_id: asset.id,
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!ACCEPTED.includes(file.type) || file.size > maxFileSize) {
+      handleError(new Error(`Use an image or MP4/MOV/WebM video up to ${formatFileSize(maxFileSize)}`));
+      return;
+    }
+    setUploading(true);
+    try {
+      applyAsset(await uploadAsset(workspaceId, file));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled}>
+            <ChevronDown className={`w-3 h-3 mr-1 transition-transform ${open ? 'rotate-180' : ''}`} />
+            Customize for {account.display_name}
+          </Button>
+        </CollapsibleTrigger>
+        {customized && <Badge variant="secondary" className="text-[10px] h-4">customized</Badge>}
+        {error && (
+          <span className="text-xs text-destructive flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" /> {error}
+          </span>
+        )}
+      </div>
+      {mediaReport && (mediaReport.errors.length > 0 || mediaReport.warnings.length > 0) && (
+        <ul className="mt-1 space-y-0.5">
+          {mediaReport.errors.map(issue => (
+            <li key={issue.code} className="text-xs text-destructive flex items-start gap-1">
+              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {issue.message}
+            </li>
+          ))}
+          {mediaReport.warnings.map(issue => (
+            <li key={issue.code} className="text-xs text-amber-600 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CollapsibleContent className="space-y-3 mt-2 p-3 border rounded-lg bg-muted/30">
+        <div>
+          <Label className="text-xs">Caption</Label>
+          <Textarea
+            value={override.content || ''}
+            onChange={(e) => update({ content: e.target.value })}
+            placeholder={base.content || 'Same as the main caption'}
+            className="mt-1 min-h-[80px] text-sm"
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            {version.content.length}/{config?.maxLength || 2200} characters (with hashtags)
+          </p>
+        </div>
+
+        {account.platform === 'youtube' && (
+          <div>
+            <Label className="text-xs">Video title</Label>
+            <Input
+              value={override.title || ''}
+              onChange={(e) => update({ title: e.target.value })}
+              placeholder="Defaults to the first line of the caption"
+              maxLength={100}
+              className="mt-1"
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        {account.platform === 'youtube' && (
+          <YouTubeOptionsEditor
+            workspaceId={workspaceId}
+            value={override.youtube}
+            onChange={(youtube) => update({ youtube })}
+            disabled={disabled}
+          />
+        )}
+
+        {account.platform === 'tiktok' && (
+          <TikTokOptionsEditor
+            accountId={account.id}
+            value={override.tiktok}
+            onChange={(tiktok) => update({ tiktok })}
+            durationSeconds={version.mediaMeta?.durationSeconds}
+            disabled={disabled}
+          />
+        )}
+
+        {account.platform === 'instagram' && (
+          <InstagramOptionsEditor
+            workspaceId={workspaceId}
+            value={override.instagram}
+            onChange={(instagram) => update({ instagram })}
+            mediaType={version.mediaType}
+            disabled={disabled}
+          />
+        )}
+
+        <div>
+          <Label className="text-xs">Hashtags</Label>
+          <Input
+            value={hashtagText}
+            onChange={(e) => {
+              setHashtagText(e.target.value);
+              update({ hashtags: parseHashtags(e.target.value) });
+            }}
+            placeholder="#launch #behindthescenes"
+            className="mt-1"
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <Label className="text-xs">Link</Label>
+          <Input
+            value={override.link_url || ''}
+            onChange={(e) => update({ link_url: e.target.value })}
+            placeholder={base.linkUrl || 'Same as the main link'}
+            className="mt-1"
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <Label className="text-xs">Media</Label>
+          {override.media_url ? (
+            <div className="mt-1 flex items-center gap-2 text-xs">
+              <Badge variant="outline" className="capitalize">{override.media_type}</Badge>
+              <span className="truncate flex-1 text-muted-foreground">{override.media_url.split('?')[0].split('/').pop()}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2"
+                onClick={() => update({ media_url: undefined, media_type: undefined, media_meta: undefined, asset_id: undefined })}
+                disabled={disabled}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ) : (
+            <div className="mt-1 flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInput.current?.click()}
+                disabled={disabled || uploading}
+              >
+                {uploading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+                Use different media
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPickerOpen(true)}
+                disabled={disabled || uploading}
+              >
+                <Image className="w-3 h-3 mr-1" /> Library
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {base.mediaUrl ? 'Otherwise uses the post media' : 'No media on the post'}
+              </span>
+              <input ref={fileInput} type="file" accept={ACCEPTED.join(',')} onChange={handleFile} className="hidden" />
+            </div>
+          )}
+        </div>
+      </CollapsibleContent>
+
+      <AssetPicker
+        workspaceId={workspaceId}
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        onSelect={applyAsset}
+      />
+    </Collapsible>
+  );
+}
@@ -0,0 +1,191 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { Loader2, Upload, X } from "lucide-react";
+import {
+  INSTAGRAM_COVER_MAX_BYTES,
+  INSTAGRAM_COVER_TYPES,
+  INSTAGRAM_MAX_COLLABORATORS,
+  INSTAGRAM_PLACEMENT_LABELS,
+  InstagramOptions,
+  InstagramPlacement,
+  parseUsernames,
+} from "@/lib/social/instagram";
+import { uploadAsset } from "@/lib/assets";
+
+interface InstagramOptionsEditorProps {
+  workspaceId: string;
+  value: InstagramOptions | undefined;
+  onChange: (value: InstagramOptions) => void;
+  // the media going to this account; cover and share-to-feed are Reels only
+  mediaType?: 'image' | 'video';
+  disabled?: boolean;
+}
+
+// Instagram section of ChannelOverrideEditor. A Story gets the media only,
+// so the post options are hidden when that's the sole placement.
+export function InstagramOptionsEditor({ workspaceId, value, onChange, mediaType, disabled }: InstagramOptionsEditorProps) {
+  const { handleError } = useErrorHandler();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [collaboratorText, setCollaboratorText] = useState((value?.collaborators || []).join(', '));
+  const [tagText, setTagText] = useState((value?.userTags || []).join(', '));
+  const [uploading, setUploading] = useState(false);
+
+  const options = value || {};
+  const update = (patch: Partial<InstagramOptions>) => onChange({ ...options, ...patch });
+  const placement = options.placement || 'feed';
+  const isReel = mediaType === 'video';
+
+  const handleCover = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!INSTAGRAM_COVER_TYPES.includes(file.type) || file.size > INSTAGRAM_COVER_MAX_BYTES) {
+      handleError(new Error('Reel covers must be a JPEG up to 8MB'));
+      return;
+    }
+    setUploading(true);
+    try {
+      const { url } = await uploadAsset(workspaceId, file);
+      update({ coverUrl: url, thumbOffsetMs: undefined });
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="text-xs">Publish as</Label>
+        <Select value={placement} onValueChange={(next) => update({ placement: next as InstagramPlacement })} disabled={disabled}>
+          <SelectTrigger className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(INSTAGRAM_PLACEMENT_LABELS) as InstagramPlacement[]).map(key => (
+              <SelectItem key={key} value={key}>{INSTAGRAM_PLACEMENT_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {placement !== 'feed' && (
+          <p className="text-xs text-muted-foreground mt-1">Stories show the media only, without the caption</p>
+        )}
+      </div>
+
+      {placement !== 'story' && (
+        <>
+          {isReel && (
+            <>
+              <div>
+                <Label className="text-xs">Cover</Label>
+                {options.coverUrl ? (
+                  <div className="mt-1 flex items-center gap-2">
+                    <img src={options.coverUrl} alt="" className="h-16 aspect-[9/16] object-cover rounded border" />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2"
+                      onClick={() => update({ coverUrl: undefined })}
+                      disabled={disabled}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="mt-1 flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fileInput.current?.click()}
+                      disabled={disabled || uploading}
+                    >
+                      {uploading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+                      Cover image
+                    </Button>
+                    <span className="text-xs text-muted-foreground">or frame at</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={options.thumbOffsetMs !== undefined ? options.thumbOffsetMs / 1000 : ''}
+                      onChange={(e) => update({
+                        thumbOffsetMs: e.target.value === '' ? undefined : Math.max(0, Math.round(Number(e.target.value) * 1000)),
+                      })}
+                      placeholder="0"
+                      className="w-20 h-8"
+                      disabled={disabled}
+                    />
+                    <span className="text-xs text-muted-foreground">s</span>
+                    <input
+                      ref={fileInput}
+                      type="file"
+                      accept={INSTAGRAM_COVER_TYPES.join(',')}
+                      onChange={handleCover}
+                      className="hidden"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={options.shareToFeed ?? true}
+                  onCheckedChange={(shareToFeed) => update({ shareToFeed })}
+                  disabled={disabled}
+                />
+                <Label className="text-xs">Also show the Reel in the profile grid</Label>
+              </div>
+            </>
+          )}
+
+          <div>
+            <Label className="text-xs">Collaborators</Label>
+            <Input
+              value={collaboratorText}
+              onChange={(e) => {
+                setCollaboratorText(e.target.value);
+                update({ collaborators: parseUsernames(e.target.value) });
+              }}
+              placeholder={`Up to ${INSTAGRAM_MAX_COLLABORATORS} usernames, e.g. @partner`}
+              className="mt-1"
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground mt-1">They get an invite; the post shows on their profile once accepted</p>
+          </div>
+
+          <div>
+            <Label className="text-xs">Tag people</Label>
+            <Input
+              value={tagText}
+              onChange={(e) => {
+                setTagText(e.target.value);
+                update({ userTags: parseUsernames(e.target.value) });
+              }}
+              placeholder="@friend @brand"
+              className="mt-1"
+              disabled={disabled}
+            />
+          </div>
+
+          <div>
+            <Label className="text-xs">Location ID</Label>
+            <Input
+              value={options.locationId || ''}
+              onChange={(e) => update({ locationId: e.target.value })}
+              placeholder="Facebook Page ID of the place"
+              inputMode="numeric"
+              className="mt-1"
+              disabled={disabled}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  RecurrenceFreq,
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  defaultRule,
+  describeRecurrence,
+} from "@/lib/recurrence";
+import { Repeat } from "lucide-react";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  // First occurrence, used to seed the weekday / day of month
+  startDay: string;
+  disabled?: boolean;
+}
+
+type EndKind = 'never' | 'count' | 'until';
+
+// "Repeat" controls under the schedule date and time
+export function RecurrenceEditor({ value, onChange, startDay, disabled }: RecurrenceEditorProps) {
+  const update = (patch: Partial<RecurrenceRule>) => value && onChange({ ...value, ...patch });
+  const endKind: EndKind = value?.count ? 'count' : value?.until ? 'until' : 'never';
+
+  const setFreq = (freq: string) => {
+    if (freq === 'none') onChange(null);
+    else onChange({ ...defaultRule(freq as RecurrenceFreq, startDay), count: value?.count ?? null, until: value?.until ?? null });
+  };
+
+  const setEnd = (kind: EndKind) => update({
+    count: kind === 'count' ? value?.count || 10 : null,
+    until: kind === 'until' ? value?.until || startDay : null,
+  });
+
+  const toggleWeekday = (day: number) => value && update({
+    byWeekday: value.byWeekday.includes(day) ? value.byWeekday.filter(d => d !== day) : [...value.byWeekday, day],
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Repeat</Label>
+          <Select value={value?.freq ?? 'none'} onValueChange={setFreq} disabled={disabled}>
+            <SelectTrigger className="mt-1.5">
+              <Repeat className="w-4 h-4 mr-2 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value && (
+          <div>
+            <Label>Every</Label>
+            <div className="flex items-center gap-2 mt-1.5">
+              <Input
+                type="number"
+                min={1}
+                max={365}
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">
+                {value.freq === 'daily' ? 'day(s)' : value.freq === 'weekly' ? 'week(s)' : 'month(s)'}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value?.freq === 'weekly' && (
+        <div className="flex flex-wrap gap-1.5">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              disabled={disabled}
+              className={`px-2.5 py-1 rounded-md border text-xs ${value.byWeekday.includes(day) ? 'border-primary bg-primary/10 text-primary' : 'text-muted-foreground'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.freq === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">On day</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            value={value.byMonthDay ?? 1}
+            onChange={(e) => update({ byMonthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+            disabled={disabled}
+            className="w-20"
+          />
+          <span className="text-muted-foreground">of the month</span>
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Ends</span>
+          <Select value={endKind} onValueChange={(v) => setEnd(v as EndKind)} disabled={disabled}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="count">After</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+            </SelectContent>
+          </Select>
+          {endKind === 'count' && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                value={value.count ?? 1}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+                className="w-20"
+              />
+              <span className="text-muted-foreground">occurrences</span>
+            </>
+          )}
+          {endKind === 'until' && (
+            <Input
+              type="date"
+              value={value.until ?? ''}
+              min={startDay || undefined}
+              onChange={(e) => update({ until: e.target.value || null })}
+              disabled={disabled}
+              className="w-40"
+            />
+          )}
+        </div>
+      )}
+
+      {value && <p className="text-xs text-muted-foreground">{describeRecurrence(value)}, starting with the first post above.</p>}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,15 +8,51 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
-import { Calendar, Clock, Upload, X, Loader2, AlertCircle, CheckCircle } from "lucide-react";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { requiresApproval } from "@/lib/approvals";
+import { ProviderName } from "@/lib/social/types";
+import {
+  ChannelOverride,
+  ChannelVersion,
+  compactOverrides,
+  resolveChannelVersion,
+  validateChannelVersion,
+} from "@/lib/social/overrides";
+import { ChannelOverrideEditor } from "./ChannelOverrideEditor";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { AssetPicker } from "@/components/media/AssetPicker";
+import { UploadQueue } from "@/components/media/UploadQueue";
+import { summarizeMediaIssues, validateChannelMedia } from "@/lib/social/media-validation";
+import { UploadedAsset, formatFileSize, loadAsset } from "@/lib/assets";
+import { PLANS } from "@/lib/plans";
+import { MOVABLE_STATUSES } from "@/lib/calendar";
+import {
+  PostRecurrence,
+  RecurrenceRule,
+  describeRecurrence,
+  recurrenceColumns,
+  ruleFromRow,
+  saveRecurrence,
+  validateRule,
+} from "@/lib/recurrence";
+import {
+  browserTimeZone,
+  dateKey,
+  formatScheduled,
+  listTimeZones,
+  timeKey,
+  zonedTimeToUtc,
+} from "@/lib/timezone";
+import { PostingSlot, addPostToQueue, describeSlots, loadSlots } from "@/lib/slots";
+import { Calendar, Clock, Upload, X, Loader2, AlertCircle, CheckCircle, ClipboardCheck, Image, Globe, ListOrdered } from "lucide-react";
 
 interface SocialAccount {
   id: string;
-  platform: string;
+  platform: ProviderName;
   display_name: string;
   handle: string | null;
   status: string;
@@ -24,16 +60,35 @@ interface SocialAccount {
 
 interface UploadedMedia {
   url: string;
+  // Missing on posts saved before the media library existed
+  assetId?: string;
   type: 'image' | 'video';
   width?: number;
   height?: number;
   duration?: number;
+  size?: number;
+  mime?: string;
+}
+
+// posts.per_channel_overrides as written by schedule() below
+interface SavedOverrides {
+  media_url?: string;
+  media_type?: string;
+  media_meta?: { width?: number; height?: number; durationSeconds?: number };
+  accounts?: Record<string, ChannelOverride>;
 }
 
-const MAX_FILE_SIZE = 100 * 1024 * 1024;
 const ACCEPTED = ['image/jpeg','image/png','image/gif','image/webp','video/mp4','video/quicktime','video/webm'];
 
-export function SchedulePost({ workspaceId }: { workspaceId: string }) {
+interface SchedulePostProps {
+  workspaceId: string;
+  // Prefilled publish time, e.g. a slot clicked in the calendar
+  initialAt?: string;
+  // Scheduled post to load back into the form; saving updates it in place
+  editPostId?: string;
+}
+
+export function SchedulePost({ workspaceId, initialAt, editPostId }: SchedulePostProps) {
   const { toast } = useToast();
   const { handleError } = useErrorHandler();
   const navigate = useNavigate();
@@ -45,10 +100,29 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
   const [linkUrl, setLinkUrl] = useState("");
   const [date, setDate] = useState("");
   const [time, setTime] = useState("");
+  // Date and time are wall-clock values in this zone, not the browser's
+  const [timezone, setTimezone] = useState(browserTimeZone);
+  const [workspaceTimezone, setWorkspaceTimezone] = useState<string | null>(null);
   const [media, setMedia] = useState<UploadedMedia | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [saving, setSaving] = useState(false);
+  const [role, setRole] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, ChannelOverride>>({});
+  const [pickerOpen, setPickerOpen] = useState(false);
+  // Registered in the media library; the same file is only stored once
+  const uploads = useUploadQueue(workspaceId, (uploaded) => {
+    applyAsset(uploaded);
+    toast({ title: uploaded.reused ? 'Already in your library' : 'Upload complete' });
+  });
+  const uploading = uploads.busy;
+  const maxFileSize = uploads.maxBytes ?? PLANS.free.maxUploadBytes;
+  // updated_at of the post as loaded, so a concurrent change isn't overwritten
+  const [loadedAt, setLoadedAt] = useState<string | null>(null);
+  const [loadingPost, setLoadingPost] = useState(!!editPostId);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [hadRecurrence, setHadRecurrence] = useState(false);
+  // 'queue' drops the post into each channel's next free posting slot
+  const [placement, setPlacement] = useState<'time' | 'queue'>('time');
+  const [slots, setSlots] = useState<PostingSlot[]>([]);
 
   useEffect(() => {
     (async () => {
@@ -58,73 +132,179 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
         .eq('workspace_id', workspaceId)
         .eq('status', 'connected');
       setAccounts((data as any) || []);
+
+      const { data: workspace } = await supabase
+        .from('workspaces')
+        .select('timezone')
+        .eq('id', workspaceId)
+        .single();
+      const zone = workspace?.timezone || browserTimeZone();
+      setWorkspaceTimezone(zone);
+      if (!editPostId) {
+        setTimezone(zone);
+        const initial = initialAt && !isNaN(Date.parse(initialAt)) ? new Date(initialAt) : null;
+        if (initial) {
+          setDate(dateKey(initial, zone));
+          setTime(timeKey(initial, zone));
+        }
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('role')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      setRole(membership?.role ?? null);
+
+      setSlots(await loadSlots(workspaceId).catch(() => []));
     })();
   }, [workspaceId]);
 
-  const probeVideo = (file: File) => new Promise<{width:number;height:number;duration:number}>((resolve, reject) => {
-    const v = document.createElement('video');
-    v.preload = 'metadata';
-    v.onloadedmetadata = () => resolve({ width: v.videoWidth, height: v.videoHeight, duration: v.duration });
-    v.onerror = () => reject(new Error('video probe failed'));
-    v.src = URL.createObjectURL(file);
-  });
+  useEffect(() => {
+    if (!editPostId) return;
+    (async () => {
+      setLoadingPost(true);
+      try {
+        const { data: post, error } = await supabase
+          .from('posts')
+          .select('id, status, body_text, link_url, asset_id, scheduled_at, timezone, updated_at, per_channel_overrides, post_targets ( social_account_id, status ), workspaces ( timezone ), post_recurrences ( * )')
+          .eq('id', editPostId)
+          .single();
+        if (error) throw error;
+        if (!MOVABLE_STATUSES.includes(post.status)) {
+          toast({ title: 'This post can no longer be edited', description: `It is ${post.status.replace('_', ' ')}`, variant: 'destructive' });
+          navigate('/queue');
+          return;
+        }
+
+        const perChannel = (post.per_channel_overrides || {}) as unknown as SavedOverrides;
+        setContent(post.body_text || "");
+        setLinkUrl(post.link_url || "");
+        const zone = post.timezone || post.workspaces?.timezone || browserTimeZone();
+        setTimezone(zone);
+        if (post.scheduled_at) {
+          setDate(dateKey(new Date(post.scheduled_at), zone));
+          setTime(timeKey(new Date(post.scheduled_at), zone));
+        }
+        // Repeating posts carry a target per occurrence; the rule has the channel list
+        const rule = post.post_recurrences as unknown as PostRecurrence | null;
+        setSelected(rule
+          ? rule.social_account_ids
+          : [...new Set(post.post_targets.filter(t => t.status !== 'skipped').map(t => t.social_account_id))]);
+        setRecurrence(rule ? ruleFromRow(rule) : null);
+        setHadRecurrence(!!rule);
+        setOverrides(perChannel.accounts || {});
+        setLoadedAt(post.updated_at);
 
-  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (post.asset_id) {
+          applyAsset(await loadAsset(post.asset_id));
+        } else if (perChannel.media_url) {
+          setMedia({
+            url: perChannel.media_url,
+            type: perChannel.media_type === 'video' ? 'video' : 'image',
+            width: perChannel.media_meta?.width,
+            height: perChannel.media_meta?.height,
+            duration: perChannel.media_meta?.durationSeconds,
+          });
+        }
+      } catch (err) {
+        handleError(err);
+      } finally {
+        setLoadingPost(false);
+      }
+    })();
+  }, [editPostId]);
+
+  const needsApproval = role !== null && requiresApproval(role);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (fileInput.current) fileInput.current.value = '';
     if (!file) return;
     if (!ACCEPTED.includes(file.type)) {
       toast({ title: 'Invalid file type', variant: 'destructive' }); return;
     }
-    if (file.size > MAX_FILE_SIZE) {
-      toast({ title: 'File too large', description: 'Max 100MB', variant: 'destructive' }); return;
-    }
-    setUploading(true); setProgress(10);
-    try {
-      const isVideo = file.type.startsWith('video/');
-      let meta: any = {};
-      if (isVideo) { try { meta = await probeVideo(file); } catch {} }
-      setProgress(30);
-      const ext = file.name.split('.').pop();
-      const path = `${workspaceId}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
-      const iv = setInterval(() => setProgress(p => Math.min(p + 10, 90)), 200);
-      const { data, error } = await supabase.storage.from('social-media').upload(path, file);
-      clearInterval(iv);
-      if (error) throw error;
-      // Private bucket — signed URL for preview + publish (backend re-signs)
-      const { data: signed, error: signErr } = await supabase.storage
-        .from('social-media')
-        .createSignedUrl(data.path, 60 * 60 * 24);
-      if (signErr || !signed?.signedUrl) throw signErr || new Error('Could not sign upload URL');
-      setProgress(100);
-      setMedia({ url: signed.signedUrl, type: isVideo ? 'video' : 'image', ...meta });
-      toast({ title: 'Upload complete' });
-    } catch (err) {
-      handleError(err);
-    } finally {
-      setUploading(false); setProgress(0);
-      if (fileInput.current) fileInput.current.value = '';
+    if (file.size > maxFileSize) {
+      toast({ title: 'File too large', description: `Max ${formatFileSize(maxFileSize)} on your plan`, variant: 'destructive' }); return;
     }
+    uploads.add([file]);
   };
 
-  const removeMedia = async () => {
-    if (media) {
-      const parts = media.url.split('/social-media/');
-      if (parts[1]) await supabase.storage.from('social-media').remove([parts[1].split('?')[0]]);
-    }
-    setMedia(null);
+  const applyAsset = ({ asset, url }: UploadedAsset) => setMedia({
+    url,
+    assetId: asset.id,
+    type: asset.type,
+    width: asset.width ?? undefined,
+    height: asset.height ?? undefined,
+    duration: asset.duration_seconds != null ? Number(asset.duration_seconds) : undefined,
+    size: asset.file_size_bytes ?? undefined,
+    mime: asset.mime,
+  });
+
+  // Detach only — the file stays in the media library
+  const removeMedia = () => setMedia(null);
+
+  const baseVersion: ChannelVersion = {
+    content,
+    linkUrl: linkUrl || undefined,
+    mediaUrl: media?.url,
+    mediaType: media?.type,
+    mediaMeta: media ? {
+      width: media.width,
+      height: media.height,
+      durationSeconds: media.duration,
+      sizeBytes: media.size,
+      mimeType: media.mime,
+    } : undefined,
+    assetId: media?.assetId,
   };
 
+  // The instant the picked wall time happens in the chosen zone. A time that
+  // a DST jump skips resolves to the same wall time after the jump.
+  const scheduledInstant = /^\d{4}-\d{2}-\d{2}$/.test(date) && /^\d{2}:\d{2}$/.test(time)
+    ? zonedTimeToUtc(date, time, timezone)
+    : null;
+  const skippedByDst = !!scheduledInstant && timeKey(scheduledInstant, timezone) !== time;
+
   const toggle = (id: string) => setSelected(s => s.includes(id) ? s.filter(x => x !== id) : [...s, id]);
 
   const schedule = async () => {
     if (!content.trim()) { toast({ title: 'Content required', variant: 'destructive' }); return; }
     if (selected.length === 0) { toast({ title: 'Pick at least one channel', variant: 'destructive' }); return; }
-    if (!date || !time) { toast({ title: 'Pick a date and time', variant: 'destructive' }); return; }
+    const queued = placement === 'queue' && !editPostId;
+    if (queued) {
+      const unslotted = accounts.filter(a => selected.includes(a.id) && !slots.some(s => s.social_account_id === a.id));
+      if (unslotted.length) {
+        toast({ title: 'No posting slots', description: `Add slots on the Channels page for ${unslotted.map(a => a.display_name).join(', ')}`, variant: 'destructive' }); return;
+      }
+    } else if (!date || !time) { toast({ title: 'Pick a date and time', variant: 'destructive' }); return; }
+    const ruleError = !queued && recurrence && validateRule(recurrence);
+    if (ruleError) { toast({ title: ruleError, variant: 'destructive' }); return; }
 
-    const scheduledAt = new Date(`${date}T${time}`);
-    if (isNaN(scheduledAt.getTime())) { toast({ title: 'Invalid date/time', variant: 'destructive' }); return; }
-    if (scheduledAt.getTime() < Date.now() + 30_000) {
-      toast({ title: 'Pick a time at least 30 seconds in the future', variant: 'destructive' }); return;
+    const channelErrors: string[] = [];
+    const mediaWarnings: string[] = [];
+    for (const a of accounts.filter(a => selected.includes(a.id))) {
+      const version = resolveChannelVersion(baseVersion, overrides[a.id]);
+      const error = validateChannelVersion(a.platform, version);
+      if (error) channelErrors.push(`${a.display_name}: ${error}`);
+      const report = validateChannelMedia(a.platform, version);
+      if (report?.errors.length) channelErrors.push(`${a.display_name}: ${summarizeMediaIssues(report.errors)}`);
+      for (const w of report?.warnings || []) mediaWarnings.push(`${a.display_name}: ${w.message}`);
+    }
+    if (channelErrors.length) {
+      toast({ title: 'Fix these channels first', description: channelErrors.join('. '), variant: 'destructive' }); return;
+    }
+    if (mediaWarnings.length && !confirm(`${editPostId ? 'Save' : 'Schedule'} anyway?\n\n${mediaWarnings.join('\n')}`)) return;
+
+    const scheduledAt = scheduledInstant;
+    if (!queued) {
+      if (!scheduledAt) { toast({ title: 'Invalid date/time', variant: 'destructive' }); return; }
+      if (scheduledAt.getTime() < Date.now() + 30_000) {
+        toast({ title: 'Pick a time at least 30 seconds in the future', variant: 'destructive' }); return;
+      }
     }
 
     setSaving(true);
@@ -137,24 +317,51 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
         perChannel.media_url = media.url;
         perChannel.media_type = media.type;
         if (media.width || media.height || media.duration) {
-          perChannel.media_meta = {
-            width: media.width,
-            height: media.height,
-            durationSeconds: media.duration,
-          };
+          perChannel.media_meta = baseVersion.mediaMeta;
         }
       }
 
+      const channelOverrides = compactOverrides(overrides, selected);
+      if (Object.keys(channelOverrides).length) perChannel.accounts = channelOverrides;
+
+      if (editPostId && scheduledAt) {
+        // Targets and jobs are reconciled server-side in one transaction
+        const { data: result, error: editErr } = await supabase.rpc('update_scheduled_post', {
+          p_post_id: editPostId,
+          p_body_text: content,
+          p_link_url: linkUrl || null,
+          p_asset_id: media?.assetId ?? null,
+          p_per_channel_overrides: perChannel,
+          p_scheduled_at: scheduledAt.toISOString(),
+          p_account_ids: selected,
+          p_expected_updated_at: loadedAt ?? undefined,
+          p_timezone: timezone,
+          // The repeat rule is saved (or ended) in the same transaction
+          p_recurrence: recurrence ? recurrenceColumns({ rule: recurrence, startsOn: date, timeOfDay: time, timezone }) : undefined,
+          p_end_recurrence: !recurrence && hadRecurrence,
+        });
+        if (editErr) throw editErr;
+        const { status } = (result || {}) as { status?: string };
+        toast(status === 'pending_approval'
+          ? { title: 'Changes saved', description: 'The post needs approval again before it publishes' }
+          : { title: 'Changes saved', description: `Will publish at ${formatScheduled(scheduledAt, timezone)}` });
+        navigate('/queue');
+        return;
+      }
+
       const { data: post, error: postErr } = await supabase
         .from('posts')
         .insert({
           workspace_id: workspaceId,
           created_by: user.id,
-          status: 'scheduled',
+          status: needsApproval ? 'pending_approval' : 'scheduled',
           title: content.split('\n')[0].slice(0, 120),
           body_text: content,
           link_url: linkUrl || null,
-          scheduled_at: scheduledAt.toISOString(),
+          asset_id: media?.assetId ?? null,
+          // Queued posts take the earliest slot time from add_post_to_queue()
+          scheduled_at: scheduledAt?.toISOString() ?? null,
+          timezone,
           per_channel_overrides: perChannel,
         })
         .select()
@@ -173,6 +380,28 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
         .select();
       if (tErr) throw tErr;
 
+      if (queued) {
+        const placed = await addPostToQueue(post.id);
+        if (needsApproval) {
+          const { error: aErr } = await supabase
+            .from('approvals')
+            .insert({ post_id: post.id, requested_by: user.id, status: 'pending' as const });
+          if (aErr) throw aErr;
+        }
+        const times = placed.map(p => {
+          const name = accounts.find(a => a.id === p.social_account_id)?.display_name ?? 'Channel';
+          return `${name}: ${formatScheduled(new Date(p.run_at), timezone)}`;
+        });
+        toast({
+          title: needsApproval ? 'Queued, pending approval' : 'Added to queue',
+          description: times.join(' · '),
+        });
+        setContent(""); setLinkUrl(""); setSelected([]); setMedia(null); setOverrides({});
+        navigate('/queue');
+        return;
+      }
+      if (!scheduledAt) return;
+
       const { error: jErr } = await supabase
         .from('publish_jobs')
         .insert((targets || []).map((t: any) => ({
@@ -183,8 +412,24 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
         })));
       if (jErr) throw jErr;
 
-      toast({ title: 'Scheduled', description: `${targets?.length ?? 0} channels queued for ${scheduledAt.toLocaleString()}` });
-      setContent(""); setLinkUrl(""); setDate(""); setTime(""); setSelected([]); setMedia(null);
+      if (recurrence) {
+        await saveRecurrence({
+          postId: post.id, rule: recurrence,
+          startsOn: date, timeOfDay: time, timezone, accountIds: selected,
+        });
+      }
+      const repeats = recurrence ? ` · ${describeRecurrence(recurrence)}` : '';
+
+      if (needsApproval) {
+        const { error: aErr } = await supabase
+          .from('approvals')
+          .insert({ post_id: post.id, requested_by: user.id, status: 'pending' as const });
+        if (aErr) throw aErr;
+        toast({ title: 'Submitted for approval', description: `Will publish at ${formatScheduled(scheduledAt, timezone)} once approved${repeats}` });
+      } else {
+        toast({ title: 'Scheduled', description: `${targets?.length ?? 0} channels queued for ${formatScheduled(scheduledAt, timezone)}${repeats}` });
+      }
+      setContent(""); setLinkUrl(""); setDate(""); setTime(""); setSelected([]); setMedia(null); setOverrides({}); setRecurrence(null);
       navigate('/queue');
     } catch (err) {
       handleError(err);
@@ -193,11 +438,13 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
     }
   };
 
-  const minDate = new Date().toISOString().split('T')[0];
+  const minDate = dateKey(new Date(), timezone);
+  const viewerTimezone = browserTimeZone();
+  const timezones = useMemo(listTimeZones, []);
 
   return (
     <Card>
-      <CardHeader><CardTitle>Schedule Post</CardTitle></CardHeader>
+      <CardHeader><CardTitle>{editPostId ? 'Edit Scheduled Post' : 'Schedule Post'}</CardTitle></CardHeader>
       <CardContent className="space-y-6">
         <div>
           <Label>Content</Label>
@@ -217,17 +464,23 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
 
         <div>
           <Label>Media (optional)</Label>
-          {!media ? (
+          {!media && !uploading && (
             <div
               onClick={() => fileInput.current?.click()}
               className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:border-primary/50 transition-colors cursor-pointer mt-1.5"
             >
               <Upload className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
               <p className="font-medium">Drop media here or click to upload</p>
-              <p className="text-sm text-muted-foreground mt-1">Images or MP4/MOV/WebM up to 100MB</p>
+              <p className="text-sm text-muted-foreground mt-1">Images or MP4/MOV/WebM up to {formatFileSize(maxFileSize)}</p>
               <input ref={fileInput} type="file" accept={ACCEPTED.join(',')} onChange={handleFile} className="hidden" />
             </div>
-          ) : (
+          )}
+          {!media && (
+            <Button variant="link" size="sm" className="px-0 mt-1" onClick={() => setPickerOpen(true)} disabled={uploading}>
+              <Image className="w-4 h-4 mr-1" /> Choose from media library
+            </Button>
+          )}
+          {media && (
             <div className="mt-1.5 p-3 border rounded-lg flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <CheckCircle className="w-5 h-5 text-primary" />
@@ -241,7 +494,11 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
               <Button variant="ghost" size="sm" onClick={removeMedia}><X className="w-4 h-4" /></Button>
             </div>
           )}
-          {uploading && <Progress value={progress} className="mt-2" />}
+          {uploading && (
+            <div className="mt-1.5">
+              <UploadQueue items={uploads.items} onPause={uploads.pause} onResume={uploads.resume} onRemove={uploads.remove} />
+            </div>
+          )}
         </div>
 
         <div>
@@ -264,8 +521,62 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
               ))}
             </div>
           )}
+          {selected.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {accounts.filter(a => selected.includes(a.id)).map(a => (
+                <ChannelOverrideEditor
+                  key={a.id}
+                  workspaceId={workspaceId}
+                  account={a}
+                  base={baseVersion}
+                  value={overrides[a.id]}
+                  onChange={(value) => setOverrides(prev => ({ ...prev, [a.id]: value }))}
+                  disabled={saving}
+                />
+              ))}
+            </div>
+          )}
         </div>
 
+        {!editPostId && (
+          <div>
+            <Label>When</Label>
+            <div className="grid grid-cols-2 gap-2 mt-1.5">
+              <Button variant={placement === 'time' ? 'default' : 'outline'} onClick={() => setPlacement('time')} disabled={saving}>
+                <Clock className="w-4 h-4 mr-2" />Pick a time
+              </Button>
+              <Button variant={placement === 'queue' ? 'default' : 'outline'} onClick={() => setPlacement('queue')} disabled={saving}>
+                <ListOrdered className="w-4 h-4 mr-2" />Add to queue
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {placement === 'queue' && !editPostId ? (
+          <div className="space-y-1.5">
+            {selected.length === 0 && (
+              <p className="text-sm text-muted-foreground">Pick channels to see their posting slots.</p>
+            )}
+            {accounts.filter(a => selected.includes(a.id)).map(a => {
+              const accountSlots = slots.filter(s => s.social_account_id === a.id);
+              return (
+                <div key={a.id} className="flex items-center justify-between gap-3 text-sm p-2 border rounded-lg">
+                  <span className="font-medium truncate">{a.display_name}</span>
+                  {accountSlots.length ? (
+                    <span className="text-xs text-muted-foreground">{describeSlots(accountSlots)}</span>
+                  ) : (
+                    <span className="text-xs text-destructive">No slots · <a href="/channels" className="underline">set them up</a></span>
+                  )}
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              Each channel gets its next free slot{workspaceTimezone ? ` (times in ${workspaceTimezone})` : ''}.
+              When a queued post is removed, the ones behind it move up.
+            </p>
+          </div>
+        ) : (
+        <>
         <div className="grid grid-cols-2 gap-4">
           <div>
             <Label>Date</Label>
@@ -283,23 +594,72 @@ export function SchedulePost({ workspaceId }: { workspaceId: string }) {
           </div>
         </div>
 
+        <div>
+          <Label>Timezone</Label>
+          <Select value={timezone} onValueChange={setTimezone} disabled={saving}>
+            <SelectTrigger className="mt-1.5">
+              <Globe className="w-4 h-4 mr-2 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timezones.map(tz => (
+                <SelectItem key={tz} value={tz}>
+                  {tz.replace(/_/g, ' ')}{tz === workspaceTimezone ? ' (workspace default)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {scheduledInstant && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Publishes {formatScheduled(scheduledInstant, timezone)}
+              {viewerTimezone !== timezone && ` · ${formatScheduled(scheduledInstant, viewerTimezone)} for you`}
+            </div>
+          )}
+          {skippedByDst && (
+            <div className="text-xs text-amber-600 mt-1">
+              {time} doesn't exist on this day in {timezone} because the clocks go forward. The post will go out at {timeKey(scheduledInstant, timezone)} instead.
+            </div>
+          )}
+        </div>
+
+        <RecurrenceEditor value={recurrence} onChange={setRecurrence} startDay={date} disabled={saving} />
+        </>
+        )}
+
+        {needsApproval && (
+          <Alert>
+            <ClipboardCheck className="w-4 h-4" />
+            <AlertDescription>
+              Your posts need sign-off from an approver before they go live. If approval
+              comes after the scheduled time, the post publishes as soon as it is approved.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Alert>
           <AlertCircle className="w-4 h-4" />
           <AlertDescription>
-            Scheduled posts publish automatically at the specified time (interpreted in your browser's timezone).
+            Scheduled posts publish automatically at the specified time in the timezone above, which defaults to the workspace's.
             A background worker runs every minute — small delays are normal.
           </AlertDescription>
         </Alert>
 
         <Button
           onClick={schedule}
-          disabled={saving || uploading || accounts.length === 0}
+          disabled={saving || uploading || loadingPost || accounts.length === 0}
           className="w-full bg-gradient-primary hover:opacity-90"
         >
           {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Calendar className="w-4 h-4 mr-2" />}
-          Schedule Post
+          {editPostId ? 'Save Changes' : needsApproval ? 'Submit for Approval' : placement === 'queue' ? 'Add to Queue' : 'Schedule Post'}
         </Button>
       </CardContent>
+
+      <AssetPicker
+        workspaceId={workspaceId}
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        onSelect={applyAsset}
+      />
     </Card>
   );
 }
@@ -9,7 +9,6 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Progress } from "@/components/ui/progress";
 import {
   Dialog,
   DialogContent,
@@ -18,11 +17,26 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
+import { TargetProgress, usePublishProgress } from "@/hooks/use-publish-progress";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
 import { 
-  Send, Loader2, AlertCircle, CheckCircle, Link2, Image, 
+  Send, Loader2, AlertCircle, AlertTriangle, CheckCircle, Link2, Image, 
   Instagram, Facebook, Linkedin, Twitter, Video, MessageCircle, Cloud, Upload, X, Youtube, FileVideo, Play, RefreshCw
 } from "lucide-react";
 import { PLATFORM_CONFIG, ProviderName } from "@/lib/social/types";
+import {
+  ChannelOverride,
+  ChannelVersion,
+  compactOverrides,
+  resolveChannelVersion,
+  validateChannelVersion,
+} from "@/lib/social/overrides";
+import { ChannelOverrideEditor } from "./ChannelOverrideEditor";
+import { summarizeMediaIssues, validateChannelMedia } from "@/lib/social/media-validation";
+import { AssetPicker } from "@/components/media/AssetPicker";
+import { UploadQueue } from "@/components/media/UploadQueue";
+import { UploadedAsset, formatDuration, formatFileSize } from "@/lib/assets";
+import { PLANS } from "@/lib/plans";
 
 interface SocialAccount {
   id: string;
@@ -40,11 +54,13 @@ interface PublishResult {
   postId?: string;
   postUrl?: string;
   error?: string;
+  errorCode?: string;
   needsReconnect?: boolean;
 }
 
 interface UploadedMedia {
   url: string;
+  assetId: string;
   type: 'image' | 'video';
   name: string;
   size: number;
@@ -52,6 +68,7 @@ interface UploadedMedia {
   duration?: number;
   width?: number;
   height?: number;
+  mime?: string;
 }
 
 const platformIcons: Record<string, React.ReactNode> = {
@@ -65,9 +82,25 @@ const platformIcons: Record<string, React.ReactNode> = {
   bluesky: <Cloud className="w-4 h-4" />,
 };
 
+const PHASE_LABELS: Record<string, string> = {
+  downloading: 'Downloading',
+  uploading: 'Uploading',
+  processing: 'Processing',
+};
+
+function progressResult(t: TargetProgress): PublishResult {
+  return {
+    accountId: t.social_account_id,
+    platform: t.platform,
+    success: t.status === 'published',
+    error: t.last_error_message ?? undefined,
+    errorCode: t.last_error_code ?? undefined,
+    needsReconnect: t.status === 'needs_user_action',
+  };
+}
+
 const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 const ACCEPTED_VIDEO_TYPES = ['video/mp4', 'video/quicktime', 'video/webm'];
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
 interface SocialPublisherProps {
   workspaceId: string;
@@ -85,13 +118,29 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
   const [linkUrl, setLinkUrl] = useState("");
   const [mediaUrl, setMediaUrl] = useState("");
   const [uploadedMedia, setUploadedMedia] = useState<UploadedMedia | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [loading, setLoading] = useState(true);
   const [publishing, setPublishing] = useState(false);
   const [results, setResults] = useState<PublishResult[] | null>(null);
+  // post whose publish_jobs are running; its channels report in over Realtime
+  const [activePostId, setActivePostId] = useState<string | null>(null);
+  const { targets: progress, done: progressDone } = usePublishProgress(activePostId);
+  const tracking = !!activePostId && !progressDone;
+  const busy = publishing || tracking;
   const [reconnecting, setReconnecting] = useState<string | null>(null);
   const [videoPreviewOpen, setVideoPreviewOpen] = useState(false);
+  const [overrides, setOverrides] = useState<Record<string, ChannelOverride>>({});
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const uploads = useUploadQueue(workspaceId, (uploaded, file) => {
+    applyAsset(uploaded, file.name);
+    toast({
+      title: uploaded.reused ? "Already in your library" : "Upload complete",
+      description: uploaded.reused
+        ? "Reusing the existing copy of this file"
+        : `${uploaded.asset.type === 'video' ? 'Video' : 'Image'} uploaded successfully`,
+    });
+  });
+  const uploading = uploads.busy;
+  const maxFileSize = uploads.maxBytes ?? PLANS.free.maxUploadBytes;
 
   // Backend now returns a needsReconnect flag; fall back to keyword sniff only
   // for older responses that lack it.
@@ -107,6 +156,43 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
     loadAccounts();
   }, [workspaceId]);
 
+  const resetForm = () => {
+    setContent("");
+    setLinkUrl("");
+    setMediaUrl("");
+    setUploadedMedia(null);
+    setSelectedAccounts([]);
+    setOverrides({});
+  };
+
+  // Once every channel has settled, report like the old synchronous publish did
+  useEffect(() => {
+    if (!activePostId || !progressDone) return;
+    const settled = progress.filter(t => t.status !== 'skipped').map(progressResult);
+    const all = [...(results || []).filter(r => !settled.some(s => s.accountId === r.accountId)), ...settled];
+    setResults(all);
+    const succeeded = all.filter(r => r.success).length;
+    if (succeeded === all.length) {
+      toast({
+        title: "Published Successfully!",
+        description: `Posted to ${succeeded} channel(s)`,
+      });
+      resetForm();
+    } else if (succeeded > 0) {
+      toast({
+        title: "Partially Published",
+        description: `${succeeded} succeeded, ${all.length - succeeded} failed`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Publishing Failed",
+        description: "Could not publish to any channels",
+        variant: "destructive",
+      });
+    }
+  }, [activePostId, progressDone]);
+
   const loadAccounts = async () => {
     try {
       const { data, error } = await supabase
@@ -168,7 +254,7 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
     }
   };
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
@@ -185,163 +271,45 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
       return;
     }
 
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    // Validate file size against the workspace plan
+    if (file.size > maxFileSize) {
       toast({
         title: "File too large",
-        description: "Maximum file size is 100MB",
+        description: `Maximum file size on your plan is ${formatFileSize(maxFileSize)}`,
         variant: "destructive",
       });
       return;
     }
 
-    setUploading(true);
-    setUploadProgress(0);
-
-    try {
-      // Generate thumbnail for video files
-      let thumbnailUrl: string | undefined;
-      let duration: number | undefined;
-      let width: number | undefined;
-      let height: number | undefined;
-
-      if (isVideo) {
-        try {
-          setUploadProgress(5);
-          const thumbData = await generateVideoThumbnail(file);
-          thumbnailUrl = thumbData.thumbnailUrl;
-          duration = thumbData.duration;
-          width = thumbData.width;
-          height = thumbData.height;
-          setUploadProgress(15);
-        } catch (thumbError) {
-          console.warn('Could not generate thumbnail:', thumbError);
-        }
-      }
-
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${workspaceId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-
-      // Simulate progress for better UX
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 90));
-      }, 200);
-
-      const { data, error } = await supabase.storage
-        .from('social-media')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false,
-        });
-
-      clearInterval(progressInterval);
-
-      if (error) throw error;
-
-      // Bucket is private — issue a signed URL for preview and publishing.
-      // Backend re-signs before dispatching to external providers.
-      const { data: signed, error: signErr } = await supabase.storage
-        .from('social-media')
-        .createSignedUrl(data.path, 60 * 60 * 24);
-      if (signErr || !signed?.signedUrl) throw signErr || new Error('Could not sign upload URL');
-      const previewUrl = signed.signedUrl;
-
-      setUploadProgress(100);
-
-      setUploadedMedia({
-        url: previewUrl,
-        type: isVideo ? 'video' : 'image',
-        name: file.name,
-        size: file.size,
-        thumbnailUrl,
-        duration,
-        width,
-        height,
-      });
-      setMediaUrl(previewUrl);
-
-      toast({
-        title: "Upload complete",
-        description: `${isVideo ? 'Video' : 'Image'} uploaded successfully`,
-      });
-    } catch (error) {
-      handleError(error);
-    } finally {
-      setUploading(false);
-      setUploadProgress(0);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
-  };
-
-  const removeMedia = async () => {
-    if (uploadedMedia) {
-      // Extract file path from URL (strip signed-URL query string)
-      const urlParts = uploadedMedia.url.split('/social-media/');
-      if (urlParts[1]) {
-        const path = urlParts[1].split('?')[0];
-        await supabase.storage
-          .from('social-media')
-          .remove([path]);
-      }
+    // Registers the file in the media library (deduplicated by checksum)
+    // and returns a signed URL — the backend re-signs before publishing.
+    uploads.add([file]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
-    setUploadedMedia(null);
-    setMediaUrl("");
-  };
-
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
   };
 
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const applyAsset = ({ asset, url, thumbnailUrl }: UploadedAsset, name?: string) => {
+    setUploadedMedia({
+      url,
+      assetId: asset.id,
+      type: asset.type,
+      name: name || asset.original_storage_path.split('/').pop() || 'Library media',
+      size: asset.file_size_bytes ?? 0,
+      thumbnailUrl,
+      duration: asset.duration_seconds != null ? Number(asset.duration_seconds) : undefined,
+      width: asset.width ?? undefined,
+      height: asset.height ?? undefined,
+      mime: asset.mime,
+    });
+    setMediaUrl(url);
+    setResults(null);
   };
 
-  const generateVideoThumbnail = (file: File): Promise<{ thumbnailUrl: string; duration: number; width: number; height: number }> => {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video');
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      video.preload = 'metadata';
-      video.muted = true;
-      video.playsInline = true;
-      
-      video.onloadedmetadata = () => {
-        // Seek to 25% of the video for a better thumbnail
-        video.currentTime = video.duration * 0.25;
-      };
-      
-      video.onseeked = () => {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
-        
-        const thumbnailUrl = canvas.toDataURL('image/jpeg', 0.8);
-        const duration = video.duration;
-        const width = video.videoWidth;
-        const height = video.videoHeight;
-
-        // Cleanup
-        URL.revokeObjectURL(video.src);
-        video.remove();
-        canvas.remove();
-
-        resolve({ thumbnailUrl, duration, width, height });
-      };
-      
-      video.onerror = () => {
-        URL.revokeObjectURL(video.src);
-        reject(new Error('Failed to load video'));
-      };
-      
-      video.src = URL.createObjectURL(file);
-    });
+  // The file stays in the media library; this only detaches it from the post
+  const removeMedia = () => {
+    setUploadedMedia(null);
+    setMediaUrl("");
   };
 
   const toggleAccount = (accountId: string) => {
@@ -353,14 +321,31 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
     setResults(null);
   };
 
+  const baseVersion: ChannelVersion = {
+    content,
+    linkUrl: linkUrl || undefined,
+    mediaUrl: uploadedMedia?.url || mediaUrl || undefined,
+    mediaType: uploadedMedia?.type,
+    // Dimensions/duration/size feed the per-platform media checks and let the
+    // backend pick Reels vs regular video
+    mediaMeta: uploadedMedia ? {
+      width: uploadedMedia.width,
+      height: uploadedMedia.height,
+      durationSeconds: uploadedMedia.duration,
+      sizeBytes: uploadedMedia.size || undefined,
+      mimeType: uploadedMedia.mime,
+    } : undefined,
+    assetId: uploadedMedia?.assetId,
+  };
+
+  // Channels with their own caption are checked against their own fork
   const getContentLimit = () => {
-    if (selectedAccounts.length === 0) return 2200;
-    
-    const selectedPlatforms = accounts
-      .filter(a => selectedAccounts.includes(a.id))
+    const sharedPlatforms = accounts
+      .filter(a => selectedAccounts.includes(a.id) && !overrides[a.id]?.content?.trim())
       .map(a => a.platform);
-    
-    return Math.min(...selectedPlatforms.map(p => PLATFORM_CONFIG[p]?.maxLength || 2200));
+    if (sharedPlatforms.length === 0) return 2200;
+
+    return Math.min(...sharedPlatforms.map(p => PLATFORM_CONFIG[p]?.maxLength || 2200));
   };
 
   const validateContent = (): string[] => {
@@ -374,23 +359,26 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
       errors.push("Please select at least one channel");
     }
     
-    const limit = getContentLimit();
-    if (content.length > limit) {
-      errors.push(`Content exceeds character limit (${content.length}/${limit})`);
-    }
-    
-    // Check Instagram/TikTok/YouTube requires media
-    const requiresMedia = accounts
-      .filter(a => selectedAccounts.includes(a.id))
-      .some(a => ['instagram', 'tiktok', 'youtube'].includes(a.platform));
-    
-    if (requiresMedia && !mediaUrl && !uploadedMedia) {
-      errors.push("Selected platform(s) require an image or video");
+    for (const account of accounts.filter(a => selectedAccounts.includes(a.id))) {
+      const version = resolveChannelVersion(baseVersion, overrides[account.id]);
+      const error = validateChannelVersion(account.platform, version);
+      if (error) errors.push(`${account.display_name}: ${error}`);
+      const mediaErrors = validateChannelMedia(account.platform, version)?.errors || [];
+      if (mediaErrors.length) errors.push(`${account.display_name}: ${summarizeMediaIssues(mediaErrors)}`);
     }
     
     return errors;
   };
 
+  // Media problems the platforms tolerate; the user confirms before publishing
+  const collectMediaWarnings = (): string[] =>
+    accounts
+      .filter(a => selectedAccounts.includes(a.id))
+      .flatMap(account => {
+        const warnings = validateChannelMedia(account.platform, resolveChannelVersion(baseVersion, overrides[account.id]))?.warnings || [];
+        return warnings.map(w => `${account.display_name}: ${w.message}`);
+      });
+
   const handlePublish = async () => {
     const errors = validateContent();
     if (errors.length > 0) {
@@ -402,8 +390,12 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
       return;
     }
 
+    const warnings = collectMediaWarnings();
+    if (warnings.length && !confirm(`Publish anyway?\n\n${warnings.join('\n')}`)) return;
+
     setPublishing(true);
     setResults(null);
+    setActivePostId(null);
 
     try {
       const response = await supabase.functions.invoke('social-publish', {
@@ -413,16 +405,13 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
           linkUrl: linkUrl || undefined,
           // Prioritize uploaded media over manually entered URL
           mediaUrl: uploadedMedia?.url || mediaUrl || undefined,
+          // Library asset backing the uploaded media (recorded on the post)
+          assetId: uploadedMedia?.assetId,
           // Pass the media type for platform-specific validation
           mediaType: uploadedMedia?.type || undefined,
-          // Video dimensions/duration let the backend pick Reels vs regular
-          // video and validate per-platform duration limits
-          mediaMeta: uploadedMedia ? {
-            width: uploadedMedia.width,
-            height: uploadedMedia.height,
-            durationSeconds: uploadedMedia.duration,
-          } : undefined,
+          mediaMeta: baseVersion.mediaMeta,
           targetAccountIds: selectedAccounts,
+          channelOverrides: compactOverrides(overrides, selectedAccounts),
         },
       });
 
@@ -431,23 +420,19 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
       const data = response.data;
       setResults(data.results);
 
-      if (data.status === 'published') {
+      if (data.status === 'queued') {
+        // Uploads run in publish-scheduled; channels report in as they go
+        setActivePostId(data.postId);
         toast({
-          title: "Published Successfully!",
-          description: `Posted to ${data.summary.succeeded} channel(s)`,
+          title: "Publishing…",
+          description: `Sending to ${data.summary.queued} channel(s). You can leave this page; it carries on in the background.`,
         });
-        // Clear form on success
-        setContent("");
-        setLinkUrl("");
-        setMediaUrl("");
-        setUploadedMedia(null);
-        setSelectedAccounts([]);
-      } else if (data.status === 'partial') {
+      } else if (data.status === 'pending_approval') {
         toast({
-          title: "Partially Published",
-          description: `${data.summary.succeeded} succeeded, ${data.summary.failed} failed`,
-          variant: "destructive",
+          title: "Submitted for Approval",
+          description: `Will publish to ${data.summary.pendingApproval} channel(s) once an approver signs off`,
         });
+        resetForm();
       } else {
         toast({
           title: "Publishing Failed",
@@ -505,7 +490,7 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
             }}
             placeholder="What do you want to share?"
             className={`mt-1.5 min-h-[120px] ${isOverLimit ? 'border-destructive focus-visible:ring-destructive' : ''}`}
-            disabled={publishing}
+            disabled={busy}
           />
           <div className="flex justify-between mt-1">
             <p className={`text-xs ${isOverLimit ? 'text-destructive' : 'text-muted-foreground'}`}>
@@ -530,40 +515,35 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
             accept={[...ACCEPTED_IMAGE_TYPES, ...ACCEPTED_VIDEO_TYPES].join(',')}
             onChange={handleFileSelect}
             className="hidden"
-            disabled={uploading || publishing}
+            disabled={uploading || busy}
           />
 
           {/* Upload area or preview */}
           {!uploadedMedia && !mediaUrl ? (
-            <div 
-              onClick={() => !uploading && !publishing && fileInputRef.current?.click()}
-              className={`mt-1.5 border-2 border-dashed rounded-xl p-6 text-center transition-colors cursor-pointer
-                ${uploading ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50 hover:bg-muted/30'}`}
-            >
-              {uploading ? (
-                <div className="space-y-3">
-                  <Loader2 className="w-8 h-8 mx-auto text-primary animate-spin" />
-                  <p className="text-sm font-medium">Uploading...</p>
-                  <Progress value={uploadProgress} className="w-full max-w-xs mx-auto" />
+            uploading ? (
+              <div className="mt-1.5">
+                <UploadQueue items={uploads.items} onPause={uploads.pause} onResume={uploads.resume} onRemove={uploads.remove} />
+              </div>
+            ) : (
+              <div 
+                onClick={() => !busy && fileInputRef.current?.click()}
+                className="mt-1.5 border-2 border-dashed rounded-xl p-6 text-center transition-colors cursor-pointer border-border hover:border-primary/50 hover:bg-muted/30"
+              >
+                <Upload className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+                <p className="font-medium text-sm">Click to upload or drag & drop</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Images (JPEG, PNG, GIF, WebP) or Videos (MP4, MOV, WebM) up to {formatFileSize(maxFileSize)}
+                </p>
+                <div className="flex justify-center gap-2 mt-3">
+                  <Badge variant="outline" className="text-xs">
+                    <Image className="w-3 h-3 mr-1" /> Images
+                  </Badge>
+                  <Badge variant="outline" className="text-xs">
+                    <FileVideo className="w-3 h-3 mr-1" /> Videos
+                  </Badge>
                 </div>
-              ) : (
-                <>
-                  <Upload className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
-                  <p className="font-medium text-sm">Click to upload or drag & drop</p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Images (JPEG, PNG, GIF, WebP) or Videos (MP4, MOV, WebM) up to 100MB
-                  </p>
-                  <div className="flex justify-center gap-2 mt-3">
-                    <Badge variant="outline" className="text-xs">
-                      <Image className="w-3 h-3 mr-1" /> Images
-                    </Badge>
-                    <Badge variant="outline" className="text-xs">
-                      <FileVideo className="w-3 h-3 mr-1" /> Videos
-                    </Badge>
-                  </div>
-                </>
-              )}
-            </div>
+              </div>
+            )
           ) : (
             <div className="mt-1.5 relative border rounded-xl p-4 bg-muted/30">
               <div className="flex items-center gap-4">
@@ -644,7 +624,7 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
                   variant="ghost"
                   size="icon"
                   onClick={removeMedia}
-                  disabled={publishing}
+                  disabled={busy}
                   className="flex-shrink-0"
                 >
                   <X className="w-4 h-4" />
@@ -653,16 +633,27 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
             </div>
           )}
 
-          {/* Alternative: URL input */}
+          {/* Alternative: pick from library or paste a URL */}
           {!uploadedMedia && !mediaUrl && (
-            <div className="mt-3">
+            <Button
+              variant="link"
+              size="sm"
+              className="px-0 mt-1"
+              onClick={() => setPickerOpen(true)}
+              disabled={busy || uploading}
+            >
+              <Image className="w-4 h-4 mr-1" /> Choose from media library
+            </Button>
+          )}
+          {!uploadedMedia && !mediaUrl && (
+            <div className="mt-1">
               <Label className="text-xs text-muted-foreground">Or paste a media URL</Label>
               <Input
                 value={mediaUrl}
                 onChange={(e) => setMediaUrl(e.target.value)}
                 placeholder="https://... (image or video URL)"
                 className="mt-1"
-                disabled={publishing || uploading}
+                disabled={busy || uploading}
               />
             </div>
           )}
@@ -678,7 +669,7 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
             onChange={(e) => setLinkUrl(e.target.value)}
             placeholder="https://..."
             className="mt-1.5"
-            disabled={publishing}
+            disabled={busy}
           />
         </div>
 
@@ -690,45 +681,78 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
               const config = PLATFORM_CONFIG[account.platform];
               const isSelected = selectedAccounts.includes(account.id);
               const result = results?.find(r => r.accountId === account.id);
+              const live = tracking ? progress.find(t => t.social_account_id === account.id) : undefined;
               
               return (
-                <label
-                  key={account.id}
-                  className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
-                    isSelected 
-                      ? 'border-primary bg-primary/5' 
-                      : 'border-border hover:bg-muted/50'
-                  } ${publishing ? 'opacity-60 cursor-not-allowed' : ''}`}
-                >
-                  <Checkbox
-                    checked={isSelected}
-                    onCheckedChange={() => !publishing && toggleAccount(account.id)}
-                    disabled={publishing}
-                  />
-                  <div
-                    className="w-8 h-8 rounded-lg flex items-center justify-center text-white"
-                    style={{ backgroundColor: config?.color || '#666' }}
+                <div key={account.id} className="space-y-1">
+                  <label
+                    className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      isSelected 
+                        ? 'border-primary bg-primary/5' 
+                        : 'border-border hover:bg-muted/50'
+                    } ${busy ? 'opacity-60 cursor-not-allowed' : ''}`}
                   >
-                    {platformIcons[account.platform]}
-                  </div>
-                  <div className="flex-1">
-                    <p className="font-medium text-sm">{account.display_name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {config?.displayName} {account.handle && `• ${account.handle}`}
-                    </p>
-                  </div>
+                    <Checkbox
+                      checked={isSelected}
+                      onCheckedChange={() => !busy && toggleAccount(account.id)}
+                      disabled={busy}
+                    />
+                    <div
+                      className="w-8 h-8 rounded-lg flex items-center justify-center text-white"
+                      style={{ backgroundColor: config?.color || '#666' }}
+                    >
+                      {platformIcons[account.platform]}
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-medium text-sm">{account.display_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {config?.displayName} {account.handle && `• ${account.handle}`}
+                      </p>
+                    </div>
                   
-                  {/* Result status */}
-                  {result && (
-                    <Badge variant={result.success ? "default" : "destructive"} className="ml-auto">
-                      {result.success ? (
-                        <><CheckCircle className="w-3 h-3 mr-1" /> Posted</>
-                      ) : (
-                        <><AlertCircle className="w-3 h-3 mr-1" /> Failed</>
-                      )}
-                    </Badge>
+                    {/* Live phase while the worker publishes, then the result */}
+                    {live && (live.status === 'queued' || live.status === 'publishing') ? (
+                      <Badge variant="secondary" className="ml-auto">
+                        {live.status === 'queued' ? (
+                          'Queued'
+                        ) : (
+                          <><Loader2 className="w-3 h-3 mr-1 animate-spin" /> {PHASE_LABELS[live.publish_phase || 'uploading']}</>
+                        )}
+                      </Badge>
+                    ) : live && live.status !== 'skipped' ? (
+                      <Badge variant={live.status === 'published' ? "default" : "destructive"} className="ml-auto">
+                        {live.status === 'published' ? (
+                          <><CheckCircle className="w-3 h-3 mr-1" /> Posted</>
+                        ) : (
+                          <><AlertCircle className="w-3 h-3 mr-1" /> Failed</>
+                        )}
+                      </Badge>
+                    ) : result && (
+                      <Badge variant={result.success ? "default" : "destructive"} className="ml-auto">
+                        {result.success ? (
+                          <><CheckCircle className="w-3 h-3 mr-1" /> Posted</>
+                        ) : (
+                          <><AlertCircle className="w-3 h-3 mr-1" /> Failed</>
+                        )}
+                      </Badge>
+                    )}
+                  </label>
+                  {isSelected && (
+                    <div className="ml-8">
+                      <ChannelOverrideEditor
+                        workspaceId={workspaceId}
+                        account={account}
+                        base={baseVersion}
+                        value={overrides[account.id]}
+                        onChange={(value) => {
+                          setOverrides(prev => ({ ...prev, [account.id]: value }));
+                          setResults(null);
+                        }}
+                        disabled={busy}
+                      />
+                    </div>
                   )}
-                </label>
+                </div>
               );
             })}
           </div>
@@ -768,14 +792,28 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
             </AlertDescription>
           </Alert>
         )}
+        {results && results.some(r => r.success && r.error) && (
+          <Alert>
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+            <AlertDescription>
+              <ul className="mt-1 space-y-1">
+                {results.filter(r => r.success && r.error).map((r, i) => (
+                  <li key={i} className="text-sm">
+                    <strong className="capitalize">{r.platform}:</strong> published, with a problem — {r.error}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
 
         {/* Publish Button */}
         <Button
           onClick={handlePublish}
-          disabled={publishing || selectedAccounts.length === 0 || !content.trim() || isOverLimit}
+          disabled={busy || selectedAccounts.length === 0 || !content.trim() || isOverLimit}
           className="w-full bg-gradient-primary hover:opacity-90"
         >
-          {publishing ? (
+          {busy ? (
             <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Publishing...</>
           ) : (
             <><Send className="w-4 h-4 mr-2" /> Publish to {selectedAccounts.length} Channel{selectedAccounts.length !== 1 ? 's' : ''}</>
@@ -783,6 +821,13 @@ export function SocialPublisher({ workspaceId }: SocialPublisherProps) {
         </Button>
       </CardContent>
 
+      <AssetPicker
+        workspaceId={workspaceId}
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        onSelect={(selected) => applyAsset(selected)}
+      />
+
       {/* Video Preview Modal */}
       <Dialog open={videoPreviewOpen} onOpenChange={setVideoPreviewOpen}>
         <DialogContent className="sm:max-w-4xl p-0 overflow-hidden bg-black">
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Loader2 } from "lucide-react";
+import {
+  TIKTOK_PRIVACY_LABELS,
+  TikTokCreatorInfo,
+  TikTokOptions,
+  fetchTikTokCreatorInfo,
+  tiktokDisclosureLabel,
+} from "@/lib/social/tiktok";
+import { parseError } from "@/lib/error-utils";
+
+interface TikTokOptionsEditorProps {
+  accountId: string;
+  value: TikTokOptions | undefined;
+  onChange: (value: TikTokOptions) => void;
+  // of the video going to this account, checked against the creator's limit
+  durationSeconds?: number;
+  disabled?: boolean;
+}
+
+type Interaction = 'disableComment' | 'disableDuet' | 'disableStitch';
+
+const INTERACTIONS: { key: Interaction; label: string; creatorOff: keyof TikTokCreatorInfo }[] = [
+  { key: 'disableComment', label: 'Comment', creatorOff: 'commentDisabled' },
+  { key: 'disableDuet', label: 'Duet', creatorOff: 'duetDisabled' },
+  { key: 'disableStitch', label: 'Stitch', creatorOff: 'stitchDisabled' },
+];
+
+// TikTok section of ChannelOverrideEditor, laid out the way TikTok's Direct
+// Post guidelines ask: the creator being posted as, an audience with no
+// preselection, interactions off until turned on, and the commercial
+// content disclosure with its policy notice.
+export function TikTokOptionsEditor({ accountId, value, onChange, durationSeconds, disabled }: TikTokOptionsEditorProps) {
+  const [creator, setCreator] = useState<TikTokCreatorInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    fetchTikTokCreatorInfo(accountId)
+      .then((info) => { if (!cancelled) setCreator(info); })
+      .catch((err) => { if (!cancelled) setLoadError(parseError(err).message); });
+    return () => { cancelled = true; };
+  }, [accountId]);
+
+  const options = value || {};
+  const update = (patch: Partial<TikTokOptions>) => onChange({ ...options, ...patch });
+  const disclosure = tiktokDisclosureLabel(options);
+  const tooLong = !!creator?.maxVideoPostDurationSec && !!durationSeconds && durationSeconds > creator.maxVideoPostDurationSec;
+
+  if (loadError) {
+    return (
+      <p className="text-xs text-destructive flex items-center gap-1">
+        <AlertCircle className="w-3 h-3" /> Couldn't load TikTok posting options: {loadError}
+      </p>
+    );
+  }
+  if (!creator) {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <Loader2 className="w-3 h-3 animate-spin" /> Loading TikTok posting options…
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Avatar className="w-6 h-6">
+          <AvatarImage src={creator.avatarUrl} />
+          <AvatarFallback>{(creator.nickname || creator.username || '?').charAt(0)}</AvatarFallback>
+        </Avatar>
+        <span className="text-xs">
+          Posting to TikTok as <span className="font-medium">{creator.nickname || creator.username}</span>
+          {creator.username && creator.nickname && <span className="text-muted-foreground"> @{creator.username}</span>}
+        </span>
+      </div>
+      {tooLong && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" /> This account can post videos up to {creator.maxVideoPostDurationSec}s
+        </p>
+      )}
+
+      <div>
+        <Label className="text-xs">Who can view this video</Label>
+        <Select value={options.privacyLevel || ''} onValueChange={(privacyLevel) => update({ privacyLevel })} disabled={disabled}>
+          <SelectTrigger className="mt-1">
+            <SelectValue placeholder="Choose who can view" />
+          </SelectTrigger>
+          <SelectContent>
+            {creator.privacyLevelOptions.map(level => (
+              <SelectItem key={level} value={level} disabled={level === 'SELF_ONLY' && options.brandedContent}>
+                {TIKTOK_PRIVACY_LABELS[level] || level}
+                {level === 'SELF_ONLY' && options.brandedContent && ' (not allowed for branded content)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label className="text-xs">Allow users to</Label>
+        <div className="flex items-center gap-4 mt-1">
+          {INTERACTIONS.map(({ key, label, creatorOff }) => (
+            <label key={key} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                checked={!creator[creatorOff] && options[key] === false}
+                onCheckedChange={(checked) => update({ [key]: checked !== true })}
+                disabled={disabled || !!creator[creatorOff]}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {INTERACTIONS.some(({ creatorOff }) => creator[creatorOff]) && (
+          <p className="text-xs text-muted-foreground mt-1">Some interactions are turned off in this account's TikTok settings</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={options.discloseCommercial ?? false}
+            onCheckedChange={(discloseCommercial) => update({ discloseCommercial })}
+            disabled={disabled}
+          />
+          <Label className="text-xs">Disclose commercial content</Label>
+        </div>
+        {options.discloseCommercial && (
+          <div className="pl-2 space-y-2">
+            <label className="flex items-start gap-2 text-sm">
+              <Checkbox
+                checked={options.brandOrganic ?? false}
+                onCheckedChange={(checked) => update({ brandOrganic: checked === true })}
+                disabled={disabled}
+                className="mt-0.5"
+              />
+              <span>
+                Your brand
+                <span className="block text-xs text-muted-foreground">You're promoting yourself or your own business</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm">
+              <Checkbox
+                checked={options.brandedContent ?? false}
+                onCheckedChange={(checked) => update({ brandedContent: checked === true })}
+                disabled={disabled || options.privacyLevel === 'SELF_ONLY'}
+                className="mt-0.5"
+              />
+              <span>
+                Branded content
+                <span className="block text-xs text-muted-foreground">
+                  {options.privacyLevel === 'SELF_ONLY'
+                    ? 'Branded content can\'t be private; choose another audience first'
+                    : 'You\'re promoting another brand or a third party'}
+                </span>
+              </span>
+            </label>
+            {disclosure && (
+              <p className="text-xs text-muted-foreground">Your video will be labeled "{disclosure}"</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        By posting, you agree to TikTok's{' '}
+        {options.discloseCommercial && options.brandedContent && (
+          <>
+            <a href="https://www.tiktok.com/legal/page/global/bc-policy/en" target="_blank" rel="noreferrer" className="underline">
+              Branded Content Policy
+            </a>
+            {' and '}
+          </>
+        )}
+        <a href="https://www.tiktok.com/legal/page/global/music-usage-confirmation/en" target="_blank" rel="noreferrer" className="underline">
+          Music Usage Confirmation
+        </a>
+        . It may take a few minutes for the video to appear on the profile.
+      </p>
+    </div>
+  );
+}
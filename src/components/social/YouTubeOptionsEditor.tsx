@@ -0,0 +1,221 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { Loader2, Upload, X } from "lucide-react";
+import {
+  YOUTUBE_CATEGORIES,
+  YOUTUBE_PRIVACY_LABELS,
+  YOUTUBE_THUMBNAIL_MAX_BYTES,
+  YOUTUBE_THUMBNAIL_TYPES,
+  YouTubeOptions,
+  YouTubePrivacy,
+  parsePlaylistId,
+} from "@/lib/social/youtube";
+import { uploadAsset } from "@/lib/assets";
+
+interface YouTubeOptionsEditorProps {
+  workspaceId: string;
+  value: YouTubeOptions | undefined;
+  onChange: (value: YouTubeOptions) => void;
+  disabled?: boolean;
+}
+
+// YouTube section of ChannelOverrideEditor. "Scheduled" isn't a YouTube
+// privacy status: it uploads the video as private with a publishAt time.
+export function YouTubeOptionsEditor({ workspaceId, value, onChange, disabled }: YouTubeOptionsEditorProps) {
+  const { handleError } = useErrorHandler();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [tagText, setTagText] = useState((value?.tags || []).join(', '));
+  const [playlistText, setPlaylistText] = useState(value?.playlistId || '');
+  const [uploading, setUploading] = useState(false);
+
+  const options = value || {};
+  const update = (patch: Partial<YouTubeOptions>) => onChange({ ...options, ...patch });
+  const visibility = options.publishAt ? 'scheduled' : options.privacy || 'public';
+  const playlistInvalid = !!playlistText.trim() && !parsePlaylistId(playlistText);
+
+  const setVisibility = (next: string) => {
+    if (next === 'scheduled') {
+      const inADay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      update({ privacy: 'private', publishAt: options.publishAt || inADay.toISOString() });
+    } else {
+      update({ privacy: next as YouTubePrivacy, publishAt: undefined });
+    }
+  };
+
+  const handleThumbnail = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!YOUTUBE_THUMBNAIL_TYPES.includes(file.type) || file.size > YOUTUBE_THUMBNAIL_MAX_BYTES) {
+      handleError(new Error('YouTube thumbnails must be a JPEG or PNG up to 2MB'));
+      return;
+    }
+    setUploading(true);
+    try {
+      const { url } = await uploadAsset(workspaceId, file);
+      update({ thumbnailUrl: url });
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="text-xs">Description</Label>
+        <Textarea
+          value={options.description || ''}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Defaults to the caption"
+          maxLength={5000}
+          className="mt-1 min-h-[80px] text-sm"
+          disabled={disabled}
+        />
+      </div>
+
+      <div>
+        <Label className="text-xs">Tags</Label>
+        <Input
+          value={tagText}
+          onChange={(e) => {
+            setTagText(e.target.value);
+            update({ tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean) });
+          }}
+          placeholder="tutorial, product launch"
+          className="mt-1"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Category</Label>
+          <Select value={options.categoryId || '22'} onValueChange={(categoryId) => update({ categoryId })} disabled={disabled}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {YOUTUBE_CATEGORIES.map(category => (
+                <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Visibility</Label>
+          <Select value={visibility} onValueChange={setVisibility} disabled={disabled}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(YOUTUBE_PRIVACY_LABELS) as YouTubePrivacy[]).map(privacy => (
+                <SelectItem key={privacy} value={privacy}>{YOUTUBE_PRIVACY_LABELS[privacy]}</SelectItem>
+              ))}
+              <SelectItem value="scheduled">Scheduled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {options.publishAt && (
+        <div>
+          <Label className="text-xs">Goes public at</Label>
+          <Input
+            type="datetime-local"
+            value={format(new Date(options.publishAt), "yyyy-MM-dd'T'HH:mm")}
+            onChange={(e) => e.target.value && update({ publishAt: new Date(e.target.value).toISOString() })}
+            className="mt-1"
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Uploaded as private, then YouTube makes it public at this time
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Default language</Label>
+          <Input
+            value={options.defaultLanguage || ''}
+            onChange={(e) => update({ defaultLanguage: e.target.value })}
+            placeholder="en"
+            maxLength={12}
+            className="mt-1"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Playlist</Label>
+          <Input
+            value={playlistText}
+            onChange={(e) => {
+              setPlaylistText(e.target.value);
+              update({ playlistId: parsePlaylistId(e.target.value) });
+            }}
+            placeholder="Playlist URL or ID"
+            className="mt-1"
+            disabled={disabled}
+          />
+          {playlistInvalid && <p className="text-xs text-destructive mt-1">Not a playlist URL or ID</p>}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={options.madeForKids ?? false}
+          onCheckedChange={(madeForKids) => update({ madeForKids })}
+          disabled={disabled}
+        />
+        <Label className="text-xs">Made for kids</Label>
+      </div>
+
+      <div>
+        <Label className="text-xs">Thumbnail</Label>
+        {options.thumbnailUrl ? (
+          <div className="mt-1 flex items-center gap-2">
+            <img src={options.thumbnailUrl} alt="" className="h-12 aspect-video object-cover rounded border" />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => update({ thumbnailUrl: undefined })}
+              disabled={disabled}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ) : (
+          <div className="mt-1 flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInput.current?.click()}
+              disabled={disabled || uploading}
+            >
+              {uploading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+              Custom thumbnail
+            </Button>
+            <span className="text-xs text-muted-foreground">JPEG or PNG, 1280×720, up to 2MB</span>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={YOUTUBE_THUMBNAIL_TYPES.join(',')}
+              onChange={handleThumbnail}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type TargetPhase = 'downloading' | 'uploading' | 'processing';
+
+export interface TargetProgress {
+  id: string;
+  social_account_id: string;
+  platform: string;
+  status: string;
+  publish_phase: TargetPhase | null;
+  last_error_message: string | null;
+  last_error_code: string | null;
+}
+
+// Statuses a target doesn't leave without someone acting on it
+const SETTLED = new Set(['published', 'failed', 'skipped', 'needs_user_action']);
+
+// Follows a post's channels while publish-scheduled works through them.
+// Loads the current rows after subscribing so changes made before the
+// subscription was up aren't missed.
+export const usePublishProgress = (postId: string | null) => {
+  const [targets, setTargets] = useState<TargetProgress[]>([]);
+
+  useEffect(() => {
+    setTargets([]);
+    if (!postId) return;
+
+    const columns = 'id, social_account_id, platform, status, publish_phase, last_error_message, last_error_code';
+    const channel = supabase
+      .channel(`publish-progress:${postId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'post_targets', filter: `post_id=eq.${postId}` },
+        (payload) => {
+          const row = payload.new as TargetProgress;
+          setTargets(prev => prev.some(t => t.id === row.id)
+            ? prev.map(t => t.id === row.id ? { ...t, ...row } : t)
+            : [...prev, row]);
+        }
+      )
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        const { data, error } = await supabase
+          .from('post_targets')
+          .select(columns)
+          .eq('post_id', postId);
+        if (error) {
+          console.error("Error loading publish progress:", error);
+          return;
+        }
+        setTargets(data as TargetProgress[]);
+      });
+
+    return () => { supabase.removeChannel(channel); };
+  }, [postId]);
+
+  const done = targets.length > 0 && targets.every(t => SETTLED.has(t.status));
+  return { targets, done };
+};
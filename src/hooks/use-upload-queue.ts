@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from "react";
+import { UploadedAsset, uploadAsset } from "@/lib/assets";
+import { isUploadPaused } from "@/lib/uploads";
+import { loadUploadLimit } from "@/lib/plans";
+import { parseError } from "@/lib/error-utils";
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'failed';
+
+export interface QueuedUpload {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  sent: number;
+  // set while the upload waits out a dropped connection or a failed chunk
+  stalled: 'offline' | 'retrying' | null;
+  error: string | null;
+}
+
+// Uploads files into the workspace library one at a time. A finished upload
+// is handed to onUploaded and leaves the queue; paused and failed ones stay
+// until they're resumed, retried or removed.
+export const useUploadQueue = (
+  workspaceId: string | null,
+  onUploaded: (uploaded: UploadedAsset, file: File) => void
+) => {
+  const [items, setItems] = useState<QueuedUpload[]>([]);
+  // the workspace plan's per-file limit; null until loaded
+  const [maxBytes, setMaxBytes] = useState<number | null>(null);
+  const controllers = useRef(new Map<string, AbortController>());
+  const handler = useRef(onUploaded);
+  handler.current = onUploaded;
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    loadUploadLimit(workspaceId)
+      .then(setMaxBytes)
+      .catch((err) => console.error("Error loading upload limit:", err));
+  }, [workspaceId]);
+
+  const patch = (id: string, changes: Partial<QueuedUpload>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+
+  // Start the next queued file whenever nothing is uploading
+  useEffect(() => {
+    if (!workspaceId || items.some(item => item.status === 'uploading')) return;
+    const next = items.find(item => item.status === 'queued');
+    if (!next) return;
+
+    const controller = new AbortController();
+    controllers.current.set(next.id, controller);
+    patch(next.id, { status: 'uploading', stalled: null, error: null });
+
+    uploadAsset(workspaceId, next.file, {
+      signal: controller.signal,
+      onProgress: (sent) => patch(next.id, { sent, stalled: null }),
+      onStall: (stalled) => patch(next.id, { stalled }),
+    })
+      .then((uploaded) => {
+        setItems(prev => prev.filter(item => item.id !== next.id));
+        handler.current(uploaded, next.file);
+      })
+      .catch((err) => {
+        patch(next.id, isUploadPaused(err)
+          ? { status: 'paused', stalled: null }
+          : { status: 'failed', stalled: null, error: parseError(err).message });
+      })
+      .finally(() => controllers.current.delete(next.id));
+  }, [items, workspaceId]);
+
+  // Abort uploads still running when the component goes away; their URLs
+  // are remembered, so adding the same file later resumes it
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach(controller => controller.abort());
+  }, []);
+
+  const add = (files: File[]) => setItems(prev => [
+    ...prev,
+    ...files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      status: 'queued' as const,
+      sent: 0,
+      stalled: null,
+      error: null,
+    })),
+  ]);
+
+  const pause = (id: string) => controllers.current.get(id)?.abort();
+
+  // Resuming and retrying both put the file back in line; the server keeps
+  // what it already has
+  const resume = (id: string) => patch(id, { status: 'queued', error: null });
+
+  const remove = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    controllers.current.get(id)?.abort();
+  };
+
+  const busy = items.length > 0;
+  return { items, maxBytes, busy, add, pause, resume, remove };
+};
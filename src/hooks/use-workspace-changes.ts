@@ -0,0 +1,40 @@
+import { useEffect, useId, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type WatchedTable = 'posts' | 'post_targets' | 'publish_jobs';
+
+export interface WorkspaceChange {
+  table: WatchedTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  // empty for deletes
+  row: Record<string, unknown>;
+}
+
+// Calls onChange for every insert/update/delete on the workspace's posts,
+// post_targets and publish_jobs. Only posts carry workspace_id to filter on;
+// target and job events are limited to the member's workspaces by RLS.
+export const useWorkspaceChanges = (
+  workspaceId: string | null,
+  onChange: (change: WorkspaceChange) => void
+) => {
+  // Each caller needs its own channel; the same topic twice shares one
+  const id = useId();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const forward = (table: WatchedTable) => (payload: { eventType: WorkspaceChange['eventType']; new: object }) =>
+      handler.current({ table, eventType: payload.eventType, row: payload.new as Record<string, unknown> });
+
+    const channel = supabase
+      .channel(`workspace-changes:${workspaceId}:${id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'posts', filter: `workspace_id=eq.${workspaceId}` }, forward('posts'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'post_targets' }, forward('post_targets'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'publish_jobs' }, forward('publish_jobs'))
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [workspaceId, id]);
+};
@@ -14,6 +14,63 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_metric_snapshots: {
+        Row: {
+          captured_at: string
+          engagement: number | null
+          followers: number | null
+          id: string
+          platform: Database["public"]["Enums"]["platform_type"]
+          raw: Json | null
+          reach: number | null
+          snapshot_date: string
+          social_account_id: string
+          views: number | null
+          workspace_id: string
+        }
+        Insert: {
+          captured_at?: string
+          engagement?: number | null
+          followers?: number | null
+          id?: string
+          platform: Database["public"]["Enums"]["platform_type"]
+          raw?: Json | null
+          reach?: number | null
+          snapshot_date?: string
+          social_account_id: string
+          views?: number | null
+          workspace_id: string
+        }
+        Update: {
+          captured_at?: string
+          engagement?: number | null
+          followers?: number | null
+          id?: string
+          platform?: Database["public"]["Enums"]["platform_type"]
+          raw?: Json | null
+          reach?: number | null
+          snapshot_date?: string
+          social_account_id?: string
+          views?: number | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_metric_snapshots_social_account_id_fkey"
+            columns: ["social_account_id"]
+            isOneToOne: false
+            referencedRelation: "social_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_metric_snapshots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       app_config: {
         Row: {
           created_at: string
@@ -185,6 +242,118 @@ export type Database = {
           },
         ]
       }
+      evergreen_channels: {
+        Row: {
+          active: boolean
+          created_at: string
+          every_days: number
+          min_repeat_days: number
+          next_run_at: string | null
+          post_time: string
+          social_account_id: string
+          timezone: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          every_days?: number
+          min_repeat_days?: number
+          next_run_at?: string | null
+          post_time?: string
+          social_account_id: string
+          timezone: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          every_days?: number
+          min_repeat_days?: number
+          next_run_at?: string | null
+          post_time?: string
+          social_account_id?: string
+          timezone?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evergreen_channels_social_account_id_fkey"
+            columns: ["social_account_id"]
+            isOneToOne: false
+            referencedRelation: "social_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evergreen_channels_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evergreen_items: {
+        Row: {
+          active: boolean
+          added_by: string | null
+          created_at: string
+          id: string
+          last_drawn_at: string | null
+          post_id: string
+          social_account_id: string
+          times_drawn: number
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          last_drawn_at?: string | null
+          post_id: string
+          social_account_id: string
+          times_drawn?: number
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          last_drawn_at?: string | null
+          post_id?: string
+          social_account_id?: string
+          times_drawn?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evergreen_items_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evergreen_items_social_account_id_fkey"
+            columns: ["social_account_id"]
+            isOneToOne: false
+            referencedRelation: "social_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evergreen_items_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           body: string
@@ -283,6 +452,157 @@ export type Database = {
           },
         ]
       }
+      post_metric_snapshots: {
+        Row: {
+          captured_at: string
+          comments: number | null
+          id: string
+          likes: number | null
+          platform: Database["public"]["Enums"]["platform_type"]
+          post_target_id: string | null
+          published_at: string | null
+          remote_post_id: string
+          shares: number | null
+          snapshot_date: string
+          social_account_id: string
+          views: number | null
+          workspace_id: string
+        }
+        Insert: {
+          captured_at?: string
+          comments?: number | null
+          id?: string
+          likes?: number | null
+          platform: Database["public"]["Enums"]["platform_type"]
+          post_target_id?: string | null
+          published_at?: string | null
+          remote_post_id: string
+          shares?: number | null
+          snapshot_date?: string
+          social_account_id: string
+          views?: number | null
+          workspace_id: string
+        }
+        Update: {
+          captured_at?: string
+          comments?: number | null
+          id?: string
+          likes?: number | null
+          platform?: Database["public"]["Enums"]["platform_type"]
+          post_target_id?: string | null
+          published_at?: string | null
+          remote_post_id?: string
+          shares?: number | null
+          snapshot_date?: string
+          social_account_id?: string
+          views?: number | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_metric_snapshots_post_target_id_fkey"
+            columns: ["post_target_id"]
+            isOneToOne: false
+            referencedRelation: "post_targets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_metric_snapshots_social_account_id_fkey"
+            columns: ["social_account_id"]
+            isOneToOne: false
+            referencedRelation: "social_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_metric_snapshots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_recurrences: {
+        Row: {
+          active: boolean
+          by_month_day: number | null
+          by_weekday: number[] | null
+          count: number | null
+          created_at: string
+          created_by: string | null
+          freq: string
+          id: string
+          interval_count: number
+          next_run_at: string | null
+          occurrences_created: number
+          post_id: string
+          social_account_ids: string[]
+          starts_on: string
+          time_of_day: string
+          timezone: string
+          until_date: string | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          active?: boolean
+          by_month_day?: number | null
+          by_weekday?: number[] | null
+          count?: number | null
+          created_at?: string
+          created_by?: string | null
+          freq: string
+          id?: string
+          interval_count?: number
+          next_run_at?: string | null
+          occurrences_created?: number
+          post_id: string
+          social_account_ids: string[]
+          starts_on: string
+          time_of_day: string
+          timezone: string
+          until_date?: string | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          active?: boolean
+          by_month_day?: number | null
+          by_weekday?: number[] | null
+          count?: number | null
+          created_at?: string
+          created_by?: string | null
+          freq?: string
+          id?: string
+          interval_count?: number
+          next_run_at?: string | null
+          occurrences_created?: number
+          post_id?: string
+          social_account_ids?: string[]
+          starts_on?: string
+          time_of_day?: string
+          timezone?: string
+          until_date?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_recurrences_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_recurrences_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_targets: {
         Row: {
           created_at: string
@@ -290,10 +610,13 @@ export type Database = {
           last_attempt_at: string | null
           last_error_code: string | null
           last_error_message: string | null
+          occurrence_at: string | null
           platform: Database["public"]["Enums"]["platform_type"]
           post_id: string
           publish_attempts: number
+          publish_phase: string | null
           published_at: string | null
+          queued_in_slot: boolean
           remote_post_id: string | null
           social_account_id: string
           status: Database["public"]["Enums"]["post_target_status"]
@@ -305,10 +628,13 @@ export type Database = {
           last_attempt_at?: string | null
           last_error_code?: string | null
           last_error_message?: string | null
+          occurrence_at?: string | null
           platform: Database["public"]["Enums"]["platform_type"]
           post_id: string
           publish_attempts?: number
+          publish_phase?: string | null
           published_at?: string | null
+          queued_in_slot?: boolean
           remote_post_id?: string | null
           social_account_id: string
           status?: Database["public"]["Enums"]["post_target_status"]
@@ -320,10 +646,13 @@ export type Database = {
           last_attempt_at?: string | null
           last_error_code?: string | null
           last_error_message?: string | null
+          occurrence_at?: string | null
           platform?: Database["public"]["Enums"]["platform_type"]
           post_id?: string
           publish_attempts?: number
+          publish_phase?: string | null
           published_at?: string | null
+          queued_in_slot?: boolean
           remote_post_id?: string | null
           social_account_id?: string
           status?: Database["public"]["Enums"]["post_target_status"]
@@ -346,6 +675,48 @@ export type Database = {
           },
         ]
       }
+      posting_slots: {
+        Row: {
+          created_at: string
+          id: string
+          slot_time: string
+          social_account_id: string
+          weekday: number
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          slot_time: string
+          social_account_id: string
+          weekday: number
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          slot_time?: string
+          social_account_id?: string
+          weekday?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posting_slots_social_account_id_fkey"
+            columns: ["social_account_id"]
+            isOneToOne: false
+            referencedRelation: "social_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posting_slots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
           asset_id: string | null
@@ -446,9 +817,13 @@ export type Database = {
         Row: {
           attempts: number
           created_at: string
+          heartbeat_at: string | null
           id: string
           idempotency_key: string
           last_error: Json | null
+          lease_expires_at: string | null
+          locked_at: string | null
+          locked_by: string | null
           max_attempts: number
           next_retry_at: string | null
           post_target_id: string
@@ -459,9 +834,13 @@ export type Database = {
         Insert: {
           attempts?: number
           created_at?: string
+          heartbeat_at?: string | null
           id?: string
           idempotency_key: string
           last_error?: Json | null
+          lease_expires_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
           max_attempts?: number
           next_retry_at?: string | null
           post_target_id: string
@@ -472,9 +851,13 @@ export type Database = {
         Update: {
           attempts?: number
           created_at?: string
+          heartbeat_at?: string | null
           id?: string
           idempotency_key?: string
           last_error?: Json | null
+          lease_expires_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
           max_attempts?: number
           next_retry_at?: string | null
           post_target_id?: string
@@ -492,6 +875,90 @@ export type Database = {
           },
         ]
       }
+      quota_budgets: {
+        Row: {
+          cost_per_publish: number
+          created_at: string
+          daily_limit: number
+          id: string
+          note: string | null
+          platform: Database["public"]["Enums"]["platform_type"]
+          reset_timezone: string
+          scope: string
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          cost_per_publish?: number
+          created_at?: string
+          daily_limit: number
+          id?: string
+          note?: string | null
+          platform: Database["public"]["Enums"]["platform_type"]
+          reset_timezone?: string
+          scope: string
+          unit: string
+          updated_at?: string
+        }
+        Update: {
+          cost_per_publish?: number
+          created_at?: string
+          daily_limit?: number
+          id?: string
+          note?: string | null
+          platform?: Database["public"]["Enums"]["platform_type"]
+          reset_timezone?: string
+          scope?: string
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quota_usage: {
+        Row: {
+          budget_id: string
+          exhausted: boolean
+          id: string
+          social_account_id: string | null
+          updated_at: string
+          used: number
+          window_start: string
+        }
+        Insert: {
+          budget_id: string
+          exhausted?: boolean
+          id?: string
+          social_account_id?: string | null
+          updated_at?: string
+          used?: number
+          window_start: string
+        }
+        Update: {
+          budget_id?: string
+          exhausted?: boolean
+          id?: string
+          social_account_id?: string | null
+          updated_at?: string
+          used?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quota_usage_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "quota_budgets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quota_usage_social_account_id_fkey"
+            columns: ["social_account_id"]
+            isOneToOne: false
+            referencedRelation: "social_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       social_accounts: {
         Row: {
           account_type: Database["public"]["Enums"]["account_type"]
@@ -610,6 +1077,56 @@ export type Database = {
           },
         ]
       }
+      upload_sessions: {
+        Row: {
+          bytes_sent: number
+          created_at: string
+          expires_at: string | null
+          id: string
+          platform: Database["public"]["Enums"]["platform_type"]
+          post_target_id: string
+          remote_id: string | null
+          state: Json
+          total_bytes: number
+          updated_at: string
+          upload_url: string | null
+        }
+        Insert: {
+          bytes_sent?: number
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          platform: Database["public"]["Enums"]["platform_type"]
+          post_target_id: string
+          remote_id?: string | null
+          state?: Json
+          total_bytes: number
+          updated_at?: string
+          upload_url?: string | null
+        }
+        Update: {
+          bytes_sent?: number
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          platform?: Database["public"]["Enums"]["platform_type"]
+          post_target_id?: string
+          remote_id?: string | null
+          state?: Json
+          total_bytes?: number
+          updated_at?: string
+          upload_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upload_sessions_post_target_id_fkey"
+            columns: ["post_target_id"]
+            isOneToOne: true
+            referencedRelation: "post_targets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -718,6 +1235,7 @@ export type Database = {
           created_at: string
           id: string
           name: string
+          plan: string
           timezone: string
           updated_at: string
         }
@@ -725,6 +1243,7 @@ export type Database = {
           created_at?: string
           id?: string
           name: string
+          plan?: string
           timezone?: string
           updated_at?: string
         }
@@ -732,6 +1251,7 @@ export type Database = {
           created_at?: string
           id?: string
           name?: string
+          plan?: string
           timezone?: string
           updated_at?: string
         }
@@ -746,10 +1266,67 @@ export type Database = {
         Args: { invitation_token: string }
         Returns: Json
       }
+      add_post_to_queue: { Args: { p_post_id: string }; Returns: Json }
+      asset_usage_counts: {
+        Args: { ws_id: string }
+        Returns: {
+          asset_id: string
+          post_count: number
+        }[]
+      }
+      can_approve_posts: { Args: { ws_id: string }; Returns: boolean }
+      cancel_post: { Args: { p_post_id: string }; Returns: undefined }
+      claim_publish_jobs: {
+        Args: { p_lease_seconds?: number; p_limit?: number; p_worker: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          heartbeat_at: string | null
+          id: string
+          idempotency_key: string
+          last_error: Json | null
+          lease_expires_at: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          next_retry_at: string | null
+          post_target_id: string
+          run_at: string
+          status: Database["public"]["Enums"]["job_status"]
+          updated_at: string
+        }[]
+      }
       create_workspace_with_owner: {
         Args: { workspace_name: string; workspace_timezone?: string }
         Returns: string
       }
+      defer_over_quota_jobs: { Args: never; Returns: number }
+      exhaust_quota: {
+        Args: {
+          p_platform: Database["public"]["Enums"]["platform_type"]
+          p_social_account_id: string
+          p_until: string
+        }
+        Returns: undefined
+      }
+      get_quota_status: {
+        Args: never
+        Returns: {
+          account_name: string
+          budget_id: string
+          cost_per_publish: number
+          daily_limit: number
+          exhausted: boolean
+          note: string
+          platform: Database["public"]["Enums"]["platform_type"]
+          resets_at: string
+          scope: string
+          social_account_id: string
+          unit: string
+          used: number
+          workspace_name: string
+        }[]
+      }
       get_user_workspace_ids: { Args: never; Returns: string[] }
       has_workspace_role: {
         Args: {
@@ -758,10 +1335,117 @@ export type Database = {
         }
         Returns: boolean
       }
+      heartbeat_publish_jobs: {
+        Args: { p_job_ids: string[]; p_lease_seconds?: number; p_worker: string }
+        Returns: string[]
+      }
       is_app_admin: { Args: { _user_id: string }; Returns: boolean }
       is_workspace_admin_or_owner: { Args: { ws_id: string }; Returns: boolean }
       is_workspace_member: { Args: { ws_id: string }; Returns: boolean }
+      list_stuck_jobs: {
+        Args: { p_workspace_id: string }
+        Returns: {
+          account_name: string
+          attempts: number
+          heartbeat_at: string
+          job_id: string
+          lease_expires_at: string
+          locked_at: string
+          locked_by: string
+          max_attempts: number
+          platform: Database["public"]["Enums"]["platform_type"]
+          post_id: string
+          post_title: string
+        }[]
+      }
+      materialize_occurrences: {
+        Args: { p_lookahead?: unknown }
+        Returns: number
+      }
+      next_occurrence_at: {
+        Args: {
+          p_after: string
+          p_by_month_day: number
+          p_by_weekday: number[]
+          p_freq: string
+          p_interval: number
+          p_starts_on: string
+          p_time: string
+          p_timezone: string
+          p_until?: string
+        }
+        Returns: string
+      }
+      plan_upload_limit: { Args: { p_plan: string }; Returns: number }
+      quota_blocked_until: {
+        Args: {
+          p_platform: Database["public"]["Enums"]["platform_type"]
+          p_social_account_id: string
+        }
+        Returns: string
+      }
+      quota_window_start: { Args: { p_timezone: string }; Returns: string }
+      recover_expired_leases: { Args: never; Returns: number }
+      reflow_slot_queue: {
+        Args: { p_social_account_id: string }
+        Returns: undefined
+      }
+      release_stuck_job: { Args: { p_job_id: string }; Returns: undefined }
+      reserve_quota: {
+        Args: {
+          p_extra_units?: number
+          p_platform: Database["public"]["Enums"]["platform_type"]
+          p_social_account_id: string
+        }
+        Returns: string
+      }
+      reschedule_post: {
+        Args: { p_post_id: string; p_scheduled_at: string }
+        Returns: undefined
+      }
+      retry_post_targets: {
+        Args: { p_content?: string; p_target_ids: string[] }
+        Returns: Json
+      }
+      review_post: {
+        Args: {
+          p_comment?: string
+          p_decision: Database["public"]["Enums"]["approval_status"]
+          p_post_id: string
+        }
+        Returns: undefined
+      }
+      save_post_recurrence: {
+        Args: { p_account_ids: string[]; p_post_id: string; p_recurrence: Json }
+        Returns: Json
+      }
+      set_workspace_plan: {
+        Args: { p_plan: string; p_workspace_id: string }
+        Returns: undefined
+      }
+      settle_post_status: { Args: { p_post_id: string }; Returns: undefined }
+      skip_post_targets: { Args: { p_target_ids: string[] }; Returns: number }
       trigger_publish_scheduled: { Args: never; Returns: undefined }
+      upcoming_slot_times: {
+        Args: { p_from: string; p_limit: number; p_social_account_id: string }
+        Returns: string[]
+      }
+      update_scheduled_post: {
+        Args: {
+          p_account_ids: string[]
+          p_asset_id: string | null
+          p_body_text: string
+          p_end_recurrence?: boolean
+          p_expected_updated_at?: string
+          p_link_url: string | null
+          p_per_channel_overrides: Json
+          p_post_id: string
+          p_recurrence?: Json
+          p_scheduled_at: string
+          p_timezone?: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       account_status: "connected" | "needs_refresh" | "disconnected" | "error"
@@ -0,0 +1,171 @@
+// Analytics history. Snapshots are written by the collect-analytics edge
+// function — on a six-hourly cron, or on demand from the Analytics page — so
+// the page reads from the database instead of calling platform APIs.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AccountSnapshot = Omit<Tables<'account_metric_snapshots'>, 'raw'>;
+
+export type TrendMetric = 'followers' | 'views' | 'reach' | 'engagement';
+
+export const TREND_PERIODS = [7, 30, 90] as const;
+export type TrendPeriod = typeof TREND_PERIODS[number];
+
+export const TREND_METRIC_LABELS: Record<TrendMetric, string> = {
+  followers: 'Followers',
+  views: 'Views',
+  reach: 'Reach',
+  engagement: 'Engagement',
+};
+
+export interface TrendPoint {
+  date: string;
+  followers: number | null;
+  views: number | null;
+  reach: number | null;
+  engagement: number | null;
+}
+
+export interface PeriodChange {
+  current: number | null;
+  previous: number | null;
+  delta: number | null;
+  // percent change vs previous; null when previous is 0 or unknown
+  percent: number | null;
+}
+
+interface CollectResponse {
+  collected: number;
+  failed: number;
+  results: { accountId: string; platform: string; ok: boolean; error?: string }[];
+}
+
+const HISTORY_COLUMNS = 'id, workspace_id, social_account_id, platform, snapshot_date, captured_at, followers, views, reach, engagement';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export async function collectAnalytics(target: { workspaceId: string } | { accountId: string }): Promise<CollectResponse> {
+  const response = await supabase.functions.invoke('collect-analytics', { body: target });
+  if (response.error) throw response.error;
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data as CollectResponse;
+}
+
+async function latestInsights(accountId: string): Promise<{ raw: unknown; captured_at: string } | null> {
+  const { data } = await supabase
+    .from('account_metric_snapshots')
+    .select('raw, captured_at')
+    .eq('social_account_id', accountId)
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data;
+}
+
+// Most recent stored insights payload for an account. Collects first when
+// asked to refresh or when nothing has been stored yet.
+export async function loadInsights<T>(accountId: string, refresh = false): Promise<T> {
+  if (!refresh) {
+    const latest = await latestInsights(accountId);
+    if (latest?.raw) return latest.raw as T;
+  }
+  const result = await collectAnalytics({ accountId });
+  const failed = result.results.find(r => !r.ok);
+  if (failed) throw new Error(failed.error || 'Failed to fetch insights');
+
+  const latest = await latestInsights(accountId);
+  if (!latest?.raw) throw new Error('No insights collected yet');
+  return latest.raw as T;
+}
+
+// Daily snapshots for the last `days` days (plus the day before, so a
+// period's starting value is known)
+export async function loadSnapshotHistory(
+  filter: { workspaceId: string } | { accountIds: string[] },
+  days: number
+): Promise<AccountSnapshot[]> {
+  const since = isoDate(new Date(Date.now() - (days + 1) * DAY_MS));
+  let query = supabase
+    .from('account_metric_snapshots')
+    .select(HISTORY_COLUMNS)
+    .gte('snapshot_date', since)
+    .order('snapshot_date', { ascending: true });
+  query = 'workspaceId' in filter
+    ? query.eq('workspace_id', filter.workspaceId)
+    : query.in('social_account_id', filter.accountIds);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as AccountSnapshot[];
+}
+
+// Latest snapshot per account
+export function latestByAccount(snapshots: AccountSnapshot[]): Map<string, AccountSnapshot> {
+  const latest = new Map<string, AccountSnapshot>();
+  for (const s of snapshots) {
+    const current = latest.get(s.social_account_id);
+    if (!current || s.snapshot_date > current.snapshot_date) latest.set(s.social_account_id, s);
+  }
+  return latest;
+}
+
+// One point per day summed across accounts. A day an account wasn't
+// collected carries its previous value forward so totals don't dip.
+export function buildTrend(snapshots: AccountSnapshot[], days: number): TrendPoint[] {
+  const byAccount = new Map<string, AccountSnapshot[]>();
+  for (const s of snapshots) {
+    byAccount.set(s.social_account_id, [...(byAccount.get(s.social_account_id) || []), s]);
+  }
+
+  const metrics: TrendMetric[] = ['followers', 'views', 'reach', 'engagement'];
+  const points: TrendPoint[] = [];
+  for (let i = days; i >= 0; i--) {
+    const date = isoDate(new Date(Date.now() - i * DAY_MS));
+    const point: TrendPoint = { date, followers: null, views: null, reach: null, engagement: null };
+    for (const rows of byAccount.values()) {
+      const asOf = rows.filter(r => r.snapshot_date <= date).pop();
+      if (!asOf) continue;
+      for (const metric of metrics) {
+        const value = asOf[metric];
+        if (value != null) point[metric] = (point[metric] ?? 0) + Number(value);
+      }
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+// Value now vs. value at the start of the period
+export function periodChange(trend: TrendPoint[], metric: TrendMetric): PeriodChange {
+  const values = trend.map(p => p[metric]);
+  const current = [...values].reverse().find(v => v != null) ?? null;
+  const previous = values.find(v => v != null) ?? null;
+  if (current == null || previous == null) return { current, previous, delta: null, percent: null };
+  const delta = current - previous;
+  return { current, previous, delta, percent: previous ? (delta / previous) * 100 : null };
+}
+
+export interface PostTargetMetrics {
+  targetId: string;
+  platform: string;
+  metrics?: {
+    views: number | null;
+    // what the platform calls its headline number (Plays, Impressions, …)
+    viewsLabel: string;
+    likes: number | null;
+    comments: number | null;
+    shares: number | null;
+  };
+  error?: string;
+}
+
+// Live metrics for each published target of one post, looked up by remote id
+export async function fetchPostMetrics(postId: string): Promise<{ fetchedAt: string; targets: PostTargetMetrics[] }> {
+  const response = await supabase.functions.invoke('post-metrics', { body: { postId } });
+  if (response.error) throw response.error;
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
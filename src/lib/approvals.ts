@@ -0,0 +1,13 @@
+// Workspace roles allowed to sign off on posts. Mirrors
+// public.can_approve_posts() in the approval workflow migration.
+export const APPROVER_ROLES = ['owner', 'admin', 'approver'];
+
+export function canApprovePosts(role: string | null | undefined): boolean {
+  return !!role && APPROVER_ROLES.includes(role);
+}
+
+// Everyone else (editors) has their posts routed through the approvals inbox
+// before publish-scheduled will pick them up.
+export function requiresApproval(role: string | null | undefined): boolean {
+  return !canApprovePosts(role);
+}
@@ -0,0 +1,268 @@
+// Asset library helpers. Uploads go through uploadAsset() so every file is
+// registered in public.assets and stored once per workspace, keyed by its
+// SHA-256 (see the asset library migration).
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ResumableUploadOptions, uploadResumable } from "@/lib/uploads";
+
+export type Asset = Tables<'assets'>;
+
+export interface LibraryAsset extends Asset {
+  thumbnailUrl: string | null;
+  usageCount: number;
+}
+
+export interface UploadedAsset {
+  asset: Asset;
+  // signed URL for preview and publishing (backend re-signs before use)
+  url: string;
+  thumbnailUrl?: string;
+  reused: boolean;
+}
+
+const BUCKET = 'social-media';
+const SIGNED_URL_TTL = 60 * 60 * 24;
+
+// WebCrypto can only digest a whole buffer, so hashing means reading the
+// file into memory. Bigger files skip deduplication and get a random key.
+const CHECKSUM_MAX_BYTES = 256 * 1024 * 1024;
+const LARGE_FILE_KEY_PREFIX = 'asset-key:';
+
+export async function computeChecksum(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+interface ProbedMedia {
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  thumbnail?: Blob;
+}
+
+function probeVideo(file: File): Promise<ProbedMedia> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const canvas = document.createElement('canvas');
+    video.preload = 'metadata';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => {
+      // Seek to 25% of the video for a better thumbnail
+      video.currentTime = video.duration * 0.25;
+    };
+    video.onseeked = () => {
+      // Library thumbnails don't need full resolution
+      const scale = Math.min(1, 480 / Math.max(video.videoWidth, video.videoHeight));
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const meta = { width: video.videoWidth, height: video.videoHeight, durationSeconds: video.duration };
+      canvas.toBlob((thumbnail) => {
+        URL.revokeObjectURL(video.src);
+        resolve({ ...meta, thumbnail: thumbnail || undefined });
+      }, 'image/jpeg', 0.8);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('Failed to load video'));
+    };
+    video.src = URL.createObjectURL(file);
+  });
+}
+
+function probeImage(file: File): Promise<ProbedMedia> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(img.src);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src);
+      reject(new Error('Failed to load image'));
+    };
+    img.src = URL.createObjectURL(file);
+  });
+}
+
+export async function probeMedia(file: File): Promise<ProbedMedia> {
+  try {
+    return file.type.startsWith('video/') ? await probeVideo(file) : await probeImage(file);
+  } catch (error) {
+    console.warn('Could not probe media:', error);
+    return {};
+  }
+}
+
+export async function signStoragePath(path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, SIGNED_URL_TTL);
+  if (error || !data?.signedUrl) throw error || new Error('Could not sign media URL');
+  return data.signedUrl;
+}
+
+async function findByChecksum(workspaceId: string, checksum: string): Promise<Asset | null> {
+  const { data } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('checksum_sha256', checksum)
+    .maybeSingle();
+  return data;
+}
+
+async function reuse(asset: Asset): Promise<UploadedAsset> {
+  return {
+    asset,
+    url: await signStoragePath(asset.original_storage_path),
+    thumbnailUrl: asset.thumbnail_storage_path ? await signStoragePath(asset.thumbnail_storage_path) : undefined,
+    reused: true,
+  };
+}
+
+// A library asset with fresh signed URLs, e.g. when reopening a saved post
+export async function loadAsset(assetId: string): Promise<UploadedAsset> {
+  const { data, error } = await supabase.from('assets').select('*').eq('id', assetId).single();
+  if (error) throw error;
+  return reuse(data);
+}
+
+// The random key of a file too big to hash is remembered per file, so a
+// pause, retry or reload uploads to the same path and the TUS upload resumes
+// (uploads.ts keys its sessions by path) instead of starting a new object.
+function largeFileKeyId(workspaceId: string, file: File): string {
+  return `${LARGE_FILE_KEY_PREFIX}${workspaceId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function largeFileKey(workspaceId: string, file: File): string {
+  const id = largeFileKeyId(workspaceId, file);
+  let key = localStorage.getItem(id);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(id, key);
+  }
+  return key;
+}
+
+export type UploadAssetOptions = Pick<ResumableUploadOptions, 'onProgress' | 'onStall' | 'signal'>;
+
+// Upload a file into the workspace library, or return the existing asset if
+// the same bytes were uploaded before (files up to CHECKSUM_MAX_BYTES). The
+// original goes up resumably (see uploads.ts); aborting the signal pauses it.
+export async function uploadAsset(workspaceId: string, file: File, options: UploadAssetOptions = {}): Promise<UploadedAsset> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const checksum = file.size <= CHECKSUM_MAX_BYTES ? await computeChecksum(file) : null;
+  if (checksum) {
+    const existing = await findByChecksum(workspaceId, checksum);
+    if (existing) return reuse(existing);
+  }
+
+  const isVideo = file.type.startsWith('video/');
+  const probed = await probeMedia(file);
+  const ext = file.name.split('.').pop()?.toLowerCase() || (isVideo ? 'mp4' : 'jpg');
+  const key = checksum ?? largeFileKey(workspaceId, file);
+  const originalPath = `${workspaceId}/${key}.${ext}`;
+
+  await uploadResumable(BUCKET, originalPath, file, { ...options, contentType: file.type, cacheControl: '3600' });
+
+  let thumbnailPath: string | null = isVideo ? null : originalPath;
+  if (probed.thumbnail) {
+    const path = `${workspaceId}/thumbnails/${key}.jpg`;
+    const { error: thumbErr } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, probed.thumbnail, { upsert: true, contentType: 'image/jpeg' });
+    if (thumbErr) console.warn('Thumbnail upload failed:', thumbErr);
+    else thumbnailPath = path;
+  }
+
+  const { data: asset, error: insertErr } = await supabase
+    .from('assets')
+    .insert({
+      workspace_id: workspaceId,
+      uploader_user_id: user.id,
+      type: isVideo ? 'video' : 'image',
+      mime: file.type,
+      file_size_bytes: file.size,
+      width: probed.width ?? null,
+      height: probed.height ?? null,
+      duration_seconds: probed.durationSeconds ?? null,
+      checksum_sha256: checksum,
+      original_storage_path: originalPath,
+      thumbnail_storage_path: thumbnailPath,
+      // Images are published as uploaded; videos wait for processing
+      transcode_status: isVideo ? 'pending' : 'ready',
+    })
+    .select()
+    .single();
+
+  // Registered or about to be removed; either way the next upload of this
+  // file is a new object
+  if (!checksum) localStorage.removeItem(largeFileKeyId(workspaceId, file));
+
+  if (insertErr) {
+    // Someone uploaded the same file concurrently — use theirs
+    if (checksum && insertErr.code === '23505') {
+      const raced = await findByChecksum(workspaceId, checksum);
+      if (raced) return reuse(raced);
+    }
+    // Otherwise nothing references what we stored (e.g. over the plan limit)
+    const orphans = thumbnailPath && thumbnailPath !== originalPath ? [originalPath, thumbnailPath] : [originalPath];
+    const { error: removeErr } = await supabase.storage.from(BUCKET).remove(orphans);
+    if (removeErr) console.warn('Could not remove unregistered upload:', removeErr);
+    throw insertErr;
+  }
+
+  return {
+    asset,
+    url: await signStoragePath(originalPath),
+    thumbnailUrl: thumbnailPath ? await signStoragePath(thumbnailPath) : undefined,
+    reused: false,
+  };
+}
+
+// All assets in a workspace with signed thumbnails and post usage counts
+export async function loadLibrary(workspaceId: string): Promise<LibraryAsset[]> {
+  const { data: assets, error } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  if (!assets?.length) return [];
+
+  const { data: usage } = await supabase.rpc('asset_usage_counts', { ws_id: workspaceId });
+  const counts = new Map((usage || []).map(u => [u.asset_id, Number(u.post_count)]));
+
+  const thumbPaths = assets.map(a => a.thumbnail_storage_path).filter((p): p is string => !!p);
+  const thumbUrls = new Map<string, string>();
+  if (thumbPaths.length) {
+    const { data: signed } = await supabase.storage.from(BUCKET).createSignedUrls(thumbPaths, 60 * 60);
+    for (const s of signed || []) {
+      if (s.path && s.signedUrl) thumbUrls.set(s.path, s.signedUrl);
+    }
+  }
+
+  return assets.map(a => ({
+    ...a,
+    thumbnailUrl: a.thumbnail_storage_path ? thumbUrls.get(a.thumbnail_storage_path) ?? null : null,
+    usageCount: counts.get(a.id) ?? 0,
+  }));
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+}
+
+export function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,100 @@
+// Calendar data. Scheduled posts sit at posts.scheduled_at with the channels
+// still waiting to publish; every published channel gets its own entry at
+// post_targets.published_at, so one post can show up more than once.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export interface CalendarTarget {
+  id: string;
+  platform: string;
+  status: string;
+  social_account_id: string;
+  published_at: string | null;
+  social_accounts: { display_name: string } | null;
+}
+
+export interface CalendarEvent {
+  key: string;
+  postId: string;
+  at: Date;
+  kind: 'scheduled' | 'published';
+  postStatus: string;
+  text: string;
+  targets: CalendarTarget[];
+}
+
+interface CalendarPost {
+  id: string;
+  status: string;
+  title: string | null;
+  body_text: string | null;
+  scheduled_at: string | null;
+  post_targets: CalendarTarget[];
+}
+
+// Statuses whose time can still be changed by dragging
+export const MOVABLE_STATUSES = ['pending_approval', 'approved', 'scheduled'];
+
+const TARGET_COLUMNS = 'id, platform, status, social_account_id, published_at, social_accounts ( display_name )';
+
+export async function loadCalendarEvents(workspaceId: string, from: Date, to: Date): Promise<CalendarEvent[]> {
+  const [scheduled, published] = await Promise.all([
+    supabase
+      .from('posts')
+      .select(`id, status, title, body_text, scheduled_at, post_targets ( ${TARGET_COLUMNS} )`)
+      .eq('workspace_id', workspaceId)
+      .neq('status', 'canceled')
+      .gte('scheduled_at', from.toISOString())
+      .lt('scheduled_at', to.toISOString()),
+    supabase
+      .from('post_targets')
+      .select(`${TARGET_COLUMNS}, posts!inner ( id, status, title, body_text, scheduled_at, workspace_id )`)
+      .eq('posts.workspace_id', workspaceId)
+      .eq('status', 'published')
+      .gte('published_at', from.toISOString())
+      .lt('published_at', to.toISOString()),
+  ]);
+  if (scheduled.error) throw scheduled.error;
+  if (published.error) throw published.error;
+
+  const events: CalendarEvent[] = [];
+  for (const post of (scheduled.data as unknown as CalendarPost[]) || []) {
+    const pending = post.post_targets.filter(t => t.status !== 'published');
+    if (!pending.length || !post.scheduled_at) continue;
+    events.push({
+      key: `post:${post.id}`,
+      postId: post.id,
+      at: new Date(post.scheduled_at),
+      kind: 'scheduled',
+      postStatus: post.status,
+      text: post.body_text || post.title || '',
+      targets: pending,
+    });
+  }
+
+  type PublishedRow = CalendarTarget & { posts: Omit<CalendarPost, 'post_targets'> };
+  for (const row of (published.data as unknown as PublishedRow[]) || []) {
+    events.push({
+      key: `target:${row.id}`,
+      postId: row.posts.id,
+      at: new Date(row.published_at!),
+      kind: 'published',
+      postStatus: row.posts.status,
+      text: row.posts.body_text || row.posts.title || '',
+      targets: [row],
+    });
+  }
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Moves posts.scheduled_at and the post's pending publish_jobs together
+export async function reschedulePost(postId: string, scheduledAt: Date): Promise<void> {
+  const { error } = await supabase.rpc('reschedule_post', {
+    p_post_id: postId,
+    p_scheduled_at: scheduledAt.toISOString(),
+  });
+  if (error) throw error;
+}
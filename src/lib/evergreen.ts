@@ -0,0 +1,96 @@
+// Evergreen pools: per-channel lists of already-approved posts that
+// materialize_occurrences() republishes on a fixed cadence, least recently
+// drawn first and never twice within min_repeat_days.
+
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type EvergreenChannel = Tables<'evergreen_channels'>;
+
+export interface EvergreenItem extends Tables<'evergreen_items'> {
+  posts: { title: string | null; body_text: string | null } | null;
+}
+
+export interface EvergreenSettings {
+  active: boolean;
+  everyDays: number;
+  postTime: string;
+  minRepeatDays: number;
+}
+
+export const DEFAULT_SETTINGS: EvergreenSettings = {
+  active: false,
+  everyDays: 1,
+  postTime: '10:00',
+  minRepeatDays: 30,
+};
+
+export async function loadEvergreen(workspaceId: string): Promise<{ channels: EvergreenChannel[]; items: EvergreenItem[] }> {
+  const [channels, items] = await Promise.all([
+    supabase.from('evergreen_channels').select('*').eq('workspace_id', workspaceId),
+    supabase
+      .from('evergreen_items')
+      .select('*, posts ( title, body_text )')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true }),
+  ]);
+  if (channels.error) throw channels.error;
+  if (items.error) throw items.error;
+  return {
+    channels: channels.data || [],
+    items: (items.data as unknown as EvergreenItem[]) || [],
+  };
+}
+
+export async function saveEvergreenChannel(
+  workspaceId: string,
+  socialAccountId: string,
+  timezone: string,
+  settings: EvergreenSettings
+): Promise<EvergreenChannel> {
+  const { data, error } = await supabase
+    .from('evergreen_channels')
+    .upsert({
+      social_account_id: socialAccountId,
+      workspace_id: workspaceId,
+      active: settings.active,
+      every_days: settings.everyDays,
+      post_time: settings.postTime,
+      min_repeat_days: settings.minRepeatDays,
+      timezone,
+    }, { onConflict: 'social_account_id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Adds the post to the pool of each channel; channels already holding it
+// are left as they are. Returns how many pools it was added to.
+export async function addToEvergreenPool(workspaceId: string, postId: string, socialAccountIds: string[]): Promise<number> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('evergreen_items')
+    .upsert(
+      socialAccountIds.map(id => ({
+        workspace_id: workspaceId,
+        social_account_id: id,
+        post_id: postId,
+        added_by: user?.id ?? null,
+      })),
+      { onConflict: 'social_account_id,post_id', ignoreDuplicates: true }
+    )
+    .select('id');
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+export async function setEvergreenItemActive(itemId: string, active: boolean): Promise<void> {
+  const { error } = await supabase.from('evergreen_items').update({ active }).eq('id', itemId);
+  if (error) throw error;
+}
+
+export async function removeEvergreenItem(itemId: string): Promise<void> {
+  const { error } = await supabase.from('evergreen_items').delete().eq('id', itemId);
+  if (error) throw error;
+}
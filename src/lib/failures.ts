@@ -0,0 +1,92 @@
+// Failed publishes across the workspace and the actions that recover them.
+// Codes are post_targets.last_error_code as written by the publish paths
+// (see supabase/functions/_shared/publish-errors.ts); rows from before codes
+// existed get a best guess from their message.
+
+import { supabase } from "@/integrations/supabase/client";
+import { classifyMessage } from "../../supabase/functions/_shared/publish-errors.ts";
+import type { PublishErrorCode } from "../../supabase/functions/_shared/publish-errors.ts";
+import type { ChannelOverride } from "./social/overrides";
+
+export type { PublishErrorCode };
+
+export interface FailedTarget {
+  id: string;
+  post_id: string;
+  platform: string;
+  status: 'failed' | 'needs_user_action';
+  social_account_id: string;
+  last_error_message: string | null;
+  last_error_code: string | null;
+  last_attempt_at: string | null;
+  publish_attempts: number;
+  social_accounts: { display_name: string; status: string } | null;
+  posts: {
+    id: string;
+    title: string | null;
+    body_text: string | null;
+    created_by: string;
+    per_channel_overrides: { accounts?: Record<string, ChannelOverride> } | null;
+  };
+}
+
+export const ERROR_CODE_INFO: Record<PublishErrorCode, { label: string; hint: string }> = {
+  auth_expired: { label: 'Connection expired', hint: 'Reconnect the channel on the Channels page, then retry.' },
+  permission_denied: { label: 'Not permitted', hint: 'The account or app lacks permission to post this. Check the channel\'s settings.' },
+  content_rejected: { label: 'Caption rejected', hint: 'Edit the caption for this channel and retry.' },
+  duplicate_content: { label: 'Duplicate post', hint: 'The platform has already seen this text. Change the caption and retry.' },
+  media_unsupported: { label: 'Media not accepted', hint: 'Replace or re-export the media, then retry.' },
+  media_unavailable: { label: 'Media unreachable', hint: 'The platform could not download the file. Retrying usually works.' },
+  rate_limited: { label: 'Rate limited', hint: 'The platform asked us to slow down. Retry later.' },
+  platform_error: { label: 'Platform error', hint: 'The platform had a problem on its side. Retrying usually works.' },
+  network: { label: 'Network error', hint: 'The request did not get through. Retrying usually works.' },
+  partial: { label: 'Partly published', hint: 'The post went out without everything it asked for. Finish it on the platform.' },
+  unknown: { label: 'Other errors', hint: 'Check the message, then retry or skip.' },
+};
+
+export function errorCodeOf(target: Pick<FailedTarget, 'status' | 'last_error_code' | 'last_error_message'>): PublishErrorCode {
+  if (target.last_error_code && target.last_error_code in ERROR_CODE_INFO) {
+    return target.last_error_code as PublishErrorCode;
+  }
+  if (target.status === 'needs_user_action') return 'auth_expired';
+  return classifyMessage(target.last_error_message || '');
+}
+
+// The caption a channel actually got: its override, else the post's
+export function captionFor(target: FailedTarget): string {
+  const override = target.posts.per_channel_overrides?.accounts?.[target.social_account_id]?.content;
+  return override?.trim() ? override : target.posts.body_text || '';
+}
+
+export async function loadFailedTargets(workspaceId: string): Promise<FailedTarget[]> {
+  const { data, error } = await supabase
+    .from('post_targets')
+    .select(`
+      id, post_id, platform, status, social_account_id, last_error_message, last_error_code, last_attempt_at, publish_attempts,
+      social_accounts ( display_name, status ),
+      posts!inner ( id, title, body_text, created_by, per_channel_overrides )
+    `)
+    .eq('posts.workspace_id', workspaceId)
+    .in('status', ['failed', 'needs_user_action'])
+    .order('last_attempt_at', { ascending: false, nullsFirst: false })
+    .limit(200);
+  if (error) throw error;
+  return (data as unknown as FailedTarget[]) || [];
+}
+
+// Re-queues the targets to publish now; content replaces their channels'
+// caption first
+export async function retryTargets(targetIds: string[], content?: string): Promise<{ retried: number; pending_approval: number }> {
+  const { data, error } = await supabase.rpc('retry_post_targets', {
+    p_target_ids: targetIds,
+    p_content: content,
+  });
+  if (error) throw error;
+  return data as unknown as { retried: number; pending_approval: number };
+}
+
+export async function skipTargets(targetIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('skip_post_targets', { p_target_ids: targetIds });
+  if (error) throw error;
+  return data ?? 0;
+}
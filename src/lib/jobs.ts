@@ -0,0 +1,21 @@
+// Operator helpers for publish_jobs. Workers hold a lease on the jobs they
+// claim and heartbeat while they run; a job whose heartbeat has stopped is
+// "stuck" until its lease runs out and the next scheduler run hands it back.
+
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type StuckJob = Database['public']['Functions']['list_stuck_jobs']['Returns'][number];
+
+export async function listStuckJobs(workspaceId: string): Promise<StuckJob[]> {
+  const { data, error } = await supabase.rpc('list_stuck_jobs', { p_workspace_id: workspaceId });
+  if (error) throw error;
+  return data || [];
+}
+
+// Expires the lease now: the job goes back to retry_scheduled, or failed if
+// it has used up its attempts
+export async function releaseStuckJob(jobId: string): Promise<void> {
+  const { error } = await supabase.rpc('release_stuck_job', { p_job_id: jobId });
+  if (error) throw error;
+}
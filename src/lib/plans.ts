@@ -0,0 +1,35 @@
+// Workspace plans (workspaces.plan). Only upload size differs between them
+// for now; plan_upload_limit() in the database enforces the same numbers
+// when an asset is registered.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type Plan = 'free' | 'pro' | 'business';
+
+const MB = 1024 * 1024;
+
+export const PLANS: Record<Plan, { label: string; maxUploadBytes: number }> = {
+  free: { label: 'Free', maxUploadBytes: 500 * MB },
+  pro: { label: 'Pro', maxUploadBytes: 2048 * MB },
+  business: { label: 'Business', maxUploadBytes: 4096 * MB },
+};
+
+export function isPlan(value: string): value is Plan {
+  return value in PLANS;
+}
+
+export async function loadUploadLimit(workspaceId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('plan')
+    .eq('id', workspaceId)
+    .single();
+  if (error) throw error;
+  return PLANS[isPlan(data.plan) ? data.plan : 'free'].maxUploadBytes;
+}
+
+// App admins only
+export async function setWorkspacePlan(workspaceId: string, plan: Plan): Promise<void> {
+  const { error } = await supabase.rpc('set_workspace_plan', { p_workspace_id: workspaceId, p_plan: plan });
+  if (error) throw error;
+}
@@ -0,0 +1,21 @@
+// Platform API quotas as tracked by the scheduler's ledger (quota_budgets /
+// quota_usage). App budgets are shared by every workspace; account budgets
+// are per connected channel.
+
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type QuotaStatus = Database['public']['Functions']['get_quota_status']['Returns'][number];
+
+// App admins only
+export async function loadQuotaStatus(): Promise<QuotaStatus[]> {
+  const { data, error } = await supabase.rpc('get_quota_status');
+  if (error) throw error;
+  return data || [];
+}
+
+// Publishes left this window; a platform-reported exhaustion means none
+export function publishesLeft(row: QuotaStatus): number {
+  if (row.exhausted) return 0;
+  return Math.max(0, Math.floor((row.daily_limit - row.used) / row.cost_per_publish));
+}
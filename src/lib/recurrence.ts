@@ -0,0 +1,119 @@
+// Repeat rules for scheduled posts. Stored one per post in post_recurrences
+// and expanded by materialize_occurrences(); the post's own scheduled_at is
+// the first occurrence.
+
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { weekdayOf } from "@/lib/timezone";
+
+export type RecurrenceFreq = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval: number;
+  byWeekday: number[]; // 0 = Sunday; weekly only
+  byMonthDay: number | null; // monthly only
+  count: number | null;
+  until: string | null; // 'YYYY-MM-DD'
+}
+
+export type PostRecurrence = Tables<'post_recurrences'>;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const UNITS: Record<RecurrenceFreq, string> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+// Sensible rule for a first occurrence on the given day
+export function defaultRule(freq: RecurrenceFreq, day: string): RecurrenceRule {
+  return {
+    freq,
+    interval: 1,
+    byWeekday: day ? [weekdayOf(day)] : [1],
+    byMonthDay: day ? Number(day.slice(8, 10)) : 1,
+    count: null,
+    until: null,
+  };
+}
+
+export function ruleFromRow(row: PostRecurrence): RecurrenceRule {
+  return {
+    freq: row.freq as RecurrenceFreq,
+    interval: row.interval_count,
+    byWeekday: row.by_weekday || [],
+    byMonthDay: row.by_month_day,
+    count: row.count,
+    until: row.until_date,
+  };
+}
+
+// "Every 2 weeks on Mon, Thu · 6 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = UNITS[rule.freq];
+  let text = rule.interval === 1
+    ? (rule.freq === 'daily' ? 'Every day' : `Every ${unit}`)
+    : `Every ${rule.interval} ${unit}s`;
+  if (rule.freq === 'weekly' && rule.byWeekday.length) {
+    text += ` on ${[...rule.byWeekday].sort().map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (rule.freq === 'monthly' && rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.count) text += ` · ${rule.count} times`;
+  else if (rule.until) text += ` · until ${rule.until}`;
+  return text;
+}
+
+// RFC 5545 form of the rule, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.freq === 'weekly') parts.push(`BYDAY=${[...rule.byWeekday].sort().map(d => RRULE_DAYS[d]).join(',')}`);
+  if (rule.freq === 'monthly' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+export function validateRule(rule: RecurrenceRule): string | null {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 365) return 'Repeat interval must be between 1 and 365';
+  if (rule.freq === 'weekly' && !rule.byWeekday.length) return 'Pick at least one weekday to repeat on';
+  if (rule.count !== null && (!Number.isInteger(rule.count) || rule.count < 1)) return 'Number of occurrences must be at least 1';
+  return null;
+}
+
+export interface SaveRecurrenceInput {
+  postId: string;
+  rule: RecurrenceRule;
+  // Wall-clock time and zone of the first occurrence; later ones keep them
+  startsOn: string;
+  timeOfDay: string;
+  timezone: string;
+  accountIds: string[];
+}
+
+// post_recurrences columns for a rule, the p_recurrence shape that
+// save_post_recurrence() and update_scheduled_post() take
+export function recurrenceColumns(input: Omit<SaveRecurrenceInput, 'postId' | 'accountIds'>) {
+  const { rule } = input;
+  return {
+    freq: rule.freq,
+    interval_count: rule.interval,
+    by_weekday: rule.freq === 'weekly' ? rule.byWeekday : null,
+    by_month_day: rule.freq === 'monthly' ? rule.byMonthDay : null,
+    time_of_day: input.timeOfDay,
+    timezone: input.timezone,
+    starts_on: input.startsOn,
+    count: rule.count,
+    until_date: rule.count ? null : rule.until,
+  };
+}
+
+// Rules are saved server-side only, so a contributor's rule goes back
+// through review (see save_post_recurrence())
+export async function saveRecurrence(input: SaveRecurrenceInput): Promise<void> {
+  const { error } = await supabase.rpc('save_post_recurrence', {
+    p_post_id: input.postId,
+    p_recurrence: recurrenceColumns(input),
+    p_account_ids: input.accountIds,
+  });
+  if (error) throw error;
+}
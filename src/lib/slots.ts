@@ -0,0 +1,66 @@
+// Weekly posting slots per channel. Times are wall-clock in the workspace
+// timezone; add_post_to_queue() gives a post the next free slot on each of
+// its channels and the database keeps each channel's queue compact.
+
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { WEEKDAY_LABELS } from "@/lib/recurrence";
+
+export type PostingSlot = Tables<'posting_slots'>;
+
+export interface QueuedSlot {
+  target_id: string;
+  social_account_id: string;
+  run_at: string;
+}
+
+export async function loadSlots(workspaceId: string): Promise<PostingSlot[]> {
+  const { data, error } = await supabase
+    .from('posting_slots')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('weekday')
+    .order('slot_time');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function addSlot(workspaceId: string, socialAccountId: string, weekday: number, time: string): Promise<PostingSlot> {
+  const { data, error } = await supabase
+    .from('posting_slots')
+    .insert({ workspace_id: workspaceId, social_account_id: socialAccountId, weekday, slot_time: time })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function removeSlot(slotId: string): Promise<void> {
+  const { error } = await supabase.from('posting_slots').delete().eq('id', slotId);
+  if (error) throw error;
+}
+
+// "Mon, Wed, Fri 18:00 · Sat 10:00", grouping days that share a time
+export function describeSlots(slots: PostingSlot[]): string {
+  const byTime = new Map<string, number[]>();
+  for (const s of slots) {
+    const time = s.slot_time.slice(0, 5);
+    byTime.set(time, [...(byTime.get(time) || []), s.weekday]);
+  }
+  return [...byTime.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([time, days]) => `${[...days].sort().map(d => WEEKDAY_LABELS[d]).join(', ')} ${time}`)
+    .join(' · ');
+}
+
+export async function addPostToQueue(postId: string): Promise<QueuedSlot[]> {
+  const { data, error } = await supabase.rpc('add_post_to_queue', { p_post_id: postId });
+  if (error) throw error;
+  return (data as unknown as QueuedSlot[]) || [];
+}
+
+// Cancels a scheduled post; slot-queued posts behind it move up
+export async function cancelPost(postId: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_post', { p_post_id: postId });
+  if (error) throw error;
+}
@@ -0,0 +1,73 @@
+// Instagram settings edited per channel in the composer. Stored as
+// ChannelOverride.instagram and used by publishToInstagram() in
+// supabase/functions/_shared/publishers.ts.
+
+// Mirrors InstagramOptions in supabase/functions/_shared/publishers.ts
+export type InstagramPlacement = 'feed' | 'story' | 'both';
+
+export interface InstagramOptions {
+  placement?: InstagramPlacement;
+  coverUrl?: string;
+  thumbOffsetMs?: number;
+  shareToFeed?: boolean;
+  collaborators?: string[];
+  locationId?: string;
+  userTags?: string[];
+}
+
+export const INSTAGRAM_PLACEMENT_LABELS: Record<InstagramPlacement, string> = {
+  feed: 'Reel / feed post',
+  story: 'Story',
+  both: 'Reel / feed post and Story',
+};
+
+export const INSTAGRAM_MAX_COLLABORATORS = 3;
+export const INSTAGRAM_MAX_USER_TAGS = 20;
+
+// The Graph API fetches cover_url images; JPEG is the only format it takes
+export const INSTAGRAM_COVER_TYPES = ['image/jpeg'];
+export const INSTAGRAM_COVER_MAX_BYTES = 8 * 1024 * 1024;
+
+const USERNAME = /^[A-Za-z0-9._]{1,30}$/;
+
+// "@one, two three" -> ['one', 'two', 'three']
+export function parseUsernames(input: string): string[] {
+  return input
+    .split(/[\s,]+/)
+    .map(name => name.replace(/^@+/, '').trim())
+    .filter(Boolean);
+}
+
+export function validateInstagramOptions(options: InstagramOptions | undefined): string | null {
+  if (!options) return null;
+  const names = [...(options.collaborators || []), ...(options.userTags || [])];
+  const invalid = names.find(name => !USERNAME.test(name));
+  if (invalid) return `"${invalid}" isn't a valid Instagram username`;
+  if ((options.collaborators?.length || 0) > INSTAGRAM_MAX_COLLABORATORS) {
+    return `Instagram allows at most ${INSTAGRAM_MAX_COLLABORATORS} collaborators`;
+  }
+  if ((options.userTags?.length || 0) > INSTAGRAM_MAX_USER_TAGS) {
+    return `Instagram allows at most ${INSTAGRAM_MAX_USER_TAGS} tagged people`;
+  }
+  if (options.locationId && !/^\d+$/.test(options.locationId)) {
+    return 'Instagram location must be a numeric Facebook Page ID';
+  }
+  return null;
+}
+
+// Drop unset fields so an untouched Instagram section isn't stored
+export function compactInstagramOptions(options: InstagramOptions | undefined): InstagramOptions | undefined {
+  if (!options) return undefined;
+  const compact: InstagramOptions = {};
+  if (options.placement && options.placement !== 'feed') compact.placement = options.placement;
+  // Stories take none of the rest
+  if (options.placement !== 'story') {
+    if (options.coverUrl) compact.coverUrl = options.coverUrl;
+    else if (options.thumbOffsetMs !== undefined) compact.thumbOffsetMs = options.thumbOffsetMs;
+    if (options.shareToFeed === false) compact.shareToFeed = false;
+    if (options.collaborators?.length) compact.collaborators = options.collaborators;
+    if (options.locationId?.trim()) compact.locationId = options.locationId.trim();
+    if (options.userTags?.length) compact.userTags = options.userTags;
+  }
+  return Object.keys(compact).length ? compact : undefined;
+}
@@ -0,0 +1,29 @@
+// The composer runs the same media checks as the publish functions; the
+// implementation lives with the edge functions so the two can't drift.
+
+import {
+  MediaValidationReport,
+  validateMediaForPlatform,
+} from "../../../supabase/functions/_shared/media-validation.ts";
+import type { ChannelVersion } from "./overrides";
+
+export {
+  validateMediaForPlatform,
+  summarizeMediaIssues,
+} from "../../../supabase/functions/_shared/media-validation.ts";
+export type {
+  MediaFacts,
+  MediaIssue,
+  MediaValidationReport,
+} from "../../../supabase/functions/_shared/media-validation.ts";
+
+// Checks the media one channel will get. Library videos go through the
+// transcode worker first, so fixable problems only warn.
+export function validateChannelMedia(platform: string, version: ChannelVersion): MediaValidationReport | null {
+  if (!version.mediaUrl || !version.mediaType) return null;
+  return validateMediaForPlatform(platform, {
+    type: version.mediaType,
+    ...version.mediaMeta,
+    processedByWorker: version.mediaType === 'video' && !!version.assetId,
+  });
+}
@@ -0,0 +1,122 @@
+// Per-channel overrides edited in the composer. Stored under
+// posts.per_channel_overrides.accounts keyed by social account id; the
+// backend resolves them in supabase/functions/_shared/overrides.ts.
+
+import { PLATFORM_CONFIG, ProviderName } from "./types";
+import { YouTubeOptions, compactYouTubeOptions, validateYouTubeOptions } from "./youtube";
+import { TikTokOptions, compactTikTokOptions, validateTikTokOptions } from "./tiktok";
+import { InstagramOptions, compactInstagramOptions, validateInstagramOptions } from "./instagram";
+
+// Mirrors MediaMeta in supabase/functions/_shared/publishers.ts
+export interface MediaMeta {
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  sizeBytes?: number;
+  mimeType?: string;
+}
+
+export interface ChannelOverride {
+  content?: string;
+  title?: string;
+  hashtags?: string[];
+  link_url?: string;
+  media_url?: string;
+  media_type?: 'image' | 'video';
+  media_meta?: MediaMeta;
+  // media library asset behind media_url
+  asset_id?: string;
+  youtube?: YouTubeOptions;
+  tiktok?: TikTokOptions;
+  instagram?: InstagramOptions;
+}
+
+export interface ChannelVersion {
+  content: string;
+  title?: string;
+  linkUrl?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  mediaMeta?: MediaMeta;
+  assetId?: string;
+  youtube?: YouTubeOptions;
+  tiktok?: TikTokOptions;
+  instagram?: InstagramOptions;
+}
+
+export function parseHashtags(input: string): string[] {
+  return input
+    .split(/[\s,]+/)
+    .map(tag => tag.replace(/^#+/, '').trim())
+    .filter(Boolean);
+}
+
+export function formatHashtags(hashtags: string[] | undefined): string {
+  return (hashtags || []).map(tag => `#${tag}`).join(' ');
+}
+
+export function resolveChannelVersion(base: ChannelVersion, override?: ChannelOverride): ChannelVersion {
+  if (!override) return base;
+  const caption = override.content?.trim() ? override.content : base.content;
+  const tags = formatHashtags(override.hashtags);
+  const ownMedia = !!override.media_url;
+  return {
+    content: tags ? `${caption}\n\n${tags}` : caption,
+    title: override.title?.trim() || base.title,
+    linkUrl: override.link_url?.trim() || base.linkUrl,
+    mediaUrl: ownMedia ? override.media_url : base.mediaUrl,
+    mediaType: ownMedia ? override.media_type : base.mediaType,
+    mediaMeta: ownMedia ? override.media_meta : base.mediaMeta,
+    assetId: ownMedia ? override.asset_id : base.assetId,
+    youtube: override.youtube || base.youtube,
+    tiktok: override.tiktok || base.tiktok,
+    instagram: override.instagram || base.instagram,
+  };
+}
+
+// Mirrors validateContentForPlatform() in the social-publish function
+export function validateChannelVersion(platform: ProviderName, version: ChannelVersion): string | null {
+  const config = PLATFORM_CONFIG[platform];
+  const maxLength = config?.maxLength || 2200;
+  if (version.content.length > maxLength) {
+    return `${config?.displayName || platform} caption is ${version.content.length}/${maxLength} characters`;
+  }
+  if (platform === 'instagram' && !version.mediaUrl) {
+    return 'Instagram requires an image or video';
+  }
+  if ((platform === 'youtube' || platform === 'tiktok') && (!version.mediaUrl || version.mediaType !== 'video')) {
+    return `${config.displayName} requires a video file`;
+  }
+  if (platform === 'youtube') return validateYouTubeOptions(version.youtube);
+  if (platform === 'tiktok') return validateTikTokOptions(version.tiktok);
+  if (platform === 'instagram') return validateInstagramOptions(version.instagram);
+  return null;
+}
+
+// Drop empty fields so untouched channels don't get stored at all
+export function compactOverrides(overrides: Record<string, ChannelOverride>, accountIds: string[]): Record<string, ChannelOverride> {
+  const result: Record<string, ChannelOverride> = {};
+  for (const id of accountIds) {
+    const o = overrides[id];
+    if (!o) continue;
+    const compact: ChannelOverride = {};
+    if (o.content?.trim()) compact.content = o.content.trim();
+    if (o.title?.trim()) compact.title = o.title.trim();
+    if (o.hashtags?.length) compact.hashtags = o.hashtags;
+    if (o.link_url?.trim()) compact.link_url = o.link_url.trim();
+    if (o.media_url) {
+      compact.media_url = o.media_url;
+      compact.media_type = o.media_type || 'image';
+      if (o.media_meta) compact.media_meta = o.media_meta;
+      if (o.asset_id) compact.asset_id = o.asset_id;
+    }
+    const youtube = compactYouTubeOptions(o.youtube);
+    if (youtube) compact.youtube = youtube;
+    const tiktok = compactTikTokOptions(o.tiktok);
+    if (tiktok) compact.tiktok = tiktok;
+    const instagram = compactInstagramOptions(o.instagram);
+    if (instagram) compact.instagram = instagram;
+    if (Object.keys(compact).length) result[id] = compact;
+  }
+  return result;
+}
@@ -74,10 +74,12 @@ export const PLATFORM_GUIDES: PlatformGuide[] = [
     restrictions: [
       "Requires Instagram Business/Creator linked to a Facebook Page",
       "Video must be publicly reachable via HTTPS URL",
+      "Stories carry the media only: no caption, tags, collaborators or location",
     ],
     checklist: [
       "9:16 vertical MP4, ≤90s, ≤100MB",
       "First line of caption becomes the caption",
+      "Pick Reel, Story or both under Customize for the account",
     ],
   },
   {
@@ -0,0 +1,83 @@
+// TikTok Direct Post settings edited per channel in the composer. Stored as
+// ChannelOverride.tiktok and sent to video/init by publishToTikTok() in
+// supabase/functions/_shared/publishers.ts. TikTok's content guidelines
+// require the user to choose the audience and interactions themselves, so
+// there are no defaults.
+
+import { supabase } from "@/integrations/supabase/client";
+
+// Mirrors TikTokOptions in supabase/functions/_shared/publishers.ts, plus
+// the composer's disclosure switch
+export interface TikTokOptions {
+  privacyLevel?: string;
+  // unset means off; the user has to turn interactions on
+  disableComment?: boolean;
+  disableDuet?: boolean;
+  disableStitch?: boolean;
+  // "Disclose commercial content" is on; needs brandOrganic and/or brandedContent
+  discloseCommercial?: boolean;
+  brandOrganic?: boolean;
+  brandedContent?: boolean;
+}
+
+// creator_info/query, via the tiktok-creator-info function
+export interface TikTokCreatorInfo {
+  username?: string;
+  nickname?: string;
+  avatarUrl?: string;
+  privacyLevelOptions: string[];
+  // turned off by the creator in the TikTok app; these can't be enabled
+  commentDisabled: boolean;
+  duetDisabled: boolean;
+  stitchDisabled: boolean;
+  maxVideoPostDurationSec: number | null;
+}
+
+export const TIKTOK_PRIVACY_LABELS: Record<string, string> = {
+  PUBLIC_TO_EVERYONE: 'Everyone',
+  MUTUAL_FOLLOW_FRIENDS: 'Friends',
+  FOLLOWER_OF_CREATOR: 'Followers',
+  SELF_ONLY: 'Only me',
+};
+
+export async function fetchTikTokCreatorInfo(accountId: string): Promise<TikTokCreatorInfo> {
+  const response = await supabase.functions.invoke('tiktok-creator-info', { body: { accountId } });
+  if (response.error) throw response.error;
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
+
+export function validateTikTokOptions(options: TikTokOptions | undefined): string | null {
+  if (!options?.privacyLevel) return 'Choose who can view this TikTok post';
+  if (options.discloseCommercial && !options.brandOrganic && !options.brandedContent) {
+    return 'Choose "Your brand", "Branded content" or both, or turn off the TikTok disclosure';
+  }
+  if (options.brandedContent && options.privacyLevel === 'SELF_ONLY') {
+    return 'TikTok branded content cannot be private';
+  }
+  return null;
+}
+
+// The label TikTok puts on the post for the chosen disclosure, if any
+export function tiktokDisclosureLabel(options: TikTokOptions | undefined): string | null {
+  if (!options?.discloseCommercial) return null;
+  if (options.brandedContent) return 'Paid partnership';
+  if (options.brandOrganic) return 'Promotional content';
+  return null;
+}
+
+// Drop unset fields so an untouched TikTok section isn't stored
+export function compactTikTokOptions(options: TikTokOptions | undefined): TikTokOptions | undefined {
+  if (!options) return undefined;
+  const compact: TikTokOptions = {};
+  if (options.privacyLevel) compact.privacyLevel = options.privacyLevel;
+  if (options.disableComment !== undefined) compact.disableComment = options.disableComment;
+  if (options.disableDuet !== undefined) compact.disableDuet = options.disableDuet;
+  if (options.disableStitch !== undefined) compact.disableStitch = options.disableStitch;
+  if (options.discloseCommercial) {
+    compact.discloseCommercial = true;
+    if (options.brandOrganic) compact.brandOrganic = true;
+    if (options.brandedContent) compact.brandedContent = true;
+  }
+  return Object.keys(compact).length ? compact : undefined;
+}
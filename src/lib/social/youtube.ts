@@ -0,0 +1,91 @@
+// YouTube settings edited per channel in the composer. Stored as
+// ChannelOverride.youtube and sent to videos.insert by publishToYouTube()
+// in supabase/functions/_shared/publishers.ts.
+
+// Mirrors YouTubeOptions in supabase/functions/_shared/publishers.ts
+export type YouTubePrivacy = 'public' | 'unlisted' | 'private';
+
+export interface YouTubeOptions {
+  description?: string;
+  tags?: string[];
+  categoryId?: string;
+  privacy?: YouTubePrivacy;
+  // ISO timestamp; the video stays private until then
+  publishAt?: string;
+  madeForKids?: boolean;
+  defaultLanguage?: string;
+  playlistId?: string;
+  thumbnailUrl?: string;
+}
+
+// Assignable videoCategories (the list is the same in every region we target)
+export const YOUTUBE_CATEGORIES: { id: string; label: string }[] = [
+  { id: '1', label: 'Film & Animation' },
+  { id: '2', label: 'Autos & Vehicles' },
+  { id: '10', label: 'Music' },
+  { id: '15', label: 'Pets & Animals' },
+  { id: '17', label: 'Sports' },
+  { id: '19', label: 'Travel & Events' },
+  { id: '20', label: 'Gaming' },
+  { id: '22', label: 'People & Blogs' },
+  { id: '23', label: 'Comedy' },
+  { id: '24', label: 'Entertainment' },
+  { id: '25', label: 'News & Politics' },
+  { id: '26', label: 'Howto & Style' },
+  { id: '27', label: 'Education' },
+  { id: '28', label: 'Science & Technology' },
+  { id: '29', label: 'Nonprofits & Activism' },
+];
+
+export const YOUTUBE_PRIVACY_LABELS: Record<YouTubePrivacy, string> = {
+  public: 'Public',
+  unlisted: 'Unlisted',
+  private: 'Private',
+};
+
+// thumbnails.set accepts JPEG or PNG up to 2MB
+export const YOUTUBE_THUMBNAIL_TYPES = ['image/jpeg', 'image/png'];
+export const YOUTUBE_THUMBNAIL_MAX_BYTES = 2 * 1024 * 1024;
+
+// Tags may not total more than 500 characters
+export const YOUTUBE_TAGS_MAX_LENGTH = 500;
+
+// Accepts a bare playlist id or any YouTube URL with a list= parameter
+export function parsePlaylistId(input: string): string | undefined {
+  const text = input.trim();
+  if (!text) return undefined;
+  try {
+    const list = new URL(text).searchParams.get('list');
+    if (list) return list;
+  } catch {
+    // not a URL
+  }
+  return /^[\w-]+$/.test(text) ? text : undefined;
+}
+
+export function validateYouTubeOptions(options: YouTubeOptions | undefined): string | null {
+  if (!options) return null;
+  if (options.tags && options.tags.join(',').length > YOUTUBE_TAGS_MAX_LENGTH) {
+    return `YouTube tags can total at most ${YOUTUBE_TAGS_MAX_LENGTH} characters`;
+  }
+  if (options.publishAt && new Date(options.publishAt) <= new Date()) {
+    return 'YouTube publish time must be in the future';
+  }
+  return null;
+}
+
+// Drop empty fields so an untouched YouTube section isn't stored
+export function compactYouTubeOptions(options: YouTubeOptions | undefined): YouTubeOptions | undefined {
+  if (!options) return undefined;
+  const compact: YouTubeOptions = {};
+  if (options.description?.trim()) compact.description = options.description.trim();
+  if (options.tags?.length) compact.tags = options.tags;
+  if (options.categoryId) compact.categoryId = options.categoryId;
+  if (options.privacy) compact.privacy = options.privacy;
+  if (options.publishAt) compact.publishAt = options.publishAt;
+  if (options.madeForKids !== undefined) compact.madeForKids = options.madeForKids;
+  if (options.defaultLanguage?.trim()) compact.defaultLanguage = options.defaultLanguage.trim();
+  if (options.playlistId) compact.playlistId = options.playlistId;
+  if (options.thumbnailUrl) compact.thumbnailUrl = options.thumbnailUrl;
+  return Object.keys(compact).length ? compact : undefined;
+}
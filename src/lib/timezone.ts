@@ -0,0 +1,142 @@
+// Wall-clock helpers for an explicit IANA timezone (the workspace's), built
+// on Intl so no timezone database has to ship with the app. Calendar days
+// are passed around as 'YYYY-MM-DD' keys and times as 'HH:mm'.
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of partsFormatter(timeZone).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Offset of the zone from UTC at the given instant, in ms
+function offsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, date.getUTCSeconds());
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function dateKey(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+export function timeKey(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// The instant a wall-clock date and time happen in the zone. Times skipped
+// by a DST jump resolve to the same wall time after the jump; repeated times
+// resolve to the first occurrence.
+export function zonedTimeToUtc(day: string, time: string, timeZone: string): Date {
+  const [y, m, d] = day.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  const wall = Date.UTC(y, m - 1, d, hh, mm);
+  // A transition moves the offset by at most a day's worth either side
+  const before = offsetMs(new Date(wall - DAY_MS), timeZone);
+  const after = offsetMs(new Date(wall + DAY_MS), timeZone);
+  const valid = [wall - before, wall - after].filter(t => wall - t === offsetMs(new Date(t), timeZone));
+  if (valid.length) return new Date(Math.min(...valid));
+  // In the gap: the pre-transition offset lands past the jump
+  return new Date(wall - before);
+}
+
+export function formatInZone(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(undefined, { timeZone, ...options }).format(date);
+}
+
+// Calendar arithmetic on day keys; independent of any timezone
+export function addDays(day: string, days: number): string {
+  const [y, m, d] = day.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + days));
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`;
+}
+
+export function weekdayOf(day: string): number {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zones offered in pickers. Falls back to the workspace list on browsers
+// without Intl.supportedValuesOf.
+const COMMON_TIMEZONES = [
+  'UTC',
+  'Europe/Helsinki', 'Europe/London', 'Europe/Paris', 'Europe/Berlin',
+  'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
+  'Asia/Tokyo', 'Asia/Shanghai', 'Asia/Singapore', 'Asia/Dubai',
+  'Australia/Sydney', 'Australia/Melbourne', 'Pacific/Auckland',
+];
+
+export function listTimeZones(): string[] {
+  const supported = (Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+  const zones = supported ? supported('timeZone') : COMMON_TIMEZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+// "Oct 26, 2026, 3:00 PM EET" — always with the zone, so it can't be
+// mistaken for the reader's own local time
+export function formatScheduled(date: Date, timeZone: string): string {
+  return formatInZone(date, timeZone, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
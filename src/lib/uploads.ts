@@ -0,0 +1,199 @@
+// Resumable uploads to Supabase Storage over the TUS protocol. Files go up in
+// 6MB chunks and the upload URL is remembered in localStorage, so a dropped
+// connection, a pause or even a page reload carries on from the last chunk
+// the server has instead of starting over.
+
+import { supabase } from "@/integrations/supabase/client";
+
+const ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+const API_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+// Supabase Storage requires exactly this chunk size (except the last)
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Waits between attempts after a network error or server error. Every chunk
+// that gets through starts the sequence over; time spent offline doesn't count.
+const RETRY_DELAYS = [1000, 3000, 5000, 10000, 20000];
+const STORE_PREFIX = 'tus-upload:';
+
+export interface ResumableUploadOptions {
+  contentType: string;
+  cacheControl?: string;
+  // bytes the server has so far
+  onProgress?: (sent: number, total: number) => void;
+  // told when the upload is waiting to try again
+  onStall?: (reason: 'offline' | 'retrying') => void;
+  // aborting pauses the upload; calling again with the same file resumes it
+  signal?: AbortSignal;
+}
+
+class TusError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export function isUploadPaused(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function aborted(): DOMException {
+  return new DOMException('Upload paused', 'AbortError');
+}
+
+// Network failures, server errors and offset conflicts (409, answered by
+// asking the server for its offset again) are worth another try
+function isRetryable(error: unknown): boolean {
+  if (error instanceof TusError) return error.status === 0 || error.status === 409 || error.status === 423 || error.status >= 500;
+  return error instanceof TypeError;
+}
+
+function fingerprint(bucket: string, path: string, file: File): string {
+  return `${STORE_PREFIX}${bucket}/${path}:${file.size}:${file.lastModified}`;
+}
+
+function encodeMetadata(meta: Record<string, string>): string {
+  return Object.entries(meta)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`;
+    })
+    .join(',');
+}
+
+// Read per request: a long upload can outlive the access token it started with
+async function tusHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'authorization': `Bearer ${session?.access_token ?? API_KEY}`,
+    'apikey': API_KEY,
+    'tus-resumable': '1.0.0',
+  };
+}
+
+async function createUpload(bucket: string, path: string, file: File, options: ResumableUploadOptions): Promise<string> {
+  const response = await fetch(ENDPOINT, {
+    method: 'POST',
+    headers: {
+      ...await tusHeaders(),
+      'upload-length': String(file.size),
+      'upload-metadata': encodeMetadata({
+        bucketName: bucket,
+        objectName: path,
+        contentType: options.contentType,
+        cacheControl: options.cacheControl ?? '3600',
+      }),
+      'x-upsert': 'true',
+    },
+    signal: options.signal,
+  });
+  const location = response.headers.get('location');
+  if (response.status !== 201 || !location) {
+    throw new TusError((await response.text()) || `Could not start the upload (${response.status})`, response.status);
+  }
+  return new URL(location, ENDPOINT).toString();
+}
+
+// How much of the file the server has, or null if it no longer knows the upload
+async function fetchOffset(url: string, signal?: AbortSignal): Promise<number | null> {
+  const response = await fetch(url, { method: 'HEAD', headers: await tusHeaders(), signal });
+  if (response.status === 403 || response.status === 404 || response.status === 410) return null;
+  if (!response.ok) throw new TusError(`Could not resume the upload (${response.status})`, response.status);
+  return Number(response.headers.get('upload-offset') ?? 0);
+}
+
+// PATCHes one chunk. XHR rather than fetch so progress moves within a chunk.
+async function sendChunk(
+  url: string,
+  offset: number,
+  chunk: Blob,
+  onProgress: (sent: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  const headers = await tusHeaders();
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(aborted()); return; }
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', url);
+    for (const [key, value] of Object.entries(headers)) xhr.setRequestHeader(key, value);
+    xhr.setRequestHeader('upload-offset', String(offset));
+    xhr.setRequestHeader('content-type', 'application/offset+octet-stream');
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort);
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (e) => onProgress(offset + e.loaded);
+    xhr.onload = () => {
+      settle();
+      if (xhr.status === 204) resolve(Number(xhr.getResponseHeader('upload-offset')));
+      else reject(new TusError(xhr.responseText || `Upload failed (${xhr.status})`, xhr.status));
+    };
+    xhr.onerror = () => { settle(); reject(new TusError('Network error while uploading', 0)); };
+    xhr.onabort = () => { settle(); reject(aborted()); };
+    xhr.send(chunk);
+  });
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    function done() { signal?.removeEventListener('abort', stop); resolve(); }
+    function stop() { clearTimeout(timer); reject(aborted()); }
+    signal?.addEventListener('abort', stop);
+  });
+}
+
+function waitForOnline(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => { cleanup(); resolve(); };
+    const stop = () => { cleanup(); reject(aborted()); };
+    const cleanup = () => {
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', stop);
+    };
+    window.addEventListener('online', done);
+    signal?.addEventListener('abort', stop);
+  });
+}
+
+export async function uploadResumable(
+  bucket: string,
+  path: string,
+  file: File,
+  options: ResumableUploadOptions
+): Promise<void> {
+  const { onProgress, onStall, signal } = options;
+  const key = fingerprint(bucket, path, file);
+  let failures = 0;
+
+  for (;;) {
+    try {
+      let url = localStorage.getItem(key);
+      let offset = url ? await fetchOffset(url, signal) : null;
+      if (!url || offset === null) {
+        url = await createUpload(bucket, path, file, options);
+        offset = 0;
+        localStorage.setItem(key, url);
+      }
+      onProgress?.(offset, file.size);
+
+      while (offset < file.size) {
+        const chunk = file.slice(offset, offset + CHUNK_SIZE);
+        offset = await sendChunk(url, offset, chunk, (sent) => onProgress?.(sent, file.size), signal);
+        failures = 0;
+      }
+      localStorage.removeItem(key);
+      return;
+    } catch (error) {
+      if (signal?.aborted) throw aborted();
+      if (!isRetryable(error)) throw error;
+      if (!navigator.onLine) {
+        onStall?.('offline');
+        await waitForOnline(signal);
+        continue;
+      }
+      if (failures >= RETRY_DELAYS.length) throw error;
+      onStall?.('retrying');
+      await wait(RETRY_DELAYS[failures++], signal);
+    }
+  }
+}
@@ -23,6 +23,8 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { QuotaUsage } from "@/components/admin/QuotaUsage";
+import { PLANS, Plan, isPlan, setWorkspacePlan } from "@/lib/plans";
 
 interface UserStats {
   id: string;
@@ -38,6 +40,7 @@ interface Workspace {
   id: string;
   name: string;
   timezone: string;
+  plan: Plan;
   created_at: string;
   member_count: number;
   post_count: number;
@@ -149,6 +152,7 @@ const Admin = () => {
           id: ws.id,
           name: ws.name,
           timezone: ws.timezone,
+          plan: isPlan(ws.plan) ? ws.plan : 'free',
           created_at: ws.created_at,
           member_count: memberCount,
           post_count: postCount,
@@ -218,6 +222,17 @@ const Admin = () => {
     }
   };
 
+  const handlePlanChange = async (workspaceId: string, plan: Plan) => {
+    try {
+      await setWorkspacePlan(workspaceId, plan);
+      setWorkspaces(prev => prev.map(w => w.id === workspaceId ? { ...w, plan } : w));
+      toast.success(`Plan changed to ${PLANS[plan].label}`);
+    } catch (error) {
+      console.error("Error changing plan:", error);
+      toast.error((error as { message?: string }).message || "Failed to change plan");
+    }
+  };
+
   if (adminLoading || loading) {
     return (
       <AppLayout>
@@ -280,11 +295,12 @@ const Admin = () => {
           </Card>
         </div>
 
-        {/* Tabs for Users and Workspaces */}
+        {/* Tabs for Users, Workspaces and API quotas */}
         <Tabs defaultValue="users" className="space-y-4">
           <TabsList>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="workspaces">Workspaces</TabsTrigger>
+            <TabsTrigger value="quotas">Quotas</TabsTrigger>
           </TabsList>
 
           <TabsContent value="users">
@@ -453,6 +469,7 @@ const Admin = () => {
                     <TableRow>
                       <TableHead>Name</TableHead>
                       <TableHead>Timezone</TableHead>
+                      <TableHead>Plan</TableHead>
                       <TableHead>Members</TableHead>
                       <TableHead>Posts</TableHead>
                       <TableHead>Created</TableHead>
@@ -464,6 +481,20 @@ const Admin = () => {
                       <TableRow key={workspace.id}>
                         <TableCell className="font-medium">{workspace.name}</TableCell>
                         <TableCell>{workspace.timezone}</TableCell>
+                        <TableCell>
+                          <Select value={workspace.plan} onValueChange={(value) => handlePlanChange(workspace.id, value as Plan)}>
+                            <SelectTrigger className="w-[120px] h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(PLANS) as Plan[]).map((plan) => (
+                                <SelectItem key={plan} value={plan}>
+                                  {PLANS[plan].label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
                         <TableCell>{workspace.member_count}</TableCell>
                         <TableCell>{workspace.post_count}</TableCell>
                         <TableCell>{format(new Date(workspace.created_at), "MMM d, yyyy")}</TableCell>
@@ -508,7 +539,7 @@ const Admin = () => {
                     ))}
                     {workspaces.length === 0 && (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                           No workspaces found
                         </TableCell>
                       </TableRow>
@@ -549,6 +580,10 @@ const Admin = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="quotas">
+            <QuotaUsage />
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
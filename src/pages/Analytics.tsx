@@ -10,7 +10,9 @@ import { FacebookAnalytics } from "@/components/analytics/FacebookAnalytics";
 import { LinkedInAnalytics } from "@/components/analytics/LinkedInAnalytics";
 import { XAnalytics } from "@/components/analytics/XAnalytics";
 import { YouTubeAnalytics } from "@/components/analytics/YouTubeAnalytics";
-import { MessageCircle, BarChart3, Instagram, Facebook, Linkedin, Twitter, Youtube, LayoutGrid } from "lucide-react";
+import { TikTokAnalytics } from "@/components/analytics/TikTokAnalytics";
+import { BlueskyAnalytics } from "@/components/analytics/BlueskyAnalytics";
+import { MessageCircle, BarChart3, Instagram, Facebook, Linkedin, Twitter, Youtube, Video, Cloud, LayoutGrid } from "lucide-react";
 
 const Analytics = () => {
   const [workspaceId, setWorkspaceId] = useState<string | null>(null);
@@ -108,6 +110,14 @@ const Analytics = () => {
               <Youtube className="w-4 h-4" />
               YouTube
             </TabsTrigger>
+            <TabsTrigger value="tiktok" className="flex items-center gap-2">
+              <Video className="w-4 h-4" />
+              TikTok
+            </TabsTrigger>
+            <TabsTrigger value="bluesky" className="flex items-center gap-2">
+              <Cloud className="w-4 h-4" />
+              Bluesky
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -137,6 +147,14 @@ const Analytics = () => {
           <TabsContent value="youtube">
             <YouTubeAnalytics workspaceId={workspaceId} />
           </TabsContent>
+
+          <TabsContent value="tiktok">
+            <TikTokAnalytics workspaceId={workspaceId} />
+          </TabsContent>
+
+          <TabsContent value="bluesky">
+            <BlueskyAnalytics workspaceId={workspaceId} />
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
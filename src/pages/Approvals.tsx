@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { canApprovePosts } from "@/lib/approvals";
+import { browserTimeZone, formatScheduled } from "@/lib/timezone";
+import { Clock, CheckCircle, XCircle, Loader2, RefreshCw, ClipboardCheck } from "lucide-react";
+
+interface PendingPost {
+  id: string;
+  title: string | null;
+  body_text: string | null;
+  scheduled_at: string | null;
+  timezone: string | null;
+  created_at: string;
+  post_targets: { id: string; platform: string; social_accounts: { display_name: string } | null }[];
+}
+
+interface Decision {
+  id: string;
+  status: string;
+  comment: string | null;
+  updated_at: string;
+  posts: { title: string | null; body_text: string | null } | null;
+}
+
+const Approvals = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { handleError } = useErrorHandler();
+  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingPost[]>([]);
+  const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [view, setView] = useState("pending");
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) { navigate("/auth"); return; }
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('workspace_id, role')
+        .eq('user_id', user.id)
+        .single();
+      if (!membership) { navigate("/onboarding"); return; }
+      setRole(membership.role);
+
+      const { data: posts } = await supabase
+        .from('posts')
+        .select(`
+          id, title, body_text, scheduled_at, timezone, created_at,
+          post_targets ( id, platform, social_accounts ( display_name ) )
+        `)
+        .eq('workspace_id', membership.workspace_id)
+        .eq('status', 'pending_approval')
+        .order('created_at', { ascending: true });
+      setPending((posts as unknown as PendingPost[]) || []);
+
+      const { data: recent } = await supabase
+        .from('approvals')
+        .select('id, status, comment, updated_at, posts!inner ( title, body_text, workspace_id )')
+        .eq('posts.workspace_id', membership.workspace_id)
+        .in('status', ['approved', 'rejected'])
+        .order('updated_at', { ascending: false })
+        .limit(50);
+      setDecisions((recent as unknown as Decision[]) || []);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const review = async (postId: string, decision: 'approved' | 'rejected') => {
+    const comment = comments[postId]?.trim() || '';
+    if (decision === 'rejected' && !comment) {
+      toast({ title: 'Comment required', description: 'Tell the author what needs to change.', variant: 'destructive' });
+      return;
+    }
+    setReviewing(postId);
+    try {
+      const { error } = await supabase.rpc('review_post', {
+        p_post_id: postId,
+        p_decision: decision,
+        p_comment: comment || undefined,
+      });
+      if (error) throw error;
+      toast({ title: decision === 'approved' ? 'Post approved' : 'Post rejected' });
+      setComments(prev => ({ ...prev, [postId]: '' }));
+      load();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const isApprover = canApprovePosts(role);
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Approvals</h1>
+            <p className="text-muted-foreground mt-1">
+              {isApprover ? 'Review posts before they go out' : 'Posts waiting for an approver'}
+            </p>
+          </div>
+          <Button variant="outline" onClick={load}><RefreshCw className="w-4 h-4 mr-2" />Refresh</Button>
+        </div>
+
+        <Tabs value={view} onValueChange={setView}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="pending">Pending ({pending.length})</TabsTrigger>
+            <TabsTrigger value="decisions">Recent decisions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending" className="space-y-3">
+            {loading ? (
+              <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+            ) : pending.length === 0 ? (
+              <Card><CardContent className="pt-6">
+                <div className="text-center py-16">
+                  <ClipboardCheck className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+                  <h3 className="text-xl font-display font-semibold mb-2">Nothing to review</h3>
+                  <p className="text-muted-foreground">Posts submitted by editors show up here</p>
+                </div>
+              </CardContent></Card>
+            ) : pending.map(p => (
+              <Card key={p.id}>
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge className="bg-amber-500/10 text-amber-500">pending approval</Badge>
+                    {p.scheduled_at && (
+                      <span className="text-xs text-muted-foreground">
+                        <Clock className="w-3 h-3 inline mr-1" />
+                        {formatScheduled(new Date(p.scheduled_at), p.timezone || browserTimeZone())}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{p.body_text || p.title}</p>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {p.post_targets.map(t => (
+                      <span key={t.id}>
+                        <span className="capitalize">{t.platform}</span>
+                        {t.social_accounts?.display_name && <span className="text-muted-foreground"> · {t.social_accounts.display_name}</span>}
+                      </span>
+                    ))}
+                  </div>
+                  {isApprover && (
+                    <div className="space-y-2 pt-2 border-t">
+                      <Textarea
+                        placeholder="Comment (required when rejecting)"
+                        value={comments[p.id] || ''}
+                        onChange={(e) => setComments(prev => ({ ...prev, [p.id]: e.target.value }))}
+                        className="min-h-[60px]"
+                      />
+                      <div className="flex gap-2 justify-end">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={reviewing === p.id}
+                          onClick={() => review(p.id, 'rejected')}
+                        >
+                          <XCircle className="w-4 h-4 mr-2" /> Reject
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={reviewing === p.id}
+                          onClick={() => review(p.id, 'approved')}
+                          className="bg-gradient-primary hover:opacity-90"
+                        >
+                          {reviewing === p.id
+                            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            : <CheckCircle className="w-4 h-4 mr-2" />}
+                          Approve
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="decisions" className="space-y-3">
+            {loading ? (
+              <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+            ) : decisions.length === 0 ? (
+              <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">No decisions yet</CardContent></Card>
+            ) : decisions.map(d => (
+              <Card key={d.id}>
+                <CardContent className="pt-6 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge className={d.status === 'approved' ? 'bg-green-500/10 text-green-500' : 'bg-red-500/10 text-red-500'}>
+                      {d.status}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{new Date(d.updated_at).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm line-clamp-2">{d.posts?.body_text || d.posts?.title}</p>
+                  {d.comment && <p className="text-xs text-muted-foreground italic">"{d.comment}"</p>}
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Approvals;
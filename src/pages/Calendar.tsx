@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { PLATFORM_CONFIG, ProviderName } from "@/lib/social/types";
+import { CalendarEvent, CalendarView, MOVABLE_STATUSES, loadCalendarEvents, reschedulePost } from "@/lib/calendar";
+import { addDays, dateKey, formatInZone, timeKey, weekdayOf, zonedParts, zonedTimeToUtc } from "@/lib/timezone";
+import { CalendarDays, ChevronLeft, ChevronRight, Globe, Loader2, Plus, RefreshCw } from "lucide-react";
+
+interface Account {
+  id: string;
+  platform: string;
+  display_name: string;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const DEFAULT_SLOT_TIME = '09:00';
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Monday-first week containing the day
+const weekStart = (day: string) => addDays(day, -((weekdayOf(day) + 6) % 7));
+
+function visibleDays(view: CalendarView, anchor: string): string[] {
+  if (view === 'day') return [anchor];
+  if (view === 'week') {
+    const start = weekStart(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const start = weekStart(`${anchor.slice(0, 7)}-01`);
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+}
+
+function shiftAnchor(view: CalendarView, anchor: string, direction: 1 | -1): string {
+  if (view === 'day') return addDays(anchor, direction);
+  if (view === 'week') return addDays(anchor, 7 * direction);
+  const [y, m] = anchor.split('-').map(Number);
+  const month = new Date(Date.UTC(y, m - 1 + direction, 1));
+  return `${month.getUTCFullYear()}-${pad(month.getUTCMonth() + 1)}-01`;
+}
+
+// Noon avoids DST edges when formatting a day key as a date
+const dayDate = (day: string) => new Date(`${day}T12:00:00Z`);
+
+const CalendarPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { handleError } = useErrorHandler();
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [channel, setChannel] = useState('all');
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => dateKey(new Date(), 'UTC'));
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dragging, setDragging] = useState<CalendarEvent | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) { navigate("/auth"); return; }
+        const { data: membership } = await supabase
+          .from('workspace_members')
+          .select('workspace_id, workspaces ( timezone )')
+          .eq('user_id', user.id)
+          .single();
+        if (!membership) { navigate("/onboarding"); return; }
+        const tz = (membership as unknown as { workspaces: { timezone: string } | null }).workspaces?.timezone || 'UTC';
+        setTimeZone(tz);
+        setAnchor(dateKey(new Date(), tz));
+        setWorkspaceId(membership.workspace_id);
+
+        const { data } = await supabase
+          .from('social_accounts')
+          .select('id, platform, display_name')
+          .eq('workspace_id', membership.workspace_id)
+          .order('display_name');
+        setAccounts(data || []);
+      } catch (err) {
+        handleError(err);
+      }
+    })();
+  }, []);
+
+  const days = useMemo(() => visibleDays(view, anchor), [view, anchor]);
+
+  const load = async () => {
+    if (!workspaceId) return;
+    setLoading(true);
+    try {
+      const from = zonedTimeToUtc(days[0], '00:00', timeZone);
+      const to = zonedTimeToUtc(addDays(days[days.length - 1], 1), '00:00', timeZone);
+      setEvents(await loadCalendarEvents(workspaceId, from, to));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [workspaceId, days, timeZone]);
+
+  const visible = channel === 'all'
+    ? events
+    : events
+        .map(e => ({ ...e, targets: e.targets.filter(t => t.social_account_id === channel) }))
+        .filter(e => e.targets.length);
+
+  // Bucket by 'YYYY-MM-DD' and 'YYYY-MM-DD HH' in the workspace zone
+  const byDay = new Map<string, CalendarEvent[]>();
+  const byHour = new Map<string, CalendarEvent[]>();
+  for (const e of visible) {
+    const day = dateKey(e.at, timeZone);
+    const hourKey = `${day} ${pad(zonedParts(e.at, timeZone).hour)}`;
+    byDay.set(day, [...(byDay.get(day) || []), e]);
+    byHour.set(hourKey, [...(byHour.get(hourKey) || []), e]);
+  }
+
+  const today = dateKey(new Date(), timeZone);
+
+  const compose = (day: string, time: string) => {
+    const at = zonedTimeToUtc(day, time, timeZone);
+    if (at.getTime() < Date.now()) return;
+    navigate(`/compose?tab=schedule&at=${encodeURIComponent(at.toISOString())}`);
+  };
+
+  // Dropping on a day keeps the time of day; dropping on an hour keeps the minutes
+  const drop = async (day: string, hour?: number) => {
+    const event = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!event) return;
+    const [h, m] = timeKey(event.at, timeZone).split(':');
+    const time = hour === undefined ? `${h}:${m}` : `${pad(hour)}:${m}`;
+    const at = zonedTimeToUtc(day, time, timeZone);
+    if (at.getTime() === event.at.getTime()) return;
+    try {
+      await reschedulePost(event.postId, at);
+      toast({ title: 'Rescheduled', description: formatInZone(at, timeZone, { dateStyle: 'medium', timeStyle: 'short' }) });
+    } catch (err) {
+      handleError(err);
+    }
+    load();
+  };
+
+  const dropProps = (slot: string, day: string, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      setDropTarget(slot);
+    },
+    onDragLeave: () => setDropTarget(t => (t === slot ? null : t)),
+    onDrop: (e: React.DragEvent) => { e.preventDefault(); drop(day, hour); },
+  });
+
+  // A render function rather than a component: re-mounting the dragged
+  // element mid-drag (new component type each render) cancels the drag
+  const renderChip = (event: CalendarEvent, compact?: boolean) => {
+    const movable = event.kind === 'scheduled' && MOVABLE_STATUSES.includes(event.postStatus);
+    return (
+      <div
+        key={event.key}
+        draggable={movable}
+        onDragStart={(e) => { e.dataTransfer.setData('text/plain', event.postId); setDragging(event); }}
+        onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+        onClick={(e) => {
+          e.stopPropagation();
+          navigate(event.kind === 'published' ? `/posts/${event.postId}` : '/queue');
+        }}
+        title={`${timeKey(event.at, timeZone)} · ${event.targets.map(t => t.social_accounts?.display_name || t.platform).join(', ')}\n${event.text}`}
+        className={`text-xs rounded px-1.5 py-1 border truncate ${movable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${
+          event.kind === 'published'
+            ? 'bg-green-500/10 border-green-500/30'
+            : event.postStatus === 'pending_approval'
+              ? 'bg-amber-500/10 border-amber-500/30'
+              : event.postStatus === 'failed'
+                ? 'bg-red-500/10 border-red-500/30'
+                : 'bg-primary/10 border-primary/30'
+        } ${dragging?.key === event.key ? 'opacity-50' : ''}`}
+      >
+        <span className="inline-flex gap-0.5 mr-1 align-middle">
+          {event.targets.map(t => (
+            <span
+              key={t.id}
+              className="w-2 h-2 rounded-full inline-block"
+              style={{ backgroundColor: PLATFORM_CONFIG[t.platform as ProviderName]?.color }}
+            />
+          ))}
+        </span>
+        <span className="font-medium">{timeKey(event.at, timeZone)}</span>
+        {!compact && <span className="ml-1 text-muted-foreground">{event.text}</span>}
+      </div>
+    );
+  };
+
+  const title = view === 'month'
+    ? formatInZone(dayDate(anchor), 'UTC', { month: 'long', year: 'numeric' })
+    : view === 'week'
+      ? `${formatInZone(dayDate(days[0]), 'UTC', { month: 'short', day: 'numeric' })} – ${formatInZone(dayDate(days[6]), 'UTC', { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : formatInZone(dayDate(anchor), 'UTC', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in">
+        <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Calendar</h1>
+            <p className="text-muted-foreground mt-1 flex items-center gap-1.5">
+              <Globe className="w-4 h-4" /> Times shown in {timeZone}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={load}><RefreshCw className="w-4 h-4 mr-2" />Refresh</Button>
+            <Button onClick={() => navigate("/compose?tab=schedule")} className="bg-gradient-primary hover:opacity-90">
+              <Plus className="w-4 h-4 mr-2" /> New Post
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setAnchor(a => shiftAnchor(view, a, -1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(today)}>Today</Button>
+            <Button variant="outline" size="icon" onClick={() => setAnchor(a => shiftAnchor(view, a, 1))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h2 className="text-lg font-semibold ml-2">{title}</h2>
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={channel} onValueChange={setChannel}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                {accounts.map(a => (
+                  <SelectItem key={a.id} value={a.id}>
+                    {a.display_name} · {PLATFORM_CONFIG[a.platform as ProviderName]?.displayName || a.platform}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex rounded-md border">
+              {(['month', 'week', 'day'] as CalendarView[]).map(v => (
+                <Button
+                  key={v}
+                  variant={view === v ? 'default' : 'ghost'}
+                  size="sm"
+                  className="capitalize rounded-none first:rounded-l-md last:rounded-r-md"
+                  onClick={() => setView(v)}
+                >
+                  {v}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            {view === 'month' ? (
+              <div className="grid grid-cols-7 min-w-[700px]">
+                {days.slice(0, 7).map(day => (
+                  <div key={day} className="text-xs font-medium text-muted-foreground p-2 border-b">
+                    {formatInZone(dayDate(day), 'UTC', { weekday: 'short' })}
+                  </div>
+                ))}
+                {days.map(day => {
+                  const dayEvents = byDay.get(day) || [];
+                  const inMonth = day.slice(0, 7) === anchor.slice(0, 7);
+                  return (
+                    <div
+                      key={day}
+                      onClick={() => compose(day, DEFAULT_SLOT_TIME)}
+                      {...dropProps(day, day)}
+                      className={`min-h-[110px] p-1.5 border-b border-r space-y-1 cursor-pointer hover:bg-muted/40 ${
+                        inMonth ? '' : 'bg-muted/20 text-muted-foreground'
+                      } ${dropTarget === day ? 'bg-primary/10' : ''}`}
+                    >
+                      <div className={`text-xs font-medium ${day === today ? 'text-primary' : ''}`}>
+                        {Number(day.slice(8))}
+                      </div>
+                      {dayEvents.slice(0, 3).map(e => renderChip(e, true))}
+                      {dayEvents.length > 3 && (
+                        <button
+                          type="button"
+                          className="text-[11px] text-muted-foreground hover:underline"
+                          onClick={(e) => { e.stopPropagation(); setAnchor(day); setView('day'); }}
+                        >
+                          +{dayEvents.length - 3} more
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className={`grid min-w-[700px] ${view === 'week' ? 'grid-cols-[56px_repeat(7,minmax(0,1fr))]' : 'grid-cols-[56px_minmax(0,1fr)]'}`}>
+                <div className="border-b" />
+                {days.map(day => (
+                  <div key={day} className={`text-xs font-medium p-2 border-b border-l ${day === today ? 'text-primary' : 'text-muted-foreground'}`}>
+                    {formatInZone(dayDate(day), 'UTC', { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </div>
+                ))}
+                {HOURS.map(hour => (
+                  <div key={hour} className="contents">
+                    <div className="text-[11px] text-muted-foreground text-right pr-2 pt-1 border-b">
+                      {pad(hour)}:00
+                    </div>
+                    {days.map(day => {
+                      const slot = `${day} ${pad(hour)}`;
+                      const slotEvents = byHour.get(slot) || [];
+                      return (
+                        <div
+                          key={slot}
+                          onClick={() => compose(day, `${pad(hour)}:00`)}
+                          {...dropProps(slot, day, hour)}
+                          className={`min-h-[44px] p-1 border-b border-l space-y-1 cursor-pointer hover:bg-muted/40 ${
+                            dropTarget === slot ? 'bg-primary/10' : ''
+                          }`}
+                        >
+                          {slotEvents.map(e => renderChip(e, view === 'week'))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground flex-wrap">
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border bg-primary/10 border-primary/30" />Scheduled</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border bg-amber-500/10 border-amber-500/30" />Awaiting approval</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border bg-green-500/10 border-green-500/30" />Published</span>
+          <span className="flex items-center gap-1.5"><CalendarDays className="w-3.5 h-3.5" />Drag a scheduled post to move it; click an empty slot to schedule</span>
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default CalendarPage;
@@ -14,11 +14,12 @@ import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
 import { 
   Plus, RefreshCw, Trash2, Check, AlertCircle, ExternalLink, 
-  Loader2, Instagram, Facebook, Linkedin, Twitter, Video, MessageCircle, Cloud, Youtube, HelpCircle, Zap, AlertTriangle, XCircle, RotateCcw, Copy
+  Loader2, Instagram, Facebook, Linkedin, Twitter, Video, MessageCircle, Cloud, Youtube, HelpCircle, Zap, AlertTriangle, XCircle, RotateCcw, Copy, Clock
 } from "lucide-react";
 import { PLATFORM_CONFIG, ProviderName } from "@/lib/social/types";
 import { ChannelSetupWizard } from "@/components/channels/ChannelSetupWizard";
 import { ConnectionTroubleshooting } from "@/components/channels/ConnectionTroubleshooting";
+import { PostingSlotsDialog } from "@/components/channels/PostingSlotsDialog";
 
 interface SocialAccount {
   id: string;
@@ -65,6 +66,8 @@ const Channels = () => {
   const [showWizard, setShowWizard] = useState(false);
   const [blueskyCredentials, setBlueskyCredentials] = useState({ identifier: '', appPassword: '' });
   const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [workspaceTimezone, setWorkspaceTimezone] = useState('UTC');
+  const [slotsAccount, setSlotsAccount] = useState<SocialAccount | null>(null);
   const [checkingTokens, setCheckingTokens] = useState(false);
   const [tokenCheckResults, setTokenCheckResults] = useState<{
     checked: number;
@@ -176,12 +179,13 @@ const Channels = () => {
       // Get user's workspace
       const { data: membership } = await supabase
         .from('workspace_members')
-        .select('workspace_id')
+        .select('workspace_id, workspaces ( timezone )')
         .eq('user_id', user.id)
         .single();
 
       if (!membership) return;
       setWorkspaceId(membership.workspace_id);
+      setWorkspaceTimezone((membership as unknown as { workspaces: { timezone: string } | null }).workspaces?.timezone || 'UTC');
 
       // Get connected accounts
       const { data: accountsData, error } = await supabase
@@ -469,6 +473,14 @@ const Channels = () => {
                         )}
                         Refresh
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSlotsAccount(account)}
+                        title="Posting slots"
+                      >
+                        <Clock className="w-4 h-4" />
+                      </Button>
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -491,6 +503,16 @@ const Channels = () => {
           </div>
         )}
 
+        {workspaceId && slotsAccount && (
+          <PostingSlotsDialog
+            workspaceId={workspaceId}
+            account={slotsAccount}
+            timezone={workspaceTimezone}
+            open={!!slotsAccount}
+            onOpenChange={(open) => !open && setSlotsAccount(null)}
+          />
+        )}
+
         {/* Connect Channel Dialog */}
         <Dialog open={showConnectDialog} onOpenChange={setShowConnectDialog}>
           <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,7 +13,10 @@ import { Calendar, Loader2, Zap } from "lucide-react";
 const Compose = () => {
   const navigate = useNavigate();
   const { handleError } = useErrorHandler();
-  const [activeTab, setActiveTab] = useState("publish");
+  // The calendar links here with ?tab=schedule&at=<ISO time of the clicked slot>,
+  // the queue with ?tab=schedule&edit=<post id>
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') === 'schedule' ? 'schedule' : 'publish');
   const [workspaceId, setWorkspaceId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -72,7 +75,13 @@ const Compose = () => {
           </TabsContent>
 
           <TabsContent value="schedule">
-            {workspaceId && <SchedulePost workspaceId={workspaceId} />}
+            {workspaceId && (
+              <SchedulePost
+                workspaceId={workspaceId}
+                initialAt={searchParams.get('at') || undefined}
+                editPostId={searchParams.get('edit') || undefined}
+              />
+            )}
           </TabsContent>
         </Tabs>
       </div>
@@ -1,19 +1,70 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useErrorHandler } from "@/hooks/use-error-handler";
+import { useWorkspaceChanges } from "@/hooks/use-workspace-changes";
+import { browserTimeZone, formatScheduled } from "@/lib/timezone";
+import { startOfWeek } from "date-fns";
 import { Calendar, Send, Clock, TrendingUp, Plus, Zap, AlertCircle, RefreshCw } from "lucide-react";
 import { StorageUsage } from "@/components/dashboard/StorageUsage";
 
+interface DashboardStats {
+  scheduled: number;
+  published: number;
+  // channel publishes since the start of the week
+  thisWeek: number;
+}
+
+interface UpcomingPost {
+  id: string;
+  title: string | null;
+  body_text: string | null;
+  scheduled_at: string | null;
+  timezone: string | null;
+}
+
+async function loadDashboard(workspaceId: string): Promise<{ stats: DashboardStats; upcoming: UpcomingPost[] }> {
+  const pending: Database['public']['Enums']['post_status'][] = ['pending_approval', 'approved', 'scheduled', 'publishing'];
+  const [scheduled, published, thisWeek, upcoming] = await Promise.all([
+    supabase.from('posts').select('id', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId).in('status', pending),
+    supabase.from('posts').select('id', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId).eq('status', 'published'),
+    supabase.from('post_targets').select('id, posts!inner(workspace_id)', { count: 'exact', head: true })
+      .eq('posts.workspace_id', workspaceId).eq('status', 'published')
+      .gte('published_at', startOfWeek(new Date()).toISOString()),
+    supabase.from('posts').select('id, title, body_text, scheduled_at, timezone')
+      .eq('workspace_id', workspaceId).in('status', pending)
+      .order('scheduled_at', { ascending: true }).limit(5),
+  ]);
+  const failedQuery = [scheduled, published, thisWeek, upcoming].find(r => r.error);
+  if (failedQuery?.error) throw failedQuery.error;
+  return {
+    stats: { scheduled: scheduled.count ?? 0, published: published.count ?? 0, thisWeek: thisWeek.count ?? 0 },
+    upcoming: upcoming.data || [],
+  };
+}
+
 const Dashboard = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { handleError } = useErrorHandler({ showToast: false });
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [counts, setCounts] = useState<DashboardStats | null>(null);
+  const [upcoming, setUpcoming] = useState<UpcomingPost[]>([]);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const refresh = async (wsId: string) => {
+    const data = await loadDashboard(wsId);
+    setCounts(data.stats);
+    setUpcoming(data.upcoming);
+  };
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -44,6 +95,8 @@ const Dashboard = () => {
           return;
         }
 
+        setWorkspaceId(memberships[0].workspace_id);
+        await refresh(memberships[0].workspace_id);
         setLoading(false);
       } catch (err) {
         const parsed = handleError(err);
@@ -63,6 +116,17 @@ const Dashboard = () => {
     return () => subscription.unsubscribe();
   }, [navigate, handleError]);
 
+  // Counts follow publishes as they happen; batch the burst of row changes
+  useWorkspaceChanges(workspaceId, () => {
+    if (!workspaceId) return;
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => {
+      refresh(workspaceId).catch(err => console.error('Live dashboard refresh failed:', err));
+    }, 750);
+  });
+
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+
   const handleRetry = () => {
     setError(null);
     setLoading(true);
@@ -115,9 +179,9 @@ const Dashboard = () => {
   }
 
   const stats = [
-    { label: "Scheduled", value: "0", icon: Clock, color: "text-info" },
-    { label: "Published", value: "0", icon: Send, color: "text-success" },
-    { label: "This Week", value: "0", icon: Calendar, color: "text-primary" },
+    { label: "Scheduled", value: String(counts?.scheduled ?? 0), icon: Clock, color: "text-info" },
+    { label: "Published", value: String(counts?.published ?? 0), icon: Send, color: "text-success" },
+    { label: "This Week", value: String(counts?.thisWeek ?? 0), icon: Calendar, color: "text-primary" },
     { label: "Engagement", value: "—", icon: TrendingUp, color: "text-accent" },
   ];
 
@@ -156,13 +220,33 @@ const Dashboard = () => {
           <Card>
             <CardHeader><CardTitle>Upcoming Posts</CardTitle></CardHeader>
             <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <Calendar className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                <p>No scheduled posts yet</p>
-                <Button variant="outline" className="mt-4" onClick={() => navigate("/compose")}>
-                  Create your first post
-                </Button>
-              </div>
+              {upcoming.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Calendar className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                  <p>No scheduled posts yet</p>
+                  <Button variant="outline" className="mt-4" onClick={() => navigate("/compose")}>
+                    Create your first post
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {upcoming.map(post => (
+                    <button
+                      key={post.id}
+                      onClick={() => navigate("/queue")}
+                      className="w-full text-left rounded-lg border p-3 hover:bg-muted/50 transition-colors"
+                    >
+                      <p className="text-sm line-clamp-2">{post.title || post.body_text}</p>
+                      {post.scheduled_at && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          <Clock className="w-3 h-3 inline mr-1" />
+                          {formatScheduled(new Date(post.scheduled_at), post.timezone || browserTimeZone())}
+                        </p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { canApprovePosts } from "@/lib/approvals";
+import { formatScheduled } from "@/lib/timezone";
+import {
+  DEFAULT_SETTINGS,
+  EvergreenChannel,
+  EvergreenItem,
+  EvergreenSettings,
+  loadEvergreen,
+  removeEvergreenItem,
+  saveEvergreenChannel,
+  setEvergreenItemActive,
+} from "@/lib/evergreen";
+import { Loader2, Recycle, RefreshCw, Save, Trash2 } from "lucide-react";
+
+interface Account {
+  id: string;
+  platform: string;
+  display_name: string;
+}
+
+const toSettings = (c: EvergreenChannel | undefined): EvergreenSettings => c ? {
+  active: c.active,
+  everyDays: c.every_days,
+  postTime: c.post_time.slice(0, 5),
+  minRepeatDays: c.min_repeat_days,
+} : DEFAULT_SETTINGS;
+
+const Evergreen = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { handleError } = useErrorHandler();
+  const [loading, setLoading] = useState(true);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [role, setRole] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [channels, setChannels] = useState<EvergreenChannel[]>([]);
+  const [items, setItems] = useState<EvergreenItem[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, EvergreenSettings>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const isAdmin = role === 'owner' || role === 'admin';
+  const canManagePool = canApprovePosts(role);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) { navigate("/auth"); return; }
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('workspace_id, role, workspaces ( timezone )')
+        .eq('user_id', user.id)
+        .single();
+      if (!membership) { navigate("/onboarding"); return; }
+      setWorkspaceId(membership.workspace_id);
+      setRole(membership.role);
+      setTimeZone((membership as unknown as { workspaces: { timezone: string } | null }).workspaces?.timezone || 'UTC');
+
+      const { data: accs } = await supabase
+        .from('social_accounts')
+        .select('id, platform, display_name')
+        .eq('workspace_id', membership.workspace_id)
+        .eq('status', 'connected');
+      setAccounts(accs || []);
+
+      const pool = await loadEvergreen(membership.workspace_id);
+      setChannels(pool.channels);
+      setItems(pool.items);
+      setDrafts({});
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const settingsFor = (accountId: string) =>
+    drafts[accountId] ?? toSettings(channels.find(c => c.social_account_id === accountId));
+
+  const updateDraft = (accountId: string, patch: Partial<EvergreenSettings>) =>
+    setDrafts(prev => ({ ...prev, [accountId]: { ...settingsFor(accountId), ...patch } }));
+
+  const saveChannel = async (accountId: string) => {
+    if (!workspaceId) return;
+    setSaving(accountId);
+    try {
+      const saved = await saveEvergreenChannel(workspaceId, accountId, timeZone, settingsFor(accountId));
+      setChannels(prev => [...prev.filter(c => c.social_account_id !== accountId), saved]);
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[accountId];
+        return next;
+      });
+      toast({ title: 'Evergreen schedule saved' });
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const toggleItem = async (item: EvergreenItem, active: boolean) => {
+    try {
+      await setEvergreenItemActive(item.id, active);
+      setItems(prev => prev.map(i => i.id === item.id ? { ...i, active } : i));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const removeItem = async (item: EvergreenItem) => {
+    if (!confirm('Remove this post from the pool?')) return;
+    try {
+      await removeEvergreenItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Evergreen</h1>
+            <p className="text-muted-foreground mt-1">
+              Republish proven posts on a schedule. Add posts from the Queue history with <Recycle className="w-3.5 h-3.5 inline" />.
+            </p>
+          </div>
+          <Button variant="outline" onClick={load}><RefreshCw className="w-4 h-4 mr-2" />Refresh</Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+        ) : accounts.length === 0 ? (
+          <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">No connected channels</CardContent></Card>
+        ) : (
+          <div className="space-y-4">
+            {accounts.map(account => {
+              const settings = settingsFor(account.id);
+              const channel = channels.find(c => c.social_account_id === account.id);
+              const pool = items.filter(i => i.social_account_id === account.id);
+              return (
+                <Card key={account.id}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      {account.display_name}
+                      <Badge variant="secondary" className="text-xs capitalize">{account.platform}</Badge>
+                      {channel?.active && channel.next_run_at && (
+                        <span className="text-xs font-normal text-muted-foreground ml-auto">
+                          Next draw {formatScheduled(new Date(channel.next_run_at), channel.timezone)}
+                        </span>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-end gap-4">
+                      <div className="flex items-center gap-2 pb-2">
+                        <Switch
+                          checked={settings.active}
+                          onCheckedChange={(active) => updateDraft(account.id, { active })}
+                          disabled={!isAdmin}
+                        />
+                        <Label>Active</Label>
+                      </div>
+                      <div>
+                        <Label className="text-xs">Every (days)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={90}
+                          value={settings.everyDays}
+                          onChange={(e) => updateDraft(account.id, { everyDays: Math.min(90, Math.max(1, Number(e.target.value) || 1)) })}
+                          disabled={!isAdmin}
+                          className="w-24 mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">At ({timeZone})</Label>
+                        <Input
+                          type="time"
+                          value={settings.postTime}
+                          onChange={(e) => updateDraft(account.id, { postTime: e.target.value })}
+                          disabled={!isAdmin}
+                          className="w-32 mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">No repeat within (days)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={settings.minRepeatDays}
+                          onChange={(e) => updateDraft(account.id, { minRepeatDays: Math.max(0, Number(e.target.value) || 0) })}
+                          disabled={!isAdmin}
+                          className="w-24 mt-1"
+                        />
+                      </div>
+                      {isAdmin && (
+                        <Button
+                          size="sm"
+                          onClick={() => saveChannel(account.id)}
+                          disabled={saving === account.id || (!drafts[account.id] && !!channel)}
+                        >
+                          {saving === account.id ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                          Save
+                        </Button>
+                      )}
+                    </div>
+
+                    {pool.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">The pool is empty.</p>
+                    ) : (
+                      <div className="divide-y border rounded-lg">
+                        {pool.map(item => (
+                          <div key={item.id} className="flex items-center gap-3 p-3">
+                            <div className="min-w-0 flex-1">
+                              <p className="text-sm line-clamp-2">{item.posts?.body_text || item.posts?.title}</p>
+                              <p className="text-xs text-muted-foreground mt-0.5">
+                                Drawn {item.times_drawn} time{item.times_drawn === 1 ? '' : 's'}
+                                {item.last_drawn_at && ` · last ${formatScheduled(new Date(item.last_drawn_at), timeZone)}`}
+                              </p>
+                            </div>
+                            <Switch
+                              checked={item.active}
+                              onCheckedChange={(active) => toggleItem(item, active)}
+                              disabled={!canManagePool}
+                            />
+                            {canManagePool && (
+                              <Button variant="ghost" size="sm" onClick={() => removeItem(item)}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Evergreen;
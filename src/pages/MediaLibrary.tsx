@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { UploadQueue } from "@/components/media/UploadQueue";
+import { FileVideo, Image, Images, Loader2, RefreshCw, Search, Upload } from "lucide-react";
+import { LibraryAsset, formatDuration, formatFileSize, loadLibrary } from "@/lib/assets";
+import { PLANS } from "@/lib/plans";
+
+const ACCEPTED = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/quicktime', 'video/webm'];
+
+const transcodeColor: Record<string, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  processing: 'bg-amber-500/10 text-amber-500',
+  ready: 'bg-green-500/10 text-green-500',
+  failed: 'bg-red-500/10 text-red-500',
+};
+
+const MediaLibrary = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { handleError } = useErrorHandler();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(true);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [assets, setAssets] = useState<LibraryAsset[]>([]);
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [usageFilter, setUsageFilter] = useState("all");
+  const [search, setSearch] = useState("");
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) { navigate("/auth"); return; }
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', user.id)
+        .single();
+      if (!membership) { navigate("/onboarding"); return; }
+      setWorkspaceId(membership.workspace_id);
+      setAssets(await loadLibrary(membership.workspace_id));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const uploads = useUploadQueue(workspaceId, (uploaded, file) => {
+    toast({ title: uploaded.reused ? 'Already in your library' : 'Upload complete', description: file.name });
+    load();
+  });
+  const maxFileSize = uploads.maxBytes ?? PLANS.free.maxUploadBytes;
+
+  // Files go up one after another; the rejects are reported together
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (fileInput.current) fileInput.current.value = '';
+    const rejected = files.filter(f => !ACCEPTED.includes(f.type) || f.size > maxFileSize);
+    if (rejected.length) {
+      toast({
+        title: `Skipped ${rejected.length} file${rejected.length === 1 ? '' : 's'}`,
+        description: `Use images or MP4/MOV/WebM videos up to ${formatFileSize(maxFileSize)}: ${rejected.map(f => f.name).join(', ')}`,
+        variant: 'destructive',
+      });
+    }
+    uploads.add(files.filter(f => !rejected.includes(f)));
+  };
+
+  const filtered = useMemo(() => assets.filter(a => {
+    if (typeFilter !== 'all' && a.type !== typeFilter) return false;
+    if (usageFilter === 'used' && a.usageCount === 0) return false;
+    if (usageFilter === 'unused' && a.usageCount > 0) return false;
+    if (search && !a.original_storage_path.toLowerCase().includes(search.toLowerCase())) return false;
+    return true;
+  }), [assets, typeFilter, usageFilter, search]);
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Media Library</h1>
+            <p className="text-muted-foreground mt-1">Every image and video uploaded to this workspace</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={load}><RefreshCw className="w-4 h-4 mr-2" />Refresh</Button>
+            <Button
+              onClick={() => fileInput.current?.click()}
+              disabled={!workspaceId}
+              className="bg-gradient-primary hover:opacity-90"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload
+            </Button>
+            <input ref={fileInput} type="file" multiple accept={ACCEPTED.join(',')} onChange={handleFiles} className="hidden" />
+          </div>
+        </div>
+
+        {uploads.busy && (
+          <div className="mb-6 max-w-xl">
+            <UploadQueue items={uploads.items} onPause={uploads.pause} onResume={uploads.resume} onRemove={uploads.remove} />
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3 mb-6">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by file name" className="pl-10" />
+          </div>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              <SelectItem value="image">Images</SelectItem>
+              <SelectItem value="video">Videos</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={usageFilter} onValueChange={setUsageFilter}>
+            <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Used or unused</SelectItem>
+              <SelectItem value="used">Used in posts</SelectItem>
+              <SelectItem value="unused">Not used yet</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+        ) : filtered.length === 0 ? (
+          <Card><CardContent className="pt-6">
+            <div className="text-center py-16">
+              <Images className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="text-xl font-display font-semibold mb-2">
+                {assets.length === 0 ? 'No media yet' : 'Nothing matches these filters'}
+              </h3>
+              <p className="text-muted-foreground">Files you upload in the composer show up here</p>
+            </div>
+          </CardContent></Card>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {filtered.map(asset => (
+              <Card key={asset.id} className="overflow-hidden">
+                <div className="relative aspect-square bg-muted">
+                  {asset.thumbnailUrl ? (
+                    <img src={asset.thumbnailUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                  ) : (
+                    <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                      {asset.type === 'video' ? <FileVideo className="w-8 h-8" /> : <Image className="w-8 h-8" />}
+                    </div>
+                  )}
+                  {asset.duration_seconds && (
+                    <Badge variant="secondary" className="absolute bottom-2 right-2 text-xs">
+                      {formatDuration(Number(asset.duration_seconds))}
+                    </Badge>
+                  )}
+                </div>
+                <CardContent className="p-3 space-y-1.5">
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    <Badge variant="outline" className="text-[10px] capitalize">{asset.type}</Badge>
+                    {asset.type === 'video' && (
+                      <Badge className={`text-[10px] ${transcodeColor[asset.transcode_status] || ''}`}>
+                        {asset.transcode_status}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {asset.width && asset.height ? `${asset.width}×${asset.height}` : 'Unknown size'}
+                    {asset.file_size_bytes ? ` · ${formatFileSize(asset.file_size_bytes)}` : ''}
+                  </p>
+                  <p className="text-xs">
+                    {asset.usageCount === 0
+                      ? <span className="text-muted-foreground">Not used yet</span>
+                      : `Used in ${asset.usageCount} post${asset.usageCount === 1 ? '' : 's'}`}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default MediaLibrary;
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { PLATFORM_CONFIG, ProviderName } from "@/lib/social/types";
+import { PostTargetMetrics, fetchPostMetrics } from "@/lib/analytics";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, AlertTriangle, ArrowLeft, Eye, Heart, MessageCircle, RefreshCw, Share2 } from "lucide-react";
+
+interface DetailTarget {
+  id: string;
+  platform: string;
+  status: string;
+  remote_post_id: string | null;
+  published_at: string | null;
+  last_error_message: string | null;
+  social_accounts: { display_name: string; handle: string | null } | null;
+}
+
+interface DetailPost {
+  id: string;
+  status: string;
+  title: string | null;
+  body_text: string | null;
+  scheduled_at: string | null;
+  created_at: string;
+  post_targets: DetailTarget[];
+}
+
+const chartConfig: ChartConfig = {
+  views: { label: 'Views', color: 'hsl(271 81% 56%)' },
+  engagement: { label: 'Engagement', color: 'hsl(350 89% 60%)' },
+};
+
+const formatNumber = (num: number | null | undefined) => {
+  if (num == null) return '—';
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toString();
+};
+
+const PostDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { handleError } = useErrorHandler();
+  const [post, setPost] = useState<DetailPost | null>(null);
+  const [metrics, setMetrics] = useState<Record<string, PostTargetMetrics>>({});
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadMetrics = async (postId: string) => {
+    setRefreshing(true);
+    try {
+      const result = await fetchPostMetrics(postId);
+      setMetrics(Object.fromEntries(result.targets.map(t => [t.targetId, t])));
+      setFetchedAt(result.fetchedAt);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!id) return;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) { navigate("/auth"); return; }
+        const { data, error } = await supabase
+          .from('posts')
+          .select(`
+            id, status, title, body_text, scheduled_at, created_at,
+            post_targets ( id, platform, status, remote_post_id, published_at, last_error_message,
+              social_accounts ( display_name, handle )
+            )
+          `)
+          .eq('id', id)
+          .maybeSingle();
+        if (error) throw error;
+        setPost(data as unknown as DetailPost | null);
+        if (data) await loadMetrics(id);
+      } catch (err) {
+        handleError(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [id]);
+
+  const published = post?.post_targets.filter(t => t.status === 'published' && t.remote_post_id) || [];
+  const others = post?.post_targets.filter(t => !published.includes(t)) || [];
+
+  const chartData = published
+    .map(t => {
+      const m = metrics[t.id]?.metrics;
+      return {
+        network: PLATFORM_CONFIG[t.platform as ProviderName]?.displayName || t.platform,
+        views: m?.views ?? null,
+        engagement: m ? (m.likes ?? 0) + (m.comments ?? 0) + (m.shares ?? 0) : null,
+      };
+    })
+    .filter(d => d.views != null || d.engagement != null);
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/queue")}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-display font-bold">Post performance</h1>
+              <p className="text-muted-foreground mt-1">
+                How this post did on each network
+                {fetchedAt && ` · updated ${formatDistanceToNow(new Date(fetchedAt), { addSuffix: true })}`}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => id && loadMetrics(id)} disabled={refreshing || !post}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-24 w-full" />
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-40" />)}
+            </div>
+          </div>
+        ) : !post ? (
+          <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">Post not found</CardContent></Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2 mb-2">
+                  <Badge variant="outline" className="capitalize">{post.status.replace('_', ' ')}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(post.scheduled_at || post.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap line-clamp-4">{post.body_text || post.title}</p>
+              </CardContent>
+            </Card>
+
+            {published.length === 0 ? (
+              <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">
+                Nothing has been published for this post yet
+              </CardContent></Card>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                {published.map(t => {
+                  const result = metrics[t.id];
+                  const m = result?.metrics;
+                  const config = PLATFORM_CONFIG[t.platform as ProviderName];
+                  return (
+                    <Card key={t.id}>
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-base flex items-center gap-2">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: config?.color }} />
+                          {config?.displayName || t.platform}
+                        </CardTitle>
+                        <CardDescription className="truncate">
+                          {t.social_accounts?.display_name}
+                          {t.published_at && ` · ${formatDistanceToNow(new Date(t.published_at), { addSuffix: true })}`}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        {t.last_error_message && (
+                          <p className="text-xs text-amber-600 flex items-start gap-1.5 mb-3">
+                            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                            {t.last_error_message}
+                          </p>
+                        )}
+                        {refreshing && !result ? (
+                          <Skeleton className="h-20 w-full" />
+                        ) : result?.error ? (
+                          <p className="text-sm text-red-500 flex items-start gap-1.5">
+                            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                            {result.error}
+                          </p>
+                        ) : (
+                          <div className="space-y-3">
+                            <div>
+                              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                                <Eye className="w-3 h-3" /> {m?.viewsLabel || 'Views'}
+                              </p>
+                              <p className="text-2xl font-bold">{formatNumber(m?.views)}</p>
+                            </div>
+                            <div className="grid grid-cols-3 gap-2 text-center">
+                              <div>
+                                <Heart className="w-3.5 h-3.5 mx-auto text-muted-foreground" />
+                                <p className="text-sm font-semibold">{formatNumber(m?.likes)}</p>
+                              </div>
+                              <div>
+                                <MessageCircle className="w-3.5 h-3.5 mx-auto text-muted-foreground" />
+                                <p className="text-sm font-semibold">{formatNumber(m?.comments)}</p>
+                              </div>
+                              <div>
+                                <Share2 className="w-3.5 h-3.5 mx-auto text-muted-foreground" />
+                                <p className="text-sm font-semibold">{formatNumber(m?.shares)}</p>
+                              </div>
+                            </div>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            {chartData.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Across networks</CardTitle>
+                  <CardDescription>Views (plays or impressions where that's what the network reports) and likes + comments + shares</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={chartData} margin={{ left: 8, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="network" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatNumber} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+                      <Bar dataKey="engagement" fill="var(--color-engagement)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            )}
+
+            {others.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Not published</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {others.map(t => (
+                    <div key={t.id} className="flex items-center gap-2 text-sm">
+                      <Badge variant="outline" className="capitalize">{t.status.replace('_', ' ')}</Badge>
+                      <span>{PLATFORM_CONFIG[t.platform as ProviderName]?.displayName || t.platform}</span>
+                      {t.social_accounts?.display_name && <span className="text-muted-foreground">· {t.social_accounts.display_name}</span>}
+                      {t.last_error_message && <span className="text-red-500 truncate">— {t.last_error_message}</span>}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default PostDetail;
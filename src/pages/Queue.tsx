@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { AppLayout } from "@/components/layout/AppLayout";
@@ -8,12 +8,22 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
-import { Clock, Plus, Trash2, CheckCircle, XCircle, Loader2, ExternalLink, RefreshCw } from "lucide-react";
+import { useWorkspaceChanges } from "@/hooks/use-workspace-changes";
+import { browserTimeZone, formatScheduled } from "@/lib/timezone";
+import { canApprovePosts } from "@/lib/approvals";
+import { PostRecurrence, describeRecurrence, ruleFromRow } from "@/lib/recurrence";
+import { addToEvergreenPool } from "@/lib/evergreen";
+import { cancelPost } from "@/lib/slots";
+import { StuckJob, listStuckJobs, releaseStuckJob } from "@/lib/jobs";
+import { formatDistanceToNow } from "date-fns";
+import { Clock, Plus, Trash2, CheckCircle, XCircle, Loader2, ExternalLink, RefreshCw, BarChart3, Pencil, Repeat, Recycle, AlertTriangle, Unlock } from "lucide-react";
 
 interface PostTarget {
   id: string;
   platform: string;
   status: string;
+  social_account_id: string;
+  occurrence_at: string | null;
   remote_post_id: string | null;
   last_error_message: string | null;
   published_at: string | null;
@@ -26,12 +36,16 @@ interface PostRow {
   title: string | null;
   body_text: string | null;
   scheduled_at: string | null;
+  timezone: string | null;
   created_at: string;
   updated_at: string;
   post_targets: PostTarget[];
+  post_recurrences: PostRecurrence | null;
 }
 
 const statusColor: Record<string, string> = {
+  pending_approval: 'bg-amber-500/10 text-amber-500',
+  approved: 'bg-blue-500/10 text-blue-500',
   scheduled: 'bg-blue-500/10 text-blue-500',
   published: 'bg-green-500/10 text-green-500',
   failed: 'bg-red-500/10 text-red-500',
@@ -51,6 +65,39 @@ const Queue = () => {
   const [scheduled, setScheduled] = useState<PostRow[]>([]);
   const [history, setHistory] = useState<PostRow[]>([]);
   const [view, setView] = useState("scheduled");
+  const [role, setRole] = useState<string | null>(null);
+  const [stuck, setStuck] = useState<StuckJob[]>([]);
+
+  const isAdmin = role === 'owner' || role === 'admin';
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const fetchLists = async (wsId: string, admin: boolean) => {
+    const select = `
+      id, status, title, body_text, scheduled_at, timezone, created_at, updated_at,
+      post_targets ( id, platform, status, social_account_id, occurrence_at, remote_post_id, last_error_message, published_at,
+        social_accounts ( display_name, handle )
+      ),
+      post_recurrences ( * )
+    `;
+    const { data: sch } = await supabase
+      .from('posts')
+      .select(select)
+      .eq('workspace_id', wsId)
+      .in('status', ['pending_approval', 'approved', 'scheduled', 'publishing'])
+      .order('scheduled_at', { ascending: true });
+    setScheduled((sch as any) || []);
+
+    const { data: hist } = await supabase
+      .from('posts')
+      .select(select)
+      .eq('workspace_id', wsId)
+      .in('status', ['published', 'failed', 'canceled'])
+      .order('updated_at', { ascending: false })
+      .limit(50);
+    setHistory((hist as any) || []);
+
+    setStuck(admin ? await listStuckJobs(wsId) : []);
+  };
 
   const load = async () => {
     setLoading(true);
@@ -59,34 +106,14 @@ const Queue = () => {
       if (!user) { navigate("/auth"); return; }
       const { data: membership } = await supabase
         .from('workspace_members')
-        .select('workspace_id')
+        .select('workspace_id, role')
         .eq('user_id', user.id)
         .single();
       if (!membership) { navigate("/onboarding"); return; }
       setWorkspaceId(membership.workspace_id);
+      setRole(membership.role);
 
-      const select = `
-        id, status, title, body_text, scheduled_at, created_at, updated_at,
-        post_targets ( id, platform, status, remote_post_id, last_error_message, published_at,
-          social_accounts ( display_name, handle )
-        )
-      `;
-      const { data: sch } = await supabase
-        .from('posts')
-        .select(select)
-        .eq('workspace_id', membership.workspace_id)
-        .eq('status', 'scheduled')
-        .order('scheduled_at', { ascending: true });
-      setScheduled((sch as any) || []);
-
-      const { data: hist } = await supabase
-        .from('posts')
-        .select(select)
-        .eq('workspace_id', membership.workspace_id)
-        .in('status', ['published', 'failed', 'canceled'])
-        .order('updated_at', { ascending: false })
-        .limit(50);
-      setHistory((hist as any) || []);
+      await fetchLists(membership.workspace_id, membership.role === 'owner' || membership.role === 'admin');
     } catch (err) {
       handleError(err);
     } finally {
@@ -96,17 +123,23 @@ const Queue = () => {
 
   useEffect(() => { load(); }, []);
 
+  // A publish touches the post, its targets and jobs in quick succession;
+  // refetch once they've settled rather than per row
+  useWorkspaceChanges(workspaceId, () => {
+    if (!workspaceId) return;
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => {
+      fetchLists(workspaceId, isAdmin).catch(err => console.error('Live queue refresh failed:', err));
+    }, 750);
+  });
+
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+
   const cancel = async (postId: string) => {
     if (!confirm('Cancel this scheduled post?')) return;
     try {
-      // Mark post canceled, targets skipped, delete queued jobs
-      const { data: targets } = await supabase.from('post_targets').select('id').eq('post_id', postId);
-      const targetIds = (targets || []).map((t: any) => t.id);
-      if (targetIds.length) {
-        await supabase.from('publish_jobs').delete().in('post_target_id', targetIds).in('status', ['queued', 'retry_scheduled']);
-        await supabase.from('post_targets').update({ status: 'skipped' as const }).in('id', targetIds).eq('status', 'queued');
-      }
-      await supabase.from('posts').update({ status: 'canceled' as const }).eq('id', postId);
+      // Server-side so pending jobs go too and slot-queued posts behind it move up
+      await cancelPost(postId);
       toast({ title: 'Canceled' });
       load();
     } catch (err) {
@@ -114,30 +147,82 @@ const Queue = () => {
     }
   };
 
+  const release = async (job: StuckJob) => {
+    if (!confirm(`Release this job? It will be retried${job.attempts >= job.max_attempts ? '' : ' shortly'}, which may publish twice if the first attempt actually went through.`)) return;
+    try {
+      await releaseStuckJob(job.job_id);
+      toast({ title: 'Job released' });
+      load();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const addToPool = async (p: PostRow) => {
+    if (!workspaceId) return;
+    const accountIds = [...new Set(p.post_targets.filter(t => t.status === 'published').map(t => t.social_account_id))];
+    try {
+      const added = await addToEvergreenPool(workspaceId, p.id, accountIds);
+      toast(added
+        ? { title: 'Added to evergreen pool', description: `${added} channel${added === 1 ? '' : 's'} will republish it` }
+        : { title: 'Already in the evergreen pool' });
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  // Repeating posts collect a target per occurrence; only the upcoming ones
+  // are listed, the rest are summarized
+  const visibleTargets = (p: PostRow) => p.post_recurrences
+    ? p.post_targets.filter(t => t.status === 'queued' || t.status === 'publishing')
+    : p.post_targets;
+
   const PostCard = ({ p, canCancel }: { p: PostRow; canCancel: boolean }) => (
     <Card>
       <CardContent className="pt-6 space-y-3">
         <div className="flex items-start justify-between gap-3">
           <div className="min-w-0 flex-1">
             <div className="flex items-center gap-2 flex-wrap">
-              <Badge className={statusColor[p.status] || ''}>{p.status}</Badge>
+              <Badge className={statusColor[p.status] || ''}>{p.status.replace('_', ' ')}</Badge>
               {p.scheduled_at && (
                 <span className="text-xs text-muted-foreground">
                   <Clock className="w-3 h-3 inline mr-1" />
-                  {new Date(p.scheduled_at).toLocaleString()}
+                  {formatScheduled(new Date(p.scheduled_at), p.timezone || browserTimeZone())}
                 </span>
               )}
             </div>
             <p className="text-sm mt-2 whitespace-pre-wrap line-clamp-3">{p.body_text || p.title}</p>
+            {p.post_recurrences && (
+              <div className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                <Repeat className="w-3 h-3" />
+                {p.post_recurrences.active ? describeRecurrence(ruleFromRow(p.post_recurrences)) : 'Series ended'}
+                {' · '}{p.post_targets.filter(t => t.status === 'published').length} published so far
+              </div>
+            )}
           </div>
+          {canCancel && (
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/compose?tab=schedule&edit=${p.id}`)} title="Edit">
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
           {canCancel && (
             <Button variant="ghost" size="sm" onClick={() => cancel(p.id)}>
               <Trash2 className="w-4 h-4" />
             </Button>
           )}
+          {!canCancel && canApprovePosts(role) && p.post_targets.some(t => t.status === 'published') && (
+            <Button variant="ghost" size="sm" onClick={() => addToPool(p)} title="Add to evergreen pool">
+              <Recycle className="w-4 h-4" />
+            </Button>
+          )}
+          {p.post_targets.some(t => t.status === 'published' && t.remote_post_id) && (
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/posts/${p.id}`)} title="Performance">
+              <BarChart3 className="w-4 h-4" />
+            </Button>
+          )}
         </div>
         <div className="flex flex-wrap gap-2 pt-2 border-t">
-          {p.post_targets.map(t => (
+          {visibleTargets(p).map(t => (
             <div key={t.id} className="flex items-center gap-1.5 text-xs">
               {t.status === 'published' && <CheckCircle className="w-3.5 h-3.5 text-green-500" />}
               {t.status === 'failed' && <XCircle className="w-3.5 h-3.5 text-red-500" />}
@@ -152,7 +237,12 @@ const Queue = () => {
                   <ExternalLink className="w-3 h-3" />
                 </a>
               )}
-              {t.last_error_message && <span className="text-red-500 truncate max-w-[240px]" title={t.last_error_message}>— {t.last_error_message}</span>}
+              {/* on a published target the message is a warning, e.g. a Story or thumbnail that didn't take */}
+              {t.last_error_message && (
+                <span className={`truncate max-w-[240px] ${t.status === 'published' ? 'text-amber-600' : 'text-red-500'}`} title={t.last_error_message}>
+                  — {t.last_error_message}
+                </span>
+              )}
             </div>
           ))}
         </div>
@@ -180,6 +270,7 @@ const Queue = () => {
           <TabsList className="mb-6">
             <TabsTrigger value="scheduled">Scheduled ({scheduled.length})</TabsTrigger>
             <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+            {isAdmin && <TabsTrigger value="stuck">Stuck ({stuck.length})</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="scheduled" className="space-y-3">
@@ -206,6 +297,41 @@ const Queue = () => {
               <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">No history yet</CardContent></Card>
             ) : history.map(p => <PostCard key={p.id} p={p} canCancel={false} />)}
           </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="stuck" className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Jobs whose worker stopped checking in. They are retried automatically when their lease runs out.
+              </p>
+              {loading ? (
+                <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+              ) : stuck.length === 0 ? (
+                <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">Nothing is stuck</CardContent></Card>
+              ) : stuck.map(job => (
+                <Card key={job.job_id}>
+                  <CardContent className="pt-6 flex items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <AlertTriangle className="w-4 h-4 text-amber-500" />
+                        <span className="capitalize">{job.platform}</span>
+                        <span className="text-muted-foreground">· {job.account_name}</span>
+                      </div>
+                      <p className="text-sm mt-2 line-clamp-2">{job.post_title}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Attempt {job.attempts} of {job.max_attempts}
+                        {job.heartbeat_at && ` · last heartbeat ${formatDistanceToNow(new Date(job.heartbeat_at), { addSuffix: true })}`}
+                        {job.lease_expires_at && ` · lease ${new Date(job.lease_expires_at) < new Date() ? 'expired' : 'expires'} ${formatDistanceToNow(new Date(job.lease_expires_at), { addSuffix: true })}`}
+                        {job.locked_by && ` · ${job.locked_by}`}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => release(job)}>
+                      <Unlock className="w-4 h-4 mr-2" />Release
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </AppLayout>
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { PLATFORM_CONFIG, ProviderName } from "@/lib/social/types";
+import {
+  ERROR_CODE_INFO,
+  FailedTarget,
+  PublishErrorCode,
+  captionFor,
+  errorCodeOf,
+  loadFailedTargets,
+  retryTargets,
+  skipTargets,
+} from "@/lib/failures";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle, Loader2, Pencil, RefreshCw, RotateCcw, SkipForward, AlertTriangle } from "lucide-react";
+
+interface ChannelGroup {
+  accountId: string;
+  name: string;
+  platform: string;
+  accountStatus: string | null;
+  targets: FailedTarget[];
+}
+
+interface CodeGroup {
+  code: PublishErrorCode;
+  count: number;
+  channels: ChannelGroup[];
+}
+
+// Failures grouped by error code, then by channel, biggest group first
+function groupFailures(targets: FailedTarget[]): CodeGroup[] {
+  const byCode = new Map<PublishErrorCode, Map<string, ChannelGroup>>();
+  for (const t of targets) {
+    const code = errorCodeOf(t);
+    const channels = byCode.get(code) ?? new Map<string, ChannelGroup>();
+    const group = channels.get(t.social_account_id) ?? {
+      accountId: t.social_account_id,
+      name: t.social_accounts?.display_name || t.platform,
+      platform: t.platform,
+      accountStatus: t.social_accounts?.status ?? null,
+      targets: [],
+    };
+    group.targets.push(t);
+    channels.set(t.social_account_id, group);
+    byCode.set(code, channels);
+  }
+  return [...byCode.entries()]
+    .map(([code, channels]) => ({
+      code,
+      count: [...channels.values()].reduce((n, c) => n + c.targets.length, 0),
+      channels: [...channels.values()].sort((a, b) => b.targets.length - a.targets.length),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+const Recovery = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { handleError } = useErrorHandler();
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [role, setRole] = useState<string | null>(null);
+  const [targets, setTargets] = useState<FailedTarget[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [working, setWorking] = useState(false);
+  const [editing, setEditing] = useState<FailedTarget | null>(null);
+  const [caption, setCaption] = useState("");
+
+  const isAdmin = role === 'owner' || role === 'admin';
+  // Same rule as retry_post_targets() / skip_post_targets()
+  const canManage = (t: FailedTarget) => isAdmin || t.posts.created_by === userId;
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) { navigate("/auth"); return; }
+      setUserId(user.id);
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('workspace_id, role')
+        .eq('user_id', user.id)
+        .single();
+      if (!membership) { navigate("/onboarding"); return; }
+      setRole(membership.role);
+      setTargets(await loadFailedTargets(membership.workspace_id));
+      setSelected([]);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const groups = useMemo(() => groupFailures(targets), [targets]);
+
+  const toggle = (id: string) => setSelected(s => s.includes(id) ? s.filter(x => x !== id) : [...s, id]);
+
+  const toggleGroup = (group: ChannelGroup, checked: boolean) => {
+    const ids = group.targets.filter(canManage).map(t => t.id);
+    setSelected(s => checked ? [...new Set([...s, ...ids])] : s.filter(id => !ids.includes(id)));
+  };
+
+  const retry = async (ids: string[], content?: string) => {
+    setWorking(true);
+    try {
+      const result = await retryTargets(ids, content);
+      toast(result.pending_approval
+        ? { title: `${result.retried} channel${result.retried === 1 ? '' : 's'} queued`, description: 'They publish once the post is approved again' }
+        : { title: `${result.retried} channel${result.retried === 1 ? '' : 's'} queued`, description: 'They will publish within a minute' });
+      setEditing(null);
+      await load();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const skip = async (ids: string[]) => {
+    if (!confirm(`Skip ${ids.length} channel${ids.length === 1 ? '' : 's'}? They won't be retried.`)) return;
+    setWorking(true);
+    try {
+      const skipped = await skipTargets(ids);
+      toast({ title: `Skipped ${skipped} channel${skipped === 1 ? '' : 's'}` });
+      await load();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openEditor = (t: FailedTarget) => {
+    setCaption(captionFor(t));
+    setEditing(t);
+  };
+
+  const maxLength = editing ? PLATFORM_CONFIG[editing.platform as ProviderName]?.maxLength : undefined;
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Recovery</h1>
+            <p className="text-muted-foreground mt-1">Failed publishes across the workspace. Retry only the channels that failed.</p>
+          </div>
+          <Button variant="outline" onClick={load}><RefreshCw className="w-4 h-4 mr-2" />Refresh</Button>
+        </div>
+
+        {selected.length > 0 && (
+          <div className="sticky top-0 z-10 mb-4 flex items-center gap-3 rounded-lg border bg-background p-3 shadow-sm">
+            <span className="text-sm font-medium">{selected.length} selected</span>
+            <Button size="sm" onClick={() => retry(selected)} disabled={working}>
+              {working ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+              Retry
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => skip(selected)} disabled={working}>
+              <SkipForward className="w-4 h-4 mr-2" />Skip
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelected([])}>Clear</Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+        ) : groups.length === 0 ? (
+          <Card><CardContent className="pt-12 pb-12 text-center text-muted-foreground">
+            <CheckCircle className="w-10 h-10 mx-auto mb-3 text-green-500" />
+            Nothing has failed
+          </CardContent></Card>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => (
+              <Card key={group.code}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {ERROR_CODE_INFO[group.code].label}
+                    <Badge variant="secondary">{group.count}</Badge>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">{ERROR_CODE_INFO[group.code].hint}</p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {group.channels.map(channel => {
+                    const manageable = channel.targets.filter(canManage);
+                    const allSelected = manageable.length > 0 && manageable.every(t => selected.includes(t.id));
+                    return (
+                      <div key={channel.accountId} className="border rounded-lg">
+                        <div className="flex items-center gap-2 p-3 border-b bg-muted/30">
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={(checked) => toggleGroup(channel, !!checked)}
+                            disabled={manageable.length === 0}
+                          />
+                          <span className="text-sm font-medium">{channel.name}</span>
+                          <Badge variant="outline" className="text-xs capitalize">{channel.platform}</Badge>
+                          {channel.accountStatus && channel.accountStatus !== 'connected' && (
+                            <button onClick={() => navigate("/channels")} className="text-xs text-amber-600 inline-flex items-center gap-1 ml-auto hover:underline">
+                              <AlertTriangle className="w-3 h-3" />Reconnect this channel first
+                            </button>
+                          )}
+                        </div>
+                        <div className="divide-y">
+                          {channel.targets.map(t => (
+                            <div key={t.id} className="flex items-start gap-3 p-3">
+                              <Checkbox
+                                checked={selected.includes(t.id)}
+                                onCheckedChange={() => toggle(t.id)}
+                                disabled={!canManage(t)}
+                                className="mt-0.5"
+                              />
+                              <div className="min-w-0 flex-1">
+                                <p className="text-sm line-clamp-2">{captionFor(t) || t.posts.title}</p>
+                                {t.last_error_message && (
+                                  <p className="text-xs text-red-500 mt-1 line-clamp-2" title={t.last_error_message}>{t.last_error_message}</p>
+                                )}
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {t.publish_attempts} attempt{t.publish_attempts === 1 ? '' : 's'}
+                                  {t.last_attempt_at && ` · last ${formatDistanceToNow(new Date(t.last_attempt_at), { addSuffix: true })}`}
+                                </p>
+                              </div>
+                              {canManage(t) && (
+                                <div className="flex gap-1">
+                                  <Button variant="ghost" size="sm" onClick={() => openEditor(t)} title="Edit caption and retry" disabled={working}>
+                                    <Pencil className="w-4 h-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="sm" onClick={() => retry([t.id])} title="Retry" disabled={working}>
+                                    <RotateCcw className="w-4 h-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="sm" onClick={() => skip([t.id])} title="Skip" disabled={working}>
+                                    <SkipForward className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit caption and retry</DialogTitle>
+            <DialogDescription>
+              The new caption is used for {editing?.social_accounts?.display_name || editing?.platform} only.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea value={caption} onChange={(e) => setCaption(e.target.value)} className="min-h-[160px]" />
+          <div className={`text-xs ${maxLength && caption.length > maxLength ? 'text-red-500' : 'text-muted-foreground'}`}>
+            {caption.length}{maxLength ? ` / ${maxLength}` : ''} characters
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={() => editing && retry([editing.id], caption)} disabled={working || !caption.trim()}>
+              {working ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+              Save and retry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default Recovery;
@@ -0,0 +1,112 @@
+// Tenant guards for endpoints that act on a social account, a post or a
+// whole workspace with the service-role client (the *-insights functions,
+// post-metrics, collect-analytics). The caller's JWT must belong to a member
+// of the workspace that owns the row.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface AccountAccessResult {
+  authorized: boolean;
+  // HTTP status to return when not authorized
+  status?: number;
+  error?: string;
+  userId?: string;
+  workspaceId?: string;
+  role?: string;
+}
+
+const ALL_ROLES = ['owner', 'admin', 'editor', 'approver', 'viewer'];
+
+export function validateAccountAccess(
+  supabase: SupabaseClient,
+  authHeader: string | null,
+  socialAccountId: string,
+  allowedRoles: string[] = ALL_ROLES
+): Promise<AccountAccessResult> {
+  return validateAccess(supabase, authHeader, allowedRoles, async () => {
+    const { data: account } = await supabase
+      .from('social_accounts')
+      .select('workspace_id')
+      .eq('id', socialAccountId)
+      .maybeSingle();
+    return account?.workspace_id ?? null;
+  }, 'Account not found or not connected', 'Not a member of this account\'s workspace');
+}
+
+export function validatePostAccess(
+  supabase: SupabaseClient,
+  authHeader: string | null,
+  postId: string,
+  allowedRoles: string[] = ALL_ROLES
+): Promise<AccountAccessResult> {
+  return validateAccess(supabase, authHeader, allowedRoles, async () => {
+    const { data: post } = await supabase
+      .from('posts')
+      .select('workspace_id')
+      .eq('id', postId)
+      .maybeSingle();
+    return post?.workspace_id ?? null;
+  }, 'Post not found', 'Not a member of this post\'s workspace');
+}
+
+// An unknown workspace has no members, so it's a 403 like any other
+export function validateWorkspaceAccess(
+  supabase: SupabaseClient,
+  authHeader: string | null,
+  workspaceId: string,
+  allowedRoles: string[] = ALL_ROLES
+): Promise<AccountAccessResult> {
+  return validateAccess(supabase, authHeader, allowedRoles, () => Promise.resolve(workspaceId),
+    'Workspace not found', 'Not a member of this workspace');
+}
+
+async function validateAccess(
+  supabase: SupabaseClient,
+  authHeader: string | null,
+  allowedRoles: string[],
+  findWorkspace: () => Promise<string | null>,
+  notFound: string,
+  notMember: string
+): Promise<AccountAccessResult> {
+  if (!authHeader?.startsWith('Bearer ')) {
+    return { authorized: false, status: 401, error: 'Missing authorization header' };
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const workspaceId = await findWorkspace();
+
+  // Server-side callers (collect-analytics) use the service-role key
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return workspaceId
+      ? { authorized: true, workspaceId }
+      : { authorized: false, status: 404, error: notFound };
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !user) {
+    console.error('Auth validation error:', userError);
+    return { authorized: false, status: 401, error: 'Invalid authentication token' };
+  }
+
+  if (!workspaceId) {
+    return { authorized: false, status: 404, error: notFound };
+  }
+
+  const { data: membership } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (!membership) {
+    console.log('Workspace access denied:', { userId: user.id, workspaceId });
+    return { authorized: false, status: 403, error: notMember };
+  }
+
+  const role = membership.role as string;
+  if (!allowedRoles.includes(role)) {
+    return { authorized: false, status: 403, error: `Insufficient permissions. Requires: ${allowedRoles.join(', ')}` };
+  }
+
+  return { authorized: true, userId: user.id, workspaceId, role };
+}
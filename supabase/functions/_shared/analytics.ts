@@ -0,0 +1,194 @@
+// Maps each *-insights response onto the columns of account_metric_snapshots
+// and post_metric_snapshots. Numbers a platform doesn't expose stay null so
+// charts can tell "zero" from "unknown".
+
+export const INSIGHTS_PLATFORMS = ['youtube', 'instagram', 'facebook', 'linkedin', 'x', 'threads', 'tiktok', 'bluesky'];
+
+export interface AccountMetrics {
+  followers: number | null;
+  views: number | null;
+  reach: number | null;
+  engagement: number | null;
+}
+
+export interface PostMetrics {
+  remotePostId: string;
+  publishedAt: string | null;
+  views: number | null;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+}
+
+export interface NormalizedInsights {
+  account: AccountMetrics;
+  posts: PostMetrics[];
+}
+
+type Payload = Record<string, unknown>;
+
+function list(data: Payload, key: string): Payload[] {
+  const value = data[key];
+  return Array.isArray(value) ? value as Payload[] : [];
+}
+
+// data.a.b.c without throwing on missing levels
+function get(data: Payload, ...path: string[]): unknown {
+  let current: unknown = data;
+  for (const key of path) {
+    current = current && typeof current === 'object' ? (current as Payload)[key] : undefined;
+  }
+  return current;
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function num(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function sum(posts: PostMetrics[], ...keys: (keyof PostMetrics)[]): number | null {
+  if (!posts.length) return null;
+  return posts.reduce((total, p) => total + keys.reduce((s, k) => s + ((p[k] as number | null) ?? 0), 0), 0);
+}
+
+export function normalizeInsights(platform: string, data: Payload): NormalizedInsights {
+  let posts: PostMetrics[] = [];
+  let account: AccountMetrics = { followers: null, views: null, reach: null, engagement: null };
+
+  switch (platform) {
+    case 'youtube':
+      posts = list(data, 'recentVideos').map((v) => ({
+        remotePostId: String(v.id ?? ''),
+        publishedAt: str(v.publishedAt),
+        views: num(v.views),
+        likes: num(v.likes),
+        comments: num(v.comments),
+        shares: null,
+      }));
+      account = {
+        followers: num(get(data, 'metrics', 'subscribers')),
+        views: num(get(data, 'metrics', 'totalViews')),
+        reach: null,
+        engagement: sum(posts, 'likes', 'comments'),
+      };
+      break;
+    case 'instagram':
+      posts = list(data, 'recentMedia').map((m) => ({
+        remotePostId: String(m.id ?? ''),
+        publishedAt: str(m.timestamp),
+        views: null,
+        likes: num(m.like_count),
+        comments: num(m.comments_count),
+        shares: null,
+      }));
+      account = {
+        followers: num(get(data, 'profile', 'followersCount')),
+        views: num(get(data, 'metrics', 'impressions')),
+        reach: num(get(data, 'metrics', 'reach')),
+        engagement: sum(posts, 'likes', 'comments'),
+      };
+      break;
+    case 'facebook':
+      posts = list(data, 'recentPosts').map((p) => ({
+        remotePostId: String(p.id ?? ''),
+        publishedAt: str(p.createdTime),
+        views: null,
+        likes: num(p.likes),
+        comments: num(p.comments),
+        shares: num(p.shares),
+      }));
+      account = {
+        followers: num(get(data, 'page', 'fanCount')),
+        views: num(get(data, 'metrics', 'impressions')),
+        reach: null,
+        engagement: num(get(data, 'metrics', 'engagedUsers')),
+      };
+      break;
+    case 'linkedin':
+      posts = list(data, 'recentPosts').map((p) => ({
+        remotePostId: String(p.id ?? ''),
+        publishedAt: str(p.createdAt),
+        views: null,
+        likes: num(p.likes),
+        comments: num(p.comments),
+        shares: null,
+      }));
+      account = {
+        followers: null,
+        views: null,
+        reach: null,
+        engagement: (num(get(data, 'metrics', 'totalLikes')) ?? 0) + (num(get(data, 'metrics', 'totalComments')) ?? 0),
+      };
+      break;
+    case 'x':
+      posts = list(data, 'recentTweets').map((t) => ({
+        remotePostId: String(t.id ?? ''),
+        publishedAt: str(t.createdAt),
+        views: num(t.impressions),
+        likes: num(t.likes),
+        comments: num(t.replies),
+        shares: (num(t.retweets) ?? 0) + (num(t.quotes) ?? 0),
+      }));
+      account = {
+        followers: num(get(data, 'metrics', 'followers')),
+        views: sum(posts, 'views'),
+        reach: null,
+        engagement: sum(posts, 'likes', 'comments', 'shares'),
+      };
+      break;
+    case 'threads':
+      posts = list(data, 'recentPosts').map((p) => ({
+        remotePostId: String(p.id ?? ''),
+        publishedAt: str(p.timestamp),
+        views: null,
+        likes: num(p.like_count),
+        comments: num(p.reply_count),
+        shares: (num(p.repost_count) ?? 0) + (num(p.quote_count) ?? 0),
+      }));
+      account = {
+        followers: num(get(data, 'userMetrics', 'followers')),
+        views: num(get(data, 'userMetrics', 'views')),
+        reach: null,
+        engagement: (num(get(data, 'userMetrics', 'likes')) ?? 0) + (num(get(data, 'userMetrics', 'replies')) ?? 0),
+      };
+      break;
+    case 'tiktok':
+      posts = list(data, 'recentVideos').map((v) => ({
+        remotePostId: String(v.id ?? ''),
+        publishedAt: str(v.createdAt),
+        views: num(v.views),
+        likes: num(v.likes),
+        comments: num(v.comments),
+        shares: num(v.shares),
+      }));
+      account = {
+        followers: num(get(data, 'metrics', 'followers')),
+        views: sum(posts, 'views'),
+        reach: null,
+        engagement: sum(posts, 'likes', 'comments', 'shares'),
+      };
+      break;
+    case 'bluesky':
+      posts = list(data, 'recentPosts').map((p) => ({
+        remotePostId: String(p.id ?? ''),
+        publishedAt: str(p.createdAt),
+        views: null,
+        likes: num(p.likes),
+        comments: num(p.replies),
+        shares: (num(p.reposts) ?? 0) + (num(p.quotes) ?? 0),
+      }));
+      account = {
+        followers: num(get(data, 'metrics', 'followers')),
+        views: null,
+        reach: null,
+        engagement: sum(posts, 'likes', 'comments', 'shares'),
+      };
+      break;
+  }
+
+  return { account, posts: posts.filter((p) => p.remotePostId) };
+}
@@ -0,0 +1,91 @@
+// Ranged reads of a media file in storage, and the upload-session record
+// that lets a platform upload pick up where an earlier run stopped.
+//
+// Publishers pull one platform chunk at a time with a Range request instead
+// of downloading the whole video, so memory use is bounded by the chunk size
+// rather than the file size.
+
+export interface MediaSource {
+  url: string;
+  size: number;
+  type: string;
+  // bytes [start, end) of the file
+  read(start: number, end: number): Promise<ArrayBuffer>;
+  // the whole file, for APIs that take it as a single request body
+  stream(): Promise<ReadableStream<Uint8Array>>;
+}
+
+async function fetchRange(url: string, start: number, end: number): Promise<Response> {
+  const response = await fetch(url, { headers: { 'Range': `bytes=${start}-${end - 1}` } });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch media: ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+// Probes the file with a one-byte range to learn its size without reading it.
+// Hosts that ignore Range get the whole file read once and sliced in memory,
+// which is what every upload did before.
+export async function openMediaSource(url: string, fallbackType: string): Promise<MediaSource> {
+  const probe = await fetchRange(url, 0, 1);
+  const type = probe.headers.get('content-type')?.split(';')[0] || fallbackType;
+
+  if (probe.status === 206) {
+    await probe.body?.cancel();
+    const size = Number(probe.headers.get('content-range')?.split('/')[1]);
+    if (!Number.isFinite(size) || size <= 0) throw new Error('Failed to fetch media: unknown size');
+    return {
+      url,
+      size,
+      type,
+      read: async (start, end) => {
+        const response = await fetchRange(url, start, end);
+        const bytes = await response.arrayBuffer();
+        if (response.status !== 206 || bytes.byteLength !== end - start) {
+          throw new Error(`Failed to fetch media: expected ${end - start} bytes at ${start}, got ${bytes.byteLength}`);
+        }
+        return bytes;
+      },
+      stream: async () => {
+        const response = await fetch(url);
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to fetch media: ${response.status} ${response.statusText}`);
+        }
+        return response.body;
+      },
+    };
+  }
+
+  const blob = await probe.blob();
+  return {
+    url,
+    size: blob.size,
+    type,
+    read: async (start, end) => await blob.slice(start, end).arrayBuffer(),
+    stream: async () => blob.stream(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Upload sessions (public.upload_sessions)
+// ---------------------------------------------------------------------------
+
+export interface UploadSession {
+  totalBytes: number;
+  bytesSent: number;
+  uploadUrl?: string | null;
+  remoteId?: string | null;
+  state?: Record<string, unknown>;
+  expiresAt?: string | null;
+}
+
+// Where a publisher keeps its progress for one post target. The scheduler
+// backs this with the upload_sessions table; without one, uploads simply
+// start from the beginning every time.
+export interface UploadSessionStore {
+  // the saved session for this platform, if it's for a file of this size
+  // and hasn't expired
+  load(totalBytes: number): Promise<UploadSession | null>;
+  save(session: UploadSession): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,161 @@
+// Platform media limits and the house rendition format. Values mirror
+// PLATFORM_GUIDES / UNIVERSAL_FORMAT in src/lib/social/platform-guide.ts;
+// keep the two in sync. Where the guide quotes a Shorts/Reels limit, that is
+// shortFormMaxDurationSec here — longer videos still publish, just not as
+// short-form.
+
+export interface PlatformMediaSpec {
+  // hard limits: longer videos are rejected (or trimmed by the worker)
+  maxDurationSec: number;
+  minDurationSec?: number;
+  // Shorts/Reels classification; beyond this the video posts as regular video
+  shortFormMaxDurationSec?: number;
+  shortFormLabel?: string;
+  maxSizeMB: number;
+  imageMaxSizeMB?: number;
+  // width / height
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+  preferredAspectRatio?: number;
+  imageMinAspectRatio?: number;
+  imageMaxAspectRatio?: number;
+  minShortEdge?: number;
+  maxLongEdge?: number;
+  videoContainers: string[];
+  videoCodecs: string[];
+  imageTypes: string[];
+  supportsImages: boolean;
+}
+
+const COMMON_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export const PLATFORM_MEDIA_SPECS: Record<string, PlatformMediaSpec> = {
+  youtube: {
+    maxDurationSec: 12 * 60 * 60,
+    shortFormMaxDurationSec: 180,
+    shortFormLabel: 'Short',
+    maxSizeMB: 256000,
+    preferredAspectRatio: 9 / 16,
+    videoContainers: ['video/mp4', 'video/quicktime', 'video/webm'],
+    videoCodecs: ['h264', 'hevc', 'vp9', 'av1'],
+    imageTypes: [],
+    supportsImages: false,
+  },
+  tiktok: {
+    maxDurationSec: 600,
+    minDurationSec: 3,
+    maxSizeMB: 4096,
+    preferredAspectRatio: 9 / 16,
+    minShortEdge: 360,
+    maxLongEdge: 4096,
+    videoContainers: ['video/mp4', 'video/quicktime', 'video/webm'],
+    videoCodecs: ['h264', 'hevc', 'vp8', 'vp9'],
+    imageTypes: [],
+    supportsImages: false,
+  },
+  instagram: {
+    maxDurationSec: 90,
+    minDurationSec: 3,
+    maxSizeMB: 100,
+    imageMaxSizeMB: 8,
+    minAspectRatio: 0.01,
+    maxAspectRatio: 10,
+    preferredAspectRatio: 9 / 16,
+    imageMinAspectRatio: 4 / 5,
+    imageMaxAspectRatio: 1.91,
+    maxLongEdge: 1920,
+    videoContainers: ['video/mp4', 'video/quicktime'],
+    videoCodecs: ['h264', 'hevc'],
+    imageTypes: ['image/jpeg'],
+    supportsImages: true,
+  },
+  facebook: {
+    maxDurationSec: 4 * 60 * 60,
+    shortFormMaxDurationSec: 90,
+    shortFormLabel: 'Reel',
+    maxSizeMB: 4096,
+    imageMaxSizeMB: 10,
+    videoContainers: ['video/mp4', 'video/quicktime'],
+    videoCodecs: ['h264', 'hevc'],
+    imageTypes: COMMON_IMAGE_TYPES,
+    supportsImages: true,
+  },
+  linkedin: {
+    maxDurationSec: 600,
+    minDurationSec: 3,
+    maxSizeMB: 5120,
+    imageMaxSizeMB: 8,
+    minAspectRatio: 1 / 2.4,
+    maxAspectRatio: 2.4,
+    videoContainers: ['video/mp4'],
+    videoCodecs: ['h264'],
+    imageTypes: ['image/jpeg', 'image/png', 'image/gif'],
+    supportsImages: true,
+  },
+  x: {
+    maxDurationSec: 140,
+    minDurationSec: 0.5,
+    maxSizeMB: 512,
+    imageMaxSizeMB: 5,
+    minAspectRatio: 1 / 3,
+    maxAspectRatio: 3,
+    maxLongEdge: 1920,
+    videoContainers: ['video/mp4', 'video/quicktime'],
+    videoCodecs: ['h264'],
+    imageTypes: COMMON_IMAGE_TYPES,
+    supportsImages: true,
+  },
+  threads: {
+    maxDurationSec: 300,
+    maxSizeMB: 1024,
+    imageMaxSizeMB: 8,
+    minAspectRatio: 0.01,
+    maxAspectRatio: 10,
+    preferredAspectRatio: 9 / 16,
+    maxLongEdge: 1920,
+    videoContainers: ['video/mp4', 'video/quicktime'],
+    videoCodecs: ['h264', 'hevc'],
+    imageTypes: ['image/jpeg', 'image/png'],
+    supportsImages: true,
+  },
+  bluesky: {
+    maxDurationSec: 60,
+    maxSizeMB: 100,
+    imageMaxSizeMB: 0.95,
+    videoContainers: ['video/mp4'],
+    videoCodecs: ['h264'],
+    imageTypes: COMMON_IMAGE_TYPES,
+    supportsImages: true,
+  },
+};
+
+// What the transcode worker produces: MP4 (H.264 + AAC), fitted inside
+// 1080×1920 (or 1920×1080 for landscape) with a bitrate cap so trimmed
+// renditions stay under the 100MB platforms.
+export const RENDITION_FORMAT = {
+  container: 'mp4',
+  videoCodec: 'h264',
+  audioCodec: 'aac',
+  pixelFormat: 'yuv420p',
+  longEdge: 1920,
+  shortEdge: 1080,
+  maxVideoBitrateKbps: 8000,
+  audioBitrateKbps: 128,
+};
+
+// Durations we cut trimmed renditions at, shortest platform limit first
+export const TRIM_DURATIONS_SEC = [...new Set(
+  Object.values(PLATFORM_MEDIA_SPECS).map((spec) => spec.maxDurationSec)
+)].sort((a, b) => a - b);
+
+// Shape of the rendition entries the worker writes into
+// assets.validation_report.renditions
+export interface Rendition {
+  path: string;
+  // null for the full-length rendition
+  maxDurationSec: number | null;
+  durationSeconds: number;
+  width: number;
+  height: number;
+  sizeBytes: number;
+}
@@ -0,0 +1,167 @@
+// Pre-publish media checks against PLATFORM_MEDIA_SPECS. Runs in the
+// composer (src/lib/social/media-validation.ts re-exports this file) and again
+// in the publish paths, so both sides agree on what a platform will reject.
+// Must stay free of Deno/npm imports.
+
+import { PLATFORM_MEDIA_SPECS, RENDITION_FORMAT } from "./media-specs.ts";
+
+export interface MediaFacts {
+  type: 'image' | 'video';
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  sizeBytes?: number;
+  mimeType?: string;
+  // only known once the transcode worker has probed the file
+  videoCodec?: string;
+  // library videos: the worker re-encodes to RENDITION_FORMAT and cuts
+  // platform-length trims, so container/codec/size/length problems become
+  // warnings rather than errors
+  processedByWorker?: boolean;
+}
+
+export type MediaIssueField = 'type' | 'duration' | 'aspect_ratio' | 'resolution' | 'size' | 'codec' | 'container';
+
+export interface MediaIssue {
+  code: string;
+  field: MediaIssueField;
+  message: string;
+}
+
+export interface MediaValidationReport {
+  platform: string;
+  errors: MediaIssue[];
+  warnings: MediaIssue[];
+}
+
+const PLATFORM_LABELS: Record<string, string> = {
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  linkedin: 'LinkedIn',
+  x: 'X',
+  threads: 'Threads',
+  bluesky: 'Bluesky',
+};
+
+// Off the preferred aspect ratio by more than this fraction → warning
+const ASPECT_TOLERANCE = 0.1;
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds * 10) / 10}s`;
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return secs ? `${mins}m ${secs}s` : `${mins}m`;
+}
+
+function formatRatio(ratio: number): string {
+  const known: [number, string][] = [[9 / 16, '9:16'], [4 / 5, '4:5'], [1, '1:1'], [16 / 9, '16:9'], [1.91, '1.91:1']];
+  const match = known.find(([value]) => Math.abs(value - ratio) < 0.01);
+  return match ? match[1] : `${Math.round(ratio * 100) / 100}:1`;
+}
+
+function formatMB(mb: number): string {
+  return mb >= 1024 ? `${Math.round(mb / 102.4) / 10}GB` : `${mb}MB`;
+}
+
+export function validateMediaForPlatform(platform: string, media: MediaFacts): MediaValidationReport {
+  const report: MediaValidationReport = { platform, errors: [], warnings: [] };
+  const spec = PLATFORM_MEDIA_SPECS[platform];
+  if (!spec) return report;
+
+  const label = PLATFORM_LABELS[platform] || platform;
+  const worker = media.type === 'video' && !!media.processedByWorker;
+  const error = (field: MediaIssueField, code: string, message: string) => report.errors.push({ code, field, message });
+  const warn = (field: MediaIssueField, code: string, message: string) => report.warnings.push({ code, field, message });
+  // problems the worker fixes are only worth a heads-up
+  const fixable = (field: MediaIssueField, code: string, message: string, fixed: string) =>
+    worker ? warn(field, code, `${message}; ${fixed}`) : error(field, code, message);
+
+  if (media.type === 'image') {
+    if (!spec.supportsImages) {
+      error('type', 'image_not_supported', `${label} only accepts video`);
+      return report;
+    }
+    if (media.mimeType && !spec.imageTypes.includes(media.mimeType)) {
+      const accepted = spec.imageTypes.map(t => t.replace('image/', '').toUpperCase()).join('/');
+      error('container', 'image_format', `${label} accepts ${accepted} images, not ${media.mimeType.replace('image/', '').toUpperCase()}`);
+    }
+    if (media.sizeBytes && spec.imageMaxSizeMB && media.sizeBytes > spec.imageMaxSizeMB * 1024 * 1024) {
+      error('size', 'image_too_large', `${label} images must be under ${formatMB(spec.imageMaxSizeMB)}`);
+    }
+    if (media.width && media.height) {
+      const ratio = media.width / media.height;
+      if ((spec.imageMinAspectRatio && ratio < spec.imageMinAspectRatio - 0.005)
+        || (spec.imageMaxAspectRatio && ratio > spec.imageMaxAspectRatio + 0.005)) {
+        error('aspect_ratio', 'image_aspect_ratio',
+          `${label} images must be between ${formatRatio(spec.imageMinAspectRatio!)} and ${formatRatio(spec.imageMaxAspectRatio!)} (this one is ${formatRatio(ratio)})`);
+      }
+    }
+    return report;
+  }
+
+  // --- video ---
+  if (media.mimeType && !spec.videoContainers.includes(media.mimeType)) {
+    fixable('container', 'container', `${label} doesn't accept ${media.mimeType} video`, `it will be converted to ${RENDITION_FORMAT.container.toUpperCase()}`);
+  }
+  if (media.videoCodec && !spec.videoCodecs.includes(media.videoCodec)) {
+    fixable('codec', 'video_codec', `${label} doesn't accept ${media.videoCodec} video`, `it will be re-encoded to ${RENDITION_FORMAT.videoCodec.toUpperCase()}`);
+  }
+
+  const duration = media.durationSeconds;
+  if (duration) {
+    if (duration > spec.maxDurationSec) {
+      fixable('duration', 'duration_too_long',
+        `${label} videos can be at most ${formatSeconds(spec.maxDurationSec)} (this one is ${formatSeconds(duration)})`,
+        `a ${formatSeconds(spec.maxDurationSec)} cut will be published`);
+    }
+    if (spec.minDurationSec && duration < spec.minDurationSec) {
+      error('duration', 'duration_too_short', `${label} videos must be at least ${formatSeconds(spec.minDurationSec)}`);
+    }
+  }
+
+  if (media.sizeBytes && media.sizeBytes > spec.maxSizeMB * 1024 * 1024) {
+    fixable('size', 'file_too_large', `${label} videos must be under ${formatMB(spec.maxSizeMB)}`, 'it will be compressed, which may not be enough');
+  }
+
+  if (media.width && media.height) {
+    const ratio = media.width / media.height;
+    if ((spec.minAspectRatio && ratio < spec.minAspectRatio) || (spec.maxAspectRatio && ratio > spec.maxAspectRatio)) {
+      error('aspect_ratio', 'aspect_ratio',
+        `${label} videos must be between ${formatRatio(spec.minAspectRatio!)} and ${formatRatio(spec.maxAspectRatio!)} (this one is ${formatRatio(ratio)})`);
+    } else if (spec.preferredAspectRatio && !spec.shortFormMaxDurationSec
+      && Math.abs(ratio - spec.preferredAspectRatio) / spec.preferredAspectRatio > ASPECT_TOLERANCE) {
+      warn('aspect_ratio', 'aspect_ratio_not_preferred',
+        `${label} is designed for ${formatRatio(spec.preferredAspectRatio)} video; this ${formatRatio(ratio)} video will be letterboxed`);
+    }
+
+    const longEdge = Math.max(media.width, media.height);
+    const shortEdge = Math.min(media.width, media.height);
+    if (spec.maxLongEdge && longEdge > spec.maxLongEdge) {
+      fixable('resolution', 'resolution_too_high', `${label} accepts video up to ${spec.maxLongEdge}px on the long edge`, 'it will be downscaled');
+    }
+    if (spec.minShortEdge && shortEdge < spec.minShortEdge) {
+      error('resolution', 'resolution_too_low', `${label} needs at least ${spec.minShortEdge}px on the short edge (this one is ${shortEdge}px)`);
+    } else if (shortEdge < 720) {
+      warn('resolution', 'low_resolution', `${media.width}×${media.height} will look soft on ${label}; 1080p is recommended`);
+    }
+
+    // Shorts / Reels: vertical or square and under the short-form limit
+    if (spec.shortFormMaxDurationSec) {
+      const tooLong = !!duration && duration > spec.shortFormMaxDurationSec;
+      if (ratio > 1 || tooLong) {
+        const reason = tooLong ? `longer than ${formatSeconds(spec.shortFormMaxDurationSec)}` : 'landscape';
+        warn('aspect_ratio', 'not_short_form', `This video is ${reason}, so ${label} will publish it as a regular video, not a ${spec.shortFormLabel}`);
+      }
+    }
+  }
+
+  return report;
+}
+
+// One line per issue, for places that can only show a string (results,
+// post_targets.last_error)
+export function summarizeMediaIssues(issues: MediaIssue[]): string {
+  return issues.map(i => i.message).join('; ');
+}
@@ -0,0 +1,77 @@
+// Per-channel overrides. The composer can fork the caption, title, hashtags,
+// link and media for each selected account; forks live under
+// posts.per_channel_overrides.accounts keyed by social_accounts.id, next to
+// the post-wide media_url/media_type/media_meta.
+
+import type { InstagramOptions, MediaMeta, TikTokOptions, YouTubeOptions } from "./publishers.ts";
+
+export interface ChannelOverride {
+  content?: string;
+  title?: string;
+  hashtags?: string[];
+  link_url?: string;
+  media_url?: string;
+  media_type?: 'image' | 'video';
+  media_meta?: MediaMeta;
+  // media library asset behind media_url
+  asset_id?: string;
+  youtube?: YouTubeOptions;
+  tiktok?: TikTokOptions;
+  instagram?: InstagramOptions;
+}
+
+// What actually gets sent to one account after overrides are applied
+export interface ChannelVersion {
+  content: string;
+  title?: string;
+  linkUrl?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  mediaMeta?: MediaMeta;
+  // library asset behind mediaUrl, used to pick a processed rendition
+  assetId?: string;
+  youtube?: YouTubeOptions;
+  tiktok?: TikTokOptions;
+  instagram?: InstagramOptions;
+}
+
+export function formatHashtags(hashtags: string[] | undefined): string {
+  return (hashtags || [])
+    .map((tag) => tag.trim().replace(/^#+/, ''))
+    .filter(Boolean)
+    .map((tag) => `#${tag}`)
+    .join(' ');
+}
+
+export function resolveChannelVersion(
+  base: ChannelVersion,
+  override: ChannelOverride | undefined
+): ChannelVersion {
+  if (!override) return base;
+
+  const caption = override.content?.trim() ? override.content : base.content;
+  const tags = formatHashtags(override.hashtags);
+  // An overridden media_url replaces the post media wholesale, so don't
+  // inherit the base type/meta for it.
+  const ownMedia = !!override.media_url;
+
+  return {
+    content: tags ? `${caption}\n\n${tags}` : caption,
+    title: override.title?.trim() || base.title,
+    linkUrl: override.link_url || base.linkUrl,
+    mediaUrl: ownMedia ? override.media_url : base.mediaUrl,
+    mediaType: ownMedia ? override.media_type : base.mediaType,
+    mediaMeta: ownMedia ? override.media_meta : base.mediaMeta,
+    assetId: ownMedia ? override.asset_id : base.assetId,
+    youtube: override.youtube || base.youtube,
+    tiktok: override.tiktok || base.tiktok,
+    instagram: override.instagram || base.instagram,
+  };
+}
+
+export function getChannelOverride(
+  perChannelOverrides: { accounts?: Record<string, ChannelOverride> } | null | undefined,
+  socialAccountId: string
+): ChannelOverride | undefined {
+  return perChannelOverrides?.accounts?.[socialAccountId] || undefined;
+}
@@ -0,0 +1,278 @@
+// Metrics for a single published post, looked up by the remote id the
+// publisher stored in post_targets.remote_post_id. Each platform calls its
+// headline number something different (plays, impressions, views); the label
+// travels with the value so the post detail view can show it as-is.
+
+const GRAPH_VERSION = 'v25.0';
+const LINKEDIN_VERSION = '202506';
+
+export interface RemotePostMetrics {
+  views: number | null;
+  viewsLabel: string;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+  // TikTok only knows the publish id until moderation finishes; once the
+  // public video id is available the caller should store it
+  resolvedPostId?: string;
+}
+
+// The fields read from each platform's response
+interface ApiError {
+  error?: { message?: string } | string;
+  message?: string;
+  error_description?: string;
+}
+
+interface InsightsResponse {
+  data?: { name: string; values?: { value?: number }[]; total_value?: { value?: number } }[];
+}
+
+interface YouTubeVideosResponse {
+  items?: { statistics?: { viewCount?: string; likeCount?: string; commentCount?: string } }[];
+}
+
+interface TikTokPublishStatusResponse {
+  data?: { publicaly_available_post_id?: (string | number)[] };
+}
+
+interface TikTokVideoQueryResponse {
+  data?: { videos?: { view_count?: number; like_count?: number; comment_count?: number; share_count?: number }[] };
+}
+
+interface InstagramMediaResponse {
+  like_count?: number;
+  comments_count?: number;
+  media_product_type?: string;
+}
+
+type GraphSummary = { summary?: { total_count?: number } };
+
+interface FacebookObjectResponse {
+  shares?: { count?: number };
+  reactions?: GraphSummary;
+  likes?: GraphSummary;
+  comments?: GraphSummary;
+}
+
+interface XTweetResponse {
+  data?: { public_metrics?: Record<string, number> };
+  errors?: { detail?: string; message?: string }[];
+}
+
+interface LinkedInSocialActionsResponse {
+  likesSummary?: { totalLikes?: number };
+  commentsSummary?: { aggregatedTotalComments?: number; totalFirstLevelComments?: number };
+}
+
+interface BlueskyPostsResponse {
+  posts?: { likeCount?: number; replyCount?: number; repostCount?: number; quoteCount?: number }[];
+}
+
+function num(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function add(...values: (number | null)[]): number | null {
+  return values.some((v) => v != null) ? values.reduce<number>((s, v) => s + (v ?? 0), 0) : null;
+}
+
+async function getJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data: ApiError = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    const message = (typeof data.error === 'object' ? data.error.message : null) || data.message || data.error_description
+      || (typeof data.error === 'string' ? data.error : null) || `HTTP ${response.status}`;
+    throw new Error(message);
+  }
+  return data as T;
+}
+
+// Graph/Threads insights return [{ name, values: [{ value }] }] or
+// [{ name, total_value: { value } }] depending on the metric
+function insightValues(data: InsightsResponse): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+  for (const metric of data.data || []) {
+    values[metric.name] = num(metric.total_value?.value ?? metric.values?.[0]?.value);
+  }
+  return values;
+}
+
+async function youtubeMetrics(videoId: string, accessToken: string): Promise<RemotePostMetrics> {
+  const data = await getJson<YouTubeVideosResponse>(
+    `https://www.googleapis.com/youtube/v3/videos?part=statistics&id=${encodeURIComponent(videoId)}`,
+    { headers: { 'Authorization': `Bearer ${accessToken}` } }
+  );
+  const stats = data.items?.[0]?.statistics;
+  if (!stats) throw new Error('Video not found');
+  return {
+    views: num(stats.viewCount),
+    viewsLabel: 'Views',
+    likes: num(stats.likeCount),
+    comments: num(stats.commentCount),
+    shares: null,
+  };
+}
+
+async function tiktokMetrics(remoteId: string, accessToken: string): Promise<RemotePostMetrics> {
+  const headers = {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json; charset=UTF-8',
+  };
+
+  // Video ids are numeric; anything else is the publish id from Direct Post
+  let videoId = /^\d+$/.test(remoteId) ? remoteId : null;
+  if (!videoId) {
+    const status = await getJson<TikTokPublishStatusResponse>('https://open.tiktokapis.com/v2/post/publish/status/fetch/', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ publish_id: remoteId }),
+    });
+    // Misspelled in TikTok's API
+    const published = status.data?.publicaly_available_post_id?.[0];
+    if (!published) throw new Error('TikTok has not made this video public yet');
+    videoId = String(published);
+  }
+
+  const data = await getJson<TikTokVideoQueryResponse>(
+    'https://open.tiktokapis.com/v2/video/query/?fields=id,view_count,like_count,comment_count,share_count',
+    { method: 'POST', headers, body: JSON.stringify({ filters: { video_ids: [videoId] } }) }
+  );
+  const video = data.data?.videos?.[0];
+  if (!video) throw new Error('Video not found');
+  return {
+    views: num(video.view_count),
+    viewsLabel: 'Plays',
+    likes: num(video.like_count),
+    comments: num(video.comment_count),
+    shares: num(video.share_count),
+    resolvedPostId: videoId !== remoteId ? videoId : undefined,
+  };
+}
+
+async function instagramMetrics(mediaId: string, accessToken: string): Promise<RemotePostMetrics> {
+  const base = `https://graph.facebook.com/${GRAPH_VERSION}/${mediaId}`;
+  const media = await getJson<InstagramMediaResponse>(`${base}?fields=like_count,comments_count,media_product_type&access_token=${accessToken}`);
+  // `views` replaced plays/impressions for Reels and feed posts
+  const insights = await getJson<InsightsResponse>(`${base}/insights?metric=views,shares&access_token=${accessToken}`)
+    .then(insightValues)
+    .catch(() => ({} as Record<string, number | null>));
+  return {
+    views: insights.views ?? null,
+    viewsLabel: media.media_product_type === 'REELS' ? 'Plays' : 'Views',
+    likes: num(media.like_count),
+    comments: num(media.comments_count),
+    shares: insights.shares ?? null,
+  };
+}
+
+async function facebookMetrics(objectId: string, accessToken: string): Promise<RemotePostMetrics> {
+  const base = `https://graph.facebook.com/${GRAPH_VERSION}/${objectId}`;
+  const fields = 'shares,reactions.summary(total_count).limit(0),comments.summary(total_count).limit(0)';
+  const post = await getJson<FacebookObjectResponse>(`${base}?fields=${fields}&access_token=${accessToken}`).catch(() => null);
+  if (post) {
+    const insights = await getJson<InsightsResponse>(`${base}/insights?metric=post_impressions&access_token=${accessToken}`)
+      .then(insightValues)
+      .catch(() => ({} as Record<string, number | null>));
+    return {
+      views: insights.post_impressions ?? null,
+      viewsLabel: 'Impressions',
+      likes: num(post.reactions?.summary?.total_count),
+      comments: num(post.comments?.summary?.total_count),
+      shares: num(post.shares?.count),
+    };
+  }
+
+  // Page videos and Reels store the video id, which isn't a feed post
+  const video = await getJson<FacebookObjectResponse>(
+    `${base}?fields=likes.summary(total_count).limit(0),comments.summary(total_count).limit(0)&access_token=${accessToken}`
+  );
+  const insights = await getJson<InsightsResponse>(`${base}/video_insights?metric=total_video_views&access_token=${accessToken}`)
+    .then(insightValues)
+    .catch(() => ({} as Record<string, number | null>));
+  return {
+    views: insights.total_video_views ?? null,
+    viewsLabel: 'Views',
+    likes: num(video.likes?.summary?.total_count),
+    comments: num(video.comments?.summary?.total_count),
+    shares: null,
+  };
+}
+
+async function xMetrics(tweetId: string, accessToken: string): Promise<RemotePostMetrics> {
+  const data = await getJson<XTweetResponse>(
+    `https://api.x.com/2/tweets/${encodeURIComponent(tweetId)}?tweet.fields=public_metrics`,
+    { headers: { 'Authorization': `Bearer ${accessToken}` } }
+  );
+  if (data.errors?.length && !data.data) throw new Error(data.errors[0].detail || data.errors[0].message || 'Post not found');
+  const metrics: Record<string, number> = data.data?.public_metrics || {};
+  return {
+    views: num(metrics.impression_count),
+    viewsLabel: 'Impressions',
+    likes: num(metrics.like_count),
+    comments: num(metrics.reply_count),
+    shares: add(num(metrics.retweet_count), num(metrics.quote_count)),
+  };
+}
+
+async function linkedinMetrics(urn: string, accessToken: string): Promise<RemotePostMetrics> {
+  // Member posts have no impression counts through the API; only social actions
+  const data = await getJson<LinkedInSocialActionsResponse>(`https://api.linkedin.com/rest/socialActions/${encodeURIComponent(urn)}`, {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'LinkedIn-Version': LINKEDIN_VERSION,
+      'X-Restli-Protocol-Version': '2.0.0',
+    },
+  });
+  return {
+    views: null,
+    viewsLabel: 'Impressions',
+    likes: num(data.likesSummary?.totalLikes),
+    comments: num(data.commentsSummary?.aggregatedTotalComments ?? data.commentsSummary?.totalFirstLevelComments),
+    shares: null,
+  };
+}
+
+async function threadsMetrics(mediaId: string, accessToken: string): Promise<RemotePostMetrics> {
+  const values = insightValues(await getJson<InsightsResponse>(
+    `https://graph.threads.net/v1.0/${mediaId}/insights?metric=views,likes,replies,reposts,quotes&access_token=${accessToken}`
+  ));
+  return {
+    views: values.views ?? null,
+    viewsLabel: 'Views',
+    likes: values.likes ?? null,
+    comments: values.replies ?? null,
+    shares: add(values.reposts ?? null, values.quotes ?? null),
+  };
+}
+
+async function blueskyMetrics(uri: string): Promise<RemotePostMetrics> {
+  // Counts come from the public AppView; no session needed
+  const data = await getJson<BlueskyPostsResponse>(
+    `https://public.api.bsky.app/xrpc/app.bsky.feed.getPosts?uris=${encodeURIComponent(uri)}`
+  );
+  const post = data.posts?.[0];
+  if (!post) throw new Error('Post not found');
+  return {
+    views: null,
+    viewsLabel: 'Views',
+    likes: num(post.likeCount),
+    comments: num(post.replyCount),
+    shares: add(num(post.repostCount), num(post.quoteCount)),
+  };
+}
+
+export function fetchPostMetrics(platform: string, remotePostId: string, accessToken: string): Promise<RemotePostMetrics> {
+  switch (platform) {
+    case 'youtube': return youtubeMetrics(remotePostId, accessToken);
+    case 'tiktok': return tiktokMetrics(remotePostId, accessToken);
+    case 'instagram': return instagramMetrics(remotePostId, accessToken);
+    case 'facebook': return facebookMetrics(remotePostId, accessToken);
+    case 'x': return xMetrics(remotePostId, accessToken);
+    case 'linkedin': return linkedinMetrics(remotePostId, accessToken);
+    case 'threads': return threadsMetrics(remotePostId, accessToken);
+    case 'bluesky': return blueskyMetrics(remotePostId);
+    default: return Promise.reject(new Error(`Unsupported platform: ${platform}`));
+  }
+}
@@ -0,0 +1,271 @@
+// Normalized publish failures. Each publisher maps its platform's API errors
+// into a PublishErrorCode (stored in post_targets.last_error_code), and
+// publish-scheduled decides from the code whether to retry, wait for a
+// rate-limit reset or fail straight away. Must stay free of Deno/npm imports
+// so the app can share the code list.
+
+export type PublishErrorCode =
+  // 429s and quotas; retryAt says when the platform lets us back in
+  | 'rate_limited'
+  // the platform rejected the token
+  | 'auth_expired'
+  // missing scope, restricted or unaudited account
+  | 'permission_denied'
+  // caption too long, invalid field, policy rejection
+  | 'content_rejected'
+  | 'duplicate_content'
+  // format, codec, size or length the platform won't take
+  | 'media_unsupported'
+  // the platform couldn't download our media URL
+  | 'media_unavailable'
+  // 5xx or a platform-side processing problem
+  | 'platform_error'
+  // fetch failed, connection reset, timeouts
+  | 'network'
+  // not a failure: the post went out but an extra step (a YouTube thumbnail
+  // or playlist, an Instagram Story) didn't; stored on published targets
+  | 'partial'
+  | 'unknown';
+
+export interface ClassifiedError {
+  error: string;
+  errorCode: PublishErrorCode;
+  // ISO timestamp; only for rate_limited
+  retryAt?: string;
+  needsReconnect?: boolean;
+}
+
+// Retrying these can't succeed without someone changing the post or account
+const PERMANENT_CODES = new Set<PublishErrorCode>([
+  'auth_expired',
+  'permission_denied',
+  'content_rejected',
+  'duplicate_content',
+  'media_unsupported',
+]);
+
+export function isRetryable(code: PublishErrorCode): boolean {
+  return !PERMANENT_CODES.has(code);
+}
+
+export function classified(error: string, errorCode: PublishErrorCode, retryAt?: Date | null): ClassifiedError {
+  const result: ClassifiedError = { error, errorCode };
+  if (retryAt) result.retryAt = retryAt.toISOString();
+  if (errorCode === 'auth_expired') result.needsReconnect = true;
+  return result;
+}
+
+// Last resort for messages we have no structured code for
+export function classifyMessage(message: string): PublishErrorCode {
+  if (/duplicate/i.test(message)) return 'duplicate_content';
+  if (/rate.?limit|too many requests|quota/i.test(message)) return 'rate_limited';
+  if (/failed to fetch media|could not (download|fetch)/i.test(message)) return 'media_unavailable';
+  if (/too long|character limit|graphemes|exceeds the maximum length/i.test(message)) return 'content_rejected';
+  if (/unsupported|codec|aspect ratio|resolution|file size|too large|must be under|max duration|format/i.test(message)) {
+    return 'media_unsupported';
+  }
+  if (/expired|reconnect|invalid (access )?token|unauthori[sz]ed/i.test(message)) return 'auth_expired';
+  if (/permission|not (allowed|permitted)|forbidden|scope/i.test(message)) return 'permission_denied';
+  if (/processing (failed|timed out)|could not process/i.test(message)) return 'platform_error';
+  if (/timed out|timeout|network|connection|fetch failed|econnreset/i.test(message)) return 'network';
+  return 'unknown';
+}
+
+// Retry-After (seconds or HTTP date) and the reset headers X and Bluesky
+// send with 429s (epoch seconds)
+export function retryAfterFrom(headers: Headers, now = Date.now()): Date | null {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return new Date(now + seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return new Date(date);
+  }
+  for (const name of ['x-rate-limit-reset', 'ratelimit-reset', 'x-ratelimit-reset']) {
+    const value = Number(headers.get(name));
+    if (!value) continue;
+    // Some send a delta rather than an epoch
+    return new Date(value > 1e9 ? value * 1000 : now + value * 1000);
+  }
+  return null;
+}
+
+export function fromException(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  // fetch() throws TypeError for DNS/connection failures
+  const network = error instanceof TypeError
+    || (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError'));
+  return classified(message, network ? 'network' : classifyMessage(message));
+}
+
+// Generic HTTP API failure: the status decides unless the message is more specific
+export function fromHttp(response: Response, message: string): ClassifiedError {
+  const { status } = response;
+  if (status === 429) return classified(message, 'rate_limited', retryAfterFrom(response.headers));
+  if (status === 401) return classified(message, 'auth_expired');
+  if (status >= 500) return classified(message, 'platform_error');
+  const fromMessage = classifyMessage(message);
+  if (fromMessage !== 'unknown') return classified(message, fromMessage);
+  if (status === 403) return classified(message, 'permission_denied');
+  if (status === 413 || status === 415) return classified(message, 'media_unsupported');
+  if (status === 400 || status === 422) return classified(message, 'content_rejected');
+  return classified(message, 'unknown');
+}
+
+interface GraphError {
+  message?: string;
+  code?: number;
+  error_subcode?: number;
+  is_transient?: boolean;
+}
+
+// Meta sends how long until an app/page is unthrottled in this header
+function graphRegainAccess(headers?: Headers): Date | null {
+  const usage = headers?.get('x-business-use-case-usage');
+  if (!usage) return null;
+  try {
+    const minutes = Math.max(
+      0,
+      ...Object.values(JSON.parse(usage) as Record<string, { estimated_time_to_regain_access?: number }[]>)
+        .flat()
+        .map((u) => u.estimated_time_to_regain_access || 0)
+    );
+    return minutes ? new Date(Date.now() + minutes * 60_000) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Facebook, Instagram and Threads (Graph API error objects)
+export function fromGraph(error: GraphError, response?: Response): ClassifiedError {
+  const message = error.message || 'Graph API error';
+  const code = error.code ?? 0;
+  const subcode = error.error_subcode ?? 0;
+
+  if ([4, 17, 32, 613].includes(code) || (code >= 80001 && code <= 80014) || subcode === 2207042) {
+    return classified(message, 'rate_limited', graphRegainAccess(response?.headers) ?? (response && retryAfterFrom(response.headers)));
+  }
+  if (code === 190 || code === 102) return classified(message, 'auth_expired');
+  if (code === 10 || (code >= 200 && code <= 299) || subcode === 2207050) return classified(message, 'permission_denied');
+  if (code === 506) return classified(message, 'duplicate_content');
+  if (code === 368) return classified(message, 'content_rejected');
+  // Instagram container errors
+  if (subcode === 2207003 || subcode === 2207052 || subcode === 9004) return classified(message, 'media_unavailable');
+  if ([2207004, 2207005, 2207009, 2207026].includes(subcode)) return classified(message, 'media_unsupported');
+  if (error.is_transient || code === 1 || code === 2) return classified(message, 'platform_error');
+  const fromMessage = classifyMessage(message);
+  if (fromMessage !== 'unknown') return classified(message, fromMessage);
+  if (code === 100) return classified(message, 'content_rejected');
+  return classified(message, 'unknown');
+}
+
+// TikTok Content Posting API error.code values
+export function fromTikTok(code: string, message: string): ClassifiedError {
+  switch (code) {
+    case 'rate_limit_exceeded':
+    case 'spam_risk_too_many_posts':
+    case 'spam_risk_too_many_pending_share':
+      return classified(message, 'rate_limited');
+    case 'access_token_invalid':
+    case 'token_not_authorized_for_specified_scope':
+      return classified(message, 'auth_expired');
+    case 'scope_not_authorized':
+    case 'unaudited_client_can_only_post_to_private_accounts':
+    case 'spam_risk_user_banned_from_posting':
+    case 'reached_active_user_cap':
+      return classified(message, 'permission_denied');
+    case 'privacy_level_option_mismatch':
+    case 'invalid_params':
+      return classified(message, 'content_rejected');
+    case 'file_format_check_failed':
+    case 'duration_check_failed':
+    case 'frame_rate_check_failed':
+    case 'picture_size_check_failed':
+    case 'video_pull_failed':
+      return classified(message, code === 'video_pull_failed' ? 'media_unavailable' : 'media_unsupported');
+    case 'internal_error':
+      return classified(message, 'platform_error');
+    default:
+      return classified(message, classifyMessage(`${code} ${message}`));
+  }
+}
+
+// Quota resets at midnight Pacific time
+function nextPacificMidnight(now = new Date()): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/Los_Angeles',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value || 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value || 0);
+  return new Date(now.getTime() + ((24 - hour) * 60 - minute) * 60_000);
+}
+
+// YouTube Data API: the reason in error.errors[] is what tells quota from scope
+export function fromYouTube(
+  response: Response,
+  body: { error?: { message?: string; errors?: { reason?: string }[] } },
+  fallback = `YouTube API error (${response.status})`
+): ClassifiedError {
+  const message = body.error?.message || fallback;
+  const reason = body.error?.errors?.[0]?.reason;
+  switch (reason) {
+    case 'quotaExceeded':
+    case 'uploadLimitExceeded':
+      return classified(message, 'rate_limited', nextPacificMidnight());
+    case 'rateLimitExceeded':
+    case 'userRateLimitExceeded':
+      return classified(message, 'rate_limited', retryAfterFrom(response.headers));
+    case 'authError':
+      return classified(message, 'auth_expired');
+    case 'forbidden':
+    case 'insufficientPermissions':
+    case 'youtubeSignupRequired':
+      return classified(message, 'permission_denied');
+    case 'invalidTitle':
+    case 'invalidDescription':
+    case 'invalidTags':
+    case 'invalidCategoryId':
+      return classified(message, 'content_rejected');
+    default:
+      return fromHttp(response, message);
+  }
+}
+
+export type RetryDecision =
+  | { action: 'retry'; at: Date; consumesAttempt: boolean }
+  | { action: 'fail' }
+  | { action: 'reconnect' };
+
+const MAX_BACKOFF_MIN = 60;
+// Fallback wait for a rate limit the platform didn't put a time on
+const RATE_LIMIT_WAIT_MIN = 15;
+
+// What publish-scheduled does with a failed attempt. attempts counts the one
+// that just failed.
+export function decideRetry(
+  failure: { errorCode?: PublishErrorCode; retryAt?: string; needsReconnect?: boolean },
+  attempts: number,
+  maxAttempts: number,
+  now = Date.now()
+): RetryDecision {
+  const code = failure.errorCode ?? 'unknown';
+  if (failure.needsReconnect || code === 'auth_expired') return { action: 'reconnect' };
+  if (!isRetryable(code)) return { action: 'fail' };
+
+  if (code === 'rate_limited') {
+    // Waiting out a limit the platform put a time on isn't the post's fault,
+    // so it doesn't use up an attempt
+    const resetAt = failure.retryAt ? Date.parse(failure.retryAt) : NaN;
+    if (resetAt > now) return { action: 'retry', at: new Date(resetAt + 5_000), consumesAttempt: false };
+    if (attempts >= maxAttempts) return { action: 'fail' };
+    const waitMin = Math.max(RATE_LIMIT_WAIT_MIN, Math.min(2 ** attempts, MAX_BACKOFF_MIN));
+    return { action: 'retry', at: new Date(now + waitMin * 60_000), consumesAttempt: true };
+  }
+
+  if (attempts >= maxAttempts) return { action: 'fail' };
+  const backoffMin = Math.min(2 ** attempts, MAX_BACKOFF_MIN);
+  return { action: 'retry', at: new Date(now + backoffMin * 60_000), consumesAttempt: true };
+}
@@ -11,6 +11,25 @@
 //   x         – v2 chunked media upload + tweet with media
 //   threads   – VIDEO container + publish
 //   bluesky   – video service upload + app.bsky.embed.video record
+//
+// Videos are never held in memory whole: the uploaders read them from
+// storage one platform chunk at a time (see media-source.ts), and the
+// resumable ones save their progress so a later run can finish the upload.
+
+import {
+  ClassifiedError,
+  PublishErrorCode,
+  classified,
+  classifyMessage,
+  fromException,
+  fromGraph,
+  fromHttp,
+  fromTikTok,
+  fromYouTube,
+} from "./publish-errors.ts";
+import { MediaSource, UploadSession, UploadSessionStore, openMediaSource } from "./media-source.ts";
+export type { PublishErrorCode } from "./publish-errors.ts";
+export type { UploadSessionStore } from "./media-source.ts";
 
 const GRAPH_VERSION = 'v25.0';
 const LINKEDIN_VERSION = '202506';
@@ -19,6 +38,71 @@ export interface MediaMeta {
   width?: number;
   height?: number;
   durationSeconds?: number;
+  sizeBytes?: number;
+  mimeType?: string;
+}
+
+export type YouTubePrivacy = 'public' | 'unlisted' | 'private';
+
+// YouTube-only settings from the composer (ChannelOverride.youtube). The
+// title is the override's title like other platforms.
+export interface YouTubeOptions {
+  // defaults to the caption
+  description?: string;
+  tags?: string[];
+  // videoCategories id, e.g. '22' People & Blogs
+  categoryId?: string;
+  privacy?: YouTubePrivacy;
+  // ISO timestamp; YouTube keeps the video private and makes it public then
+  publishAt?: string;
+  madeForKids?: boolean;
+  // BCP-47, e.g. 'en' or 'pt-BR'
+  defaultLanguage?: string;
+  playlistId?: string;
+  // JPEG/PNG up to 2MB, set with thumbnails.set after the upload
+  thumbnailUrl?: string;
+}
+
+// Data API units spent on top of videos.insert (quota_budgets' cost_per_publish)
+const YOUTUBE_EXTRA_CALL_UNITS = 50;
+
+// thumbnails.set and playlistItems.insert, reserved with the upload
+export function youtubeExtraUnits(youtube: YouTubeOptions | undefined): number {
+  return ((youtube?.thumbnailUrl ? 1 : 0) + (youtube?.playlistId ? 1 : 0)) * YOUTUBE_EXTRA_CALL_UNITS;
+}
+
+// TikTok Direct Post settings (ChannelOverride.tiktok). TikTok's content
+// guidelines require the user to pick these; nothing defaults to public.
+export interface TikTokOptions {
+  // one of creator_info's privacy_level_options, e.g. 'PUBLIC_TO_EVERYONE'
+  privacyLevel?: string;
+  // interactions stay off unless the user turned them on
+  disableComment?: boolean;
+  disableDuet?: boolean;
+  disableStitch?: boolean;
+  // commercial content disclosure: promoting the creator's own business
+  // ("Your brand") and/or a third party's ("Branded content")
+  brandOrganic?: boolean;
+  brandedContent?: boolean;
+}
+
+export type InstagramPlacement = 'feed' | 'story' | 'both';
+
+// Instagram settings (ChannelOverride.instagram). 'feed' is a Reel for video
+// and a feed photo for images; 'both' also shares the media as a Story.
+export interface InstagramOptions {
+  placement?: InstagramPlacement;
+  // Reels cover: an image, or else the frame at thumbOffsetMs
+  coverUrl?: string;
+  thumbOffsetMs?: number;
+  // show the Reel in the profile grid as well as the Reels tab (default true)
+  shareToFeed?: boolean;
+  // usernames invited as collaborators, at most 3
+  collaborators?: string[];
+  // Facebook Page id of the location
+  locationId?: string;
+  // usernames tagged in the post
+  userTags?: string[];
 }
 
 export interface PublishOptions {
@@ -30,29 +114,79 @@ export interface PublishOptions {
   refreshToken?: string;
   tokenExpiresAt?: string | null;
   content: string;
+  // explicit video title (YouTube, Facebook video); defaults to the first line
+  title?: string;
   linkUrl?: string;
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   mediaMeta?: MediaMeta;
-  // pre-fetched media bytes, shared across platforms to avoid re-downloading
-  mediaBlob?: Blob | null;
+  youtube?: YouTubeOptions;
+  tiktok?: TikTokOptions;
+  instagram?: InstagramOptions;
+  // told when the platform has the file and is processing it
+  onPhase?: (phase: PublishPhase) => void;
+  // where chunked uploads keep their progress between runs
+  uploadSession?: UploadSessionStore;
+  // epoch ms; chunked uploads with a session stop here and report
+  // uploadPending instead of running past the function's time limit
+  uploadDeadline?: number;
 }
 
+// Where a publish is while it runs (post_targets.publish_phase)
+export type PublishPhase = 'downloading' | 'uploading' | 'processing';
+
 export interface ProviderResult {
   success: boolean;
   postId?: string;
   postUrl?: string;
   error?: string;
+  // normalized failure kind, see publish-errors.ts
+  errorCode?: PublishErrorCode;
+  // when a rate-limited request may be retried (ISO timestamp)
+  retryAt?: string;
   needsReconnect?: boolean;
+  // the upload stopped at uploadDeadline with its session saved; publishing
+  // again continues it
+  uploadPending?: boolean;
+  // published, but part of the request didn't take; kept on the target
+  // with last_error_code 'partial'
+  warning?: string;
 }
 
 // ---------------------------------------------------------------------------
 // Utilities
 // ---------------------------------------------------------------------------
 
+type UploadFailure = ClassifiedError & { paused?: boolean };
+
+// Upload helpers hand back { ok: false, ...ClassifiedError }
+function failed(f: UploadFailure): ProviderResult {
+  if (f.paused) return { success: false, error: f.error, uploadPending: true };
+  return { success: false, error: f.error, errorCode: f.errorCode, retryAt: f.retryAt, needsReconnect: f.needsReconnect };
+}
+
+// What the chunked uploaders need besides credentials and the file
+type UploadControl = Pick<PublishOptions, 'onPhase' | 'uploadSession' | 'uploadDeadline'>;
+
+// Checked before each chunk. Without a session there's nothing to resume
+// from, so the upload carries on regardless.
+function outOfTime(control: UploadControl): boolean {
+  return !!control.uploadSession && !!control.uploadDeadline && Date.now() >= control.uploadDeadline;
+}
+
+function pausedUpload(sent: number, total: number): UploadFailure {
+  return { ...classified(`Upload paused at ${Math.round((sent / total) * 100)}%; the next run continues it`, 'platform_error'), paused: true };
+}
+
+// A saved session, or null if there's none or it belongs to another file
+async function resumable(control: UploadControl, source: MediaSource): Promise<UploadSession | null> {
+  return await control.uploadSession?.load(source.size) ?? null;
+}
+
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-export async function fetchMediaBlob(mediaUrl: string): Promise<Blob> {
+// Images are small enough to read whole; videos go through openMediaSource
+async function fetchMediaBlob(mediaUrl: string): Promise<Blob> {
   const response = await fetch(mediaUrl);
   if (!response.ok) {
     throw new Error(`Failed to fetch media: ${response.status} ${response.statusText}`);
@@ -301,7 +435,7 @@ export async function publishToProvider(
   // Refresh tokens up front for all platforms that support it
   const fresh = await ensureFreshToken(platform, options, supabase);
   if (fresh.needsReconnect) {
-    return { success: false, error: fresh.error, needsReconnect: true };
+    return { success: false, error: fresh.error, errorCode: 'auth_expired', needsReconnect: true };
   }
   const opts: PublishOptions = {
     ...options,
@@ -309,6 +443,13 @@ export async function publishToProvider(
     refreshToken: fresh.refreshToken ?? options.refreshToken,
   };
 
+  const result = await publishTo(platform, opts);
+  // Anything a publisher didn't classify gets a best guess from its message
+  if (!result.success && !result.errorCode) result.errorCode = classifyMessage(result.error || '');
+  return result;
+}
+
+function publishTo(platform: string, opts: PublishOptions): Promise<ProviderResult> {
   switch (platform) {
     case 'facebook':
       return publishToFacebook(opts);
@@ -327,7 +468,7 @@ export async function publishToProvider(
     case 'youtube':
       return publishToYouTube(opts);
     default:
-      return { success: false, error: `Unsupported platform: ${platform}` };
+      return Promise.resolve(failed(classified(`Unsupported platform: ${platform}`, 'content_rejected')));
   }
 }
 
@@ -336,7 +477,7 @@ export async function publishToProvider(
 // ---------------------------------------------------------------------------
 
 async function publishToFacebook(options: PublishOptions): Promise<ProviderResult> {
-  const { accountId: pageId, accessToken, content, linkUrl, mediaUrl, mediaType, mediaMeta } = options;
+  const { accountId: pageId, accessToken, content, title, linkUrl, mediaUrl, mediaType, mediaMeta, onPhase } = options;
 
   try {
     if (mediaUrl && mediaType === 'video') {
@@ -345,7 +486,7 @@ async function publishToFacebook(options: PublishOptions): Promise<ProviderResul
       const reelsEligible = isVertical(mediaMeta) && duration >= 3 && duration <= 90;
 
       if (reelsEligible) {
-        const reelResult = await publishFacebookReel(pageId, accessToken, content, mediaUrl);
+        const reelResult = await publishFacebookReel(pageId, accessToken, content, mediaUrl, onPhase);
         if (reelResult.success) return reelResult;
         console.error('Facebook Reel publish failed, falling back to page video:', reelResult.error);
       }
@@ -356,12 +497,12 @@ async function publishToFacebook(options: PublishOptions): Promise<ProviderResul
         body: JSON.stringify({
           file_url: mediaUrl,
           description: content,
-          title: firstLine(content, 65),
+          title: title?.substring(0, 65) || firstLine(content, 65),
           access_token: accessToken,
         }),
       });
       const data = await response.json();
-      if (data.error) return { success: false, error: data.error.message };
+      if (data.error) return failed(fromGraph(data.error, response));
       return {
         success: true,
         postId: data.id,
@@ -385,14 +526,14 @@ async function publishToFacebook(options: PublishOptions): Promise<ProviderResul
       body: JSON.stringify(body),
     });
     const data = await response.json();
-    if (data.error) return { success: false, error: data.error.message };
+    if (data.error) return failed(fromGraph(data.error, response));
     return {
       success: true,
       postId: data.id || data.post_id,
       postUrl: `https://facebook.com/${data.post_id || data.id}`,
     };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
 
@@ -400,7 +541,8 @@ async function publishFacebookReel(
   pageId: string,
   accessToken: string,
   description: string,
-  videoUrl: string
+  videoUrl: string,
+  onPhase?: (phase: PublishPhase) => void
 ): Promise<ProviderResult> {
   // Phase 1: start an upload session
   const startResponse = await fetch(`https://graph.facebook.com/${GRAPH_VERSION}/${pageId}/video_reels`, {
@@ -410,7 +552,9 @@ async function publishFacebookReel(
   });
   const startData = await startResponse.json();
   if (startData.error || !startData.video_id) {
-    return { success: false, error: startData.error?.message || 'Failed to start Reel upload' };
+    return failed(startData.error
+      ? fromGraph(startData.error, startResponse)
+      : classified('Failed to start Reel upload', 'platform_error'));
   }
 
   // Phase 2: hand Facebook the hosted file URL. Note: file_url is an HTTP
@@ -426,10 +570,11 @@ async function publishFacebookReel(
   });
   const uploadData = await uploadResponse.json().catch(() => ({}));
   if (!uploadResponse.ok || uploadData.success === false) {
-    return { success: false, error: uploadData?.debug_info?.message || 'Failed to upload Reel video' };
+    return failed(fromHttp(uploadResponse, uploadData?.debug_info?.message || 'Failed to upload Reel video'));
   }
 
   // Wait until Facebook has ingested the file before finishing
+  onPhase?.('processing');
   {
     const deadline = Date.now() + 90_000;
     while (Date.now() < deadline) {
@@ -464,7 +609,7 @@ async function publishFacebookReel(
   );
   const finishData = await finishResponse.json();
   if (finishData.error) {
-    return { success: false, error: finishData.error.message };
+    return failed(fromGraph(finishData.error, finishResponse));
   }
 
   // finish returns success:true as an acknowledgment only — confirm via status
@@ -492,96 +637,188 @@ async function publishFacebookReel(
 }
 
 // ---------------------------------------------------------------------------
-// Instagram — Reels (video) and photo posts via container + publish
+// Instagram — Reels (video), photo posts and Stories via container + publish
 // ---------------------------------------------------------------------------
 
 async function publishToInstagram(options: PublishOptions): Promise<ProviderResult> {
-  const { accountId: igUserId, accessToken, content, mediaUrl, mediaType } = options;
+  const { accountId: igUserId, accessToken, content, mediaUrl, mediaType, onPhase } = options;
+  const instagram = options.instagram ?? {};
+  const placement = instagram.placement || 'feed';
 
   if (!mediaUrl) {
-    return { success: false, error: 'Instagram requires an image or video' };
+    return failed(classified('Instagram requires an image or video', 'content_rejected'));
   }
 
   try {
-    const containerBody: Record<string, string> = {
-      caption: content,
-      access_token: accessToken,
-    };
-    if (mediaType === 'video') {
-      containerBody.media_type = 'REELS';
-      containerBody.video_url = mediaUrl;
-      containerBody.share_to_feed = 'true';
-    } else {
-      containerBody.image_url = mediaUrl;
+    const isVideo = mediaType === 'video';
+    const mediaField = isVideo ? { video_url: mediaUrl } : { image_url: mediaUrl };
+    const progress = await loadInstagramProgress(options);
+    // Stories take no caption, tags, collaborators or location
+    const storyBody = { media_type: 'STORIES', ...mediaField };
+    if (placement === 'story') {
+      return await publishInstagramStep('story', igUserId, accessToken, storyBody, isVideo, progress, options);
+    }
+
+    const feedBody: Record<string, unknown> = { caption: content, ...mediaField };
+    if (isVideo) {
+      feedBody.media_type = 'REELS';
+      feedBody.share_to_feed = instagram.shareToFeed ?? true;
+      if (instagram.coverUrl) feedBody.cover_url = instagram.coverUrl;
+      else if (instagram.thumbOffsetMs !== undefined) feedBody.thumb_offset = instagram.thumbOffsetMs;
+    }
+    if (instagram.collaborators?.length) feedBody.collaborators = instagram.collaborators;
+    if (instagram.locationId) feedBody.location_id = instagram.locationId;
+    if (instagram.userTags?.length) {
+      // Photo tags need a position; Reels tags don't take one
+      feedBody.user_tags = instagram.userTags.map((username) => isVideo ? { username } : { username, x: 0.5, y: 0.5 });
     }
 
+    const result = await publishInstagramStep('feed', igUserId, accessToken, feedBody, isVideo, progress, options);
+    // The Reel is the target's post and is saved in the session once it's
+    // out, so a run that stops during the Story only redoes the Story. A
+    // Story that fails outright is a warning rather than failing the Reel.
+    if (result.success && placement === 'both') {
+      const story = await publishInstagramStep('story', igUserId, accessToken, storyBody, isVideo, progress, { ...options, onPhase: undefined })
+        .catch((error: unknown) => failed(fromException(error)));
+      if (story.uploadPending) return story;
+      if (!story.success) return { ...result, warning: `Story not posted: ${story.error}` };
+    }
+    return result;
+  } catch (error: unknown) {
+    return failed(fromException(error));
+  }
+}
+
+type InstagramStep = 'feed' | 'story';
+
+// How far each placement got, kept in the target's upload session so a run
+// cut short doesn't create or publish anything twice
+type InstagramProgress = Partial<Record<InstagramStep, { containerId: string; postId?: string; postUrl?: string }>>;
+
+// Instagram fetches the media itself, so its session isn't tied to a file
+// size; this stands in for one
+const INSTAGRAM_SESSION_BYTES = 1;
+
+async function loadInstagramProgress(control: UploadControl): Promise<InstagramProgress> {
+  const session = await control.uploadSession?.load(INSTAGRAM_SESSION_BYTES);
+  return (session?.state as InstagramProgress | undefined) ?? {};
+}
+
+async function saveInstagramProgress(control: UploadControl, progress: InstagramProgress): Promise<void> {
+  await control.uploadSession?.save({
+    totalBytes: INSTAGRAM_SESSION_BYTES,
+    bytesSent: 0,
+    remoteId: progress.feed?.postId ?? progress.story?.postId ?? null,
+    state: progress,
+  });
+}
+
+// Create a media container, wait for a video to process, then publish it,
+// picking up from wherever an earlier run left this step
+async function publishInstagramStep(
+  step: InstagramStep,
+  igUserId: string,
+  accessToken: string,
+  body: Record<string, unknown>,
+  isVideo: boolean,
+  progress: InstagramProgress,
+  control: UploadControl
+): Promise<ProviderResult> {
+  const done = progress[step];
+  if (done?.postId) return { success: true, postId: done.postId, postUrl: done.postUrl };
+
+  let containerId = done?.containerId;
+  if (!containerId) {
     const containerResponse = await fetch(
       `https://graph.facebook.com/${GRAPH_VERSION}/${igUserId}/media`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(containerBody),
+        body: JSON.stringify({ ...body, access_token: accessToken }),
       }
     );
     const containerData = await containerResponse.json();
     if (containerData.error) {
-      return { success: false, error: containerData.error.message };
+      return failed(fromGraph(containerData.error, containerResponse));
     }
+    containerId = containerData.id as string;
+    progress[step] = { containerId };
+    await saveInstagramProgress(control, progress);
+  }
 
-    // Videos are processed asynchronously — poll the container status
-    if (mediaType === 'video') {
-      const ready = await pollInstagramContainer(containerData.id, accessToken);
-      if (!ready.ok) return { success: false, error: ready.error };
+  // Videos are processed asynchronously — poll the container status
+  if (isVideo) {
+    control.onPhase?.('processing');
+    const ready = await pollInstagramContainer(containerId, accessToken, control);
+    if (!ready.ok) {
+      // A container Instagram gave up on can't be published; start over next time
+      if (!ready.paused) {
+        delete progress[step];
+        await saveInstagramProgress(control, progress);
+      }
+      return failed(ready);
     }
+  }
 
-    const publishResponse = await fetch(
-      `https://graph.facebook.com/${GRAPH_VERSION}/${igUserId}/media_publish`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ creation_id: containerData.id, access_token: accessToken }),
-      }
-    );
-    const publishData = await publishResponse.json();
-    if (publishData.error) {
-      return { success: false, error: publishData.error.message };
+  const publishResponse = await fetch(
+    `https://graph.facebook.com/${GRAPH_VERSION}/${igUserId}/media_publish`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ creation_id: containerId, access_token: accessToken }),
     }
+  );
+  const publishData = await publishResponse.json();
+  if (publishData.error) {
+    return failed(fromGraph(publishData.error, publishResponse));
+  }
 
-    // Fetch the real permalink (the media id is not a valid shortcode)
-    let postUrl = `https://www.instagram.com/`;
-    try {
-      const permalinkResponse = await fetch(
-        `https://graph.facebook.com/${GRAPH_VERSION}/${publishData.id}?fields=permalink&access_token=${accessToken}`
-      );
-      const permalinkData = await permalinkResponse.json();
-      if (permalinkData.permalink) postUrl = permalinkData.permalink;
-    } catch { /* permalink is cosmetic */ }
+  // Fetch the real permalink (the media id is not a valid shortcode)
+  let postUrl = `https://www.instagram.com/`;
+  try {
+    const permalinkResponse = await fetch(
+      `https://graph.facebook.com/${GRAPH_VERSION}/${publishData.id}?fields=permalink&access_token=${accessToken}`
+    );
+    const permalinkData = await permalinkResponse.json();
+    if (permalinkData.permalink) postUrl = permalinkData.permalink;
+  } catch { /* permalink is cosmetic */ }
 
-    return { success: true, postId: publishData.id, postUrl };
-  } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-  }
+  progress[step] = { containerId, postId: publishData.id, postUrl };
+  await saveInstagramProgress(control, progress);
+  return { success: true, postId: publishData.id, postUrl };
 }
 
+// Stops at the run's deadline (with a session to pick up from) as well as
+// after timeoutMs
 async function pollInstagramContainer(
   containerId: string,
   accessToken: string,
+  control: UploadControl,
   timeoutMs = 180_000
-): Promise<{ ok: boolean; error?: string }> {
+): Promise<{ ok: true } | ({ ok: false } & UploadFailure)> {
   const deadline = Date.now() + timeoutMs;
   while (Date.now() < deadline) {
+    if (outOfTime(control)) {
+      return { ok: false, ...classified('Instagram is still processing the video; the next run checks again', 'platform_error'), paused: true };
+    }
     await sleep(5000);
     const response = await fetch(
       `https://graph.facebook.com/${GRAPH_VERSION}/${containerId}?fields=status_code,status&access_token=${accessToken}`
     );
     const data = await response.json();
-    if (data.error) return { ok: false, error: data.error.message };
+    if (data.error) return { ok: false, ...fromGraph(data.error, response) };
     if (data.status_code === 'FINISHED') return { ok: true };
     if (data.status_code === 'ERROR' || data.status_code === 'EXPIRED') {
-      return { ok: false, error: `Instagram could not process the video (${data.status || data.status_code}). Check the video meets Reels specs (MP4, 9:16 recommended, max 15 min).` };
+      return {
+        ok: false,
+        ...classified(
+          `Instagram could not process the video (${data.status || data.status_code}). Check the video meets Reels specs (MP4, 9:16 recommended, max 15 min).`,
+          data.status_code === 'ERROR' ? 'media_unsupported' : 'platform_error'
+        ),
+      };
     }
   }
-  return { ok: false, error: 'Instagram video processing timed out. The video may still publish shortly.' };
+  return { ok: false, ...classified('Instagram video processing timed out. The video may still publish shortly.', 'platform_error') };
 }
 
 // ---------------------------------------------------------------------------
@@ -594,18 +831,18 @@ function escapeLinkedInText(text: string): string {
 }
 
 async function publishToLinkedIn(options: PublishOptions): Promise<ProviderResult> {
-  const { accountId, accessToken, content, linkUrl, mediaUrl, mediaType, mediaBlob } = options;
+  const { accountId, accessToken, content, linkUrl, mediaUrl, mediaType } = options;
   const authorUrn = `urn:li:person:${accountId}`;
 
   try {
     let mediaContent: Record<string, unknown> | undefined;
 
     if (mediaUrl && mediaType === 'video') {
-      const upload = await uploadLinkedInVideo(authorUrn, accessToken, mediaUrl, mediaBlob);
-      if (!upload.ok) return { success: false, error: upload.error };
+      const upload = await uploadLinkedInVideo(authorUrn, accessToken, mediaUrl, options);
+      if (!upload.ok) return failed(upload);
       mediaContent = { media: { id: upload.urn, title: firstLine(content, 100) } };
     } else if (mediaUrl && mediaType !== 'video') {
-      const upload = await uploadLinkedInImage(authorUrn, accessToken, mediaUrl, mediaBlob);
+      const upload = await uploadLinkedInImage(authorUrn, accessToken, mediaUrl);
       if (upload.ok) {
         mediaContent = { media: { id: upload.urn, altText: firstLine(content, 100) } };
       }
@@ -640,7 +877,7 @@ async function publishToLinkedIn(options: PublishOptions): Promise<ProviderResul
 
     if (!response.ok) {
       const data = await response.json().catch(() => ({}));
-      return { success: false, error: data.message || `LinkedIn API error (${response.status})` };
+      return failed(fromHttp(response, data.message || `LinkedIn API error (${response.status})`));
     }
 
     const postUrn = response.headers.get('x-restli-id') || response.headers.get('x-linkedin-id') || '';
@@ -650,18 +887,23 @@ async function publishToLinkedIn(options: PublishOptions): Promise<ProviderResul
       postUrl: postUrn ? `https://www.linkedin.com/feed/update/${postUrn}/` : 'https://www.linkedin.com/feed/',
     };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
 
+interface LinkedInUploadInstruction {
+  uploadUrl: string;
+  firstByte: number;
+  lastByte: number;
+}
+
 async function uploadLinkedInVideo(
   authorUrn: string,
   accessToken: string,
   mediaUrl: string,
-  preFetched?: Blob | null
-): Promise<{ ok: true; urn: string } | { ok: false; error: string }> {
-  const blob = preFetched ?? await fetchMediaBlob(mediaUrl);
-  const fileSizeBytes = blob.size;
+  control: UploadControl
+): Promise<{ ok: true; urn: string } | ({ ok: false } & UploadFailure)> {
+  const source = await openMediaSource(mediaUrl, 'video/mp4');
 
   const headers = {
     'Authorization': `Bearer ${accessToken}`,
@@ -670,41 +912,66 @@ async function uploadLinkedInVideo(
     'LinkedIn-Version': LINKEDIN_VERSION,
   };
 
-  // 1. Initialize the upload
-  const initResponse = await fetch('https://api.linkedin.com/rest/videos?action=initializeUpload', {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      initializeUploadRequest: {
-        owner: authorUrn,
-        fileSizeBytes,
-        uploadCaptions: false,
-        uploadThumbnail: false,
-      },
-    }),
-  });
-  const initData = await initResponse.json();
-  if (!initResponse.ok || !initData.value) {
-    return { ok: false, error: initData.message || 'LinkedIn video upload initialization failed' };
+  // 1. Initialize the upload, unless an earlier run already did
+  const saved = await resumable(control, source);
+  let videoUrn: string;
+  let uploadToken: string;
+  let instructions: LinkedInUploadInstruction[];
+  let uploadedPartIds: string[];
+  let expiresAt: string | null;
+  if (saved?.remoteId) {
+    videoUrn = saved.remoteId;
+    uploadToken = saved.state?.uploadToken as string;
+    instructions = saved.state?.instructions as LinkedInUploadInstruction[];
+    uploadedPartIds = saved.state?.uploadedPartIds as string[];
+    expiresAt = saved.expiresAt ?? null;
+  } else {
+    const initResponse = await fetch('https://api.linkedin.com/rest/videos?action=initializeUpload', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        initializeUploadRequest: {
+          owner: authorUrn,
+          fileSizeBytes: source.size,
+          uploadCaptions: false,
+          uploadThumbnail: false,
+        },
+      }),
+    });
+    const initData = await initResponse.json();
+    if (!initResponse.ok || !initData.value) {
+      return { ok: false, ...fromHttp(initResponse, initData.message || 'LinkedIn video upload initialization failed') };
+    }
+    videoUrn = initData.value.video;
+    uploadToken = initData.value.uploadToken || '';
+    instructions = initData.value.uploadInstructions;
+    uploadedPartIds = [];
+    expiresAt = initData.value.uploadUrlsExpireAt ? new Date(initData.value.uploadUrlsExpireAt).toISOString() : null;
   }
 
-  const { uploadInstructions, video: videoUrn, uploadToken } = initData.value;
-
-  // 2. Upload each part and collect ETags
-  const uploadedPartIds: string[] = [];
-  for (const instruction of uploadInstructions) {
-    const chunk = blob.slice(instruction.firstByte, instruction.lastByte + 1);
+  // 2. Upload each part, read from storage as it goes, and collect ETags
+  for (let i = uploadedPartIds.length; i < instructions.length; i++) {
+    const instruction = instructions[i];
+    if (outOfTime(control)) return { ok: false, ...pausedUpload(instruction.firstByte, source.size) };
+    const chunk = await source.read(instruction.firstByte, instruction.lastByte + 1);
     const partResponse = await fetch(instruction.uploadUrl, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/octet-stream' },
       body: chunk,
     });
     if (!partResponse.ok) {
-      return { ok: false, error: `LinkedIn video part upload failed (${partResponse.status})` };
+      return { ok: false, ...fromHttp(partResponse, `LinkedIn video part upload failed (${partResponse.status})`) };
     }
     const etag = partResponse.headers.get('etag');
-    if (!etag) return { ok: false, error: 'LinkedIn video upload did not return an ETag' };
+    if (!etag) return { ok: false, ...classified('LinkedIn video upload did not return an ETag', 'platform_error') };
     uploadedPartIds.push(etag);
+    await control.uploadSession?.save({
+      totalBytes: source.size,
+      bytesSent: instruction.lastByte + 1,
+      remoteId: videoUrn,
+      state: { uploadToken, instructions, uploadedPartIds },
+      expiresAt,
+    });
   }
 
   // 3. Finalize
@@ -714,17 +981,18 @@ async function uploadLinkedInVideo(
     body: JSON.stringify({
       finalizeUploadRequest: {
         video: videoUrn,
-        uploadToken: uploadToken || '',
+        uploadToken,
         uploadedPartIds,
       },
     }),
   });
   if (!finalizeResponse.ok) {
     const data = await finalizeResponse.json().catch(() => ({}));
-    return { ok: false, error: data.message || 'LinkedIn video finalize failed' };
+    return { ok: false, ...fromHttp(finalizeResponse, data.message || 'LinkedIn video finalize failed') };
   }
 
   // 4. Wait until LinkedIn finishes processing so the post doesn't 404
+  control.onPhase?.('processing');
   const encodedUrn = encodeURIComponent(videoUrn);
   const deadline = Date.now() + 120_000;
   while (Date.now() < deadline) {
@@ -734,7 +1002,7 @@ async function uploadLinkedInVideo(
     const status = await statusResponse.json();
     if (status.status === 'AVAILABLE') return { ok: true, urn: videoUrn };
     if (status.status === 'PROCESSING_FAILED') {
-      return { ok: false, error: 'LinkedIn could not process the video' };
+      return { ok: false, ...classified('LinkedIn could not process the video', 'media_unsupported') };
     }
   }
   // Processing usually completes shortly; proceed optimistically
@@ -744,10 +1012,9 @@ async function uploadLinkedInVideo(
 async function uploadLinkedInImage(
   authorUrn: string,
   accessToken: string,
-  mediaUrl: string,
-  preFetched?: Blob | null
-): Promise<{ ok: true; urn: string } | { ok: false; error: string }> {
-  const blob = preFetched ?? await fetchMediaBlob(mediaUrl);
+  mediaUrl: string
+): Promise<{ ok: true; urn: string } | ({ ok: false } & ClassifiedError)> {
+  const blob = await fetchMediaBlob(mediaUrl);
 
   const initResponse = await fetch('https://api.linkedin.com/rest/images?action=initializeUpload', {
     method: 'POST',
@@ -761,7 +1028,7 @@ async function uploadLinkedInImage(
   });
   const initData = await initResponse.json();
   if (!initResponse.ok || !initData.value) {
-    return { ok: false, error: initData.message || 'LinkedIn image upload initialization failed' };
+    return { ok: false, ...fromHttp(initResponse, initData.message || 'LinkedIn image upload initialization failed') };
   }
 
   const uploadResponse = await fetch(initData.value.uploadUrl, {
@@ -770,7 +1037,7 @@ async function uploadLinkedInImage(
     body: blob,
   });
   if (!uploadResponse.ok) {
-    return { ok: false, error: `LinkedIn image upload failed (${uploadResponse.status})` };
+    return { ok: false, ...fromHttp(uploadResponse, `LinkedIn image upload failed (${uploadResponse.status})`) };
   }
 
   return { ok: true, urn: initData.value.image };
@@ -783,14 +1050,14 @@ async function uploadLinkedInImage(
 const X_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB per APPEND
 
 async function publishToX(options: PublishOptions): Promise<ProviderResult> {
-  const { accessToken, content, mediaUrl, mediaType, mediaBlob } = options;
+  const { accessToken, content, mediaUrl, mediaType } = options;
 
   try {
     let mediaId: string | undefined;
 
     if (mediaUrl) {
-      const upload = await uploadXMedia(accessToken, mediaUrl, mediaType, mediaBlob);
-      if (!upload.ok) return { success: false, error: upload.error };
+      const upload = await uploadXMedia(accessToken, mediaUrl, mediaType, options);
+      if (!upload.ok) return failed(upload);
       mediaId = upload.mediaId;
     }
 
@@ -807,7 +1074,7 @@ async function publishToX(options: PublishOptions): Promise<ProviderResult> {
     });
     const data = await response.json();
     if (data.errors || !response.ok) {
-      return { success: false, error: data.errors?.[0]?.message || data.detail || 'X API error' };
+      return failed(fromHttp(response, data.errors?.[0]?.message || data.detail || 'X API error'));
     }
 
     return {
@@ -816,45 +1083,63 @@ async function publishToX(options: PublishOptions): Promise<ProviderResult> {
       postUrl: `https://x.com/i/status/${data.data.id}`,
     };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
 
 async function uploadXMedia(
   accessToken: string,
   mediaUrl: string,
-  mediaType?: string,
-  preFetched?: Blob | null
-): Promise<{ ok: true; mediaId: string } | { ok: false; error: string }> {
-  const blob = preFetched ?? await fetchMediaBlob(mediaUrl);
+  mediaType: string | undefined,
+  control: UploadControl
+): Promise<{ ok: true; mediaId: string } | ({ ok: false } & UploadFailure)> {
   const isVideo = mediaType === 'video';
-  const mimeType = blob.type || (isVideo ? 'video/mp4' : 'image/jpeg');
-
-  // 1. INIT
-  const initResponse = await fetch('https://api.x.com/2/media/upload/initialize', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      media_type: mimeType,
-      total_bytes: blob.size,
-      media_category: isVideo ? 'tweet_video' : 'tweet_image',
-    }),
-  });
-  const initData = await initResponse.json();
-  const mediaId = initData.data?.id;
-  if (!initResponse.ok || !mediaId) {
-    return { ok: false, error: initData.errors?.[0]?.message || initData.detail || 'X media INIT failed. Note: media upload requires the media.write scope — reconnect your X account if you connected it before this update.' };
+  const source = await openMediaSource(mediaUrl, isVideo ? 'video/mp4' : 'image/jpeg');
+
+  // 1. INIT, unless an earlier run already did
+  const saved = await resumable(control, source);
+  let mediaId: string;
+  let segmentIndex: number;
+  let expiresAt: string | null;
+  if (saved?.remoteId) {
+    mediaId = saved.remoteId;
+    segmentIndex = (saved.state?.segmentIndex as number) ?? 0;
+    expiresAt = saved.expiresAt ?? null;
+  } else {
+    const initResponse = await fetch('https://api.x.com/2/media/upload/initialize', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        media_type: source.type,
+        total_bytes: source.size,
+        media_category: isVideo ? 'tweet_video' : 'tweet_image',
+      }),
+    });
+    const initData = await initResponse.json();
+    if (!initResponse.ok || !initData.data?.id) {
+      const reason = initData.errors?.[0]?.message || initData.detail;
+      return {
+        ok: false,
+        ...fromHttp(initResponse, reason || 'X media INIT failed'),
+        error: reason || 'X media INIT failed. Note: media upload requires the media.write scope — reconnect your X account if you connected it before this update.',
+      };
+    }
+    mediaId = initData.data.id;
+    segmentIndex = 0;
+    const ttl = initData.data.expires_after_secs;
+    expiresAt = ttl ? new Date(Date.now() + ttl * 1000).toISOString() : null;
   }
 
-  // 2. APPEND in chunks
-  let segmentIndex = 0;
-  for (let offset = 0; offset < blob.size; offset += X_CHUNK_SIZE) {
-    const chunk = blob.slice(offset, Math.min(offset + X_CHUNK_SIZE, blob.size));
+  // 2. APPEND in chunks read straight from storage
+  for (let offset = segmentIndex * X_CHUNK_SIZE; offset < source.size; offset += X_CHUNK_SIZE) {
+    if (outOfTime(control)) return { ok: false, ...pausedUpload(offset, source.size) };
+    const end = Math.min(offset + X_CHUNK_SIZE, source.size);
+    const chunk = await source.read(offset, end);
     const form = new FormData();
-    form.append('media', chunk, 'chunk');
+    form.append('media', new Blob([chunk], { type: source.type }), 'chunk');
     form.append('segment_index', segmentIndex.toString());
 
     const appendResponse = await fetch(`https://api.x.com/2/media/upload/${mediaId}/append`, {
@@ -864,9 +1149,16 @@ async function uploadXMedia(
     });
     if (!appendResponse.ok) {
       const appendData = await appendResponse.json().catch(() => ({}));
-      return { ok: false, error: appendData.errors?.[0]?.message || `X media APPEND failed (${appendResponse.status})` };
+      return { ok: false, ...fromHttp(appendResponse, appendData.errors?.[0]?.message || `X media APPEND failed (${appendResponse.status})`) };
     }
     segmentIndex++;
+    await control.uploadSession?.save({
+      totalBytes: source.size,
+      bytesSent: end,
+      remoteId: mediaId,
+      state: { segmentIndex },
+      expiresAt,
+    });
   }
 
   // 3. FINALIZE
@@ -876,15 +1168,16 @@ async function uploadXMedia(
   });
   const finalizeData = await finalizeResponse.json();
   if (!finalizeResponse.ok) {
-    return { ok: false, error: finalizeData.errors?.[0]?.message || 'X media FINALIZE failed' };
+    return { ok: false, ...fromHttp(finalizeResponse, finalizeData.errors?.[0]?.message || 'X media FINALIZE failed') };
   }
 
   // 4. Poll processing status for videos
   let processingInfo = finalizeData.data?.processing_info;
+  if (processingInfo) control.onPhase?.('processing');
   const deadline = Date.now() + 120_000;
   while (processingInfo && processingInfo.state !== 'succeeded' && Date.now() < deadline) {
     if (processingInfo.state === 'failed') {
-      return { ok: false, error: processingInfo.error?.message || 'X could not process the video' };
+      return { ok: false, ...classified(processingInfo.error?.message || 'X could not process the video', 'media_unsupported') };
     }
     await sleep((processingInfo.check_after_secs || 5) * 1000);
     const statusResponse = await fetch(
@@ -904,7 +1197,7 @@ async function uploadXMedia(
 // ---------------------------------------------------------------------------
 
 async function publishToThreads(options: PublishOptions): Promise<ProviderResult> {
-  const { accountId, accessToken, content, linkUrl, mediaUrl, mediaType } = options;
+  const { accountId, accessToken, content, linkUrl, mediaUrl, mediaType, onPhase } = options;
 
   try {
     const body: Record<string, string> = {
@@ -934,10 +1227,11 @@ async function publishToThreads(options: PublishOptions): Promise<ProviderResult
     );
     const containerData = await containerResponse.json();
     if (containerData.error) {
-      return { success: false, error: containerData.error.message };
+      return failed(fromGraph(containerData.error, containerResponse));
     }
 
     // Step 2: wait for processing (videos take a while)
+    if (mediaUrl) onPhase?.('processing');
     const deadline = Date.now() + (mediaType === 'video' ? 120_000 : 30_000);
     let status = 'IN_PROGRESS';
     while (Date.now() < deadline) {
@@ -948,12 +1242,12 @@ async function publishToThreads(options: PublishOptions): Promise<ProviderResult
       status = statusData.status || 'FINISHED';
       if (status === 'FINISHED') break;
       if (status === 'ERROR') {
-        return { success: false, error: statusData.error_message || 'Threads could not process the media' };
+        return failed(classified(statusData.error_message || 'Threads could not process the media', 'media_unsupported'));
       }
       await sleep(mediaType === 'video' ? 5000 : 2000);
     }
     if (status !== 'FINISHED') {
-      return { success: false, error: 'Threads media processing timed out' };
+      return failed(classified('Threads media processing timed out', 'platform_error'));
     }
 
     // Step 3: publish
@@ -967,7 +1261,7 @@ async function publishToThreads(options: PublishOptions): Promise<ProviderResult
     );
     const publishData = await publishResponse.json();
     if (publishData.error) {
-      return { success: false, error: publishData.error.message };
+      return failed(fromGraph(publishData.error, publishResponse));
     }
 
     // Fetch permalink
@@ -982,7 +1276,7 @@ async function publishToThreads(options: PublishOptions): Promise<ProviderResult
 
     return { success: true, postId: publishData.id, postUrl };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
 
@@ -990,19 +1284,29 @@ async function publishToThreads(options: PublishOptions): Promise<ProviderResult
 // TikTok — Content Posting API direct post with chunked FILE_UPLOAD
 // ---------------------------------------------------------------------------
 
-const TIKTOK_MIN_CHUNK = 5 * 1024 * 1024;   // 5MB
-const TIKTOK_MAX_CHUNK = 64 * 1024 * 1024;  // 64MB
+// Chunks must be 5–64MB; the last may run up to 128MB
+const TIKTOK_CHUNK = 16 * 1024 * 1024;  // 16MB
+// TikTok's upload_url is valid for an hour after init
+const TIKTOK_UPLOAD_URL_TTL_MS = 55 * 60 * 1000;
 
 async function publishToTikTok(options: PublishOptions): Promise<ProviderResult> {
-  const { accessToken, content, mediaUrl, mediaType, mediaBlob } = options;
+  const { accessToken, content, mediaUrl, mediaType, onPhase } = options;
+  const tiktok = options.tiktok ?? {};
 
   if (!mediaUrl || mediaType !== 'video') {
-    return { success: false, error: 'TikTok requires a video file' };
+    return failed(classified('TikTok requires a video file', 'content_rejected'));
+  }
+  if (!tiktok.privacyLevel) {
+    return failed(classified('Choose who can view this TikTok post before publishing', 'content_rejected'));
+  }
+  if (tiktok.brandedContent && tiktok.privacyLevel === 'SELF_ONLY') {
+    return failed(classified('TikTok branded content cannot be private', 'content_rejected'));
   }
 
   try {
-    // 1. Query creator info — required by TikTok before posting, and tells us
-    //    which privacy levels this account/app may use
+    // 1. Query creator info — required by TikTok before posting. The choices
+    //    were made against it in the composer, but the account may have
+    //    changed its settings since.
     const creatorResponse = await fetch(
       'https://open.tiktokapis.com/v2/post/publish/creator_info/query/',
       {
@@ -1015,93 +1319,120 @@ async function publishToTikTok(options: PublishOptions): Promise<ProviderResult>
     );
     const creatorData = await creatorResponse.json();
     if (creatorData.error?.code && creatorData.error.code !== 'ok') {
-      return { success: false, error: `TikTok: ${creatorData.error.message || creatorData.error.code}` };
+      return failed(fromTikTok(creatorData.error.code, `TikTok: ${creatorData.error.message || creatorData.error.code}`));
     }
 
     const creatorUsername: string | undefined = creatorData.data?.creator_username;
     const privacyOptions: string[] = creatorData.data?.privacy_level_options || [];
-    // Prefer public; unaudited API clients are only allowed SELF_ONLY (drafts
-    // visible to the creator) until the app passes TikTok's audit
-    const privacyLevel = privacyOptions.includes('PUBLIC_TO_EVERYONE')
-      ? 'PUBLIC_TO_EVERYONE'
-      : (privacyOptions[0] || 'SELF_ONLY');
+    if (!privacyOptions.includes(tiktok.privacyLevel)) {
+      return failed(classified(`TikTok no longer offers "${tiktok.privacyLevel}" for this account; choose another audience`, 'content_rejected'));
+    }
 
     const maxDuration = creatorData.data?.max_video_post_duration_sec;
     if (maxDuration && options.mediaMeta?.durationSeconds && options.mediaMeta.durationSeconds > maxDuration) {
-      return { success: false, error: `TikTok: video exceeds this account's max duration of ${maxDuration}s` };
+      return failed(classified(`TikTok: video exceeds this account's max duration of ${maxDuration}s`, 'media_unsupported'));
     }
 
-    // 2. Download the video and initialize a chunked upload.
+    // 2. Initialize a chunked upload, unless an earlier run already did.
     //    (PULL_FROM_URL would require verifying the storage domain with
     //    TikTok, so FILE_UPLOAD is used instead.)
-    const blob = mediaBlob ?? await fetchMediaBlob(mediaUrl);
-    const videoSize = blob.size;
+    const source = await openMediaSource(mediaUrl, 'video/mp4');
+    const videoSize = source.size;
+    const saved = await resumable(options, source);
 
+    let publishId: string;
+    let uploadUrl: string;
     let chunkSize: number;
     let totalChunkCount: number;
-    if (videoSize <= TIKTOK_MAX_CHUNK) {
-      chunkSize = videoSize;
-      totalChunkCount = 1;
+    let expiresAt: string | null;
+    if (saved?.remoteId && saved.uploadUrl) {
+      publishId = saved.remoteId;
+      uploadUrl = saved.uploadUrl;
+      chunkSize = saved.state?.chunkSize as number;
+      totalChunkCount = saved.state?.totalChunkCount as number;
+      expiresAt = saved.expiresAt ?? null;
     } else {
-      chunkSize = 32 * 1024 * 1024;
-      totalChunkCount = Math.floor(videoSize / chunkSize);
-    }
+      // Small files go up in one piece; the rest in fixed chunks, so only one
+      // chunk is ever held in memory
+      if (videoSize < 2 * TIKTOK_CHUNK) {
+        chunkSize = videoSize;
+        totalChunkCount = 1;
+      } else {
+        chunkSize = TIKTOK_CHUNK;
+        totalChunkCount = Math.floor(videoSize / chunkSize);
+      }
 
-    const initResponse = await fetch(
-      'https://open.tiktokapis.com/v2/post/publish/video/init/',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json; charset=UTF-8',
-        },
-        body: JSON.stringify({
-          post_info: {
-            title: content.substring(0, 2200),
-            privacy_level: privacyLevel,
-            disable_duet: creatorData.data?.duet_disabled ?? false,
-            disable_comment: creatorData.data?.comment_disabled ?? false,
-            disable_stitch: creatorData.data?.stitch_disabled ?? false,
-            is_aigc: false,
-          },
-          source_info: {
-            source: 'FILE_UPLOAD',
-            video_size: videoSize,
-            chunk_size: chunkSize,
-            total_chunk_count: totalChunkCount,
+      const initResponse = await fetch(
+        'https://open.tiktokapis.com/v2/post/publish/video/init/',
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json; charset=UTF-8',
           },
-        }),
+          body: JSON.stringify({
+            post_info: {
+              title: content.substring(0, 2200),
+              privacy_level: tiktok.privacyLevel,
+              // Interactions the creator turned off in the app stay off
+              disable_duet: (tiktok.disableDuet ?? true) || !!creatorData.data?.duet_disabled,
+              disable_comment: (tiktok.disableComment ?? true) || !!creatorData.data?.comment_disabled,
+              disable_stitch: (tiktok.disableStitch ?? true) || !!creatorData.data?.stitch_disabled,
+              brand_organic_toggle: tiktok.brandOrganic ?? false,
+              brand_content_toggle: tiktok.brandedContent ?? false,
+              is_aigc: false,
+            },
+            source_info: {
+              source: 'FILE_UPLOAD',
+              video_size: videoSize,
+              chunk_size: chunkSize,
+              total_chunk_count: totalChunkCount,
+            },
+          }),
+        }
+      );
+      const initData = await initResponse.json();
+      if (initData.error?.code && initData.error.code !== 'ok') {
+        return failed(fromTikTok(initData.error.code, `TikTok init failed: ${initData.error.message || initData.error.code}`));
       }
-    );
-    const initData = await initResponse.json();
-    if (initData.error?.code && initData.error.code !== 'ok') {
-      return { success: false, error: `TikTok init failed: ${initData.error.message || initData.error.code}` };
-    }
-    const { publish_id: publishId, upload_url: uploadUrl } = initData.data || {};
-    if (!publishId || !uploadUrl) {
-      return { success: false, error: 'TikTok did not return an upload URL' };
+      publishId = initData.data?.publish_id;
+      uploadUrl = initData.data?.upload_url;
+      if (!publishId || !uploadUrl) {
+        return failed(classified('TikTok did not return an upload URL', 'platform_error'));
+      }
+      expiresAt = new Date(Date.now() + TIKTOK_UPLOAD_URL_TTL_MS).toISOString();
     }
 
     // 3. Upload chunks. The final chunk absorbs the remainder.
-    for (let i = 0; i < totalChunkCount; i++) {
+    for (let i = Math.floor((saved?.bytesSent ?? 0) / chunkSize); i < totalChunkCount; i++) {
       const firstByte = i * chunkSize;
       const lastByte = i === totalChunkCount - 1 ? videoSize - 1 : (i + 1) * chunkSize - 1;
-      const chunk = blob.slice(firstByte, lastByte + 1);
+      if (outOfTime(options)) return failed(pausedUpload(firstByte, videoSize));
+      const chunk = await source.read(firstByte, lastByte + 1);
 
       const uploadResponse = await fetch(uploadUrl, {
         method: 'PUT',
         headers: {
           'Content-Range': `bytes ${firstByte}-${lastByte}/${videoSize}`,
-          'Content-Type': blob.type || 'video/mp4',
+          'Content-Type': source.type,
         },
         body: chunk,
       });
       if (!uploadResponse.ok && uploadResponse.status !== 201) {
-        return { success: false, error: `TikTok chunk upload failed (${uploadResponse.status})` };
+        return failed(fromHttp(uploadResponse, `TikTok chunk upload failed (${uploadResponse.status})`));
       }
+      await options.uploadSession?.save({
+        totalBytes: videoSize,
+        bytesSent: lastByte + 1,
+        uploadUrl,
+        remoteId: publishId,
+        state: { chunkSize, totalChunkCount },
+        expiresAt,
+      });
     }
 
     // 4. Poll publish status
+    onPhase?.('processing');
     const deadline = Date.now() + 120_000;
     while (Date.now() < deadline) {
       await sleep(5000);
@@ -1133,7 +1464,8 @@ async function publishToTikTok(options: PublishOptions): Promise<ProviderResult>
         };
       }
       if (status === 'FAILED') {
-        return { success: false, error: `TikTok publish failed: ${statusData.data?.fail_reason || 'unknown reason'}` };
+        const reason = statusData.data?.fail_reason || 'unknown reason';
+        return failed(fromTikTok(reason, `TikTok publish failed: ${reason}`));
       }
       // PROCESSING_UPLOAD / PROCESSING_DOWNLOAD / SEND_TO_USER_INBOX → keep waiting
       if (status === 'SEND_TO_USER_INBOX') {
@@ -1141,7 +1473,6 @@ async function publishToTikTok(options: PublishOptions): Promise<ProviderResult>
           success: true,
           postId: publishId,
           postUrl: 'https://www.tiktok.com/',
-          error: undefined,
         };
       }
     }
@@ -1153,7 +1484,7 @@ async function publishToTikTok(options: PublishOptions): Promise<ProviderResult>
       postUrl: 'https://www.tiktok.com/',
     };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
 
@@ -1162,7 +1493,7 @@ async function publishToTikTok(options: PublishOptions): Promise<ProviderResult>
 // ---------------------------------------------------------------------------
 
 async function publishToBluesky(options: PublishOptions): Promise<ProviderResult> {
-  const { accountId: did, accessToken, content, linkUrl, mediaUrl, mediaType, mediaMeta, mediaBlob } = options;
+  const { accountId: did, accessToken, content, linkUrl, mediaUrl, mediaType, mediaMeta, onPhase } = options;
 
   try {
     const record: Record<string, unknown> = {
@@ -1181,8 +1512,8 @@ async function publishToBluesky(options: PublishOptions): Promise<ProviderResult
     }
 
     if (mediaUrl && mediaType === 'video') {
-      const video = await uploadBlueskyVideo(did, accessToken, mediaUrl, mediaBlob);
-      if (!video.ok) return { success: false, error: video.error };
+      const video = await uploadBlueskyVideo(did, accessToken, mediaUrl, onPhase);
+      if (!video.ok) return failed(video);
       const embed: Record<string, unknown> = {
         $type: 'app.bsky.embed.video',
         video: video.blob,
@@ -1192,7 +1523,7 @@ async function publishToBluesky(options: PublishOptions): Promise<ProviderResult
       }
       record.embed = embed;
     } else if (mediaUrl) {
-      const blob = mediaBlob ?? await fetchMediaBlob(mediaUrl);
+      const blob = await fetchMediaBlob(mediaUrl);
       const uploadResponse = await fetch('https://bsky.social/xrpc/com.atproto.repo.uploadBlob', {
         method: 'POST',
         headers: {
@@ -1203,7 +1534,7 @@ async function publishToBluesky(options: PublishOptions): Promise<ProviderResult
       });
       const uploadData = await uploadResponse.json();
       if (!uploadResponse.ok || !uploadData.blob) {
-        return { success: false, error: uploadData.message || 'Bluesky image upload failed' };
+        return failed(fromHttp(uploadResponse, uploadData.message || 'Bluesky image upload failed'));
       }
       record.embed = {
         $type: 'app.bsky.embed.images',
@@ -1225,7 +1556,7 @@ async function publishToBluesky(options: PublishOptions): Promise<ProviderResult
     });
     const data = await response.json();
     if (data.error) {
-      return { success: false, error: data.message || data.error };
+      return failed(fromHttp(response, data.message || data.error));
     }
 
     const rkey = data.uri.split('/').pop();
@@ -1235,7 +1566,7 @@ async function publishToBluesky(options: PublishOptions): Promise<ProviderResult
       postUrl: `https://bsky.app/profile/${did}/post/${rkey}`,
     };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
 
@@ -1243,11 +1574,11 @@ async function uploadBlueskyVideo(
   did: string,
   accessToken: string,
   mediaUrl: string,
-  preFetched?: Blob | null
-): Promise<{ ok: true; blob: unknown } | { ok: false; error: string }> {
-  const blob = preFetched ?? await fetchMediaBlob(mediaUrl);
-  if (blob.size > 100 * 1024 * 1024) {
-    return { ok: false, error: 'Bluesky videos must be under 100MB' };
+  onPhase?: (phase: PublishPhase) => void
+): Promise<{ ok: true; blob: unknown } | ({ ok: false } & ClassifiedError)> {
+  const source = await openMediaSource(mediaUrl, 'video/mp4');
+  if (source.size > 100 * 1024 * 1024) {
+    return { ok: false, ...classified('Bluesky videos must be under 100MB', 'media_unsupported') };
   }
 
   // 1. Service auth token scoped to the video service
@@ -1258,10 +1589,11 @@ async function uploadBlueskyVideo(
   );
   const authData = await authResponse.json();
   if (!authResponse.ok || !authData.token) {
-    return { ok: false, error: authData.message || 'Bluesky video service auth failed' };
+    return { ok: false, ...fromHttp(authResponse, authData.message || 'Bluesky video service auth failed') };
   }
 
-  // 2. Upload to the video service
+  // 2. Upload to the video service. It takes the file in one request, so
+  //    the storage download is piped straight through.
   const name = `video-${Date.now()}.mp4`;
   const uploadResponse = await fetch(
     `https://video.bsky.app/xrpc/app.bsky.video.uploadVideo?did=${encodeURIComponent(did)}&name=${encodeURIComponent(name)}`,
@@ -1269,27 +1601,28 @@ async function uploadBlueskyVideo(
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authData.token}`,
-        'Content-Type': blob.type || 'video/mp4',
-        'Content-Length': String(blob.size),
+        'Content-Type': source.type,
+        'Content-Length': String(source.size),
       },
-      body: blob,
+      body: await source.stream(),
     }
   );
   let job = await uploadResponse.json();
   // "already_exists" is returned with the completed job for repeat uploads
   if (!uploadResponse.ok && job?.error !== 'already_exists' && !job?.jobId && !job?.jobStatus) {
-    return { ok: false, error: job.message || 'Bluesky video upload failed' };
+    return { ok: false, ...fromHttp(uploadResponse, job.message || 'Bluesky video upload failed') };
   }
   job = job.jobStatus || job;
 
   // 3. Poll processing status
+  onPhase?.('processing');
   const deadline = Date.now() + 120_000;
   while (Date.now() < deadline) {
     if (job.state === 'JOB_STATE_COMPLETED' && job.blob) {
       return { ok: true, blob: job.blob };
     }
     if (job.state === 'JOB_STATE_FAILED') {
-      return { ok: false, error: job.error || 'Bluesky video processing failed' };
+      return { ok: false, ...classified(job.error || 'Bluesky video processing failed', 'media_unsupported') };
     }
     await sleep(3000);
     const statusResponse = await fetch(
@@ -1300,92 +1633,212 @@ async function uploadBlueskyVideo(
     job = statusData.jobStatus || job;
   }
 
-  return { ok: false, error: 'Bluesky video processing timed out' };
+  return { ok: false, ...classified('Bluesky video processing timed out', 'platform_error') };
 }
 
 // ---------------------------------------------------------------------------
 // YouTube — resumable upload (Shorts are auto-detected)
 // ---------------------------------------------------------------------------
 
-async function publishToYouTube(options: PublishOptions): Promise<ProviderResult> {
-  const { accessToken, content, mediaUrl, mediaType, mediaBlob } = options;
+// Resumable-upload chunks must be a multiple of 256KB
+const YOUTUBE_CHUNK = 32 * 256 * 1024;  // 8MB
+// Upload session URIs stay valid for a week
+const YOUTUBE_SESSION_TTL_MS = 6 * 24 * 60 * 60 * 1000;
 
-  if (!mediaUrl) {
-    return { success: false, error: 'YouTube requires a video file' };
-  }
-  if (mediaType !== 'video') {
-    return { success: false, error: 'YouTube only supports video content' };
-  }
+// How many bytes YouTube holds, from a 308's "Range: bytes=0-N"
+function youtubeReceived(response: Response): number {
+  const last = Number(response.headers.get('range')?.split('-')[1]);
+  return Number.isFinite(last) ? last + 1 : 0;
+}
 
+// thumbnails.set takes the image as the request body. Returns an error
+// message, or null once it's set.
+async function setYouTubeThumbnail(accessToken: string, videoId: string, thumbnailUrl: string): Promise<string | null> {
   try {
-    const videoBlob = mediaBlob ?? await fetchMediaBlob(mediaUrl);
-    const videoSize = videoBlob.size;
-
-    const title = firstLine(content, 100);
-
-    const metadata = {
-      snippet: {
-        title,
-        description: content,
-        categoryId: '22', // People & Blogs
-      },
-      status: {
-        privacyStatus: 'public',
-        selfDeclaredMadeForKids: false,
-      },
-    };
-
-    const initResponse = await fetch(
-      'https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status',
+    const image = await fetchMediaBlob(thumbnailUrl);
+    const response = await fetch(
+      `https://www.googleapis.com/upload/youtube/v3/thumbnails/set?videoId=${encodeURIComponent(videoId)}&uploadType=media`,
       {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json; charset=UTF-8',
-          'X-Upload-Content-Length': videoSize.toString(),
-          'X-Upload-Content-Type': videoBlob.type || 'video/mp4',
+          'Content-Type': image.type || 'image/jpeg',
         },
-        body: JSON.stringify(metadata),
+        body: image,
       }
     );
-
-    if (!initResponse.ok) {
-      const errorData = await initResponse.json().catch(() => ({}));
-      return {
-        success: false,
-        error: errorData.error?.message || `Failed to initialize upload: ${initResponse.statusText}`,
-      };
-    }
-
-    const uploadUrl = initResponse.headers.get('Location');
-    if (!uploadUrl) {
-      return { success: false, error: 'Failed to get upload URL from YouTube' };
+    if (response.ok) {
+      await response.body?.cancel();
+      return null;
     }
+    const errorData = await response.json().catch(() => ({}));
+    return errorData.error?.message || response.statusText;
+  } catch (error: unknown) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
 
-    const uploadResponse = await fetch(uploadUrl, {
-      method: 'PUT',
+async function addToYouTubePlaylist(accessToken: string, videoId: string, playlistId: string): Promise<string | null> {
+  try {
+    const response = await fetch('https://www.googleapis.com/youtube/v3/playlistItems?part=snippet', {
+      method: 'POST',
       headers: {
-        'Content-Type': videoBlob.type || 'video/mp4',
-        'Content-Length': videoSize.toString(),
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
       },
-      body: videoBlob,
+      body: JSON.stringify({
+        snippet: { playlistId, resourceId: { kind: 'youtube#video', videoId } },
+      }),
     });
+    if (response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+    const errorData = await response.json().catch(() => ({}));
+    return errorData.error?.message || response.statusText;
+  } catch (error: unknown) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
 
-    if (!uploadResponse.ok) {
-      const errorData = await uploadResponse.json().catch(() => ({}));
-      return {
-        success: false,
-        error: errorData.error?.message || `Failed to upload video: ${uploadResponse.statusText}`,
+async function publishToYouTube(options: PublishOptions): Promise<ProviderResult> {
+  const { accessToken, content, title: customTitle, mediaUrl, mediaType, uploadSession } = options;
+  const youtube = options.youtube ?? {};
+
+  if (!mediaUrl) {
+    return failed(classified('YouTube requires a video file', 'content_rejected'));
+  }
+  if (mediaType !== 'video') {
+    return failed(classified('YouTube only supports video content', 'content_rejected'));
+  }
+
+  try {
+    const source = await openMediaSource(mediaUrl, 'video/mp4');
+    const videoSize = source.size;
+
+    // An earlier run's session: ask YouTube how much of the file it has.
+    // Creating a new one costs another videos.insert, so only a session
+    // YouTube has forgotten is abandoned.
+    const saved = await resumable(options, source);
+    let uploadUrl = saved?.uploadUrl ?? null;
+    let offset = 0;
+    let uploadResponse: Response | null = null;
+    if (uploadUrl) {
+      const statusResponse = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Range': `bytes */${videoSize}`, 'Content-Length': '0' },
+      });
+      if (statusResponse.status === 308) {
+        offset = youtubeReceived(statusResponse);
+      } else if (statusResponse.ok) {
+        uploadResponse = statusResponse;
+      } else if (statusResponse.status === 404 || statusResponse.status === 410) {
+        await statusResponse.body?.cancel();
+        await uploadSession?.clear();
+        uploadUrl = null;
+      } else {
+        const errorData = await statusResponse.json().catch(() => ({}));
+        return failed(fromYouTube(statusResponse, errorData, `Failed to resume upload: ${statusResponse.statusText}`));
+      }
+    }
+
+    if (!uploadUrl) {
+      const title = customTitle?.substring(0, 100) || firstLine(content, 100);
+      // A publish time that passed while the post waited to go out means
+      // it should just be public now
+      const publishAt = youtube.publishAt && new Date(youtube.publishAt) > new Date() ? youtube.publishAt : undefined;
+      const privacy = youtube.publishAt ? (publishAt ? 'private' : 'public') : youtube.privacy || 'public';
+
+      const metadata = {
+        snippet: {
+          title,
+          description: (youtube.description?.trim() || content).substring(0, 5000),
+          tags: youtube.tags?.length ? youtube.tags : undefined,
+          categoryId: youtube.categoryId || '22', // People & Blogs
+          defaultLanguage: youtube.defaultLanguage || undefined,
+        },
+        status: {
+          // A scheduled video has to be private until publishAt
+          privacyStatus: privacy,
+          publishAt,
+          selfDeclaredMadeForKids: youtube.madeForKids ?? false,
+        },
       };
+
+      const initResponse = await fetch(
+        'https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status',
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json; charset=UTF-8',
+            'X-Upload-Content-Length': videoSize.toString(),
+            'X-Upload-Content-Type': source.type,
+          },
+          body: JSON.stringify(metadata),
+        }
+      );
+
+      if (!initResponse.ok) {
+        const errorData = await initResponse.json().catch(() => ({}));
+        return failed(fromYouTube(initResponse, errorData, `Failed to initialize upload: ${initResponse.statusText}`));
+      }
+
+      uploadUrl = initResponse.headers.get('Location');
+      if (!uploadUrl) {
+        return failed(classified('Failed to get upload URL from YouTube', 'platform_error'));
+      }
+    }
+    const expiresAt = saved?.expiresAt ?? new Date(Date.now() + YOUTUBE_SESSION_TTL_MS).toISOString();
+    await uploadSession?.save({ totalBytes: videoSize, bytesSent: offset, uploadUrl, expiresAt });
+
+    // Send the file a chunk at a time; YouTube answers 308 until the last
+    while (!uploadResponse) {
+      if (outOfTime(options)) return failed(pausedUpload(offset, videoSize));
+      const end = Math.min(offset + YOUTUBE_CHUNK, videoSize);
+      const chunk = await source.read(offset, end);
+      const chunkResponse = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': source.type,
+          'Content-Length': chunk.byteLength.toString(),
+          'Content-Range': `bytes ${offset}-${end - 1}/${videoSize}`,
+        },
+        body: chunk,
+      });
+
+      if (chunkResponse.status === 308) {
+        offset = youtubeReceived(chunkResponse);
+        await uploadSession?.save({ totalBytes: videoSize, bytesSent: offset, uploadUrl, expiresAt });
+      } else if (chunkResponse.ok) {
+        uploadResponse = chunkResponse;
+      } else {
+        const errorData = await chunkResponse.json().catch(() => ({}));
+        return failed(fromYouTube(chunkResponse, errorData, `Failed to upload video: ${chunkResponse.statusText}`));
+      }
     }
 
     const uploadData = await uploadResponse.json();
+
+    // The video is up either way; a thumbnail or playlist that doesn't take
+    // shouldn't fail (and re-upload) the publish, so it comes back as a warning
+    const warnings: string[] = [];
+    if (youtube.thumbnailUrl) {
+      const thumbnailError = await setYouTubeThumbnail(accessToken, uploadData.id, youtube.thumbnailUrl);
+      if (thumbnailError) warnings.push(`Thumbnail not set: ${thumbnailError}`);
+    }
+    if (youtube.playlistId) {
+      const playlistError = await addToYouTubePlaylist(accessToken, uploadData.id, youtube.playlistId);
+      if (playlistError) warnings.push(`Not added to the playlist: ${playlistError}`);
+    }
+
     return {
       success: true,
       postId: uploadData.id,
       postUrl: `https://youtube.com/watch?v=${uploadData.id}`,
+      warning: warnings.length ? warnings.join('. ') : undefined,
     };
   } catch (error: unknown) {
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return failed(fromException(error));
   }
 }
@@ -0,0 +1,85 @@
+// Picks the processed rendition of a library asset to publish. The transcode
+// worker (supabase/workers/transcode-worker.ts) records renditions in
+// assets.validation_report; until it has run we fall back to the original.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PLATFORM_MEDIA_SPECS, RENDITION_FORMAT, Rendition } from "./media-specs.ts";
+import type { MediaFacts } from "./media-validation.ts";
+import type { MediaMeta } from "./publishers.ts";
+
+export interface PublishableAsset {
+  id: string;
+  type: 'image' | 'video';
+  transcode_status: 'pending' | 'processing' | 'ready' | 'failed';
+  processed_storage_path: string | null;
+  validation_report: { renditions?: Rendition[]; source?: { videoCodec?: string | null } } | null;
+}
+
+// Only the post's own workspace's assets; an asset id from anywhere else
+// reads as missing
+export async function loadPublishableAsset(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  assetId: string
+): Promise<PublishableAsset | null> {
+  const { data } = await supabase
+    .from('assets')
+    .select('id, type, transcode_status, processed_storage_path, validation_report')
+    .eq('id', assetId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+  return data;
+}
+
+// Full-length rendition, or the longest trimmed cut that fits the platform's
+// duration limit.
+export function pickRendition(asset: PublishableAsset, platform: string): Rendition | null {
+  if (asset.type !== 'video' || asset.transcode_status !== 'ready' || !asset.processed_storage_path) {
+    return null;
+  }
+  const renditions = asset.validation_report?.renditions || [];
+  const full = renditions.find((r) => r.maxDurationSec === null);
+  if (!full) return null;
+
+  const limit = PLATFORM_MEDIA_SPECS[platform]?.maxDurationSec;
+  if (!limit || full.durationSeconds <= limit) return full;
+
+  const trimmed = renditions
+    .filter((r) => r.maxDurationSec !== null && r.maxDurationSec <= limit)
+    .sort((a, b) => b.maxDurationSec! - a.maxDurationSec!)[0];
+  return trimmed || full;
+}
+
+export function renditionMeta(rendition: Rendition): MediaMeta {
+  return {
+    width: rendition.width,
+    height: rendition.height,
+    durationSeconds: rendition.durationSeconds,
+  };
+}
+
+// What the platform will actually receive, for validateMediaForPlatform()
+export function publishedMediaFacts(
+  mediaType: 'image' | 'video' | undefined,
+  mediaMeta: MediaMeta | undefined,
+  asset: PublishableAsset | null,
+  rendition: Rendition | null
+): MediaFacts | null {
+  if (rendition) {
+    return {
+      type: 'video',
+      width: rendition.width,
+      height: rendition.height,
+      durationSeconds: rendition.durationSeconds,
+      sizeBytes: rendition.sizeBytes,
+      mimeType: `video/${RENDITION_FORMAT.container}`,
+      videoCodec: RENDITION_FORMAT.videoCodec,
+    };
+  }
+  if (!mediaType) return null;
+  return {
+    type: mediaType,
+    ...mediaMeta,
+    videoCodec: asset?.validation_report?.source?.videoCodec ?? undefined,
+  };
+}
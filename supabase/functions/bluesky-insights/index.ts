@@ -0,0 +1,111 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { validateAccountAccess } from "../_shared/account-access.ts";
+
+// Profile and post counts are public, so read them from the AppView
+// without touching the account's session
+const APPVIEW = 'https://public.api.bsky.app/xrpc';
+
+interface FeedItem {
+  post: {
+    uri: string;
+    author?: { handle?: string };
+    record?: { text?: string; createdAt?: string };
+    likeCount?: number;
+    repostCount?: number;
+    replyCount?: number;
+    quoteCount?: number;
+  };
+  reason?: unknown;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { accountId } = await req.json();
+    if (!accountId) {
+      return new Response(JSON.stringify({ error: 'Missing accountId' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only members of the account's workspace may read its analytics
+    const access = await validateAccountAccess(supabase, req.headers.get('Authorization'), accountId);
+    if (!access.authorized) {
+      return new Response(JSON.stringify({ error: access.error }), {
+        status: access.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: account } = await supabase
+      .from('social_accounts')
+      .select('platform_user_id, handle')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    const actor = account?.platform_user_id || account?.handle;
+    if (!actor) {
+      return new Response(JSON.stringify({ error: 'Account not found or not connected' }), {
+        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const profileResponse = await fetch(`${APPVIEW}/app.bsky.actor.getProfile?actor=${encodeURIComponent(actor)}`);
+    const profile = await profileResponse.json();
+    if (!profileResponse.ok) {
+      console.error('Bluesky API error:', profile);
+      return new Response(JSON.stringify({ error: profile.message || 'Failed to fetch profile' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const feedResponse = await fetch(
+      `${APPVIEW}/app.bsky.feed.getAuthorFeed?actor=${encodeURIComponent(actor)}&filter=posts_no_replies&limit=20`
+    );
+    const feed = await feedResponse.json();
+
+    // Reposts of other people's posts show up in the author feed; skip them
+    const recentPosts = ((feed.feed || []) as FeedItem[])
+      .filter((item) => !item.reason)
+      .slice(0, 10)
+      .map(({ post }) => ({
+        id: post.uri,
+        text: post.record?.text || '',
+        createdAt: post.record?.createdAt || null,
+        url: `https://bsky.app/profile/${post.author?.handle || actor}/post/${post.uri.split('/').pop()}`,
+        likes: post.likeCount || 0,
+        reposts: post.repostCount || 0,
+        replies: post.replyCount || 0,
+        quotes: post.quoteCount || 0,
+      }));
+
+    return new Response(JSON.stringify({
+      profile: {
+        did: profile.did,
+        handle: profile.handle,
+        displayName: profile.displayName,
+        avatarUrl: profile.avatar,
+      },
+      metrics: {
+        followers: profile.followersCount || 0,
+        following: profile.followsCount || 0,
+        posts: profile.postsCount || 0,
+      },
+      recentPosts,
+      fetchedAt: new Date().toISOString(),
+    }), {
+      status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: unknown) {
+    console.error('Bluesky insights error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,168 @@
+// Analytics collector. Calls each account's *-insights function and stores
+// the result in account_metric_snapshots / post_metric_snapshots (one row per
+// day; re-collecting overwrites today's row).
+//
+// Two callers:
+//   - pg_cron every six hours with the scheduler token (see the analytics
+//     snapshots migration): every connected account in every workspace
+//   - the Analytics page ("Refresh") with the user's JWT and either
+//     { workspaceId } or { accountId }: membership is checked first
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { validateAccountAccess, validateWorkspaceAccess } from "../_shared/account-access.ts";
+import { INSIGHTS_PLATFORMS, normalizeInsights } from "../_shared/analytics.ts";
+
+// Accounts collected in parallel; each one is a handful of platform calls
+const CONCURRENCY = 4;
+
+interface CollectResult {
+  accountId: string;
+  platform: string;
+  ok: boolean;
+  error?: string;
+  posts?: number;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    const auth = req.headers.get('Authorization') || '';
+    const body = await req.json().catch(() => ({}));
+    const { workspaceId, accountId } = body as { workspaceId?: string; accountId?: string };
+
+    const { data: cfg } = await supabase
+      .from('app_config')
+      .select('value')
+      .eq('key', 'scheduler_token')
+      .maybeSingle();
+    const schedulerToken = cfg?.value || '';
+    const isScheduler = auth === `Bearer ${serviceKey}` || (!!schedulerToken && auth === `Bearer ${schedulerToken}`);
+
+    let query = supabase
+      .from('social_accounts')
+      .select('id, workspace_id, platform')
+      .eq('status', 'connected')
+      .in('platform', INSIGHTS_PLATFORMS);
+
+    if (accountId) {
+      if (!isScheduler) {
+        const access = await validateAccountAccess(supabase, auth, accountId);
+        if (!access.authorized) return json({ error: access.error }, access.status);
+      }
+      query = query.eq('id', accountId);
+    } else if (workspaceId) {
+      if (!isScheduler) {
+        const access = await validateWorkspaceAccess(supabase, auth, workspaceId);
+        if (!access.authorized) return json({ error: access.error }, access.status);
+      }
+      query = query.eq('workspace_id', workspaceId);
+    } else if (!isScheduler) {
+      return json({ error: 'Missing workspaceId or accountId' }, 400);
+    }
+
+    const { data: accounts, error } = await query;
+    if (error) throw error;
+
+    const results: CollectResult[] = [];
+    const queue = [...(accounts || [])];
+    await Promise.all(Array.from({ length: CONCURRENCY }, async () => {
+      for (let account = queue.shift(); account; account = queue.shift()) {
+        results.push(await collectAccount(supabase, supabaseUrl, serviceKey, account));
+      }
+    }));
+
+    return json({
+      collected: results.filter((r) => r.ok).length,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+    });
+  } catch (error: unknown) {
+    console.error('collect-analytics error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
+
+async function collectAccount(
+  supabase: ReturnType<typeof createClient>,
+  supabaseUrl: string,
+  serviceKey: string,
+  account: { id: string; workspace_id: string; platform: string }
+): Promise<CollectResult> {
+  const base = { accountId: account.id, platform: account.platform };
+  try {
+    const res = await fetch(`${supabaseUrl}/functions/v1/${account.platform}-insights`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${serviceKey}`,
+        'apikey': serviceKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ accountId: account.id }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || data.error) {
+      return { ...base, ok: false, error: data.error || `insights returned ${res.status}` };
+    }
+
+    const { account: metrics, posts } = normalizeInsights(account.platform, data);
+    const snapshotDate = new Date().toISOString().slice(0, 10);
+    const capturedAt = new Date().toISOString();
+
+    const { error: accountErr } = await supabase.from('account_metric_snapshots').upsert({
+      workspace_id: account.workspace_id,
+      social_account_id: account.id,
+      platform: account.platform,
+      snapshot_date: snapshotDate,
+      captured_at: capturedAt,
+      ...metrics,
+      raw: data,
+    }, { onConflict: 'social_account_id,snapshot_date' });
+    if (accountErr) throw accountErr;
+
+    if (posts.length) {
+      // Link platform posts back to the post_targets we published
+      const { data: targets } = await supabase
+        .from('post_targets')
+        .select('id, remote_post_id')
+        .eq('social_account_id', account.id)
+        .in('remote_post_id', posts.map((p) => p.remotePostId));
+      const targetIds = new Map<string, string>(
+        (targets || []).map((t: { id: string; remote_post_id: string }) => [t.remote_post_id, t.id])
+      );
+
+      const { error: postsErr } = await supabase.from('post_metric_snapshots').upsert(posts.map((p) => ({
+        workspace_id: account.workspace_id,
+        social_account_id: account.id,
+        platform: account.platform,
+        remote_post_id: p.remotePostId,
+        post_target_id: targetIds.get(p.remotePostId) ?? null,
+        snapshot_date: snapshotDate,
+        captured_at: capturedAt,
+        published_at: p.publishedAt,
+        views: p.views,
+        likes: p.likes,
+        comments: p.comments,
+        shares: p.shares,
+      })), { onConflict: 'social_account_id,remote_post_id,snapshot_date' });
+      if (postsErr) throw postsErr;
+    }
+
+    return { ...base, ok: true, posts: posts.length };
+  } catch (error: unknown) {
+    console.error(`Collect failed for ${account.platform} ${account.id}:`, error);
+    return { ...base, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,117 @@
+// Per-post performance. Takes one posts row and fetches the metrics of each
+// published post_target by its remote_post_id, so the same short can be
+// compared across networks. Each lookup is also stored as today's
+// post_metric_snapshots row for that target.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { validatePostAccess } from "../_shared/account-access.ts";
+import { ensureFreshToken } from "../_shared/publishers.ts";
+import { decryptToken } from "../_shared/token-crypto.ts";
+import { fetchPostMetrics, RemotePostMetrics } from "../_shared/post-metrics.ts";
+
+interface TargetMetrics {
+  targetId: string;
+  platform: string;
+  metrics?: RemotePostMetrics;
+  error?: string;
+}
+
+interface TargetRow {
+  id: string;
+  platform: string;
+  remote_post_id: string;
+  published_at: string | null;
+  social_account_id: string;
+  social_accounts: {
+    oauth_tokens: { access_token: string; refresh_token: string | null; expires_at: string | null }[];
+  } | null;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { postId } = await req.json();
+    if (!postId) return json({ error: 'Missing postId' }, 400);
+
+    const access = await validatePostAccess(supabase, req.headers.get('Authorization'), postId);
+    if (!access.authorized) return json({ error: access.error }, access.status);
+    const workspaceId = access.workspaceId!;
+
+    const { data: targets, error } = await supabase
+      .from('post_targets')
+      .select(`
+        id, platform, remote_post_id, published_at, social_account_id,
+        social_accounts ( id, oauth_tokens ( access_token, refresh_token, expires_at ) )
+      `)
+      .eq('post_id', postId)
+      .eq('status', 'published')
+      .not('remote_post_id', 'is', null);
+    if (error) throw error;
+
+    const results: TargetMetrics[] = await Promise.all(
+      ((targets || []) as TargetRow[]).map((target) => collectTarget(supabase, workspaceId, target))
+    );
+
+    return json({ postId, fetchedAt: new Date().toISOString(), targets: results });
+  } catch (error: unknown) {
+    console.error('post-metrics error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
+
+async function collectTarget(supabase: ReturnType<typeof createClient>, workspaceId: string, target: TargetRow): Promise<TargetMetrics> {
+  const base = { targetId: target.id, platform: target.platform };
+  try {
+    const token = target.social_accounts?.oauth_tokens?.[0];
+    let accessToken = '';
+    // Bluesky counts are public; every other platform needs the account's token
+    if (target.platform !== 'bluesky') {
+      if (!token?.access_token) return { ...base, error: 'No access token; reconnect the channel.' };
+      const fresh = await ensureFreshToken(target.platform, {
+        accountId: '', socialAccountId: target.social_account_id, content: '',
+        accessToken: await decryptToken(token.access_token),
+        refreshToken: token.refresh_token ? await decryptToken(token.refresh_token) : undefined,
+        tokenExpiresAt: token.expires_at,
+      }, supabase);
+      if (fresh.needsReconnect) return { ...base, error: fresh.error };
+      accessToken = fresh.accessToken;
+    }
+
+    const metrics = await fetchPostMetrics(target.platform, target.remote_post_id, accessToken);
+    const remotePostId = metrics.resolvedPostId || target.remote_post_id;
+    if (metrics.resolvedPostId) {
+      await supabase.from('post_targets').update({ remote_post_id: remotePostId }).eq('id', target.id);
+    }
+
+    const { error } = await supabase.from('post_metric_snapshots').upsert({
+      workspace_id: workspaceId,
+      social_account_id: target.social_account_id,
+      platform: target.platform,
+      remote_post_id: remotePostId,
+      post_target_id: target.id,
+      snapshot_date: new Date().toISOString().slice(0, 10),
+      captured_at: new Date().toISOString(),
+      published_at: target.published_at,
+      views: metrics.views,
+      likes: metrics.likes,
+      comments: metrics.comments,
+      shares: metrics.shares,
+    }, { onConflict: 'social_account_id,remote_post_id,snapshot_date' });
+    if (error) console.error('post_metric_snapshots upsert failed:', error);
+
+    return { ...base, metrics };
+  } catch (error: unknown) {
+    console.error(`Post metrics failed for ${target.platform} ${target.remote_post_id}:`, error);
+    return { ...base, error: error instanceof Error ? error.message : String(error) };
+  }
+}
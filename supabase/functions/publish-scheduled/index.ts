@@ -7,14 +7,34 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
 import {
   publishToProvider,
-  fetchMediaBlob,
   PublishOptions,
+  PublishPhase,
+  ProviderResult,
   MediaMeta,
+  UploadSessionStore,
   decryptToken,
+  youtubeExtraUnits,
 } from "../_shared/publishers.ts";
+import { getChannelOverride, resolveChannelVersion } from "../_shared/overrides.ts";
+import { loadPublishableAsset, pickRendition, publishedMediaFacts, renditionMeta } from "../_shared/renditions.ts";
+import { summarizeMediaIssues, validateMediaForPlatform } from "../_shared/media-validation.ts";
+import { decideRetry } from "../_shared/publish-errors.ts";
 
 const BATCH_SIZE = 25;
-const NEEDS_MEDIA_BYTES = new Set(['youtube', 'tiktok', 'x', 'linkedin', 'bluesky']);
+// Claimed jobs are leased; the heartbeat keeps extending the lease while this
+// run is alive, so only a dead or timed-out run lets it lapse.
+const LEASE_SECONDS = 300;
+const HEARTBEAT_MS = 60_000;
+// Edge functions are stopped after 150s. Chunked uploads pause ahead of
+// that with their session saved (see upload_sessions), and jobs this run
+// doesn't reach are handed back for the next one.
+const RUN_BUDGET_MS = 120_000;
+// Posts still in 'draft' or 'pending_approval' keep their jobs parked until an
+// approver signs off (see review_post()). claim_publish_jobs() filters on the
+// same list.
+const CLAIMABLE_POST_STATUSES = ['approved', 'scheduled', 'publishing'];
+// How long to wait for the transcode worker before re-checking media
+const TRANSCODE_WAIT_MIN = 5;
 
 // If mediaUrl points at our private "social-media" bucket, produce a signed URL.
 async function signInternalMediaUrl(supabase: any, mediaUrl: string): Promise<string | null> {
@@ -55,18 +75,23 @@ Deno.serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-  const now = new Date().toISOString();
+  const workerId = `publish-scheduled:${crypto.randomUUID()}`;
+  const deadline = Date.now() + RUN_BUDGET_MS;
   const processed: any[] = [];
 
   try {
-    // Claim due jobs (queued or retry_scheduled with run_at/next_retry_at <= now).
-    // Mark as 'processing' first with an updated_at bump so parallel runs skip them.
-    const { data: dueJobs } = await supabase
-      .from('publish_jobs')
-      .select('id, post_target_id, attempts, max_attempts, status, run_at, next_retry_at')
-      .in('status', ['queued', 'retry_scheduled'])
-      .or(`and(status.eq.queued,run_at.lte.${now}),and(status.eq.retry_scheduled,next_retry_at.lte.${now})`)
-      .limit(BATCH_SIZE);
+    // Turn upcoming recurrence and evergreen occurrences into ordinary jobs
+    const { error: materializeErr } = await supabase.rpc('materialize_occurrences');
+    if (materializeErr) console.error('materialize_occurrences failed:', materializeErr);
+
+    // Claims due jobs with FOR UPDATE SKIP LOCKED, after handing back any
+    // whose lease ran out (see claim_publish_jobs()).
+    const { data: dueJobs, error: claimErr } = await supabase.rpc('claim_publish_jobs', {
+      p_worker: workerId,
+      p_limit: BATCH_SIZE,
+      p_lease_seconds: LEASE_SECONDS,
+    });
+    if (claimErr) throw claimErr;
 
     if (!dueJobs?.length) {
       return new Response(JSON.stringify({ processed: 0 }), {
@@ -74,19 +99,37 @@ Deno.serve(async (req) => {
       });
     }
 
-    for (const job of dueJobs) {
-      // Best-effort claim: only proceed if we successfully flip to 'processing'
-      const { data: claimed } = await supabase
-        .from('publish_jobs')
-        .update({ status: 'processing', attempts: job.attempts + 1, updated_at: new Date().toISOString() })
-        .eq('id', job.id)
-        .in('status', ['queued', 'retry_scheduled'])
-        .select('id')
-        .maybeSingle();
-      if (!claimed) continue;
+    // Jobs waiting their turn in this run need their leases extended too
+    const pending = new Set<string>(dueJobs.map((j: { id: string }) => j.id));
+    const heartbeat = setInterval(async () => {
+      const { data: held, error } = await supabase.rpc('heartbeat_publish_jobs', {
+        p_job_ids: [...pending],
+        p_worker: workerId,
+        p_lease_seconds: LEASE_SECONDS,
+      });
+      if (error) { console.error('heartbeat failed:', error); return; }
+      for (const id of pending) {
+        if (!held?.includes(id)) { console.warn(`lease lost for job ${id}`); pending.delete(id); }
+      }
+    }, HEARTBEAT_MS);
 
-      const result = await runJob(supabase, job);
-      processed.push({ jobId: job.id, ...result });
+    try {
+      for (const job of dueJobs) {
+        if (!pending.has(job.id)) continue;
+        if (Date.now() >= deadline) {
+          await settleJob(supabase, job, {
+            status: job.next_retry_at ? 'retry_scheduled' : 'queued',
+            attempts: job.attempts - 1,
+          });
+          pending.delete(job.id);
+          continue;
+        }
+        const result = await runJob(supabase, job, deadline);
+        pending.delete(job.id);
+        processed.push({ jobId: job.id, ...result });
+      }
+    } finally {
+      clearInterval(heartbeat);
     }
 
     return new Response(JSON.stringify({ processed: processed.length, results: processed }), {
@@ -101,14 +144,14 @@ Deno.serve(async (req) => {
   }
 });
 
-async function runJob(supabase: any, job: any) {
+async function runJob(supabase: any, job: any, deadline: number) {
   // Load the post_target with its post and account+token
   const { data: target, error: targetErr } = await supabase
     .from('post_targets')
     .select(`
       id, post_id, social_account_id, platform,
       posts!inner (
-        id, workspace_id, body_text, link_url, per_channel_overrides, status
+        id, workspace_id, body_text, link_url, asset_id, per_channel_overrides, status
       ),
       social_accounts!inner (
         id, platform_user_id, status,
@@ -123,12 +166,23 @@ async function runJob(supabase: any, job: any) {
     return { ok: false, error: 'target not found' };
   }
 
+  // The post may have been sent back for review since the claim; hand the
+  // job back untouched so it runs once approved.
+  if (!CLAIMABLE_POST_STATUSES.includes(target.posts.status)) {
+    await settleJob(supabase, job, {
+      status: job.next_retry_at ? 'retry_scheduled' : 'queued',
+      attempts: job.attempts - 1,
+    });
+    return { ok: false, error: `post is ${target.posts.status}` };
+  }
+
   const token = target.social_accounts?.oauth_tokens?.[0];
   if (!token?.access_token) {
     await failJob(supabase, job, 'No access token', true);
     await supabase.from('post_targets').update({
       status: 'needs_user_action',
       last_error_message: 'No access token; reconnect the channel.',
+      last_error_code: 'auth_expired',
       last_attempt_at: new Date().toISOString(),
     }).eq('id', target.id);
     await rollupPostStatus(supabase, target.post_id);
@@ -136,86 +190,215 @@ async function runJob(supabase: any, job: any) {
   }
 
   const overrides = (target.posts.per_channel_overrides || {}) as any;
-  let mediaUrl: string | undefined = overrides.media_url;
-  const mediaType: 'image' | 'video' | undefined = overrides.media_type;
-  const mediaMeta: MediaMeta | undefined = overrides.media_meta;
+  const version = resolveChannelVersion(
+    {
+      content: target.posts.body_text || '',
+      linkUrl: target.posts.link_url || undefined,
+      mediaUrl: overrides.media_url,
+      mediaType: overrides.media_type,
+      mediaMeta: overrides.media_meta as MediaMeta | undefined,
+      assetId: target.posts.asset_id || undefined,
+    },
+    getChannelOverride(overrides, target.social_account_id)
+  );
+  let mediaUrl = version.mediaUrl;
+  let mediaMeta = version.mediaMeta;
+  let youtube = version.youtube;
+  if (youtube?.thumbnailUrl) {
+    const signed = await signInternalMediaUrl(supabase, youtube.thumbnailUrl);
+    if (signed) youtube = { ...youtube, thumbnailUrl: signed };
+  }
+  let instagram = version.instagram;
+  if (instagram?.coverUrl) {
+    const signed = await signInternalMediaUrl(supabase, instagram.coverUrl);
+    if (signed) instagram = { ...instagram, coverUrl: signed };
+  }
 
-  // Re-sign internal storage URLs (the social-media bucket is private).
-  if (mediaUrl) {
+  // Prefer the transcoded rendition of library videos; fall back to the
+  // original upload if the worker hasn't processed it yet.
+  const asset = version.assetId ? await loadPublishableAsset(supabase, target.posts.workspace_id, version.assetId) : null;
+  let rendition = asset ? pickRendition(asset, target.platform) : null;
+  if (rendition) {
+    const { data: signed } = await supabase.storage.from('social-media').createSignedUrl(rendition.path, 60 * 60);
+    if (signed?.signedUrl) {
+      mediaUrl = signed.signedUrl;
+      mediaMeta = renditionMeta(rendition);
+    } else {
+      rendition = null;
+    }
+  } else if (mediaUrl) {
+    // Re-sign internal storage URLs (the social-media bucket is private).
     const signed = await signInternalMediaUrl(supabase, mediaUrl);
     if (signed) mediaUrl = signed;
   }
 
-  let mediaBlob: Blob | null = null;
-  if (mediaUrl && NEEDS_MEDIA_BYTES.has(target.platform)) {
-    try { mediaBlob = await fetchMediaBlob(mediaUrl); } catch (e) { console.error('media prefetch', e); }
+  // Media the platform would reject fails fast instead of burning retries.
+  // If the worker hasn't finished yet it may still fix the problem, so wait.
+  const facts = publishedMediaFacts(version.mediaType, version.mediaMeta, asset, rendition);
+  const mediaReport = facts ? validateMediaForPlatform(target.platform, facts) : null;
+  if (mediaReport?.errors.length) {
+    const message = summarizeMediaIssues(mediaReport.errors);
+    if (asset && (asset.transcode_status === 'pending' || asset.transcode_status === 'processing')) {
+      await settleJob(supabase, job, {
+        status: 'retry_scheduled',
+        attempts: job.attempts - 1,
+        next_retry_at: new Date(Date.now() + TRANSCODE_WAIT_MIN * 60 * 1000).toISOString(),
+        last_error: { message: `Waiting for video processing: ${message}` },
+      });
+      return { ok: false, error: 'media still processing' };
+    }
+    await supabase.from('post_targets').update({
+      status: 'failed',
+      last_error_message: message.slice(0, 500),
+      last_error_code: 'media_unsupported',
+      last_attempt_at: new Date().toISOString(),
+    }).eq('id', target.id);
+    await settleJob(supabase, job, {
+      status: 'failed',
+      last_error: { message, code: 'media_unsupported', media: mediaReport.errors },
+    });
+    await rollupPostStatus(supabase, target.post_id);
+    return { ok: false, error: message };
   }
 
+  // Charge the platform's budgets (see quota_budgets) before calling out. A
+  // budget that ran out since the claim parks the job until it resets. An
+  // upload an earlier run started was charged then.
+  const { data: openUpload } = await supabase
+    .from('upload_sessions')
+    .select('id')
+    .eq('post_target_id', target.id)
+    .maybeSingle();
+  if (!openUpload) {
+    const { data: blockedUntil, error: quotaErr } = await supabase.rpc('reserve_quota', {
+      p_platform: target.platform,
+      p_social_account_id: target.social_account_id,
+      p_extra_units: target.platform === 'youtube' ? youtubeExtraUnits(youtube) : 0,
+    });
+    if (quotaErr) {
+      // The ledger is a guard, not a gate: publish anyway rather than stall
+      console.error('reserve_quota failed:', quotaErr);
+    } else if (blockedUntil) {
+      await settleJob(supabase, job, {
+        status: 'retry_scheduled',
+        attempts: job.attempts - 1,
+        next_retry_at: blockedUntil,
+        last_error: { message: `Waiting for the ${target.platform} quota to reset`, code: 'rate_limited', retryAt: blockedUntil },
+      });
+      return { ok: false, error: 'over quota' };
+    }
+  }
+
+  // Phase writes are chained so a late one can't land after the outcome
+  let phaseWrite: Promise<unknown> = Promise.resolve();
+  const setPhase = (phase: PublishPhase) => {
+    phaseWrite = phaseWrite.then(() =>
+      supabase.from('post_targets').update({ publish_phase: phase }).eq('id', target.id).eq('status', 'publishing')
+    );
+  };
+
+  await supabase.from('post_targets').update({
+    status: 'publishing',
+    publish_phase: 'uploading',
+    last_attempt_at: new Date().toISOString(),
+    publish_attempts: (target.publish_attempts || 0) + 1,
+  }).eq('id', target.id);
+  const uploadSession = uploadSessionStore(supabase, target);
+
   const opts: PublishOptions = {
     accountId: target.social_accounts.platform_user_id,
     socialAccountId: target.social_accounts.id,
     accessToken: await decryptToken(token.access_token),
     refreshToken: token.refresh_token ? await decryptToken(token.refresh_token) : undefined,
     tokenExpiresAt: token.expires_at,
-    content: target.posts.body_text || '',
-    linkUrl: target.posts.link_url || undefined,
+    content: version.content,
+    title: version.title,
+    linkUrl: version.linkUrl || undefined,
     mediaUrl,
-    mediaType,
+    mediaType: version.mediaType,
     mediaMeta,
-    mediaBlob,
+    youtube,
+    tiktok: version.tiktok,
+    instagram,
+    onPhase: setPhase,
+    uploadSession,
+    uploadDeadline: deadline,
   };
 
-  await supabase.from('post_targets').update({
-    status: 'publishing',
-    last_attempt_at: new Date().toISOString(),
-    publish_attempts: (target.publish_attempts || 0) + 1,
-  }).eq('id', target.id);
-
-  let result;
+  let result: ProviderResult;
   try {
     result = await publishToProvider(target.platform, opts, supabase);
   } catch (err) {
     result = { success: false, error: err instanceof Error ? err.message : String(err) };
   }
+  await phaseWrite;
+
+  // Paused at the run's time limit: the target stays publishing and the job
+  // goes straight back in the queue, without spending an attempt
+  if (result.uploadPending) {
+    await settleJob(supabase, job, {
+      status: 'retry_scheduled',
+      attempts: job.attempts - 1,
+      next_retry_at: new Date().toISOString(),
+      last_error: { message: result.error },
+    });
+    return { ok: false, platform: target.platform, error: result.error };
+  }
 
   if (result.success) {
+    await uploadSession.clear();
     await supabase.from('post_targets').update({
       status: 'published',
+      publish_phase: null,
       remote_post_id: result.postId,
       published_at: new Date().toISOString(),
-      last_error_message: null,
+      last_error_message: result.warning?.slice(0, 500) ?? null,
+      last_error_code: result.warning ? 'partial' : null,
     }).eq('id', target.id);
-    await supabase.from('publish_jobs').update({
+    await settleJob(supabase, job, {
       status: 'done',
       last_error: null,
-      updated_at: new Date().toISOString(),
-    }).eq('id', job.id);
+    });
   } else {
-    const attempts = job.attempts + 1;
-    const terminal = attempts >= job.max_attempts || result.needsReconnect;
-    if (terminal) {
+    // Permanent errors fail now, rate limits wait for the platform's reset,
+    // everything else backs off. attempts already counts this one (see
+    // claim_publish_jobs()).
+    const decision = decideRetry(result, job.attempts, job.max_attempts);
+    const errorCode = result.errorCode ?? 'unknown';
+    if (errorCode === 'rate_limited' && result.retryAt) {
+      // Out until the platform's reset: stop other jobs spending calls on it
+      const { error: exhaustErr } = await supabase.rpc('exhaust_quota', {
+        p_platform: target.platform,
+        p_social_account_id: target.social_account_id,
+        p_until: result.retryAt,
+      });
+      if (exhaustErr) console.error('exhaust_quota failed:', exhaustErr);
+    }
+    if (decision.action !== 'retry') {
+      await uploadSession.clear();
       await supabase.from('post_targets').update({
-        status: result.needsReconnect ? 'needs_user_action' : 'failed',
+        status: decision.action === 'reconnect' ? 'needs_user_action' : 'failed',
+        publish_phase: null,
         last_error_message: result.error?.slice(0, 500),
+        last_error_code: errorCode,
       }).eq('id', target.id);
-      await supabase.from('publish_jobs').update({
+      await settleJob(supabase, job, {
         status: 'failed',
-        last_error: { message: result.error, needsReconnect: !!result.needsReconnect },
-        updated_at: new Date().toISOString(),
-      }).eq('id', job.id);
+        last_error: { message: result.error, code: errorCode, needsReconnect: decision.action === 'reconnect' },
+      });
     } else {
-      const backoffMin = Math.pow(2, attempts);
-      const nextRetry = new Date(Date.now() + backoffMin * 60 * 1000).toISOString();
       await supabase.from('post_targets').update({
         status: 'queued',
+        publish_phase: null,
         last_error_message: result.error?.slice(0, 500),
+        last_error_code: errorCode,
       }).eq('id', target.id);
-      await supabase.from('publish_jobs').update({
+      await settleJob(supabase, job, {
         status: 'retry_scheduled',
-        next_retry_at: nextRetry,
-        last_error: { message: result.error },
-        updated_at: new Date().toISOString(),
-      }).eq('id', job.id);
+        next_retry_at: decision.at.toISOString(),
+        ...(decision.consumesAttempt ? {} : { attempts: job.attempts - 1 }),
+        last_error: { message: result.error, code: errorCode, retryAt: result.retryAt },
+      });
     }
   }
 
@@ -224,11 +407,76 @@ async function runJob(supabase: any, job: any) {
 }
 
 async function failJob(supabase: any, job: any, message: string, terminal: boolean) {
-  await supabase.from('publish_jobs').update({
+  await settleJob(supabase, job, {
     status: terminal ? 'failed' : 'retry_scheduled',
     last_error: { message },
+  });
+}
+
+// upload_sessions rows for one target; see UploadSessionStore
+function uploadSessionStore(
+  supabase: ReturnType<typeof createClient>,
+  target: { id: string; platform: string }
+): UploadSessionStore {
+  return {
+    load: async (totalBytes) => {
+      const { data } = await supabase
+        .from('upload_sessions')
+        .select('total_bytes, bytes_sent, upload_url, remote_id, state, expires_at')
+        .eq('post_target_id', target.id)
+        .maybeSingle();
+      if (!data || data.total_bytes !== totalBytes) return null;
+      if (data.expires_at && new Date(data.expires_at) <= new Date()) return null;
+      return {
+        totalBytes: data.total_bytes,
+        bytesSent: data.bytes_sent,
+        uploadUrl: data.upload_url,
+        remoteId: data.remote_id,
+        state: data.state,
+        expiresAt: data.expires_at,
+      };
+    },
+    save: async (session) => {
+      const { error } = await supabase.from('upload_sessions').upsert({
+        post_target_id: target.id,
+        platform: target.platform,
+        total_bytes: session.totalBytes,
+        bytes_sent: session.bytesSent,
+        upload_url: session.uploadUrl ?? null,
+        remote_id: session.remoteId ?? null,
+        state: session.state ?? {},
+        expires_at: session.expiresAt ?? null,
+      }, { onConflict: 'post_target_id' });
+      if (error) console.error('saving upload session failed:', error);
+    },
+    clear: async () => {
+      await supabase.from('upload_sessions').delete().eq('post_target_id', target.id);
+    },
+  };
+}
+
+interface ClaimedJob {
+  id: string;
+  locked_by: string | null;
+}
+
+// Records a claimed job's outcome and releases its lease. If the lease
+// lapsed and the job was handed back or reclaimed meanwhile, the write is
+// dropped so it can't clobber the newer state.
+async function settleJob(supabase: ReturnType<typeof createClient>, job: ClaimedJob, patch: Record<string, unknown>) {
+  const { data } = await supabase.from('publish_jobs').update({
+    ...patch,
+    locked_by: null,
+    lease_expires_at: null,
     updated_at: new Date().toISOString(),
-  }).eq('id', job.id);
+  })
+    .eq('id', job.id)
+    .eq('status', 'processing')
+    .eq('locked_by', job.locked_by)
+    .select('id')
+    .maybeSingle();
+  if (!data) console.warn(`job ${job.id} lost its lease before it settled`);
+  return !!data;
 }
 
 async function rollupPostStatus(supabase: any, postId: string) {
@@ -241,6 +489,22 @@ async function rollupPostStatus(supabase: any, postId: string) {
   const allDone = targets.every((t: any) => terminal.has(t.status));
   if (!allDone) return;
   const anySuccess = targets.some((t: any) => t.status === 'published');
+
+  // A repeating post stays scheduled until its rule runs out
+  const { data: recurrence } = await supabase
+    .from('post_recurrences')
+    .select('next_run_at')
+    .eq('post_id', postId)
+    .eq('active', true)
+    .maybeSingle();
+  if (recurrence?.next_run_at) {
+    await supabase
+      .from('posts')
+      .update({ status: 'scheduled', scheduled_at: recurrence.next_run_at, updated_at: new Date().toISOString() })
+      .eq('id', postId);
+    return;
+  }
+
   await supabase
     .from('posts')
     .update({ status: anySuccess ? 'published' : 'failed', updated_at: new Date().toISOString() })
@@ -16,7 +16,8 @@ const PROVIDERS = {
   youtube: {
     authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
     tokenUrl: 'https://oauth2.googleapis.com/token',
-    scopes: ['https://www.googleapis.com/auth/youtube.upload', 'https://www.googleapis.com/auth/youtube.readonly', 'https://www.googleapis.com/auth/userinfo.profile'],
+    // force-ssl covers playlistItems.insert; upload alone can't add to playlists
+    scopes: ['https://www.googleapis.com/auth/youtube.upload', 'https://www.googleapis.com/auth/youtube.force-ssl', 'https://www.googleapis.com/auth/youtube.readonly', 'https://www.googleapis.com/auth/userinfo.profile'],
     scopeDelimiter: ' ',
     clientKeyParam: 'client_id',
   },
@@ -52,7 +53,7 @@ const PROVIDERS = {
   tiktok: {
     authUrl: 'https://www.tiktok.com/v2/auth/authorize/',
     tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
-    scopes: ['user.info.basic', 'video.publish'],
+    scopes: ['user.info.basic', 'user.info.profile', 'user.info.stats', 'video.publish', 'video.list'],
     // TikTok uses comma-separated scopes and client_key instead of client_id
     scopeDelimiter: ',',
     clientKeyParam: 'client_key',
@@ -1,44 +1,11 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders } from "../_shared/cors.ts";
+import { InstagramOptions, MediaMeta, PublishErrorCode, TikTokOptions, YouTubeOptions } from "../_shared/publishers.ts";
 import {
-  publishToProvider,
-  fetchMediaBlob,
-  PublishOptions,
-  MediaMeta,
-  decryptToken,
-} from "../_shared/publishers.ts";
-
-// If a mediaUrl points at our private "social-media" storage bucket, replace
-// it with a fresh short-lived signed URL so external platforms (Meta, IG,
-// Threads) can fetch the file. Accepts either legacy public URLs or already
-// signed URLs from the client (they get re-signed for a fresh TTL).
-async function maybeSignInternalMediaUrl(
-  supabase: any,
-  supabaseUrl: string,
-  mediaUrl: string,
-): Promise<string | null> {
-  try {
-    const projectHost = new URL(supabaseUrl).host;
-    const parsed = new URL(mediaUrl);
-    if (parsed.host !== projectHost) return null;
-    const match = parsed.pathname.match(/\/storage\/v1\/object\/(?:public|sign)\/social-media\/(.+)$/);
-    if (!match) return null;
-    const path = decodeURIComponent(match[1]);
-    if (!path) return null;
-    const { data, error } = await supabase
-      .storage
-      .from('social-media')
-      .createSignedUrl(path, 60 * 60); // 1 hour
-    if (error || !data?.signedUrl) {
-      console.error('createSignedUrl failed', error);
-      return null;
-    }
-    return data.signedUrl;
-  } catch (e) {
-    console.error('maybeSignInternalMediaUrl error', e);
-    return null;
-  }
-}
+  ChannelOverride,
+  ChannelVersion,
+  resolveChannelVersion,
+} from "../_shared/overrides.ts";
 
 interface PublishRequest {
   workspaceId: string;
@@ -47,7 +14,11 @@ interface PublishRequest {
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   mediaMeta?: MediaMeta;
+  // media library asset behind mediaUrl
+  assetId?: string;
   targetAccountIds: string[];
+  // per-account forks, keyed by social_accounts.id
+  channelOverrides?: Record<string, ChannelOverride>;
 }
 
 interface PublishResult {
@@ -57,9 +28,16 @@ interface PublishResult {
   postId?: string;
   postUrl?: string;
   error?: string;
+  errorCode?: PublishErrorCode;
   needsReconnect?: boolean;
 }
 
+interface QueuedTarget {
+  targetId: string;
+  accountId: string;
+  platform: string;
+}
+
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -75,9 +53,6 @@ const PLATFORM_LIMITS: Record<string, number> = {
   tiktok: 2200,
 };
 
-// Platforms that need the media bytes server-side (vs a public URL)
-const NEEDS_MEDIA_BYTES = new Set(['youtube', 'tiktok', 'x', 'linkedin', 'bluesky']);
-
 // Validate and sanitize URL
 function validateUrl(url: string | undefined): { valid: boolean; sanitized?: string; error?: string } {
   if (!url || url.trim() === '') {
@@ -111,6 +86,249 @@ function validateUrl(url: string | undefined): { valid: boolean; sanitized?: str
   }
 }
 
+function parseMediaMeta(raw: unknown): MediaMeta | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const meta = raw as Record<string, unknown>;
+  return {
+    width: typeof meta.width === 'number' ? meta.width : undefined,
+    height: typeof meta.height === 'number' ? meta.height : undefined,
+    durationSeconds: typeof meta.durationSeconds === 'number' ? meta.durationSeconds : undefined,
+    sizeBytes: typeof meta.sizeBytes === 'number' ? meta.sizeBytes : undefined,
+    mimeType: typeof meta.mimeType === 'string' && /^(image|video)\/[\w.+-]{1,50}$/.test(meta.mimeType) ? meta.mimeType : undefined,
+  };
+}
+
+const YOUTUBE_PRIVACY = ['public', 'unlisted', 'private'];
+
+function validateYouTubeOptions(raw: unknown): { valid: boolean; data?: YouTubeOptions; error?: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, error: 'channelOverrides.youtube must be an object' };
+  }
+  const o = raw as Record<string, unknown>;
+  const data: YouTubeOptions = {};
+
+  if (o.description !== undefined) {
+    if (typeof o.description !== 'string' || o.description.length > 5000) {
+      return { valid: false, error: 'youtube.description must be a string of at most 5000 characters' };
+    }
+    if (o.description.trim()) data.description = o.description.trim();
+  }
+  if (o.tags !== undefined) {
+    // YouTube caps the combined tags at 500 characters
+    if (!Array.isArray(o.tags) || o.tags.some((tag) => typeof tag !== 'string') ||
+        (o.tags as string[]).join(',').length > 500) {
+      return { valid: false, error: 'youtube.tags must be strings totalling at most 500 characters' };
+    }
+    if (o.tags.length) data.tags = o.tags as string[];
+  }
+  if (o.categoryId !== undefined) {
+    if (typeof o.categoryId !== 'string' || !/^\d{1,3}$/.test(o.categoryId)) {
+      return { valid: false, error: 'Invalid youtube.categoryId' };
+    }
+    data.categoryId = o.categoryId;
+  }
+  if (o.privacy !== undefined) {
+    if (typeof o.privacy !== 'string' || !YOUTUBE_PRIVACY.includes(o.privacy)) {
+      return { valid: false, error: 'youtube.privacy must be "public", "unlisted" or "private"' };
+    }
+    data.privacy = o.privacy as YouTubeOptions['privacy'];
+  }
+  if (o.publishAt !== undefined) {
+    if (typeof o.publishAt !== 'string' || isNaN(Date.parse(o.publishAt))) {
+      return { valid: false, error: 'youtube.publishAt must be an ISO timestamp' };
+    }
+    data.publishAt = new Date(o.publishAt).toISOString();
+  }
+  if (o.madeForKids !== undefined) {
+    if (typeof o.madeForKids !== 'boolean') return { valid: false, error: 'youtube.madeForKids must be a boolean' };
+    data.madeForKids = o.madeForKids;
+  }
+  if (o.defaultLanguage !== undefined) {
+    if (typeof o.defaultLanguage !== 'string' || !/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(o.defaultLanguage)) {
+      return { valid: false, error: 'youtube.defaultLanguage must be a language code like "en"' };
+    }
+    data.defaultLanguage = o.defaultLanguage;
+  }
+  if (o.playlistId !== undefined) {
+    if (typeof o.playlistId !== 'string' || !/^[\w-]{2,64}$/.test(o.playlistId)) {
+      return { valid: false, error: 'Invalid youtube.playlistId' };
+    }
+    data.playlistId = o.playlistId;
+  }
+  if (o.thumbnailUrl !== undefined) {
+    if (typeof o.thumbnailUrl !== 'string') return { valid: false, error: 'youtube.thumbnailUrl must be a string' };
+    const thumbnail = validateUrl(o.thumbnailUrl);
+    if (!thumbnail.valid) return { valid: false, error: `youtube.thumbnailUrl: ${thumbnail.error}` };
+    if (thumbnail.sanitized) data.thumbnailUrl = thumbnail.sanitized;
+  }
+
+  return { valid: true, data };
+}
+
+function validateTikTokOptions(raw: unknown): { valid: boolean; data?: TikTokOptions; error?: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, error: 'channelOverrides.tiktok must be an object' };
+  }
+  const o = raw as Record<string, unknown>;
+  const data: TikTokOptions = {};
+
+  if (o.privacyLevel !== undefined) {
+    if (typeof o.privacyLevel !== 'string' || !/^[A-Z_]{1,50}$/.test(o.privacyLevel)) {
+      return { valid: false, error: 'Invalid tiktok.privacyLevel' };
+    }
+    data.privacyLevel = o.privacyLevel;
+  }
+  for (const key of ['disableComment', 'disableDuet', 'disableStitch', 'brandOrganic', 'brandedContent'] as const) {
+    if (o[key] === undefined) continue;
+    if (typeof o[key] !== 'boolean') return { valid: false, error: `tiktok.${key} must be a boolean` };
+    data[key] = o[key] as boolean;
+  }
+  if (data.brandedContent && data.privacyLevel === 'SELF_ONLY') {
+    return { valid: false, error: 'TikTok branded content cannot be private' };
+  }
+
+  return { valid: true, data };
+}
+
+const INSTAGRAM_PLACEMENTS = ['feed', 'story', 'both'];
+const INSTAGRAM_USERNAME = /^[A-Za-z0-9._]{1,30}$/;
+
+function validateInstagramOptions(raw: unknown): { valid: boolean; data?: InstagramOptions; error?: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, error: 'channelOverrides.instagram must be an object' };
+  }
+  const o = raw as Record<string, unknown>;
+  const data: InstagramOptions = {};
+
+  if (o.placement !== undefined) {
+    if (typeof o.placement !== 'string' || !INSTAGRAM_PLACEMENTS.includes(o.placement)) {
+      return { valid: false, error: 'instagram.placement must be "feed", "story" or "both"' };
+    }
+    data.placement = o.placement as InstagramOptions['placement'];
+  }
+  if (o.coverUrl !== undefined) {
+    if (typeof o.coverUrl !== 'string') return { valid: false, error: 'instagram.coverUrl must be a string' };
+    const cover = validateUrl(o.coverUrl);
+    if (!cover.valid) return { valid: false, error: `instagram.coverUrl: ${cover.error}` };
+    if (cover.sanitized) data.coverUrl = cover.sanitized;
+  }
+  if (o.thumbOffsetMs !== undefined) {
+    if (typeof o.thumbOffsetMs !== 'number' || !Number.isInteger(o.thumbOffsetMs) || o.thumbOffsetMs < 0) {
+      return { valid: false, error: 'instagram.thumbOffsetMs must be a non-negative integer' };
+    }
+    data.thumbOffsetMs = o.thumbOffsetMs;
+  }
+  if (o.shareToFeed !== undefined) {
+    if (typeof o.shareToFeed !== 'boolean') return { valid: false, error: 'instagram.shareToFeed must be a boolean' };
+    data.shareToFeed = o.shareToFeed;
+  }
+  if (o.collaborators !== undefined) {
+    if (!Array.isArray(o.collaborators) || o.collaborators.length > 3 ||
+        o.collaborators.some((name) => typeof name !== 'string' || !INSTAGRAM_USERNAME.test(name))) {
+      return { valid: false, error: 'instagram.collaborators must be at most 3 Instagram usernames' };
+    }
+    if (o.collaborators.length) data.collaborators = o.collaborators as string[];
+  }
+  if (o.locationId !== undefined) {
+    if (typeof o.locationId !== 'string' || !/^\d{1,30}$/.test(o.locationId)) {
+      return { valid: false, error: 'Invalid instagram.locationId' };
+    }
+    data.locationId = o.locationId;
+  }
+  if (o.userTags !== undefined) {
+    if (!Array.isArray(o.userTags) || o.userTags.length > 20 ||
+        o.userTags.some((name) => typeof name !== 'string' || !INSTAGRAM_USERNAME.test(name))) {
+      return { valid: false, error: 'instagram.userTags must be at most 20 Instagram usernames' };
+    }
+    if (o.userTags.length) data.userTags = o.userTags as string[];
+  }
+
+  return { valid: true, data };
+}
+
+// Validate per-account overrides; only accounts being published to may be forked
+function validateChannelOverrides(
+  raw: unknown,
+  targetAccountIds: string[]
+): { valid: boolean; data?: Record<string, ChannelOverride>; error?: string } {
+  if (raw === undefined || raw === null) return { valid: true };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, error: 'channelOverrides must be an object' };
+  }
+
+  const data: Record<string, ChannelOverride> = {};
+  for (const [accountId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!targetAccountIds.includes(accountId)) {
+      return { valid: false, error: 'channelOverrides references an account that is not targeted' };
+    }
+    if (!value || typeof value !== 'object') continue;
+    const o = value as Record<string, unknown>;
+    const override: ChannelOverride = {};
+
+    if (o.content !== undefined) {
+      if (typeof o.content !== 'string' || o.content.length > 10000) {
+        return { valid: false, error: 'channelOverrides.content must be a string of at most 10000 characters' };
+      }
+      if (o.content.trim()) override.content = o.content.trim();
+    }
+    if (o.title !== undefined) {
+      if (typeof o.title !== 'string' || o.title.length > 100) {
+        return { valid: false, error: 'channelOverrides.title must be a string of at most 100 characters' };
+      }
+      if (o.title.trim()) override.title = o.title.trim();
+    }
+    if (o.hashtags !== undefined) {
+      if (!Array.isArray(o.hashtags) || o.hashtags.length > 30 ||
+          o.hashtags.some((tag) => typeof tag !== 'string' || tag.length > 100)) {
+        return { valid: false, error: 'channelOverrides.hashtags must be at most 30 strings' };
+      }
+      if (o.hashtags.length) override.hashtags = o.hashtags as string[];
+    }
+    if (o.link_url !== undefined) {
+      if (typeof o.link_url !== 'string') return { valid: false, error: 'channelOverrides.link_url must be a string' };
+      const link = validateUrl(o.link_url);
+      if (!link.valid) return { valid: false, error: `channelOverrides.link_url: ${link.error}` };
+      if (link.sanitized) override.link_url = link.sanitized;
+    }
+    if (o.media_url !== undefined) {
+      if (typeof o.media_url !== 'string') return { valid: false, error: 'channelOverrides.media_url must be a string' };
+      const media = validateUrl(o.media_url);
+      if (!media.valid) return { valid: false, error: `channelOverrides.media_url: ${media.error}` };
+      if (o.media_type !== 'image' && o.media_type !== 'video') {
+        return { valid: false, error: 'channelOverrides.media_type must be "image" or "video"' };
+      }
+      if (o.asset_id !== undefined && (typeof o.asset_id !== 'string' || !UUID_REGEX.test(o.asset_id))) {
+        return { valid: false, error: 'Invalid channelOverrides.asset_id format' };
+      }
+      if (media.sanitized) {
+        override.media_url = media.sanitized;
+        override.media_type = o.media_type;
+        override.media_meta = parseMediaMeta(o.media_meta);
+        if (o.asset_id) override.asset_id = o.asset_id as string;
+      }
+    }
+    if (o.youtube !== undefined) {
+      const youtube = validateYouTubeOptions(o.youtube);
+      if (!youtube.valid) return { valid: false, error: youtube.error };
+      if (youtube.data && Object.keys(youtube.data).length) override.youtube = youtube.data;
+    }
+    if (o.tiktok !== undefined) {
+      const tiktok = validateTikTokOptions(o.tiktok);
+      if (!tiktok.valid) return { valid: false, error: tiktok.error };
+      if (tiktok.data && Object.keys(tiktok.data).length) override.tiktok = tiktok.data;
+    }
+    if (o.instagram !== undefined) {
+      const instagram = validateInstagramOptions(o.instagram);
+      if (!instagram.valid) return { valid: false, error: instagram.error };
+      if (instagram.data && Object.keys(instagram.data).length) override.instagram = instagram.data;
+    }
+
+    if (Object.keys(override).length) data[accountId] = override;
+  }
+
+  return { valid: true, data };
+}
+
 // Validate request body
 function validatePublishRequest(body: unknown): {
   valid: boolean;
@@ -176,14 +394,21 @@ function validatePublishRequest(body: unknown): {
   }
 
   // Validate mediaMeta (optional)
-  let mediaMeta: MediaMeta | undefined;
-  if (request.mediaMeta && typeof request.mediaMeta === 'object') {
-    const meta = request.mediaMeta as Record<string, unknown>;
-    mediaMeta = {
-      width: typeof meta.width === 'number' ? meta.width : undefined,
-      height: typeof meta.height === 'number' ? meta.height : undefined,
-      durationSeconds: typeof meta.durationSeconds === 'number' ? meta.durationSeconds : undefined,
-    };
+  const mediaMeta = parseMediaMeta(request.mediaMeta);
+
+  // Validate assetId (optional)
+  if (request.assetId !== undefined &&
+      (typeof request.assetId !== 'string' || !UUID_REGEX.test(request.assetId))) {
+    return { valid: false, error: 'Invalid assetId format' };
+  }
+
+  // Validate channelOverrides (optional)
+  const overridesValidation = validateChannelOverrides(
+    request.channelOverrides,
+    request.targetAccountIds as string[]
+  );
+  if (!overridesValidation.valid) {
+    return { valid: false, error: overridesValidation.error };
   }
 
   return {
@@ -195,7 +420,9 @@ function validatePublishRequest(body: unknown): {
       mediaUrl: mediaValidation.sanitized,
       mediaType: request.mediaType as 'image' | 'video' | undefined,
       mediaMeta,
+      assetId: request.assetId as string | undefined,
       targetAccountIds: request.targetAccountIds as string[],
+      channelOverrides: overridesValidation.data,
     },
   };
 }
@@ -243,7 +470,7 @@ async function validateWorkspaceAccess(
   authHeader: string,
   workspaceId: string,
   requiredRoles: string[] = ['owner', 'admin', 'editor']
-): Promise<{ authorized: boolean; userId?: string; error?: string }> {
+): Promise<{ authorized: boolean; userId?: string; role?: string; error?: string }> {
   // Extract and validate JWT
   const token = authHeader.replace('Bearer ', '');
   const { data: { user }, error: userError } = await supabase.auth.getUser(token);
@@ -275,56 +502,89 @@ async function validateWorkspaceAccess(
     };
   }
 
-  return { authorized: true, userId: user.id };
+  return { authorized: true, userId: user.id, role };
 }
 
-// Record the publish in posts/post_targets so the Queue page has history
-async function recordPublishHistory(
+// posts.per_channel_overrides: post-wide media plus per-account forks
+function buildPerChannelOverrides(request: PublishRequest): Record<string, unknown> {
+  const overrides: Record<string, unknown> = request.mediaUrl
+    ? { media_url: request.mediaUrl, media_type: request.mediaType, media_meta: request.mediaMeta }
+    : {};
+  if (request.channelOverrides && Object.keys(request.channelOverrides).length) {
+    overrides.accounts = request.channelOverrides;
+  }
+  return overrides;
+}
+
+// Roles whose posts skip the approvals inbox (mirrors can_approve_posts()).
+const APPROVER_ROLES = ['owner', 'admin', 'approver'];
+
+// "Publish now" creates the post with immediate publish_jobs and leaves the
+// uploads to publish-scheduled, so large videos don't run into this
+// function's timeout. Approvers' posts go out as 'scheduled'; editors' wait
+// as 'pending_approval' until an approver signs off (see review_post()).
+async function enqueuePost(
   supabase: any,
   workspaceId: string,
   userId: string,
   request: PublishRequest,
-  results: PublishResult[],
-  accounts: any[]
-) {
-  try {
-    const successCount = results.filter(r => r.success).length;
-    const { data: post } = await supabase
-      .from('posts')
-      .insert({
-        workspace_id: workspaceId,
-        created_by: userId,
-        status: successCount > 0 ? 'published' : 'failed',
-        title: request.content.split('\n')[0].substring(0, 120),
-        body_text: request.content,
-        link_url: request.linkUrl,
-        per_channel_overrides: request.mediaUrl
-          ? { media_url: request.mediaUrl, media_type: request.mediaType }
-          : {},
-      })
-      .select()
-      .single();
-
-    if (!post) return;
-
-    const targets = results.map(r => {
-      const account = accounts.find(a => a.id === r.accountId);
-      return {
-        post_id: post.id,
-        social_account_id: r.accountId,
-        platform: account?.platform || r.platform,
-        status: r.success ? 'published' : 'failed',
-        remote_post_id: r.postId,
-        publish_attempts: 1,
-        last_error_message: r.error,
-        last_attempt_at: new Date().toISOString(),
-        published_at: r.success ? new Date().toISOString() : null,
-      };
-    });
-    await supabase.from('post_targets').insert(targets);
-  } catch (error) {
-    console.error('Failed to record publish history:', error);
+  accounts: any[],
+  needsApproval: boolean
+): Promise<{ postId: string; targets: QueuedTarget[] }> {
+  const now = new Date().toISOString();
+  const { data: post, error: postError } = await supabase
+    .from('posts')
+    .insert({
+      workspace_id: workspaceId,
+      created_by: userId,
+      status: needsApproval ? 'pending_approval' : 'scheduled',
+      title: request.content.split('\n')[0].substring(0, 120),
+      body_text: request.content,
+      link_url: request.linkUrl,
+      scheduled_at: now,
+      asset_id: request.assetId,
+      per_channel_overrides: buildPerChannelOverrides(request),
+    })
+    .select()
+    .single();
+  if (postError || !post) throw postError || new Error('Failed to create post');
+
+  const { data: targets, error: targetsError } = await supabase
+    .from('post_targets')
+    .insert(accounts.map((account) => ({
+      post_id: post.id,
+      social_account_id: account.id,
+      platform: account.platform,
+      status: 'queued',
+    })))
+    .select('id, social_account_id, platform');
+  if (targetsError) throw targetsError;
+
+  const { error: jobsError } = await supabase
+    .from('publish_jobs')
+    .insert((targets || []).map((target: { id: string }) => ({
+      post_target_id: target.id,
+      run_at: now,
+      status: 'queued',
+      idempotency_key: `${post.id}:${target.id}`,
+    })));
+  if (jobsError) throw jobsError;
+
+  if (needsApproval) {
+    const { error: approvalError } = await supabase
+      .from('approvals')
+      .insert({ post_id: post.id, requested_by: userId, status: 'pending' });
+    if (approvalError) throw approvalError;
   }
+
+  return {
+    postId: post.id,
+    targets: (targets || []).map((t: { id: string; social_account_id: string; platform: string }) => ({
+      targetId: t.id,
+      accountId: t.social_account_id,
+      platform: t.platform,
+    })),
+  };
 }
 
 Deno.serve(async (req) => {
@@ -373,7 +633,7 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { workspaceId, content, linkUrl, mediaUrl, mediaType, mediaMeta, targetAccountIds } = validation.data;
+    const { workspaceId, content, linkUrl, mediaUrl, mediaType, mediaMeta, targetAccountIds, channelOverrides } = validation.data;
 
     // Validate workspace access and permissions
     const authResult = await validateWorkspaceAccess(
@@ -396,20 +656,10 @@ Deno.serve(async (req) => {
       accountCount: targetAccountIds.length
     });
 
-    // Get target accounts with tokens
+    // Get target accounts; tokens are the worker's concern
     const { data: accounts, error: accountsError } = await supabase
       .from('social_accounts')
-      .select(`
-        id,
-        platform,
-        platform_user_id,
-        display_name,
-        oauth_tokens (
-          access_token,
-          refresh_token,
-          expires_at
-        )
-      `)
+      .select('id, platform, display_name')
       .eq('workspace_id', workspaceId)
       .in('id', targetAccountIds)
       .eq('status', 'connected');
@@ -422,101 +672,78 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Media in our private "social-media" bucket needs a short-lived signed
-    // URL so external providers (Meta, Instagram, Threads) can fetch it.
-    let effectiveMediaUrl = mediaUrl;
-    if (mediaUrl) {
-      const signed = await maybeSignInternalMediaUrl(supabase, supabaseUrl, mediaUrl);
-      if (signed) effectiveMediaUrl = signed;
-    }
-
-    // Download the media once and share the bytes across all platforms that
-    // upload server-side (YouTube, TikTok, X, LinkedIn, Bluesky)
-    let mediaBlob: Blob | null = null;
-    if (effectiveMediaUrl && accounts.some(a => NEEDS_MEDIA_BYTES.has(a.platform))) {
-      try {
-        mediaBlob = await fetchMediaBlob(effectiveMediaUrl);
-      } catch (error) {
-        console.error('Media prefetch failed:', error);
-        // URL-based platforms can still work; byte-based ones will retry the fetch
+    // Library assets are recorded on the post, and publish-scheduled publishes
+    // their renditions, so the post's and every channel's must belong to this
+    // workspace
+    const assetIds = [...new Set([
+      validation.data.assetId,
+      ...Object.values(channelOverrides || {}).map((o) => o.asset_id),
+    ].filter((id): id is string => !!id))];
+    if (assetIds.length) {
+      const { data: assets } = await supabase
+        .from('assets')
+        .select('id')
+        .in('id', assetIds)
+        .eq('workspace_id', workspaceId);
+      if ((assets?.length ?? 0) !== assetIds.length) {
+        return new Response(JSON.stringify({ error: 'Asset not found in this workspace' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
     }
 
-    // Publish to all platforms in parallel
-    const results: PublishResult[] = await Promise.all(accounts.map(async (account: any): Promise<PublishResult> => {
-      const platformValidation = validateContentForPlatform(
-        account.platform,
-        content,
-        !!mediaUrl,
-        mediaType
-      );
-
-      if (!platformValidation.valid) {
-        return {
-          accountId: account.id,
-          platform: account.platform,
-          success: false,
-          error: platformValidation.error,
-        };
-      }
-
-      const token = account.oauth_tokens?.[0];
-      if (!token?.access_token) {
-        return {
-          accountId: account.id,
-          platform: account.platform,
-          success: false,
-          error: 'No access token found',
-        };
+    // Each account gets its own fork of the post (caption, title, link, media)
+    const baseVersion: ChannelVersion = { content, linkUrl, mediaUrl, mediaType, mediaMeta, assetId: validation.data.assetId };
+    const versionFor = (accountId: string) =>
+      resolveChannelVersion(baseVersion, channelOverrides?.[accountId]);
+
+    // Channels that can't take this version are reported now rather than
+    // failing in the worker
+    const rejected: PublishResult[] = [];
+    const publishable = accounts.filter((account) => {
+      const version = versionFor(account.id);
+      const check = validateContentForPlatform(account.platform, version.content, !!version.mediaUrl, version.mediaType);
+      if (!check.valid) {
+        rejected.push({ accountId: account.id, platform: account.platform, success: false, error: check.error, errorCode: 'content_rejected' });
       }
+      return check.valid;
+    });
+    if (!publishable.length) {
+      return new Response(JSON.stringify({
+        success: false,
+        status: 'failed',
+        results: rejected,
+        summary: { total: rejected.length, succeeded: 0, failed: rejected.length },
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-      try {
-        const options: PublishOptions = {
-          accountId: account.platform_user_id,
-          socialAccountId: account.id,
-          accessToken: await decryptToken(token.access_token),
-          refreshToken: token.refresh_token ? await decryptToken(token.refresh_token) : undefined,
-          tokenExpiresAt: token.expires_at,
-          content,
-          linkUrl,
-          mediaUrl: effectiveMediaUrl,
-          mediaType,
-          mediaMeta,
-          mediaBlob,
-        };
-        const result = await publishToProvider(account.platform, options, supabase);
-        return {
-          accountId: account.id,
-          platform: account.platform,
-          ...result,
-        };
-      } catch (error: unknown) {
-        console.error(`Publish error for ${account.platform}:`, error);
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        return {
-          accountId: account.id,
-          platform: account.platform,
-          success: false,
-          error: errorMessage,
-        };
-      }
-    }));
+    const needsApproval = !APPROVER_ROLES.includes(authResult.role!);
+    const { postId, targets } = await enqueuePost(
+      supabase, workspaceId, authResult.userId!, validation.data, publishable, needsApproval
+    );
 
-    // Record history so the Queue page can show past publishes
-    await recordPublishHistory(supabase, workspaceId, authResult.userId!, validation.data, results, accounts);
+    if (!needsApproval) {
+      // Start the worker now instead of waiting for the next cron tick
+      const { error: triggerError } = await supabase.rpc('trigger_publish_scheduled');
+      if (triggerError) console.error('trigger_publish_scheduled failed:', triggerError);
+    }
 
-    // Log audit entry for publish action
     try {
       await supabase.from('audit_logs').insert({
         workspace_id: workspaceId,
         actor_user_id: authResult.userId,
         action: 'publish_content',
-        entity_type: 'social_post',
+        entity_type: 'post',
+        entity_id: postId,
         details: {
-          platforms: results.map(r => r.platform),
-          success_count: results.filter(r => r.success).length,
-          failure_count: results.filter(r => !r.success).length,
-          timestamp: new Date().toISOString(),
+          platforms: targets.map(t => t.platform),
+          queued_count: targets.length,
+          rejected_count: rejected.length,
+          pending_approval: needsApproval,
         },
       });
     } catch (auditError) {
@@ -524,21 +751,18 @@ Deno.serve(async (req) => {
       // Don't fail the request for audit log errors
     }
 
-    // Determine overall status
-    const successCount = results.filter(r => r.success).length;
-    const status = successCount === results.length ? 'published'
-      : successCount > 0 ? 'partial'
-      : 'failed';
-
     return new Response(JSON.stringify({
-      success: successCount > 0,
-      status,
-      results,
+      success: true,
+      status: needsApproval ? 'pending_approval' : 'queued',
+      postId,
+      targets,
+      results: rejected,
       summary: {
-        total: results.length,
-        succeeded: successCount,
-        failed: results.length - successCount,
-      }
+        total: accounts.length,
+        succeeded: 0,
+        failed: rejected.length,
+        ...(needsApproval ? { pendingApproval: targets.length } : { queued: targets.length }),
+      },
     }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
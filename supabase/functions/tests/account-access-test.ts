@@ -0,0 +1,120 @@
+// validateAccountAccess() and its post and workspace variants are the only
+// thing standing between a signed-in user and another workspace's analytics
+// in the *-insights functions, post-metrics and collect-analytics.
+//
+//   deno test --allow-env supabase/functions/tests/account-access-test.ts
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateAccountAccess, validatePostAccess, validateWorkspaceAccess } from "../_shared/account-access.ts";
+
+const SERVICE_KEY = 'service-role-key';
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', SERVICE_KEY);
+
+// Two workspaces, one account and one post each, one member each
+const TABLES: Record<string, Record<string, unknown>[]> = {
+  social_accounts: [
+    { id: 'account-a', workspace_id: 'workspace-a' },
+    { id: 'account-b', workspace_id: 'workspace-b' },
+  ],
+  posts: [
+    { id: 'post-a', workspace_id: 'workspace-a' },
+    { id: 'post-b', workspace_id: 'workspace-b' },
+  ],
+  workspace_members: [
+    { workspace_id: 'workspace-a', user_id: 'user-a', role: 'editor' },
+    { workspace_id: 'workspace-b', user_id: 'user-b', role: 'viewer' },
+  ],
+};
+const USERS: Record<string, { id: string }> = {
+  'token-a': { id: 'user-a' },
+  'token-b': { id: 'user-b' },
+};
+
+// Just enough of the client for select().eq()...maybeSingle() and auth.getUser()
+function stubClient(): SupabaseClient {
+  const query = (rows: Record<string, unknown>[]) => ({
+    select: () => query(rows),
+    eq: (column: string, value: unknown) => query(rows.filter((row) => row[column] === value)),
+    maybeSingle: () => Promise.resolve({ data: rows[0] ?? null, error: null }),
+  });
+  return {
+    from: (table: string) => query(TABLES[table] || []),
+    auth: {
+      getUser: (token: string) => Promise.resolve(
+        USERS[token]
+          ? { data: { user: USERS[token] }, error: null }
+          : { data: { user: null }, error: { message: 'invalid JWT' } }
+      ),
+    },
+  } as unknown as SupabaseClient;
+}
+
+Deno.test('a member can read their own workspace\'s account', async () => {
+  const result = await validateAccountAccess(stubClient(), 'Bearer token-a', 'account-a');
+  assertEquals(result.authorized, true);
+  assertEquals(result.workspaceId, 'workspace-a');
+  assertEquals(result.role, 'editor');
+});
+
+Deno.test('a member of workspace A cannot read workspace B\'s account', async () => {
+  const result = await validateAccountAccess(stubClient(), 'Bearer token-a', 'account-b');
+  assertEquals(result.authorized, false);
+  assertEquals(result.status, 403);
+});
+
+Deno.test('roles outside allowedRoles are refused', async () => {
+  const result = await validateAccountAccess(stubClient(), 'Bearer token-b', 'account-b', ['owner', 'admin']);
+  assertEquals(result.authorized, false);
+  assertEquals(result.status, 403);
+});
+
+Deno.test('a missing or invalid token is a 401', async () => {
+  assertEquals((await validateAccountAccess(stubClient(), null, 'account-a')).status, 401);
+  assertEquals((await validateAccountAccess(stubClient(), 'Bearer forged', 'account-a')).status, 401);
+});
+
+Deno.test('an unknown account is a 404', async () => {
+  const result = await validateAccountAccess(stubClient(), 'Bearer token-a', 'account-missing');
+  assertEquals(result.status, 404);
+});
+
+Deno.test('the service-role key reaches any workspace', async () => {
+  const result = await validateAccountAccess(stubClient(), `Bearer ${SERVICE_KEY}`, 'account-b');
+  assertEquals(result.authorized, true);
+  assertEquals(result.workspaceId, 'workspace-b');
+});
+
+Deno.test('a member can read their own workspace\'s post', async () => {
+  const result = await validatePostAccess(stubClient(), 'Bearer token-a', 'post-a');
+  assertEquals(result.authorized, true);
+  assertEquals(result.workspaceId, 'workspace-a');
+});
+
+Deno.test('a member of workspace A cannot read workspace B\'s post', async () => {
+  const result = await validatePostAccess(stubClient(), 'Bearer token-a', 'post-b');
+  assertEquals(result.authorized, false);
+  assertEquals(result.status, 403);
+});
+
+Deno.test('an unknown post is a 404', async () => {
+  assertEquals((await validatePostAccess(stubClient(), 'Bearer token-a', 'post-missing')).status, 404);
+  assertEquals((await validatePostAccess(stubClient(), `Bearer ${SERVICE_KEY}`, 'post-missing')).status, 404);
+});
+
+Deno.test('a member can read their own workspace', async () => {
+  const result = await validateWorkspaceAccess(stubClient(), 'Bearer token-b', 'workspace-b');
+  assertEquals(result.authorized, true);
+  assertEquals(result.role, 'viewer');
+});
+
+Deno.test('a member of workspace A cannot read workspace B', async () => {
+  const result = await validateWorkspaceAccess(stubClient(), 'Bearer token-a', 'workspace-b');
+  assertEquals(result.authorized, false);
+  assertEquals(result.status, 403);
+});
+
+Deno.test('workspace access needs a valid token', async () => {
+  assertEquals((await validateWorkspaceAccess(stubClient(), null, 'workspace-a')).status, 401);
+  assertEquals((await validateWorkspaceAccess(stubClient(), 'Bearer forged', 'workspace-a')).status, 401);
+});
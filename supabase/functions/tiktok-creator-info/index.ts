@@ -0,0 +1,97 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { validateAccountAccess } from "../_shared/account-access.ts";
+import { ensureFreshToken } from "../_shared/publishers.ts";
+import { decryptToken } from "../_shared/token-crypto.ts";
+
+// What the composer needs to show TikTok's Direct Post controls: who the
+// post goes out as, which audiences the account may pick, and which
+// interactions the creator has turned off in the app.
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { accountId } = await req.json();
+    if (!accountId) {
+      return new Response(JSON.stringify({ error: 'Missing accountId' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const access = await validateAccountAccess(supabase, req.headers.get('Authorization'), accountId);
+    if (!access.authorized) {
+      return new Response(JSON.stringify({ error: access.error }), {
+        status: access.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: tokenData } = await supabase
+      .from('oauth_tokens')
+      .select('access_token, refresh_token, expires_at')
+      .eq('social_account_id', accountId)
+      .maybeSingle();
+
+    if (!tokenData) {
+      return new Response(JSON.stringify({ error: 'Account not found or not connected' }), {
+        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const fresh = await ensureFreshToken('tiktok', {
+      accountId: '', socialAccountId: accountId, content: '',
+      accessToken: await decryptToken(tokenData.access_token),
+      refreshToken: tokenData.refresh_token ? await decryptToken(tokenData.refresh_token) : undefined,
+      tokenExpiresAt: tokenData.expires_at,
+    }, supabase);
+
+    if (fresh.needsReconnect) {
+      return new Response(JSON.stringify({ error: fresh.error, needsReconnect: true }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const creatorResponse = await fetch('https://open.tiktokapis.com/v2/post/publish/creator_info/query/', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${fresh.accessToken}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+    });
+    const creatorData = await creatorResponse.json();
+
+    // TikTok always returns an error object; code "ok" means success
+    if (creatorData.error?.code && creatorData.error.code !== 'ok') {
+      console.error('TikTok creator info error:', creatorData.error);
+      const message = creatorData.error.code === 'scope_not_authorized'
+        ? 'Reconnect TikTok to grant posting access'
+        : creatorData.error.message || 'Failed to fetch TikTok creator info';
+      return new Response(JSON.stringify({ error: message, code: creatorData.error.code }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const creator = creatorData.data || {};
+    return new Response(JSON.stringify({
+      username: creator.creator_username,
+      nickname: creator.creator_nickname,
+      avatarUrl: creator.creator_avatar_url,
+      privacyLevelOptions: creator.privacy_level_options || [],
+      commentDisabled: !!creator.comment_disabled,
+      duetDisabled: !!creator.duet_disabled,
+      stitchDisabled: !!creator.stitch_disabled,
+      maxVideoPostDurationSec: creator.max_video_post_duration_sec ?? null,
+    }), {
+      status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: unknown) {
+    console.error('TikTok creator info error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
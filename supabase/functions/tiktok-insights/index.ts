@@ -0,0 +1,141 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { validateAccountAccess } from "../_shared/account-access.ts";
+import { ensureFreshToken } from "../_shared/publishers.ts";
+import { decryptToken } from "../_shared/token-crypto.ts";
+
+interface TikTokVideo {
+  id: string;
+  title?: string;
+  video_description?: string;
+  create_time?: number;
+  cover_image_url?: string;
+  share_url?: string;
+  view_count?: number;
+  like_count?: number;
+  comment_count?: number;
+  share_count?: number;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { accountId } = await req.json();
+    if (!accountId) {
+      return new Response(JSON.stringify({ error: 'Missing accountId' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only members of the account's workspace may read its analytics
+    const access = await validateAccountAccess(supabase, req.headers.get('Authorization'), accountId);
+    if (!access.authorized) {
+      return new Response(JSON.stringify({ error: access.error }), {
+        status: access.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: tokenData } = await supabase
+      .from('oauth_tokens')
+      .select('access_token, refresh_token, expires_at')
+      .eq('social_account_id', accountId)
+      .maybeSingle();
+
+    if (!tokenData) {
+      return new Response(JSON.stringify({ error: 'Account not found or not connected' }), {
+        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // TikTok access tokens last 24h; refresh when close to expiry
+    const fresh = await ensureFreshToken('tiktok', {
+      accountId: '', socialAccountId: accountId, content: '',
+      accessToken: await decryptToken(tokenData.access_token),
+      refreshToken: tokenData.refresh_token ? await decryptToken(tokenData.refresh_token) : undefined,
+      tokenExpiresAt: tokenData.expires_at,
+    }, supabase);
+
+    if (fresh.needsReconnect) {
+      return new Response(JSON.stringify({ error: fresh.error, needsReconnect: true }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const accessToken = fresh.accessToken;
+
+    const userFields = 'open_id,display_name,username,avatar_url,follower_count,following_count,likes_count,video_count';
+    const userResponse = await fetch(`https://open.tiktokapis.com/v2/user/info/?fields=${userFields}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+    const userData = await userResponse.json();
+
+    // TikTok always returns an error object; code "ok" means success
+    if (userData.error?.code && userData.error.code !== 'ok') {
+      console.error('TikTok API error:', userData.error);
+      const message = userData.error.code === 'scope_not_authorized'
+        ? 'Reconnect TikTok to grant analytics access'
+        : userData.error.message || 'Failed to fetch user info';
+      return new Response(JSON.stringify({ error: message, code: userData.error.code }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const user = userData.data?.user || {};
+
+    const videoFields = 'id,title,video_description,create_time,cover_image_url,share_url,view_count,like_count,comment_count,share_count';
+    const videosResponse = await fetch(`https://open.tiktokapis.com/v2/video/list/?fields=${videoFields}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+      body: JSON.stringify({ max_count: 10 }),
+    });
+    const videosData = await videosResponse.json();
+    if (videosData.error?.code && videosData.error.code !== 'ok') {
+      console.error('TikTok video list error:', videosData.error);
+    }
+
+    const recentVideos = ((videosData.data?.videos || []) as TikTokVideo[]).map((video) => ({
+      id: video.id,
+      title: video.title || video.video_description || '',
+      createdAt: video.create_time ? new Date(video.create_time * 1000).toISOString() : null,
+      thumbnail: video.cover_image_url,
+      url: video.share_url,
+      views: video.view_count || 0,
+      likes: video.like_count || 0,
+      comments: video.comment_count || 0,
+      shares: video.share_count || 0,
+    }));
+
+    return new Response(JSON.stringify({
+      profile: {
+        id: user.open_id,
+        displayName: user.display_name,
+        username: user.username,
+        avatarUrl: user.avatar_url,
+      },
+      metrics: {
+        followers: user.follower_count || 0,
+        following: user.following_count || 0,
+        totalLikes: user.likes_count || 0,
+        videoCount: user.video_count || 0,
+        recentViews: recentVideos.reduce((sum, v) => sum + v.views, 0),
+      },
+      recentVideos,
+      fetchedAt: new Date().toISOString(),
+    }), {
+      status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: unknown) {
+    console.error('TikTok insights error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders } from "../_shared/cors.ts";
+import { validateAccountAccess } from "../_shared/account-access.ts";
 import { ensureFreshToken } from "../_shared/publishers.ts";
 import { decryptToken } from "../_shared/token-crypto.ts";
 
@@ -20,6 +21,14 @@ Deno.serve(async (req) => {
       });
     }
 
+    // Only members of the account's workspace may read its analytics
+    const access = await validateAccountAccess(supabase, req.headers.get('Authorization'), accountId);
+    if (!access.authorized) {
+      return new Response(JSON.stringify({ error: access.error }), {
+        status: access.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     const { data: tokenData } = await supabase
       .from('oauth_tokens')
       .select('access_token, refresh_token, expires_at, social_account_id')
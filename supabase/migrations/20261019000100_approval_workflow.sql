@@ -0,0 +1,151 @@
+-- Approval workflow. Editors' posts are created as 'pending_approval' and
+-- only become claimable by publish-scheduled once an owner, admin or
+-- approver signs off via review_post(). The trigger below stops an editor
+-- from skipping review by writing the status directly through PostgREST.
+
+CREATE INDEX IF NOT EXISTS idx_approvals_post_id ON public.approvals(post_id);
+CREATE INDEX IF NOT EXISTS idx_approvals_status ON public.approvals(status);
+
+-- Roles allowed to sign off on posts in a workspace
+CREATE OR REPLACE FUNCTION public.can_approve_posts(ws_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = ws_id
+    AND user_id = auth.uid()
+    AND role IN ('owner', 'admin', 'approver')
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_approve_posts(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_approve_posts(uuid) TO service_role;
+
+-- Block client writes that would move a post past review without approval.
+-- Service-role writes (edge functions, cron) have no auth.uid() and enforce
+-- the rule themselves.
+CREATE OR REPLACE FUNCTION public.enforce_post_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.can_approve_posts(NEW.workspace_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('approved', 'scheduled', 'publishing', 'published')
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    RAISE EXCEPTION 'Posts must be approved before they can be scheduled or published'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_post_approval() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_post_approval ON public.posts;
+CREATE TRIGGER enforce_post_approval
+  BEFORE INSERT OR UPDATE OF status ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_post_approval();
+
+-- Approve or reject a pending post. Approved posts become claimable by the
+-- scheduler; rejected posts drop back to 'draft' with the reviewer's comment.
+CREATE OR REPLACE FUNCTION public.review_post(
+  p_post_id UUID,
+  p_decision approval_status,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF NOT public.can_approve_posts(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only owners, admins and approvers can review posts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'This post is not awaiting approval';
+  END IF;
+
+  IF p_decision = 'rejected' AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'Please add a comment explaining the rejection';
+  END IF;
+
+  UPDATE public.approvals
+  SET status = p_decision,
+      approver_user_id = v_user_id,
+      comment = nullif(trim(p_comment), '')
+  WHERE post_id = p_post_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    INSERT INTO public.approvals (post_id, requested_by, approver_user_id, status, comment)
+    VALUES (p_post_id, v_post.created_by, v_user_id, p_decision, nullif(trim(p_comment), ''));
+  END IF;
+
+  UPDATE public.posts
+  SET status = CASE WHEN p_decision = 'approved' THEN 'approved' ELSE 'draft' END::post_status
+  WHERE id = p_post_id;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    CASE WHEN p_decision = 'approved' THEN 'approve_post' ELSE 'reject_post' END,
+    'post',
+    p_post_id,
+    jsonb_build_object('comment', nullif(trim(p_comment), ''))
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_post(uuid, approval_status, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_post(uuid, approval_status, text) TO authenticated, service_role;
+
+-- Decisions go through review_post(); clients may only open requests.
+DROP POLICY IF EXISTS "Approvers can update approvals" ON public.approvals;
+DROP POLICY IF EXISTS "Members can create approvals" ON public.approvals;
+
+CREATE POLICY "Members can request approval for their posts"
+  ON public.approvals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_id AND public.is_workspace_member(p.workspace_id)
+    )
+  );
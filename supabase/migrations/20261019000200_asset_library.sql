@@ -0,0 +1,35 @@
+-- Asset library. Every composer upload is registered in public.assets and the
+-- same file is stored once per workspace, keyed by its SHA-256.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assets_workspace_checksum
+  ON public.assets(workspace_id, checksum_sha256)
+  WHERE checksum_sha256 IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_posts_asset_id ON public.posts(asset_id);
+
+-- Number of posts using each asset, either as the post media (posts.asset_id)
+-- or as a per-channel media override. Runs as the caller so RLS applies.
+CREATE OR REPLACE FUNCTION public.asset_usage_counts(ws_id UUID)
+RETURNS TABLE (asset_id UUID, post_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT used.asset_id, count(DISTINCT used.post_id) AS post_count
+  FROM (
+    SELECT p.asset_id, p.id AS post_id
+    FROM public.posts p
+    WHERE p.workspace_id = ws_id AND p.asset_id IS NOT NULL
+    UNION ALL
+    SELECT (o.value->>'asset_id')::uuid, p.id
+    FROM public.posts p,
+      jsonb_each(coalesce(p.per_channel_overrides->'accounts', '{}'::jsonb)) o
+    WHERE p.workspace_id = ws_id
+      AND jsonb_typeof(o.value) = 'object'
+      AND o.value->>'asset_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  ) used
+  GROUP BY used.asset_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_usage_counts(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.asset_usage_counts(uuid) TO authenticated, service_role;
@@ -0,0 +1,87 @@
+-- Analytics history. The collect-analytics function stores one snapshot per
+-- account per day (re-collecting the same day overwrites it) plus one per
+-- remote post per day, so the Analytics page can chart trends without
+-- calling the platform APIs on every load.
+
+CREATE TABLE IF NOT EXISTS public.account_metric_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  social_account_id UUID NOT NULL REFERENCES public.social_accounts(id) ON DELETE CASCADE,
+  platform platform_type NOT NULL,
+  snapshot_date DATE NOT NULL DEFAULT current_date,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  followers BIGINT,
+  views BIGINT,
+  reach BIGINT,
+  engagement BIGINT,
+  -- the full insights payload, rendered by the per-platform analytics tabs
+  raw JSONB,
+  UNIQUE (social_account_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_metric_snapshots_workspace_date
+  ON public.account_metric_snapshots(workspace_id, snapshot_date);
+
+CREATE TABLE IF NOT EXISTS public.post_metric_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  social_account_id UUID NOT NULL REFERENCES public.social_accounts(id) ON DELETE CASCADE,
+  platform platform_type NOT NULL,
+  remote_post_id TEXT NOT NULL,
+  -- set when the post was published through us
+  post_target_id UUID REFERENCES public.post_targets(id) ON DELETE SET NULL,
+  snapshot_date DATE NOT NULL DEFAULT current_date,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  published_at TIMESTAMPTZ,
+  views BIGINT,
+  likes BIGINT,
+  comments BIGINT,
+  shares BIGINT,
+  UNIQUE (social_account_id, remote_post_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_metric_snapshots_workspace_date
+  ON public.post_metric_snapshots(workspace_id, snapshot_date);
+CREATE INDEX IF NOT EXISTS idx_post_metric_snapshots_post_target
+  ON public.post_metric_snapshots(post_target_id);
+CREATE INDEX IF NOT EXISTS idx_post_targets_remote_post_id
+  ON public.post_targets(social_account_id, remote_post_id);
+
+-- Members read their workspace's history; only the collector writes
+ALTER TABLE public.account_metric_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_metric_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view account metric snapshots"
+  ON public.account_metric_snapshots FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can view post metric snapshots"
+  ON public.post_metric_snapshots FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+GRANT SELECT ON public.account_metric_snapshots, public.post_metric_snapshots TO authenticated;
+GRANT ALL ON public.account_metric_snapshots, public.post_metric_snapshots TO service_role;
+
+-- Base URL of the edge functions for cron jobs; override per environment
+INSERT INTO public.app_config (key, value)
+VALUES ('functions_url', 'https://ehoawfmrfkcciqlzknvq.supabase.co/functions/v1')
+ON CONFLICT (key) DO NOTHING;
+
+-- Collect every connected account every six hours
+SELECT cron.unschedule('collect-analytics')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'collect-analytics');
+
+SELECT cron.schedule(
+  'collect-analytics',
+  '15 */6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT value FROM public.app_config WHERE key = 'functions_url') || '/collect-analytics',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT value FROM public.app_config WHERE key = 'scheduler_token')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
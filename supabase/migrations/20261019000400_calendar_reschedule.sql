@@ -0,0 +1,91 @@
+-- Calendar drag-and-drop. Moving a post has to move its pending
+-- publish_jobs with it, or the scheduler fires at the old time. Clients
+-- can't write publish_jobs, so both updates happen here in one transaction.
+
+CREATE OR REPLACE FUNCTION public.reschedule_post(
+  p_post_id UUID,
+  p_scheduled_at TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status, scheduled_at INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can reschedule this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be moved';
+  END IF;
+
+  IF p_scheduled_at < now() + interval '30 seconds' THEN
+    RAISE EXCEPTION 'Pick a time at least 30 seconds in the future';
+  END IF;
+
+  -- Lock the jobs so publish-scheduled can't claim one between the check
+  -- and the update; its claim is a conditional UPDATE on status.
+  PERFORM 1
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.post_id = p_post_id
+  FOR UPDATE OF j;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id
+      AND j.status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This post is already publishing';
+  END IF;
+
+  UPDATE public.posts
+  SET scheduled_at = p_scheduled_at
+  WHERE id = p_post_id;
+
+  UPDATE public.publish_jobs j
+  SET run_at = p_scheduled_at,
+      next_retry_at = CASE WHEN j.status = 'retry_scheduled' THEN p_scheduled_at ELSE j.next_retry_at END
+  FROM public.post_targets pt
+  WHERE pt.id = j.post_target_id
+    AND pt.post_id = p_post_id
+    AND j.status IN ('queued', 'retry_scheduled');
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    'reschedule_post',
+    'post',
+    p_post_id,
+    jsonb_build_object('from', v_post.scheduled_at, 'to', p_scheduled_at)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reschedule_post(uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reschedule_post(uuid, timestamptz) TO authenticated, service_role;
+
+CREATE INDEX IF NOT EXISTS idx_post_targets_published_at ON public.post_targets(published_at);
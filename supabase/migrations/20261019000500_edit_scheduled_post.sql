@@ -0,0 +1,189 @@
+-- Editing a scheduled post from the Queue. Changing the channel list means
+-- adding and removing post_targets and their publish_jobs, and changing the
+-- time means retiming the jobs that stay. Clients can't write publish_jobs,
+-- and a half-applied edit would publish the wrong thing, so it all happens
+-- here in one transaction.
+
+CREATE OR REPLACE FUNCTION public.update_scheduled_post(
+  p_post_id UUID,
+  p_body_text TEXT,
+  p_link_url TEXT,
+  p_asset_id UUID,
+  p_per_channel_overrides JSONB,
+  p_scheduled_at TIMESTAMPTZ,
+  p_account_ids UUID[],
+  p_expected_updated_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+  v_status public.post_status;
+  v_removed INT;
+  v_added INT;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status, scheduled_at, updated_at INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can edit this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be edited';
+  END IF;
+
+  -- Someone else saved (or the post started publishing) since the editor loaded
+  IF p_expected_updated_at IS NOT NULL AND v_post.updated_at <> p_expected_updated_at THEN
+    RAISE EXCEPTION 'This post was changed since you opened it. Reload and try again.'
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF coalesce(trim(p_body_text), '') = '' THEN
+    RAISE EXCEPTION 'Content required';
+  END IF;
+
+  IF p_scheduled_at < now() + interval '30 seconds' THEN
+    RAISE EXCEPTION 'Pick a time at least 30 seconds in the future';
+  END IF;
+
+  IF coalesce(cardinality(p_account_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one channel';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_account_ids) AS a(id)
+    LEFT JOIN public.social_accounts sa
+      ON sa.id = a.id AND sa.workspace_id = v_post.workspace_id
+    WHERE sa.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the selected channels is not in this workspace';
+  END IF;
+
+  IF p_asset_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.assets
+    WHERE id = p_asset_id AND workspace_id = v_post.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'Media not found';
+  END IF;
+
+  -- Lock the jobs so publish-scheduled can't claim one between the check
+  -- and the reconcile; its claim is a conditional UPDATE on status.
+  PERFORM 1
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.post_id = p_post_id
+  FOR UPDATE OF j;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id
+      AND j.status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This post is already publishing';
+  END IF;
+
+  -- Contributors' edits go back through review
+  v_status := v_post.status;
+  IF v_status IN ('approved', 'scheduled') AND NOT public.can_approve_posts(v_post.workspace_id) THEN
+    v_status := 'pending_approval';
+  END IF;
+
+  UPDATE public.posts
+  SET body_text = p_body_text,
+      title = left(split_part(p_body_text, E'\n', 1), 120),
+      link_url = nullif(p_link_url, ''),
+      asset_id = p_asset_id,
+      per_channel_overrides = coalesce(p_per_channel_overrides, '{}'::jsonb),
+      scheduled_at = p_scheduled_at,
+      status = v_status
+  WHERE id = p_post_id;
+
+  IF v_status = 'pending_approval' AND NOT EXISTS (
+    SELECT 1 FROM public.approvals WHERE post_id = p_post_id AND status = 'pending'
+  ) THEN
+    INSERT INTO public.approvals (post_id, requested_by, status)
+    VALUES (p_post_id, v_user_id, 'pending');
+  END IF;
+
+  -- Channels dropped from the post. Anything already published stays as a
+  -- record of what went out.
+  WITH removed AS (
+    DELETE FROM public.post_targets
+    WHERE post_id = p_post_id
+      AND NOT (social_account_id = ANY (p_account_ids))
+      AND status <> 'published'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_removed FROM removed;
+
+  -- Channels that stay keep their jobs, moved to the new time
+  UPDATE public.publish_jobs j
+  SET run_at = p_scheduled_at,
+      next_retry_at = CASE WHEN j.status = 'retry_scheduled' THEN p_scheduled_at ELSE j.next_retry_at END
+  FROM public.post_targets pt
+  WHERE pt.id = j.post_target_id
+    AND pt.post_id = p_post_id
+    AND j.status IN ('queued', 'retry_scheduled');
+
+  -- Channels added to the post
+  WITH added AS (
+    INSERT INTO public.post_targets (post_id, social_account_id, platform, status)
+    SELECT p_post_id, sa.id, sa.platform, 'queued'
+    FROM public.social_accounts sa
+    WHERE sa.id = ANY (p_account_ids)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.post_targets pt
+        WHERE pt.post_id = p_post_id AND pt.social_account_id = sa.id
+      )
+    RETURNING id
+  ), jobs AS (
+    INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+    SELECT id, p_scheduled_at, 'queued', p_post_id || ':' || id
+    FROM added
+    RETURNING id
+  )
+  SELECT count(*) INTO v_added FROM jobs;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    'edit_post',
+    'post',
+    p_post_id,
+    jsonb_build_object(
+      'from', v_post.scheduled_at,
+      'to', p_scheduled_at,
+      'added', v_added,
+      'removed', v_removed,
+      'status', v_status
+    )
+  );
+
+  RETURN jsonb_build_object('status', v_status, 'added', v_added, 'removed', v_removed);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz) TO authenticated, service_role;
@@ -0,0 +1,230 @@
+-- Scheduling in an explicit IANA zone. posts.timezone used to default to
+-- 'UTC' and was never written; now it records the zone the post was
+-- scheduled in, falling back to the workspace's, so the queue and
+-- confirmations can show the time the author actually picked.
+
+ALTER TABLE public.posts ALTER COLUMN timezone DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.set_post_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timezone IS NULL THEN
+    SELECT timezone INTO NEW.timezone FROM public.workspaces WHERE id = NEW.workspace_id;
+  END IF;
+
+  IF NEW.timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone %', coalesce(NEW.timezone, 'NULL')
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_post_timezone() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS set_post_timezone ON public.posts;
+CREATE TRIGGER set_post_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.set_post_timezone();
+
+-- Nothing ever set a zone, so existing rows carry the column default
+UPDATE public.posts p
+SET timezone = w.timezone
+FROM public.workspaces w
+WHERE w.id = p.workspace_id
+  AND (p.timezone IS NULL OR p.timezone = 'UTC')
+  AND w.timezone <> 'UTC';
+
+-- Edits can change the post's zone along with its time
+DROP FUNCTION IF EXISTS public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz);
+
+CREATE OR REPLACE FUNCTION public.update_scheduled_post(
+  p_post_id UUID,
+  p_body_text TEXT,
+  p_link_url TEXT,
+  p_asset_id UUID,
+  p_per_channel_overrides JSONB,
+  p_scheduled_at TIMESTAMPTZ,
+  p_account_ids UUID[],
+  p_expected_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+  v_status public.post_status;
+  v_removed INT;
+  v_added INT;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status, scheduled_at, updated_at INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can edit this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be edited';
+  END IF;
+
+  -- Someone else saved (or the post started publishing) since the editor loaded
+  IF p_expected_updated_at IS NOT NULL AND v_post.updated_at <> p_expected_updated_at THEN
+    RAISE EXCEPTION 'This post was changed since you opened it. Reload and try again.'
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF coalesce(trim(p_body_text), '') = '' THEN
+    RAISE EXCEPTION 'Content required';
+  END IF;
+
+  IF p_scheduled_at < now() + interval '30 seconds' THEN
+    RAISE EXCEPTION 'Pick a time at least 30 seconds in the future';
+  END IF;
+
+  IF coalesce(cardinality(p_account_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one channel';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_account_ids) AS a(id)
+    LEFT JOIN public.social_accounts sa
+      ON sa.id = a.id AND sa.workspace_id = v_post.workspace_id
+    WHERE sa.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the selected channels is not in this workspace';
+  END IF;
+
+  IF p_asset_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.assets
+    WHERE id = p_asset_id AND workspace_id = v_post.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'Media not found';
+  END IF;
+
+  -- Lock the jobs so publish-scheduled can't claim one between the check
+  -- and the reconcile; its claim is a conditional UPDATE on status.
+  PERFORM 1
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.post_id = p_post_id
+  FOR UPDATE OF j;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id
+      AND j.status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This post is already publishing';
+  END IF;
+
+  -- Contributors' edits go back through review
+  v_status := v_post.status;
+  IF v_status IN ('approved', 'scheduled') AND NOT public.can_approve_posts(v_post.workspace_id) THEN
+    v_status := 'pending_approval';
+  END IF;
+
+  UPDATE public.posts
+  SET body_text = p_body_text,
+      title = left(split_part(p_body_text, E'\n', 1), 120),
+      link_url = nullif(p_link_url, ''),
+      asset_id = p_asset_id,
+      per_channel_overrides = coalesce(p_per_channel_overrides, '{}'::jsonb),
+      scheduled_at = p_scheduled_at,
+      timezone = coalesce(p_timezone, timezone),
+      status = v_status
+  WHERE id = p_post_id;
+
+  IF v_status = 'pending_approval' AND NOT EXISTS (
+    SELECT 1 FROM public.approvals WHERE post_id = p_post_id AND status = 'pending'
+  ) THEN
+    INSERT INTO public.approvals (post_id, requested_by, status)
+    VALUES (p_post_id, v_user_id, 'pending');
+  END IF;
+
+  -- Channels dropped from the post. Anything already published stays as a
+  -- record of what went out.
+  WITH removed AS (
+    DELETE FROM public.post_targets
+    WHERE post_id = p_post_id
+      AND NOT (social_account_id = ANY (p_account_ids))
+      AND status <> 'published'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_removed FROM removed;
+
+  -- Channels that stay keep their jobs, moved to the new time
+  UPDATE public.publish_jobs j
+  SET run_at = p_scheduled_at,
+      next_retry_at = CASE WHEN j.status = 'retry_scheduled' THEN p_scheduled_at ELSE j.next_retry_at END
+  FROM public.post_targets pt
+  WHERE pt.id = j.post_target_id
+    AND pt.post_id = p_post_id
+    AND j.status IN ('queued', 'retry_scheduled');
+
+  -- Channels added to the post
+  WITH added AS (
+    INSERT INTO public.post_targets (post_id, social_account_id, platform, status)
+    SELECT p_post_id, sa.id, sa.platform, 'queued'
+    FROM public.social_accounts sa
+    WHERE sa.id = ANY (p_account_ids)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.post_targets pt
+        WHERE pt.post_id = p_post_id AND pt.social_account_id = sa.id
+      )
+    RETURNING id
+  ), jobs AS (
+    INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+    SELECT id, p_scheduled_at, 'queued', p_post_id || ':' || id
+    FROM added
+    RETURNING id
+  )
+  SELECT count(*) INTO v_added FROM jobs;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    'edit_post',
+    'post',
+    p_post_id,
+    jsonb_build_object(
+      'from', v_post.scheduled_at,
+      'to', p_scheduled_at,
+      'added', v_added,
+      'removed', v_removed,
+      'status', v_status
+    )
+  );
+
+  RETURN jsonb_build_object('status', v_status, 'added', v_added, 'removed', v_removed);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz, text) TO authenticated, service_role;
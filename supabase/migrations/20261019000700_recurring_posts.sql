@@ -0,0 +1,427 @@
+-- Recurring posts and evergreen pools. A publish_job still runs exactly once;
+-- what repeats is the post. Each occurrence gets its own post_targets row
+-- (stamped with occurrence_at) and job, materialized a day ahead by
+-- publish-scheduled, so per-target history and analytics stay per-occurrence.
+
+ALTER TABLE public.post_targets ADD COLUMN IF NOT EXISTS occurrence_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_post_targets_occurrence
+  ON public.post_targets(post_id, social_account_id, occurrence_at);
+
+-- One rule per post, modelled on RRULE: FREQ=DAILY|WEEKLY|MONTHLY,
+-- INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT and UNTIL.
+CREATE TABLE IF NOT EXISTS public.post_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  freq TEXT NOT NULL CHECK (freq IN ('daily', 'weekly', 'monthly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 365),
+  -- 0 = Sunday
+  by_weekday SMALLINT[] CHECK (by_weekday IS NULL OR by_weekday <@ ARRAY[0,1,2,3,4,5,6]::SMALLINT[]),
+  -- days past the end of a short month fall on its last day
+  by_month_day SMALLINT CHECK (by_month_day BETWEEN 1 AND 31),
+  time_of_day TIME NOT NULL,
+  timezone TEXT NOT NULL,
+  starts_on DATE NOT NULL,
+  -- end conditions; both NULL repeats forever
+  count INTEGER CHECK (count >= 1),
+  until_date DATE,
+  social_account_ids UUID[] NOT NULL,
+  occurrences_created INTEGER NOT NULL DEFAULT 1,
+  next_run_at TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (freq <> 'weekly' OR cardinality(by_weekday) > 0),
+  CHECK (freq <> 'monthly' OR by_month_day IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_recurrences_due
+  ON public.post_recurrences(next_run_at) WHERE active;
+
+-- Per-channel evergreen settings: every N days at a fixed local time, one
+-- post is drawn from the channel's pool.
+CREATE TABLE IF NOT EXISTS public.evergreen_channels (
+  social_account_id UUID PRIMARY KEY REFERENCES public.social_accounts(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  every_days INTEGER NOT NULL DEFAULT 1 CHECK (every_days BETWEEN 1 AND 90),
+  post_time TIME NOT NULL DEFAULT '10:00',
+  timezone TEXT NOT NULL,
+  -- a post isn't drawn again until this many days after its last draw
+  min_repeat_days INTEGER NOT NULL DEFAULT 30 CHECK (min_repeat_days >= 0),
+  next_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.evergreen_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  social_account_id UUID NOT NULL REFERENCES public.social_accounts(id) ON DELETE CASCADE,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  last_drawn_at TIMESTAMPTZ,
+  times_drawn INTEGER NOT NULL DEFAULT 0,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (social_account_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_evergreen_items_workspace ON public.evergreen_items(workspace_id);
+
+CREATE TRIGGER update_post_recurrences_updated_at BEFORE UPDATE ON public.post_recurrences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_evergreen_channels_updated_at BEFORE UPDATE ON public.evergreen_channels
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.post_recurrences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.evergreen_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.evergreen_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view post recurrences"
+  ON public.post_recurrences FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+-- Same rule as the posts UPDATE policy
+CREATE POLICY "Authors and admins can manage post recurrences"
+  ON public.post_recurrences FOR ALL
+  USING (
+    public.is_workspace_member(workspace_id)
+    AND EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_id
+        AND (p.created_by = auth.uid() OR public.is_workspace_admin_or_owner(p.workspace_id))
+    )
+  )
+  WITH CHECK (
+    public.is_workspace_member(workspace_id)
+    AND EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_id
+        AND p.workspace_id = post_recurrences.workspace_id
+        AND (p.created_by = auth.uid() OR public.is_workspace_admin_or_owner(p.workspace_id))
+    )
+  );
+
+CREATE POLICY "Members can view evergreen channels"
+  ON public.evergreen_channels FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can manage evergreen channels"
+  ON public.evergreen_channels FOR ALL
+  USING (public.is_workspace_admin_or_owner(workspace_id))
+  WITH CHECK (
+    public.is_workspace_admin_or_owner(workspace_id)
+    AND EXISTS (
+      SELECT 1 FROM public.social_accounts sa
+      WHERE sa.id = social_account_id AND sa.workspace_id = evergreen_channels.workspace_id
+    )
+  );
+
+CREATE POLICY "Members can view evergreen items"
+  ON public.evergreen_items FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+-- Only content an approver has already signed off on can enter a pool,
+-- since draws publish without another review
+CREATE POLICY "Approvers can manage evergreen items"
+  ON public.evergreen_items FOR ALL
+  USING (public.can_approve_posts(workspace_id))
+  WITH CHECK (
+    public.can_approve_posts(workspace_id)
+    AND EXISTS (
+      SELECT 1 FROM public.social_accounts sa
+      WHERE sa.id = social_account_id AND sa.workspace_id = evergreen_items.workspace_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_id
+        AND p.workspace_id = evergreen_items.workspace_id
+        AND p.status IN ('approved', 'scheduled', 'publishing', 'published')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.post_recurrences, public.evergreen_channels, public.evergreen_items TO authenticated;
+GRANT ALL ON public.post_recurrences, public.evergreen_channels, public.evergreen_items TO service_role;
+
+-- First occurrence strictly after p_after, or NULL once p_until has passed.
+-- Wall times are resolved in p_timezone, so a 09:00 rule stays at 09:00
+-- across DST changes.
+CREATE OR REPLACE FUNCTION public.next_occurrence_at(
+  p_freq TEXT,
+  p_interval INTEGER,
+  p_by_weekday SMALLINT[],
+  p_by_month_day SMALLINT,
+  p_time TIME,
+  p_timezone TEXT,
+  p_starts_on DATE,
+  p_after TIMESTAMPTZ,
+  p_until DATE DEFAULT NULL
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_day DATE;
+  v_last DATE;
+  v_at TIMESTAMPTZ;
+  v_week_start DATE;
+BEGIN
+  v_day := greatest(p_starts_on, (p_after AT TIME ZONE p_timezone)::date);
+  v_week_start := p_starts_on - extract(dow FROM p_starts_on)::int;
+  -- Enough to cover one full period of the sparsest rule
+  v_last := v_day + (CASE p_freq WHEN 'monthly' THEN 31 * p_interval + 31 ELSE 7 * p_interval + 7 END);
+
+  WHILE v_day <= v_last LOOP
+    IF p_until IS NOT NULL AND v_day > p_until THEN
+      RETURN NULL;
+    END IF;
+
+    IF (p_freq = 'daily' AND (v_day - p_starts_on) % p_interval = 0)
+      OR (p_freq = 'weekly'
+        AND extract(dow FROM v_day)::smallint = ANY (p_by_weekday)
+        AND ((v_day - v_week_start) / 7) % p_interval = 0)
+      OR (p_freq = 'monthly'
+        AND extract(day FROM v_day)::int = least(
+          p_by_month_day,
+          extract(day FROM date_trunc('month', v_day) + interval '1 month - 1 day')::int
+        )
+        AND ((extract(year FROM v_day) - extract(year FROM p_starts_on)) * 12
+          + extract(month FROM v_day) - extract(month FROM p_starts_on))::int % p_interval = 0)
+    THEN
+      v_at := (v_day + p_time) AT TIME ZONE p_timezone;
+      IF v_at > p_after THEN
+        RETURN v_at;
+      END IF;
+    END IF;
+
+    v_day := v_day + 1;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_occurrence_at(text, integer, smallint[], smallint, time, text, date, timestamptz, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_occurrence_at(text, integer, smallint[], smallint, time, text, date, timestamptz, date) TO service_role;
+
+-- The post's own scheduled_at is occurrence #1 (created by the composer);
+-- the rule takes over from there.
+CREATE OR REPLACE FUNCTION public.set_recurrence_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_after TIMESTAMPTZ;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  SELECT greatest(coalesce(scheduled_at, now()), now()) INTO v_after FROM public.posts WHERE id = NEW.post_id;
+
+  IF NEW.active AND (NEW.count IS NULL OR NEW.occurrences_created < NEW.count) THEN
+    NEW.next_run_at := public.next_occurrence_at(
+      NEW.freq, NEW.interval_count, NEW.by_weekday, NEW.by_month_day,
+      NEW.time_of_day, NEW.timezone, NEW.starts_on, v_after, NEW.until_date
+    );
+  ELSE
+    NEW.next_run_at := NULL;
+  END IF;
+  NEW.active := NEW.active AND NEW.next_run_at IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_recurrence_next_run() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_recurrence_next_run
+  BEFORE INSERT OR UPDATE OF freq, interval_count, by_weekday, by_month_day, time_of_day, timezone, starts_on, count, until_date, active
+  ON public.post_recurrences
+  FOR EACH ROW EXECUTE FUNCTION public.set_recurrence_next_run();
+
+CREATE OR REPLACE FUNCTION public.set_evergreen_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  NEW.next_run_at := CASE WHEN NEW.active THEN public.next_occurrence_at(
+    'daily', 1, NULL, NULL, NEW.post_time, NEW.timezone, (now() AT TIME ZONE NEW.timezone)::date, now()
+  ) END;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_evergreen_next_run() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_evergreen_next_run
+  BEFORE INSERT OR UPDATE OF active, every_days, post_time, timezone
+  ON public.evergreen_channels
+  FOR EACH ROW EXECUTE FUNCTION public.set_evergreen_next_run();
+
+-- Creates the targets and jobs for every recurrence and evergreen slot
+-- coming up within p_lookahead, then advances each to its next occurrence.
+-- Called by publish-scheduled at the start of every run. Rows are locked
+-- with SKIP LOCKED and targets are keyed by occurrence_at, so overlapping
+-- runs can't create an occurrence twice.
+CREATE OR REPLACE FUNCTION public.materialize_occurrences(p_lookahead INTERVAL DEFAULT interval '1 day')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  c RECORD;
+  v_item RECORD;
+  v_status public.post_status;
+  v_created INTEGER := 0;
+  v_next TIMESTAMPTZ;
+  v_stale BOOLEAN;
+BEGIN
+  FOR r IN
+    SELECT * FROM public.post_recurrences
+    WHERE active AND next_run_at <= now() + p_lookahead
+    ORDER BY next_run_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT status INTO v_status FROM public.posts WHERE id = r.post_id;
+
+    -- Canceled or rejected posts stop repeating
+    IF v_status IN ('canceled', 'draft') THEN
+      UPDATE public.post_recurrences SET active = false WHERE id = r.id;
+      CONTINUE;
+    END IF;
+
+    -- Occurrences missed while the scheduler was down are skipped rather
+    -- than all published at once
+    v_stale := r.next_run_at < now() - interval '1 hour';
+
+    WITH added AS (
+      INSERT INTO public.post_targets (post_id, social_account_id, platform, status, occurrence_at)
+      SELECT r.post_id, sa.id, sa.platform, 'queued', r.next_run_at
+      FROM public.social_accounts sa
+      WHERE sa.id = ANY (r.social_account_ids)
+        AND sa.workspace_id = r.workspace_id
+        AND sa.status = 'connected'
+        AND NOT v_stale
+        AND NOT EXISTS (
+          SELECT 1 FROM public.post_targets pt
+          WHERE pt.post_id = r.post_id
+            AND pt.social_account_id = sa.id
+            AND pt.occurrence_at = r.next_run_at
+        )
+      RETURNING id
+    )
+    INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+    SELECT id, r.next_run_at, 'queued', r.post_id || ':' || id
+    FROM added;
+
+    -- Published or failed posts go back on the schedule for the next run;
+    -- pending_approval posts stay parked until approved
+    IF NOT v_stale THEN
+      UPDATE public.posts
+      SET scheduled_at = r.next_run_at,
+          status = CASE WHEN status IN ('published', 'failed') THEN 'scheduled' ELSE status END
+      WHERE id = r.post_id;
+    END IF;
+
+    v_next := CASE WHEN r.count IS NULL OR r.occurrences_created + 1 < r.count THEN
+      public.next_occurrence_at(
+        r.freq, r.interval_count, r.by_weekday, r.by_month_day,
+        r.time_of_day, r.timezone, r.starts_on, greatest(r.next_run_at, now()), r.until_date
+      )
+    END;
+
+    -- Set next_run_at directly; the trigger only fires on rule changes
+    UPDATE public.post_recurrences
+    SET occurrences_created = occurrences_created + CASE WHEN v_stale THEN 0 ELSE 1 END,
+        next_run_at = v_next,
+        active = v_next IS NOT NULL
+    WHERE id = r.id;
+
+    IF NOT v_stale THEN
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  FOR c IN
+    SELECT ec.*, sa.platform, sa.status AS account_status
+    FROM public.evergreen_channels ec
+    JOIN public.social_accounts sa ON sa.id = ec.social_account_id
+    WHERE ec.active AND ec.next_run_at <= now() + p_lookahead
+    ORDER BY ec.next_run_at
+    FOR UPDATE OF ec SKIP LOCKED
+  LOOP
+    IF c.account_status = 'connected' AND c.next_run_at >= now() - interval '1 hour' THEN
+      -- Least recently drawn first, skipping anything drawn too recently or
+      -- still waiting on an earlier draw
+      SELECT ei.* INTO v_item
+      FROM public.evergreen_items ei
+      JOIN public.posts p ON p.id = ei.post_id
+      WHERE ei.social_account_id = c.social_account_id
+        AND ei.active
+        AND p.status IN ('approved', 'scheduled', 'published', 'failed')
+        AND (ei.last_drawn_at IS NULL OR ei.last_drawn_at <= c.next_run_at - make_interval(days => c.min_repeat_days))
+        AND NOT EXISTS (
+          SELECT 1 FROM public.post_targets pt
+          WHERE pt.post_id = ei.post_id
+            AND pt.social_account_id = ei.social_account_id
+            AND pt.status IN ('queued', 'publishing')
+        )
+      ORDER BY ei.last_drawn_at NULLS FIRST, ei.created_at
+      LIMIT 1
+      FOR UPDATE OF ei SKIP LOCKED;
+
+      IF FOUND THEN
+        WITH added AS (
+          INSERT INTO public.post_targets (post_id, social_account_id, platform, status, occurrence_at)
+          VALUES (v_item.post_id, c.social_account_id, c.platform, 'queued', c.next_run_at)
+          RETURNING id
+        )
+        INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+        SELECT id, c.next_run_at, 'queued', v_item.post_id || ':' || id
+        FROM added;
+
+        UPDATE public.posts
+        SET status = CASE WHEN status IN ('published', 'failed') THEN 'scheduled' ELSE status END
+        WHERE id = v_item.post_id;
+
+        UPDATE public.evergreen_items
+        SET last_drawn_at = c.next_run_at,
+            times_drawn = times_drawn + 1
+        WHERE id = v_item.id;
+
+        v_created := v_created + 1;
+      END IF;
+    END IF;
+
+    -- An empty pool skips the slot rather than piling up
+    UPDATE public.evergreen_channels
+    SET next_run_at = public.next_occurrence_at(
+      'daily', c.every_days, NULL, NULL, c.post_time, c.timezone,
+      (c.next_run_at AT TIME ZONE c.timezone)::date, greatest(c.next_run_at, now())
+    )
+    WHERE social_account_id = c.social_account_id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_occurrences(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.materialize_occurrences(interval) TO service_role;
@@ -0,0 +1,395 @@
+-- Weekly posting slots per channel and "Add to queue". Slots are wall times
+-- in the workspace timezone. A post added to the queue takes the next free
+-- slot on each of its channels (its targets are flagged queued_in_slot) and
+-- the slot queue is kept compact: when a queued post is removed, or the
+-- slots change, everything behind it moves up. Times are still just
+-- publish_jobs.run_at, so the scheduler doesn't know slots exist.
+
+CREATE TABLE IF NOT EXISTS public.posting_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  social_account_id UUID NOT NULL REFERENCES public.social_accounts(id) ON DELETE CASCADE,
+  -- 0 = Sunday
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  slot_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (social_account_id, weekday, slot_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_posting_slots_workspace ON public.posting_slots(workspace_id);
+
+ALTER TABLE public.post_targets ADD COLUMN IF NOT EXISTS queued_in_slot BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_post_targets_slot_queue
+  ON public.post_targets(social_account_id) WHERE queued_in_slot AND status = 'queued';
+
+ALTER TABLE public.posting_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view posting slots"
+  ON public.posting_slots FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can manage posting slots"
+  ON public.posting_slots FOR ALL
+  USING (public.is_workspace_admin_or_owner(workspace_id))
+  WITH CHECK (
+    public.is_workspace_admin_or_owner(workspace_id)
+    AND EXISTS (
+      SELECT 1 FROM public.social_accounts sa
+      WHERE sa.id = social_account_id AND sa.workspace_id = posting_slots.workspace_id
+    )
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.posting_slots TO authenticated;
+GRANT ALL ON public.posting_slots TO service_role;
+
+-- The channel's slot instants after p_from, in order
+CREATE OR REPLACE FUNCTION public.upcoming_slot_times(
+  p_social_account_id UUID,
+  p_from TIMESTAMPTZ,
+  p_limit INTEGER
+)
+RETURNS SETOF TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz TEXT;
+  v_per_week INTEGER;
+  v_start DATE;
+BEGIN
+  SELECT w.timezone INTO v_tz
+  FROM public.social_accounts sa
+  JOIN public.workspaces w ON w.id = sa.workspace_id
+  WHERE sa.id = p_social_account_id;
+
+  SELECT count(*) INTO v_per_week FROM public.posting_slots WHERE social_account_id = p_social_account_id;
+  IF v_per_week = 0 OR v_tz IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_start := (p_from AT TIME ZONE v_tz)::date;
+
+  RETURN QUERY
+  SELECT (d::date + s.slot_time) AT TIME ZONE v_tz
+  FROM generate_series(v_start, v_start + (p_limit / v_per_week + 2) * 7, interval '1 day') AS d
+  JOIN public.posting_slots s
+    ON s.social_account_id = p_social_account_id
+   AND s.weekday = extract(dow FROM d)::smallint
+  WHERE (d::date + s.slot_time) AT TIME ZONE v_tz > p_from
+  ORDER BY 1
+  LIMIT p_limit;
+END;
+$$;
+
+-- Re-packs a channel's slot queue into its upcoming slots, keeping the
+-- order. Runs as part of whatever removed or added something, under a
+-- per-channel advisory lock so concurrent adds can't take the same slot.
+CREATE OR REPLACE FUNCTION public.reflow_slot_queue(p_social_account_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_queue UUID[];
+  v_slots TIMESTAMPTZ[];
+  v_posts UUID[];
+  i INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('slot_queue:' || p_social_account_id));
+
+  SELECT array_agg(j.id ORDER BY j.run_at, j.created_at), array_agg(DISTINCT pt.post_id)
+  INTO v_queue, v_posts
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.social_account_id = p_social_account_id
+    AND pt.queued_in_slot
+    AND pt.status = 'queued'
+    AND j.status = 'queued';
+
+  IF v_queue IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM 1 FROM public.publish_jobs WHERE id = ANY (v_queue) FOR UPDATE;
+
+  SELECT array_agg(t ORDER BY t) INTO v_slots
+  FROM public.upcoming_slot_times(p_social_account_id, now() + interval '1 minute', cardinality(v_queue)) AS t;
+
+  -- Out of slots (all removed): leave the remaining times as they are
+  PERFORM set_config('app.slot_reflow', 'on', true);
+  FOR i IN 1 .. least(cardinality(v_queue), coalesce(cardinality(v_slots), 0)) LOOP
+    UPDATE public.publish_jobs SET run_at = v_slots[i] WHERE id = v_queue[i] AND run_at <> v_slots[i];
+  END LOOP;
+  PERFORM set_config('app.slot_reflow', 'off', true);
+
+  UPDATE public.posts p
+  SET scheduled_at = sub.first_run
+  FROM (
+    SELECT pt.post_id, min(j.run_at) AS first_run
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = ANY (v_posts) AND j.status IN ('queued', 'retry_scheduled')
+    GROUP BY pt.post_id
+  ) sub
+  WHERE p.id = sub.post_id AND p.scheduled_at IS DISTINCT FROM sub.first_run;
+END;
+$$;
+
+-- A job retimed by hand (edit, calendar drag) leaves the slot queue so the
+-- next reflow doesn't pull it back into a slot
+CREATE OR REPLACE FUNCTION public.pin_retimed_slot_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.run_at IS DISTINCT FROM OLD.run_at
+     AND coalesce(current_setting('app.slot_reflow', true), 'off') <> 'on' THEN
+    UPDATE public.post_targets SET queued_in_slot = false
+    WHERE id = NEW.post_target_id AND queued_in_slot;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pin_retimed_slot_job ON public.publish_jobs;
+CREATE TRIGGER pin_retimed_slot_job
+  AFTER UPDATE OF run_at ON public.publish_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.pin_retimed_slot_job();
+
+-- Removing a queued post (cancel, edit dropping a channel, delete) frees its
+-- slot; reflow the channel
+CREATE OR REPLACE FUNCTION public.reflow_after_slot_target_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.queued_in_slot AND OLD.status = 'queued' THEN
+      PERFORM public.reflow_slot_queue(OLD.social_account_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.queued_in_slot AND OLD.status = 'queued'
+     AND (NEW.status <> 'queued' OR NOT NEW.queued_in_slot) THEN
+    PERFORM public.reflow_slot_queue(NEW.social_account_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reflow_after_slot_target_change ON public.post_targets;
+CREATE TRIGGER reflow_after_slot_target_change
+  AFTER DELETE OR UPDATE OF status, queued_in_slot ON public.post_targets
+  FOR EACH ROW EXECUTE FUNCTION public.reflow_after_slot_target_change();
+
+CREATE OR REPLACE FUNCTION public.reflow_after_slot_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.reflow_slot_queue(coalesce(NEW.social_account_id, OLD.social_account_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reflow_after_slot_change ON public.posting_slots;
+CREATE TRIGGER reflow_after_slot_change
+  AFTER INSERT OR DELETE ON public.posting_slots
+  FOR EACH ROW EXECUTE FUNCTION public.reflow_after_slot_change();
+
+-- Gives each of the post's unscheduled targets the next free slot on its
+-- channel and creates its job. Returns [{target_id, social_account_id, run_at}].
+CREATE OR REPLACE FUNCTION public.add_post_to_queue(p_post_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_target RECORD;
+  v_user_id UUID;
+  v_at TIMESTAMPTZ;
+  v_result JSONB := '[]'::jsonb;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can queue this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be queued';
+  END IF;
+
+  FOR v_target IN
+    SELECT pt.id, pt.social_account_id, sa.display_name
+    FROM public.post_targets pt
+    JOIN public.social_accounts sa ON sa.id = pt.social_account_id
+    WHERE pt.post_id = p_post_id
+      AND pt.status = 'queued'
+      AND NOT EXISTS (SELECT 1 FROM public.publish_jobs j WHERE j.post_target_id = pt.id)
+    ORDER BY pt.created_at
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('slot_queue:' || v_target.social_account_id));
+
+    -- First upcoming slot no queued post on this channel holds yet
+    SELECT t INTO v_at
+    FROM public.upcoming_slot_times(v_target.social_account_id, now() + interval '1 minute', 1000) AS t
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.publish_jobs j
+      JOIN public.post_targets pt ON pt.id = j.post_target_id
+      WHERE pt.social_account_id = v_target.social_account_id
+        AND pt.queued_in_slot
+        AND j.status IN ('queued', 'retry_scheduled')
+        AND j.run_at = t
+    )
+    ORDER BY t
+    LIMIT 1;
+
+    IF v_at IS NULL THEN
+      RAISE EXCEPTION '% has no free posting slots. Add slots on the Channels page.', v_target.display_name;
+    END IF;
+
+    UPDATE public.post_targets SET queued_in_slot = true WHERE id = v_target.id;
+
+    INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+    VALUES (v_target.id, v_at, 'queued', p_post_id || ':' || v_target.id);
+
+    v_result := v_result || jsonb_build_object(
+      'target_id', v_target.id,
+      'social_account_id', v_target.social_account_id,
+      'run_at', v_at
+    );
+  END LOOP;
+
+  IF jsonb_array_length(v_result) = 0 THEN
+    RAISE EXCEPTION 'Nothing to queue: every channel on this post already has a time';
+  END IF;
+
+  UPDATE public.posts p
+  SET scheduled_at = (
+    SELECT min(j.run_at)
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id AND j.status IN ('queued', 'retry_scheduled')
+  )
+  WHERE p.id = p_post_id;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (v_post.workspace_id, v_user_id, 'queue_post', 'post', p_post_id, jsonb_build_object('slots', v_result));
+
+  RETURN v_result;
+END;
+$$;
+
+-- Cancels a scheduled post: pending jobs are dropped, unpublished targets
+-- skipped. Clients can't delete publish_jobs, and skipping slot-queued
+-- targets reflows their channels.
+CREATE OR REPLACE FUNCTION public.cancel_post(p_post_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can cancel this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('draft', 'pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be canceled';
+  END IF;
+
+  PERFORM 1
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.post_id = p_post_id
+  FOR UPDATE OF j;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id
+      AND j.status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This post is already publishing';
+  END IF;
+
+  DELETE FROM public.publish_jobs j
+  USING public.post_targets pt
+  WHERE pt.id = j.post_target_id
+    AND pt.post_id = p_post_id
+    AND j.status IN ('queued', 'retry_scheduled');
+
+  UPDATE public.post_targets
+  SET status = 'skipped'
+  WHERE post_id = p_post_id AND status = 'queued';
+
+  UPDATE public.posts SET status = 'canceled' WHERE id = p_post_id;
+
+  -- Repeating posts stop with it
+  UPDATE public.post_recurrences SET active = false WHERE post_id = p_post_id;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (v_post.workspace_id, v_user_id, 'cancel_post', 'post', p_post_id, jsonb_build_object('from_status', v_post.status));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.upcoming_slot_times(uuid, timestamptz, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reflow_slot_queue(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pin_retimed_slot_job() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reflow_after_slot_target_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reflow_after_slot_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_post_to_queue(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_post(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.upcoming_slot_times(uuid, timestamptz, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reflow_slot_queue(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.add_post_to_queue(uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_post(uuid) TO authenticated, service_role;
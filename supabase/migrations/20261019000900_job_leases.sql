@@ -0,0 +1,277 @@
+-- Lease-based claiming for publish_jobs. publish-scheduled used to select
+-- due jobs and flip them to 'processing' row by row; a run that crashed or
+-- hit the function timeout left its jobs (and their targets) in
+-- 'processing'/'publishing' for good. Jobs are now claimed in one statement
+-- with FOR UPDATE SKIP LOCKED and hold a lease the worker extends with a
+-- heartbeat. A lease that runs out puts the job back to 'retry_scheduled'
+-- (or 'failed' once it is out of attempts) on the next claim.
+
+ALTER TABLE public.publish_jobs
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_publish_jobs_lease
+  ON public.publish_jobs(lease_expires_at) WHERE status = 'processing';
+
+-- Mirrors rollupPostStatus() in publish-scheduled for targets settled here
+CREATE OR REPLACE FUNCTION public.settle_post_status(p_post_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next TIMESTAMPTZ;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.post_targets
+    WHERE post_id = p_post_id
+      AND status NOT IN ('published', 'failed', 'skipped', 'needs_user_action')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT next_run_at INTO v_next
+  FROM public.post_recurrences
+  WHERE post_id = p_post_id AND active;
+
+  IF v_next IS NOT NULL THEN
+    UPDATE public.posts SET status = 'scheduled', scheduled_at = v_next WHERE id = p_post_id;
+  ELSE
+    UPDATE public.posts
+    SET status = CASE
+      WHEN EXISTS (SELECT 1 FROM public.post_targets WHERE post_id = p_post_id AND status = 'published')
+      THEN 'published'::post_status ELSE 'failed'::post_status END
+    WHERE id = p_post_id;
+  END IF;
+END;
+$$;
+
+-- Hands expired leases back. The provider call may or may not have gone
+-- through before the worker died; we retry rather than lose the post.
+-- Rows claimed before leases existed get 15 minutes from their last update.
+CREATE OR REPLACE FUNCTION public.recover_expired_leases()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job RECORD;
+  v_count INTEGER := 0;
+  v_message TEXT;
+BEGIN
+  FOR v_job IN
+    SELECT j.id, j.attempts, j.max_attempts, j.locked_by, j.post_target_id, pt.post_id
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE j.status = 'processing'
+      AND coalesce(j.lease_expires_at, j.updated_at + interval '15 minutes') < now()
+    FOR UPDATE OF j SKIP LOCKED
+  LOOP
+    v_message := 'Publishing did not finish in time' ||
+      coalesce(' (worker ' || v_job.locked_by || ')', '');
+
+    IF v_job.attempts >= v_job.max_attempts THEN
+      UPDATE public.publish_jobs
+      SET status = 'failed',
+          locked_by = NULL,
+          lease_expires_at = NULL,
+          last_error = jsonb_build_object('message', v_message, 'code', 'lease_expired')
+      WHERE id = v_job.id;
+
+      UPDATE public.post_targets
+      SET status = 'failed', last_error_message = v_message
+      WHERE id = v_job.post_target_id AND status IN ('queued', 'publishing');
+
+      PERFORM public.settle_post_status(v_job.post_id);
+    ELSE
+      UPDATE public.publish_jobs
+      SET status = 'retry_scheduled',
+          next_retry_at = now() + make_interval(mins => power(2, v_job.attempts)::int),
+          locked_by = NULL,
+          lease_expires_at = NULL,
+          last_error = jsonb_build_object('message', v_message || '; retrying', 'code', 'lease_expired')
+      WHERE id = v_job.id;
+
+      UPDATE public.post_targets
+      SET status = 'queued', last_error_message = v_message
+      WHERE id = v_job.post_target_id AND status = 'publishing';
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Claims up to p_limit due jobs for one worker. Concurrent callers skip
+-- each other's rows instead of waiting on them. attempts on the returned
+-- rows already counts this attempt.
+CREATE OR REPLACE FUNCTION public.claim_publish_jobs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 25,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.publish_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recover_expired_leases();
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT j.id
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    JOIN public.posts p ON p.id = pt.post_id
+    -- Posts in 'draft' or 'pending_approval' keep their jobs parked
+    WHERE p.status IN ('approved', 'scheduled', 'publishing')
+      AND (
+        (j.status = 'queued' AND j.run_at <= now())
+        OR (j.status = 'retry_scheduled' AND j.next_retry_at <= now())
+      )
+    ORDER BY coalesce(j.next_retry_at, j.run_at)
+    LIMIT p_limit
+    FOR UPDATE OF j SKIP LOCKED
+  )
+  UPDATE public.publish_jobs j
+  SET status = 'processing',
+      attempts = j.attempts + 1,
+      locked_by = p_worker,
+      locked_at = now(),
+      heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  FROM due
+  WHERE j.id = due.id
+  RETURNING j.*;
+END;
+$$;
+
+-- Extends the leases a worker still holds; returns the ids it still owns
+CREATE OR REPLACE FUNCTION public.heartbeat_publish_jobs(
+  p_job_ids UUID[],
+  p_worker TEXT,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.publish_jobs
+  SET heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = ANY(p_job_ids)
+    AND status = 'processing'
+    AND locked_by = p_worker
+  RETURNING id;
+$$;
+
+-- Operator view: jobs in 'processing' whose worker has stopped
+-- heartbeating. Admins only.
+CREATE OR REPLACE FUNCTION public.list_stuck_jobs(p_workspace_id UUID)
+RETURNS TABLE (
+  job_id UUID,
+  post_id UUID,
+  post_title TEXT,
+  platform platform_type,
+  account_name TEXT,
+  attempts INTEGER,
+  max_attempts INTEGER,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  lease_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_workspace_admin_or_owner(p_workspace_id) THEN
+    RAISE EXCEPTION 'Only workspace admins can view stuck jobs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT j.id, p.id, coalesce(p.title, left(p.body_text, 120)), pt.platform, sa.display_name,
+         j.attempts, j.max_attempts, j.locked_by, j.locked_at, j.heartbeat_at, j.lease_expires_at
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  JOIN public.posts p ON p.id = pt.post_id
+  JOIN public.social_accounts sa ON sa.id = pt.social_account_id
+  WHERE p.workspace_id = p_workspace_id
+    AND j.status = 'processing'
+    AND coalesce(j.heartbeat_at, j.locked_at, j.updated_at) < now() - interval '2 minutes'
+  ORDER BY coalesce(j.heartbeat_at, j.locked_at, j.updated_at);
+END;
+$$;
+
+-- Expires a stuck job's lease now instead of waiting it out
+CREATE OR REPLACE FUNCTION public.release_stuck_job(p_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job RECORD;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT j.id, j.status, j.locked_by, p.workspace_id, p.id AS post_id INTO v_job
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  JOIN public.posts p ON p.id = pt.post_id
+  WHERE j.id = p_job_id
+  FOR UPDATE OF j;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_job.workspace_id) THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF NOT public.is_workspace_admin_or_owner(v_job.workspace_id) THEN
+    RAISE EXCEPTION 'Only workspace admins can release jobs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_job.status <> 'processing' THEN
+    RAISE EXCEPTION 'This job is no longer processing';
+  END IF;
+
+  UPDATE public.publish_jobs SET lease_expires_at = now() - interval '1 second' WHERE id = p_job_id;
+  PERFORM public.recover_expired_leases();
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (v_job.workspace_id, v_user_id, 'release_job', 'post', v_job.post_id,
+          jsonb_build_object('job_id', p_job_id, 'worker', v_job.locked_by));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_post_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recover_expired_leases() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_publish_jobs(text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_publish_jobs(uuid[], text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.list_stuck_jobs(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_stuck_job(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.settle_post_status(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recover_expired_leases() TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_publish_jobs(text, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.heartbeat_publish_jobs(uuid[], text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.list_stuck_jobs(uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.release_stuck_job(uuid) TO authenticated, service_role;
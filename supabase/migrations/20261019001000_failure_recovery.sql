@@ -0,0 +1,195 @@
+-- Recovery for failed publishes: retry selected targets (optionally with a
+-- new caption for their channels) or give up on them. Both work per target,
+-- so a post that went out on four channels and failed on one only retries
+-- the one. Job writes happen here because clients can't touch publish_jobs.
+
+CREATE INDEX IF NOT EXISTS idx_post_targets_failed
+  ON public.post_targets(post_id) WHERE status IN ('failed', 'needs_user_action');
+
+-- Queues failed/needs_user_action targets again with a fresh job. When
+-- p_content is given it becomes the caption override for those targets'
+-- channels. Non-approvers' retries go back through approval.
+CREATE OR REPLACE FUNCTION public.retry_post_targets(
+  p_target_ids UUID[],
+  p_content TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_target RECORD;
+  v_user_id UUID;
+  v_overrides JSONB;
+  v_needs_approval BOOLEAN;
+  v_retried INTEGER := 0;
+  v_post_retried INTEGER;
+  v_pending INTEGER := 0;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_content IS NOT NULL AND trim(p_content) = '' THEN
+    RAISE EXCEPTION 'The caption cannot be empty';
+  END IF;
+
+  FOR v_post IN
+    SELECT p.id, p.workspace_id, p.created_by, p.status, p.per_channel_overrides
+    FROM public.posts p
+    WHERE p.id IN (SELECT pt.post_id FROM public.post_targets pt WHERE pt.id = ANY(p_target_ids))
+    ORDER BY p.id
+    FOR UPDATE
+  LOOP
+    IF NOT public.is_workspace_member(v_post.workspace_id) THEN
+      RAISE EXCEPTION 'Post not found';
+    END IF;
+
+    IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+      RAISE EXCEPTION 'Only the author or a workspace admin can retry this post'
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF v_post.status = 'canceled' THEN
+      RAISE EXCEPTION 'Canceled posts cannot be retried';
+    END IF;
+
+    v_overrides := coalesce(v_post.per_channel_overrides, '{}'::jsonb);
+    v_post_retried := 0;
+
+    FOR v_target IN
+      SELECT pt.id, pt.social_account_id
+      FROM public.post_targets pt
+      WHERE pt.post_id = v_post.id
+        AND pt.id = ANY(p_target_ids)
+        AND pt.status IN ('failed', 'needs_user_action')
+      FOR UPDATE
+    LOOP
+      IF p_content IS NOT NULL THEN
+        v_overrides := jsonb_set(
+          v_overrides || jsonb_build_object('accounts', coalesce(v_overrides->'accounts', '{}'::jsonb)),
+          ARRAY['accounts', v_target.social_account_id::text],
+          coalesce(v_overrides->'accounts'->(v_target.social_account_id::text), '{}'::jsonb)
+            || jsonb_build_object('content', p_content)
+        );
+      END IF;
+
+      -- The old job is spent; a new key keeps the retry from colliding with it
+      DELETE FROM public.publish_jobs WHERE post_target_id = v_target.id AND status IN ('failed', 'done');
+
+      INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+      VALUES (
+        v_target.id,
+        now(),
+        'queued',
+        v_post.id || ':' || v_target.id || ':retry:' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint
+      );
+
+      -- Retries go out now, not into the channel's slot queue
+      UPDATE public.post_targets
+      SET status = 'queued', last_error_message = NULL, last_error_code = NULL, queued_in_slot = false
+      WHERE id = v_target.id;
+
+      v_post_retried := v_post_retried + 1;
+    END LOOP;
+
+    CONTINUE WHEN v_post_retried = 0;
+    v_retried := v_retried + v_post_retried;
+
+    v_needs_approval := NOT public.can_approve_posts(v_post.workspace_id);
+
+    UPDATE public.posts
+    SET per_channel_overrides = v_overrides,
+        status = CASE
+          WHEN v_needs_approval THEN 'pending_approval'
+          WHEN status IN ('scheduled', 'approved') THEN status
+          ELSE 'scheduled'
+        END::post_status,
+        scheduled_at = CASE WHEN status IN ('published', 'failed') THEN now() ELSE scheduled_at END
+    WHERE id = v_post.id;
+
+    IF v_needs_approval THEN
+      v_pending := v_pending + 1;
+      IF NOT EXISTS (SELECT 1 FROM public.approvals WHERE post_id = v_post.id AND status = 'pending') THEN
+        INSERT INTO public.approvals (post_id, requested_by, status)
+        VALUES (v_post.id, v_user_id, 'pending');
+      END IF;
+    END IF;
+
+    INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+    VALUES (
+      v_post.workspace_id, v_user_id, 'retry_targets', 'post', v_post.id,
+      jsonb_build_object('target_ids', to_jsonb(p_target_ids), 'caption_edited', p_content IS NOT NULL)
+    );
+  END LOOP;
+
+  IF v_retried = 0 THEN
+    RAISE EXCEPTION 'Nothing to retry: the selected channels are no longer failed';
+  END IF;
+
+  RETURN jsonb_build_object('retried', v_retried, 'pending_approval', v_pending);
+END;
+$$;
+
+-- Gives up on failed targets; the post then settles as published (if any
+-- channel made it) or failed
+CREATE OR REPLACE FUNCTION public.skip_post_targets(p_target_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+  v_count INTEGER;
+  v_skipped INTEGER := 0;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_post IN
+    SELECT p.id, p.workspace_id, p.created_by
+    FROM public.posts p
+    WHERE p.id IN (SELECT pt.post_id FROM public.post_targets pt WHERE pt.id = ANY(p_target_ids))
+    ORDER BY p.id
+    FOR UPDATE
+  LOOP
+    IF NOT public.is_workspace_member(v_post.workspace_id) THEN
+      RAISE EXCEPTION 'Post not found';
+    END IF;
+
+    IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+      RAISE EXCEPTION 'Only the author or a workspace admin can change this post'
+        USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.post_targets
+    SET status = 'skipped'
+    WHERE post_id = v_post.id
+      AND id = ANY(p_target_ids)
+      AND status IN ('failed', 'needs_user_action');
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    CONTINUE WHEN v_count = 0;
+    v_skipped := v_skipped + v_count;
+
+    PERFORM public.settle_post_status(v_post.id);
+
+    INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+    VALUES (v_post.workspace_id, v_user_id, 'skip_targets', 'post', v_post.id, jsonb_build_object('target_ids', to_jsonb(p_target_ids)));
+  END LOOP;
+
+  RETURN v_skipped;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retry_post_targets(uuid[], text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.skip_post_targets(uuid[]) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.retry_post_targets(uuid[], text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.skip_post_targets(uuid[]) TO authenticated, service_role;
@@ -0,0 +1,21 @@
+-- "Publish now" goes through publish_jobs like any scheduled post, so large
+-- uploads run in the worker instead of inside the browser's request. The
+-- composer follows each channel over Realtime; publish_phase says where a
+-- running publish is (NULL when it isn't running).
+
+ALTER TABLE public.post_targets
+  ADD COLUMN IF NOT EXISTS publish_phase TEXT
+    CHECK (publish_phase IN ('downloading', 'uploading', 'processing'));
+
+-- Realtime only delivers changes for tables in its publication; members still
+-- only see rows their RLS policies allow
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'post_targets'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.post_targets;
+  END IF;
+END;
+$$;
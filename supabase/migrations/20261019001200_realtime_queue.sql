@@ -0,0 +1,18 @@
+-- Live Queue and Dashboard: the app subscribes to changes on posts and their
+-- jobs (post_targets joined the publication in 20261019001100). Realtime
+-- applies each table's SELECT policies, so members only hear about their
+-- own workspaces.
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['posts', 'publish_jobs'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,299 @@
+-- Per-platform API quota budgeting. quota_budgets holds what each platform
+-- allows per day, either for our whole app (YouTube Data API units) or per
+-- connected account (posting caps). quota_usage is the ledger of what has
+-- been spent in the current window. The scheduler reserves before every
+-- publish and parks jobs that would go over until the window resets.
+-- Windows are calendar days in the platform's reset timezone; Instagram and
+-- Threads count a rolling 24h, which a calendar day approximates.
+
+CREATE TABLE IF NOT EXISTS public.quota_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform platform_type NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('app', 'account')),
+  unit TEXT NOT NULL CHECK (unit IN ('units', 'posts')),
+  daily_limit INTEGER NOT NULL CHECK (daily_limit > 0),
+  -- what one publish costs in unit
+  cost_per_publish INTEGER NOT NULL DEFAULT 1 CHECK (cost_per_publish > 0),
+  reset_timezone TEXT NOT NULL DEFAULT 'UTC',
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (platform, scope)
+);
+
+CREATE TABLE IF NOT EXISTS public.quota_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.quota_budgets(id) ON DELETE CASCADE,
+  -- NULL for app-wide budgets
+  social_account_id UUID REFERENCES public.social_accounts(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0,
+  -- the platform said we're out, whatever our count says
+  exhausted BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (budget_id, social_account_id, window_start)
+);
+
+-- Only the scheduler (service role) and the functions below touch these
+ALTER TABLE public.quota_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_quota_budgets_updated_at BEFORE UPDATE ON public.quota_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.quota_budgets (platform, scope, unit, daily_limit, cost_per_publish, reset_timezone, note) VALUES
+  ('youtube', 'app', 'units', 10000, 1600, 'America/Los_Angeles', 'YouTube Data API default quota; videos.insert costs 1600 units'),
+  ('x', 'account', 'posts', 100, 1, 'UTC', 'POST /2/tweets per-user cap on the Basic tier'),
+  ('tiktok', 'account', 'posts', 15, 1, 'UTC', 'Content Posting API per-creator daily cap'),
+  ('instagram', 'account', 'posts', 50, 1, 'UTC', 'content_publishing_limit per 24 hours'),
+  ('threads', 'account', 'posts', 250, 1, 'UTC', 'Threads API posts per profile per 24 hours')
+ON CONFLICT (platform, scope) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.quota_window_start(p_timezone TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT date_trunc('day', now() AT TIME ZONE p_timezone) AT TIME ZONE p_timezone;
+$$;
+
+-- When a publish to this account could next go through, or NULL if every
+-- budget that applies has room for one more now
+CREATE OR REPLACE FUNCTION public.quota_blocked_until(p_platform platform_type, p_social_account_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max(public.quota_window_start(b.reset_timezone) + interval '1 day')
+  FROM public.quota_budgets b
+  LEFT JOIN public.quota_usage u
+    ON u.budget_id = b.id
+   AND u.social_account_id IS NOT DISTINCT FROM (CASE WHEN b.scope = 'account' THEN p_social_account_id END)
+   AND u.window_start = public.quota_window_start(b.reset_timezone)
+  WHERE b.platform = p_platform
+    AND (coalesce(u.exhausted, false) OR coalesce(u.used, 0) + b.cost_per_publish > b.daily_limit);
+$$;
+
+-- Charges one publish against every budget for the platform, all or
+-- nothing. Returns NULL when charged, otherwise when to try again.
+CREATE OR REPLACE FUNCTION public.reserve_quota(p_platform platform_type, p_social_account_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget RECORD;
+  v_usage RECORD;
+  v_window TIMESTAMPTZ;
+  v_account UUID;
+  v_blocked_until TIMESTAMPTZ;
+BEGIN
+  FOR v_budget IN
+    SELECT * FROM public.quota_budgets WHERE platform = p_platform ORDER BY id
+  LOOP
+    v_window := public.quota_window_start(v_budget.reset_timezone);
+    v_account := CASE WHEN v_budget.scope = 'account' THEN p_social_account_id END;
+
+    INSERT INTO public.quota_usage (budget_id, social_account_id, window_start)
+    VALUES (v_budget.id, v_account, v_window)
+    ON CONFLICT DO NOTHING;
+
+    SELECT * INTO v_usage
+    FROM public.quota_usage
+    WHERE budget_id = v_budget.id
+      AND social_account_id IS NOT DISTINCT FROM v_account
+      AND window_start = v_window
+    FOR UPDATE;
+
+    IF v_usage.exhausted OR v_usage.used + v_budget.cost_per_publish > v_budget.daily_limit THEN
+      v_blocked_until := greatest(v_blocked_until, v_window + interval '1 day');
+    END IF;
+  END LOOP;
+
+  IF v_blocked_until IS NOT NULL THEN
+    RETURN v_blocked_until;
+  END IF;
+
+  UPDATE public.quota_usage u
+  SET used = u.used + b.cost_per_publish,
+      updated_at = now()
+  FROM public.quota_budgets b
+  WHERE u.budget_id = b.id
+    AND b.platform = p_platform
+    AND u.social_account_id IS NOT DISTINCT FROM (CASE WHEN b.scope = 'account' THEN p_social_account_id END)
+    AND u.window_start = public.quota_window_start(b.reset_timezone);
+
+  RETURN NULL;
+END;
+$$;
+
+-- The platform rate-limited us until p_until: any budget whose window ends
+-- by then is spent, whatever our ledger says (quota also goes on calls we
+-- don't make, e.g. from other tools using the same app)
+CREATE OR REPLACE FUNCTION public.exhaust_quota(
+  p_platform platform_type,
+  p_social_account_id UUID,
+  p_until TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.quota_usage (budget_id, social_account_id, window_start, used, exhausted)
+  SELECT b.id,
+         CASE WHEN b.scope = 'account' THEN p_social_account_id END,
+         public.quota_window_start(b.reset_timezone),
+         0,
+         true
+  FROM public.quota_budgets b
+  WHERE b.platform = p_platform
+    AND public.quota_window_start(b.reset_timezone) + interval '1 day' <= p_until
+  ON CONFLICT (budget_id, social_account_id, window_start)
+  DO UPDATE SET exhausted = true, updated_at = now();
+$$;
+
+-- Due jobs that can't go out before their budget resets wait for the reset
+-- instead of being claimed. Waiting doesn't count as an attempt.
+CREATE OR REPLACE FUNCTION public.defer_over_quota_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.publish_jobs j
+  SET status = 'retry_scheduled',
+      next_retry_at = q.blocked_until,
+      last_error = jsonb_build_object(
+        'message', format('Waiting for the %s quota to reset', pt.platform),
+        'code', 'rate_limited',
+        'retryAt', q.blocked_until
+      ),
+      updated_at = now()
+  FROM public.post_targets pt
+  JOIN public.posts p ON p.id = pt.post_id
+  CROSS JOIN LATERAL (
+    SELECT public.quota_blocked_until(pt.platform, pt.social_account_id) AS blocked_until
+  ) q
+  WHERE pt.id = j.post_target_id
+    AND p.status IN ('approved', 'scheduled', 'publishing')
+    AND (
+      (j.status = 'queued' AND j.run_at <= now())
+      OR (j.status = 'retry_scheduled' AND j.next_retry_at <= now())
+    )
+    AND q.blocked_until IS NOT NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_publish_jobs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 25,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.publish_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recover_expired_leases();
+  PERFORM public.defer_over_quota_jobs();
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT j.id
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    JOIN public.posts p ON p.id = pt.post_id
+    -- Posts in 'draft' or 'pending_approval' keep their jobs parked
+    WHERE p.status IN ('approved', 'scheduled', 'publishing')
+      AND (
+        (j.status = 'queued' AND j.run_at <= now())
+        OR (j.status = 'retry_scheduled' AND j.next_retry_at <= now())
+      )
+    ORDER BY coalesce(j.next_retry_at, j.run_at)
+    LIMIT p_limit
+    FOR UPDATE OF j SKIP LOCKED
+  )
+  UPDATE public.publish_jobs j
+  SET status = 'processing',
+      attempts = j.attempts + 1,
+      locked_by = p_worker,
+      locked_at = now(),
+      heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  FROM due
+  WHERE j.id = due.id
+  RETURNING j.*;
+END;
+$$;
+
+-- App admin view: every budget with what's left in its current window.
+-- Account budgets list only accounts that have published this window.
+CREATE OR REPLACE FUNCTION public.get_quota_status()
+RETURNS TABLE (
+  budget_id UUID,
+  platform platform_type,
+  scope TEXT,
+  unit TEXT,
+  daily_limit INTEGER,
+  cost_per_publish INTEGER,
+  note TEXT,
+  social_account_id UUID,
+  account_name TEXT,
+  workspace_name TEXT,
+  used INTEGER,
+  exhausted BOOLEAN,
+  resets_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_app_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only app admins can view quotas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id, b.platform, b.scope, b.unit, b.daily_limit, b.cost_per_publish, b.note,
+         u.social_account_id, sa.display_name, w.name,
+         coalesce(u.used, 0), coalesce(u.exhausted, false),
+         public.quota_window_start(b.reset_timezone) + interval '1 day'
+  FROM public.quota_budgets b
+  LEFT JOIN public.quota_usage u
+    ON u.budget_id = b.id
+   AND u.window_start = public.quota_window_start(b.reset_timezone)
+  LEFT JOIN public.social_accounts sa ON sa.id = u.social_account_id
+  LEFT JOIN public.workspaces w ON w.id = sa.workspace_id
+  WHERE b.scope = 'app' OR u.id IS NOT NULL
+  ORDER BY b.platform, b.scope, coalesce(u.used, 0) DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quota_window_start(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.quota_blocked_until(platform_type, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_quota(platform_type, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.exhaust_quota(platform_type, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.defer_over_quota_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_publish_jobs(text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_quota_status() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.quota_window_start(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.quota_blocked_until(platform_type, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_quota(platform_type, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.exhaust_quota(platform_type, uuid, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public.defer_over_quota_jobs() TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_publish_jobs(text, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_quota_status() TO authenticated, service_role;
@@ -0,0 +1,31 @@
+-- Resumable platform uploads. Publishers now stream a video from storage a
+-- chunk at a time, and record how far they got here after every chunk. A
+-- run that stops at its time budget, or dies mid-upload, leaves the session
+-- behind and the next run for the same target carries on from bytes_sent
+-- instead of starting over.
+
+CREATE TABLE IF NOT EXISTS public.upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_target_id UUID NOT NULL UNIQUE REFERENCES public.post_targets(id) ON DELETE CASCADE,
+  platform platform_type NOT NULL,
+  -- size of the file being uploaded; a different file can't reuse the session
+  total_bytes BIGINT NOT NULL CHECK (total_bytes > 0),
+  bytes_sent BIGINT NOT NULL DEFAULT 0 CHECK (bytes_sent >= 0),
+  -- YouTube session URI / TikTok upload_url
+  upload_url TEXT,
+  -- TikTok publish_id / X media id / LinkedIn video URN
+  remote_id TEXT,
+  -- anything else the platform needs to continue (LinkedIn part URLs and
+  -- ETags, X segment index, chunk size)
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- when the platform forgets the session
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only the scheduler (service role) reads and writes sessions
+ALTER TABLE public.upload_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_upload_sessions_updated_at BEFORE UPDATE ON public.upload_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,96 @@
+-- Workspace plans and their upload limits. The composer now uploads over TUS
+-- (resumable), so the size cap comes from the workspace's plan rather than a
+-- flat 100MB. The client checks the same limits before uploading (see
+-- src/lib/plans.ts); registering an asset over the limit is refused here.
+
+ALTER TABLE public.workspaces
+  ADD COLUMN IF NOT EXISTS plan TEXT NOT NULL DEFAULT 'free'
+    CHECK (plan IN ('free', 'pro', 'business'));
+
+CREATE OR REPLACE FUNCTION public.plan_upload_limit(p_plan text)
+RETURNS bigint
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_plan
+    WHEN 'business' THEN 4096::bigint * 1024 * 1024
+    WHEN 'pro' THEN 2048::bigint * 1024 * 1024
+    ELSE 500::bigint * 1024 * 1024
+  END;
+$$;
+
+-- Workspace admins can update their workspace, but not its plan
+CREATE OR REPLACE FUNCTION public.guard_workspace_plan()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.plan IS DISTINCT FROM OLD.plan
+     AND auth.uid() IS NOT NULL
+     AND NOT public.is_app_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only app admins can change a workspace plan'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_workspace_plan ON public.workspaces;
+CREATE TRIGGER guard_workspace_plan BEFORE UPDATE OF plan ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION public.guard_workspace_plan();
+
+CREATE OR REPLACE FUNCTION public.enforce_asset_upload_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan text;
+BEGIN
+  SELECT plan INTO v_plan FROM public.workspaces WHERE id = NEW.workspace_id;
+  IF NEW.file_size_bytes > public.plan_upload_limit(v_plan) THEN
+    RAISE EXCEPTION 'File is larger than the % plan allows', coalesce(v_plan, 'free')
+      USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_asset_upload_limit ON public.assets;
+CREATE TRIGGER enforce_asset_upload_limit BEFORE INSERT ON public.assets
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_asset_upload_limit();
+
+-- App admins aren't members of the workspaces they manage, so the Admin page
+-- changes plans through this instead of an UPDATE
+CREATE OR REPLACE FUNCTION public.set_workspace_plan(p_workspace_id uuid, p_plan text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_app_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only app admins can change a workspace plan'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.workspaces SET plan = p_plan WHERE id = p_workspace_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workspace not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- The bucket cap has to cover the largest plan
+UPDATE storage.buckets
+SET file_size_limit = 4096::bigint * 1024 * 1024
+WHERE id = 'social-media';
+
+REVOKE EXECUTE ON FUNCTION public.guard_workspace_plan() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enforce_asset_upload_limit() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_workspace_plan(uuid, text) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.set_workspace_plan(uuid, text) TO authenticated, service_role;
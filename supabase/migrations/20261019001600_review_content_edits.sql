@@ -0,0 +1,52 @@
+-- Content edits go back through review. enforce_post_approval() only watched
+-- status, so an editor could PATCH the caption, link, media or per-channel
+-- overrides of an approved or scheduled post and have it publish unreviewed.
+-- Now a non-approver's content change sends the post back to
+-- 'pending_approval' (which parks its jobs) and opens an approval request,
+-- the same as update_scheduled_post() does for edits made in the Queue.
+
+CREATE OR REPLACE FUNCTION public.enforce_post_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.can_approve_posts(NEW.workspace_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('approved', 'scheduled', 'publishing', 'published')
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    RAISE EXCEPTION 'Posts must be approved before they can be scheduled or published'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.status IN ('approved', 'scheduled')
+     AND NEW.status = OLD.status
+     AND (NEW.body_text IS DISTINCT FROM OLD.body_text
+          OR NEW.title IS DISTINCT FROM OLD.title
+          OR NEW.link_url IS DISTINCT FROM OLD.link_url
+          OR NEW.asset_id IS DISTINCT FROM OLD.asset_id
+          OR NEW.per_channel_overrides IS DISTINCT FROM OLD.per_channel_overrides) THEN
+    NEW.status := 'pending_approval';
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.approvals WHERE post_id = NEW.id AND status = 'pending'
+    ) THEN
+      INSERT INTO public.approvals (post_id, requested_by, status)
+      VALUES (NEW.id, auth.uid(), 'pending');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_post_approval() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_post_approval ON public.posts;
+CREATE TRIGGER enforce_post_approval
+  BEFORE INSERT OR UPDATE OF status, body_text, title, link_url, asset_id, per_channel_overrides ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_post_approval();
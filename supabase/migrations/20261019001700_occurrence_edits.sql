@@ -0,0 +1,416 @@
+-- Edits to a repeating post touch one occurrence. reschedule_post() and
+-- update_scheduled_post() retimed every pending job of the post, so moving
+-- tomorrow's occurrence also moved the ones already materialized after it.
+-- Both now act on the occurrence posts.scheduled_at points at: the targets
+-- stamped with that occurrence_at, or the unstamped first occurrence.
+--
+-- update_scheduled_post() also takes the repeat rule, so the post and its
+-- rule are saved in one transaction. Ending the rule skips the occurrences
+-- already materialized after the edited one, the same way cancel_post()
+-- does, instead of leaving them to publish.
+
+CREATE OR REPLACE FUNCTION public.reschedule_post(
+  p_post_id UUID,
+  p_scheduled_at TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+  v_occurrence TIMESTAMPTZ;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status, scheduled_at INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can reschedule this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be moved';
+  END IF;
+
+  IF p_scheduled_at < now() + interval '30 seconds' THEN
+    RAISE EXCEPTION 'Pick a time at least 30 seconds in the future';
+  END IF;
+
+  -- NULL when scheduled_at is the first occurrence (or the post doesn't repeat)
+  SELECT occurrence_at INTO v_occurrence
+  FROM public.post_targets
+  WHERE post_id = p_post_id AND occurrence_at = v_post.scheduled_at
+  LIMIT 1;
+
+  IF p_scheduled_at IS DISTINCT FROM v_occurrence AND EXISTS (
+    SELECT 1 FROM public.post_targets
+    WHERE post_id = p_post_id AND occurrence_at = p_scheduled_at
+  ) THEN
+    RAISE EXCEPTION 'Another occurrence of this post is already at that time';
+  END IF;
+
+  -- Lock the jobs so publish-scheduled can't claim one between the check
+  -- and the update; its claim is a conditional UPDATE on status.
+  PERFORM 1
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.post_id = p_post_id
+    AND pt.occurrence_at IS NOT DISTINCT FROM v_occurrence
+  FOR UPDATE OF j;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id
+      AND pt.occurrence_at IS NOT DISTINCT FROM v_occurrence
+      AND j.status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This post is already publishing';
+  END IF;
+
+  UPDATE public.posts
+  SET scheduled_at = p_scheduled_at
+  WHERE id = p_post_id;
+
+  UPDATE public.publish_jobs j
+  SET run_at = p_scheduled_at,
+      next_retry_at = CASE WHEN j.status = 'retry_scheduled' THEN p_scheduled_at ELSE j.next_retry_at END
+  FROM public.post_targets pt
+  WHERE pt.id = j.post_target_id
+    AND pt.post_id = p_post_id
+    AND pt.occurrence_at IS NOT DISTINCT FROM v_occurrence
+    AND j.status IN ('queued', 'retry_scheduled');
+
+  -- A materialized occurrence moves with its stamp, so scheduled_at still
+  -- finds it next time
+  IF v_occurrence IS NOT NULL THEN
+    UPDATE public.post_targets
+    SET occurrence_at = p_scheduled_at
+    WHERE post_id = p_post_id
+      AND occurrence_at = v_occurrence
+      AND status <> 'published';
+  END IF;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    'reschedule_post',
+    'post',
+    p_post_id,
+    jsonb_build_object('from', v_post.scheduled_at, 'to', p_scheduled_at, 'occurrence', v_occurrence)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reschedule_post(uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reschedule_post(uuid, timestamptz) TO authenticated, service_role;
+
+-- p_recurrence holds post_recurrences columns (freq, interval_count,
+-- by_weekday, by_month_day, time_of_day, timezone, starts_on, count,
+-- until_date) and replaces the rule; the rule's channels are p_account_ids.
+-- p_end_recurrence removes it. Leaving both unset keeps the rule as is.
+DROP FUNCTION IF EXISTS public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz, text);
+
+CREATE OR REPLACE FUNCTION public.update_scheduled_post(
+  p_post_id UUID,
+  p_body_text TEXT,
+  p_link_url TEXT,
+  p_asset_id UUID,
+  p_per_channel_overrides JSONB,
+  p_scheduled_at TIMESTAMPTZ,
+  p_account_ids UUID[],
+  p_expected_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_recurrence JSONB DEFAULT NULL,
+  p_end_recurrence BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+  v_status public.post_status;
+  v_occurrence TIMESTAMPTZ;
+  v_new_occurrence TIMESTAMPTZ;
+  v_removed INT;
+  v_added INT;
+  v_ended INT := 0;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status, scheduled_at, updated_at INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can edit this post'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can be edited';
+  END IF;
+
+  -- Someone else saved (or the post started publishing) since the editor loaded
+  IF p_expected_updated_at IS NOT NULL AND v_post.updated_at <> p_expected_updated_at THEN
+    RAISE EXCEPTION 'This post was changed since you opened it. Reload and try again.'
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF coalesce(trim(p_body_text), '') = '' THEN
+    RAISE EXCEPTION 'Content required';
+  END IF;
+
+  IF p_scheduled_at < now() + interval '30 seconds' THEN
+    RAISE EXCEPTION 'Pick a time at least 30 seconds in the future';
+  END IF;
+
+  IF coalesce(cardinality(p_account_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one channel';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_account_ids) AS a(id)
+    LEFT JOIN public.social_accounts sa
+      ON sa.id = a.id AND sa.workspace_id = v_post.workspace_id
+    WHERE sa.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the selected channels is not in this workspace';
+  END IF;
+
+  IF p_asset_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.assets
+    WHERE id = p_asset_id AND workspace_id = v_post.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'Media not found';
+  END IF;
+
+  -- NULL when scheduled_at is the first occurrence (or the post doesn't repeat)
+  SELECT occurrence_at INTO v_occurrence
+  FROM public.post_targets
+  WHERE post_id = p_post_id AND occurrence_at = v_post.scheduled_at
+  LIMIT 1;
+  v_new_occurrence := CASE WHEN v_occurrence IS NOT NULL THEN p_scheduled_at END;
+
+  IF p_scheduled_at IS DISTINCT FROM v_occurrence AND EXISTS (
+    SELECT 1 FROM public.post_targets
+    WHERE post_id = p_post_id AND occurrence_at = p_scheduled_at
+  ) THEN
+    RAISE EXCEPTION 'Another occurrence of this post is already at that time';
+  END IF;
+
+  -- Lock the jobs so publish-scheduled can't claim one between the check
+  -- and the reconcile; its claim is a conditional UPDATE on status.
+  PERFORM 1
+  FROM public.publish_jobs j
+  JOIN public.post_targets pt ON pt.id = j.post_target_id
+  WHERE pt.post_id = p_post_id
+    AND pt.occurrence_at IS NOT DISTINCT FROM v_occurrence
+  FOR UPDATE OF j;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.publish_jobs j
+    JOIN public.post_targets pt ON pt.id = j.post_target_id
+    WHERE pt.post_id = p_post_id
+      AND pt.occurrence_at IS NOT DISTINCT FROM v_occurrence
+      AND j.status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This post is already publishing';
+  END IF;
+
+  -- Contributors' edits go back through review
+  v_status := v_post.status;
+  IF v_status IN ('approved', 'scheduled') AND NOT public.can_approve_posts(v_post.workspace_id) THEN
+    v_status := 'pending_approval';
+  END IF;
+
+  UPDATE public.posts
+  SET body_text = p_body_text,
+      title = left(split_part(p_body_text, E'\n', 1), 120),
+      link_url = nullif(p_link_url, ''),
+      asset_id = p_asset_id,
+      per_channel_overrides = coalesce(p_per_channel_overrides, '{}'::jsonb),
+      scheduled_at = p_scheduled_at,
+      timezone = coalesce(p_timezone, timezone),
+      status = v_status
+  WHERE id = p_post_id;
+
+  IF v_status = 'pending_approval' AND NOT EXISTS (
+    SELECT 1 FROM public.approvals WHERE post_id = p_post_id AND status = 'pending'
+  ) THEN
+    INSERT INTO public.approvals (post_id, requested_by, status)
+    VALUES (p_post_id, v_user_id, 'pending');
+  END IF;
+
+  -- Channels dropped from this occurrence. Anything already published stays
+  -- as a record of what went out.
+  WITH removed AS (
+    DELETE FROM public.post_targets
+    WHERE post_id = p_post_id
+      AND occurrence_at IS NOT DISTINCT FROM v_occurrence
+      AND NOT (social_account_id = ANY (p_account_ids))
+      AND status <> 'published'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_removed FROM removed;
+
+  -- Channels that stay keep their jobs, moved to the new time
+  UPDATE public.publish_jobs j
+  SET run_at = p_scheduled_at,
+      next_retry_at = CASE WHEN j.status = 'retry_scheduled' THEN p_scheduled_at ELSE j.next_retry_at END
+  FROM public.post_targets pt
+  WHERE pt.id = j.post_target_id
+    AND pt.post_id = p_post_id
+    AND pt.occurrence_at IS NOT DISTINCT FROM v_occurrence
+    AND j.status IN ('queued', 'retry_scheduled');
+
+  -- A materialized occurrence moves with its stamp, so scheduled_at still
+  -- finds it next time
+  IF v_occurrence IS NOT NULL THEN
+    UPDATE public.post_targets
+    SET occurrence_at = v_new_occurrence
+    WHERE post_id = p_post_id
+      AND occurrence_at = v_occurrence
+      AND status <> 'published';
+  END IF;
+
+  -- Channels added to this occurrence
+  WITH added AS (
+    INSERT INTO public.post_targets (post_id, social_account_id, platform, status, occurrence_at)
+    SELECT p_post_id, sa.id, sa.platform, 'queued', v_new_occurrence
+    FROM public.social_accounts sa
+    WHERE sa.id = ANY (p_account_ids)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.post_targets pt
+        WHERE pt.post_id = p_post_id
+          AND pt.social_account_id = sa.id
+          AND pt.occurrence_at IS NOT DISTINCT FROM v_new_occurrence
+      )
+    RETURNING id
+  ), jobs AS (
+    INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+    SELECT id, p_scheduled_at, 'queued', p_post_id || ':' || id
+    FROM added
+    RETURNING id
+  )
+  SELECT count(*) INTO v_added FROM jobs;
+
+  -- After the post update, so set_recurrence_next_run() counts from the
+  -- new scheduled_at
+  IF p_recurrence IS NOT NULL THEN
+    INSERT INTO public.post_recurrences (
+      post_id, workspace_id, freq, interval_count, by_weekday, by_month_day,
+      time_of_day, timezone, starts_on, count, until_date, social_account_ids, active, created_by
+    )
+    VALUES (
+      p_post_id,
+      v_post.workspace_id,
+      p_recurrence->>'freq',
+      coalesce((p_recurrence->>'interval_count')::int, 1),
+      CASE WHEN jsonb_typeof(p_recurrence->'by_weekday') = 'array' THEN
+        ARRAY(SELECT d::smallint FROM jsonb_array_elements_text(p_recurrence->'by_weekday') AS d)
+      END,
+      (p_recurrence->>'by_month_day')::smallint,
+      (p_recurrence->>'time_of_day')::time,
+      coalesce(p_recurrence->>'timezone', p_timezone),
+      (p_recurrence->>'starts_on')::date,
+      (p_recurrence->>'count')::int,
+      (p_recurrence->>'until_date')::date,
+      p_account_ids,
+      true,
+      v_user_id
+    )
+    ON CONFLICT (post_id) DO UPDATE
+    SET freq = EXCLUDED.freq,
+        interval_count = EXCLUDED.interval_count,
+        by_weekday = EXCLUDED.by_weekday,
+        by_month_day = EXCLUDED.by_month_day,
+        time_of_day = EXCLUDED.time_of_day,
+        timezone = EXCLUDED.timezone,
+        starts_on = EXCLUDED.starts_on,
+        count = EXCLUDED.count,
+        until_date = EXCLUDED.until_date,
+        social_account_ids = EXCLUDED.social_account_ids,
+        active = true;
+  ELSIF p_end_recurrence THEN
+    DELETE FROM public.post_recurrences WHERE post_id = p_post_id;
+
+    -- Occurrences materialized after this one would still publish
+    DELETE FROM public.publish_jobs j
+    USING public.post_targets pt
+    WHERE pt.id = j.post_target_id
+      AND pt.post_id = p_post_id
+      AND pt.occurrence_at IS NOT NULL
+      AND pt.occurrence_at IS DISTINCT FROM v_new_occurrence
+      AND pt.occurrence_at > now()
+      AND j.status IN ('queued', 'retry_scheduled');
+
+    WITH ended AS (
+      UPDATE public.post_targets
+      SET status = 'skipped'
+      WHERE post_id = p_post_id
+        AND occurrence_at IS NOT NULL
+        AND occurrence_at IS DISTINCT FROM v_new_occurrence
+        AND occurrence_at > now()
+        AND status = 'queued'
+      RETURNING id
+    )
+    SELECT count(*) INTO v_ended FROM ended;
+  END IF;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    'edit_post',
+    'post',
+    p_post_id,
+    jsonb_build_object(
+      'from', v_post.scheduled_at,
+      'to', p_scheduled_at,
+      'occurrence', v_occurrence,
+      'added', v_added,
+      'removed', v_removed,
+      'status', v_status,
+      'recurrence', CASE WHEN p_recurrence IS NOT NULL THEN 'saved' WHEN p_end_recurrence THEN 'ended' END,
+      'occurrences_skipped', v_ended
+    )
+  );
+
+  RETURN jsonb_build_object('status', v_status, 'added', v_added, 'removed', v_removed, 'skipped', v_ended);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz, text, jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_scheduled_post(uuid, text, text, uuid, jsonb, timestamptz, uuid[], timestamptz, text, jsonb, boolean) TO authenticated, service_role;
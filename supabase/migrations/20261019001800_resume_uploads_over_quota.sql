@@ -0,0 +1,43 @@
+-- A target with an upload session already paid for the upload it started;
+-- finishing it only sends the rest of the bytes. defer_over_quota_jobs()
+-- parked those jobs until the budget reset too, by which time YouTube and
+-- TikTok had expired the session and the upload started over, costing the
+-- quota again. They're left for publish-scheduled to pick up.
+
+CREATE OR REPLACE FUNCTION public.defer_over_quota_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.publish_jobs j
+  SET status = 'retry_scheduled',
+      next_retry_at = q.blocked_until,
+      last_error = jsonb_build_object(
+        'message', format('Waiting for the %s quota to reset', pt.platform),
+        'code', 'rate_limited',
+        'retryAt', q.blocked_until
+      ),
+      updated_at = now()
+  FROM public.post_targets pt
+  JOIN public.posts p ON p.id = pt.post_id
+  CROSS JOIN LATERAL (
+    SELECT public.quota_blocked_until(pt.platform, pt.social_account_id) AS blocked_until
+  ) q
+  WHERE pt.id = j.post_target_id
+    AND p.status IN ('approved', 'scheduled', 'publishing')
+    AND (
+      (j.status = 'queued' AND j.run_at <= now())
+      OR (j.status = 'retry_scheduled' AND j.next_retry_at <= now())
+    )
+    AND NOT EXISTS (SELECT 1 FROM public.upload_sessions us WHERE us.post_target_id = pt.id)
+    AND q.blocked_until IS NOT NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.defer_over_quota_jobs() FROM PUBLIC, anon, authenticated;
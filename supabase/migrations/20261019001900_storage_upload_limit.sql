@@ -0,0 +1,50 @@
+-- Plan limits where the bytes land. enforce_asset_upload_limit() checks the
+-- file_size_bytes the client reports when registering an asset, and the
+-- bucket takes anything up to the business limit, so a free workspace could
+-- store 4GB by lying or by never registering the upload. Object rows carry
+-- the size storage actually received; one over the plan of the workspace in
+-- the path's first segment is refused, which fails the upload.
+
+CREATE OR REPLACE FUNCTION public.enforce_storage_upload_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan text;
+  v_size bigint;
+BEGIN
+  -- The transcode worker and other service-role writers aren't user uploads
+  IF auth.uid() IS NULL OR NEW.bucket_id <> 'social-media' THEN
+    RETURN NEW;
+  END IF;
+
+  v_size := (NEW.metadata->>'size')::bigint;
+  IF v_size IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT plan INTO v_plan
+  FROM public.workspaces
+  WHERE id::text = (storage.foldername(NEW.name))[1];
+
+  -- Paths outside a workspace folder are left to the bucket policies
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_size > public.plan_upload_limit(v_plan) THEN
+    RAISE EXCEPTION 'File is larger than the % plan allows', v_plan
+      USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_storage_upload_limit() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_storage_upload_limit ON storage.objects;
+CREATE TRIGGER enforce_storage_upload_limit
+  BEFORE INSERT OR UPDATE OF metadata ON storage.objects
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_storage_upload_limit();
@@ -0,0 +1,73 @@
+-- Calls a publish makes on top of the upload. A YouTube video with a custom
+-- thumbnail or a playlist also spends 50 units on thumbnails.set and 50 on
+-- playlistItems.insert, which the ledger never saw. reserve_quota() now
+-- takes them with the publish, all or nothing as before; they only apply
+-- to budgets counted in API units, not to posting caps.
+
+DROP FUNCTION IF EXISTS public.reserve_quota(platform_type, uuid);
+
+CREATE OR REPLACE FUNCTION public.reserve_quota(
+  p_platform platform_type,
+  p_social_account_id UUID,
+  p_extra_units INTEGER DEFAULT 0
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget RECORD;
+  v_usage RECORD;
+  v_window TIMESTAMPTZ;
+  v_account UUID;
+  v_blocked_until TIMESTAMPTZ;
+BEGIN
+  FOR v_budget IN
+    SELECT * FROM public.quota_budgets WHERE platform = p_platform ORDER BY id
+  LOOP
+    v_window := public.quota_window_start(v_budget.reset_timezone);
+    v_account := CASE WHEN v_budget.scope = 'account' THEN p_social_account_id END;
+
+    INSERT INTO public.quota_usage (budget_id, social_account_id, window_start)
+    VALUES (v_budget.id, v_account, v_window)
+    ON CONFLICT DO NOTHING;
+
+    SELECT * INTO v_usage
+    FROM public.quota_usage
+    WHERE budget_id = v_budget.id
+      AND social_account_id IS NOT DISTINCT FROM v_account
+      AND window_start = v_window
+    FOR UPDATE;
+
+    IF v_usage.exhausted
+       OR v_usage.used + v_budget.cost_per_publish
+          + CASE WHEN v_budget.unit = 'units' THEN greatest(p_extra_units, 0) ELSE 0 END > v_budget.daily_limit THEN
+      v_blocked_until := greatest(v_blocked_until, v_window + interval '1 day');
+    END IF;
+  END LOOP;
+
+  IF v_blocked_until IS NOT NULL THEN
+    RETURN v_blocked_until;
+  END IF;
+
+  UPDATE public.quota_usage u
+  SET used = u.used + b.cost_per_publish
+        + CASE WHEN b.unit = 'units' THEN greatest(p_extra_units, 0) ELSE 0 END,
+      updated_at = now()
+  FROM public.quota_budgets b
+  WHERE u.budget_id = b.id
+    AND b.platform = p_platform
+    AND u.social_account_id IS NOT DISTINCT FROM (CASE WHEN b.scope = 'account' THEN p_social_account_id END)
+    AND u.window_start = public.quota_window_start(b.reset_timezone);
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_quota(platform_type, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_quota(platform_type, uuid, integer) TO service_role;
+
+UPDATE public.quota_budgets
+SET note = 'YouTube Data API default quota; videos.insert costs 1600 units, thumbnails.set and playlistItems.insert 50 each'
+WHERE platform = 'youtube' AND scope = 'app';
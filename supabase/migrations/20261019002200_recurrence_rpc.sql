@@ -0,0 +1,138 @@
+-- Repeat rules are saved through functions only. The "Authors and admins can
+-- manage post recurrences" policy let an author without approval rights
+-- upsert post_recurrences directly: change the channels, the rule or
+-- active on a post an approver had signed off, and materialize_occurrences()
+-- would publish the new occurrences without enforce_post_approval() ever
+-- seeing a change. update_scheduled_post() already sends such edits back
+-- to review; save_post_recurrence() does the same for the composer's
+-- create path.
+
+DROP POLICY IF EXISTS "Authors and admins can manage post recurrences" ON public.post_recurrences;
+REVOKE INSERT, UPDATE, DELETE ON public.post_recurrences FROM authenticated;
+
+-- p_recurrence takes the same columns as update_scheduled_post()'s; the
+-- rule's channels are p_account_ids
+CREATE OR REPLACE FUNCTION public.save_post_recurrence(
+  p_post_id UUID,
+  p_recurrence JSONB,
+  p_account_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post RECORD;
+  v_user_id UUID;
+  v_status public.post_status;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, workspace_id, created_by, status INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_workspace_member(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  -- Same rule as the posts UPDATE policy
+  IF v_post.created_by <> v_user_id AND NOT public.is_workspace_admin_or_owner(v_post.workspace_id) THEN
+    RAISE EXCEPTION 'Only the author or a workspace admin can change how this post repeats'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_post.status NOT IN ('pending_approval', 'approved', 'scheduled') THEN
+    RAISE EXCEPTION 'Only scheduled posts can repeat';
+  END IF;
+
+  IF p_recurrence IS NULL THEN
+    RAISE EXCEPTION 'Repeat rule required';
+  END IF;
+
+  IF coalesce(cardinality(p_account_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one channel';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_account_ids) AS a(id)
+    LEFT JOIN public.social_accounts sa
+      ON sa.id = a.id AND sa.workspace_id = v_post.workspace_id
+    WHERE sa.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the selected channels is not in this workspace';
+  END IF;
+
+  -- A contributor's rule publishes more than was approved; it goes back
+  -- through review like any other edit
+  v_status := v_post.status;
+  IF v_status IN ('approved', 'scheduled') AND NOT public.can_approve_posts(v_post.workspace_id) THEN
+    v_status := 'pending_approval';
+
+    UPDATE public.posts SET status = v_status WHERE id = p_post_id;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.approvals WHERE post_id = p_post_id AND status = 'pending'
+    ) THEN
+      INSERT INTO public.approvals (post_id, requested_by, status)
+      VALUES (p_post_id, v_user_id, 'pending');
+    END IF;
+  END IF;
+
+  INSERT INTO public.post_recurrences (
+    post_id, workspace_id, freq, interval_count, by_weekday, by_month_day,
+    time_of_day, timezone, starts_on, count, until_date, social_account_ids, active, created_by
+  )
+  VALUES (
+    p_post_id,
+    v_post.workspace_id,
+    p_recurrence->>'freq',
+    coalesce((p_recurrence->>'interval_count')::int, 1),
+    CASE WHEN jsonb_typeof(p_recurrence->'by_weekday') = 'array' THEN
+      ARRAY(SELECT d::smallint FROM jsonb_array_elements_text(p_recurrence->'by_weekday') AS d)
+    END,
+    (p_recurrence->>'by_month_day')::smallint,
+    (p_recurrence->>'time_of_day')::time,
+    p_recurrence->>'timezone',
+    (p_recurrence->>'starts_on')::date,
+    (p_recurrence->>'count')::int,
+    (p_recurrence->>'until_date')::date,
+    p_account_ids,
+    true,
+    v_user_id
+  )
+  ON CONFLICT (post_id) DO UPDATE
+  SET freq = EXCLUDED.freq,
+      interval_count = EXCLUDED.interval_count,
+      by_weekday = EXCLUDED.by_weekday,
+      by_month_day = EXCLUDED.by_month_day,
+      time_of_day = EXCLUDED.time_of_day,
+      timezone = EXCLUDED.timezone,
+      starts_on = EXCLUDED.starts_on,
+      count = EXCLUDED.count,
+      until_date = EXCLUDED.until_date,
+      social_account_ids = EXCLUDED.social_account_ids,
+      active = true;
+
+  INSERT INTO public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, details)
+  VALUES (
+    v_post.workspace_id,
+    v_user_id,
+    'save_post_recurrence',
+    'post',
+    p_post_id,
+    jsonb_build_object('rule', p_recurrence, 'channels', to_jsonb(p_account_ids), 'status', v_status)
+  );
+
+  RETURN jsonb_build_object('status', v_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_post_recurrence(uuid, jsonb, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_post_recurrence(uuid, jsonb, uuid[]) TO authenticated, service_role;
@@ -0,0 +1,155 @@
+-- A counted series that missed a run ended one occurrence short. A stale
+-- occurrence is skipped without counting towards the rule's COUNT, but the
+-- check for whether another one follows counted it anyway; both now use the
+-- same number.
+
+CREATE OR REPLACE FUNCTION public.materialize_occurrences(p_lookahead INTERVAL DEFAULT interval '1 day')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  c RECORD;
+  v_item RECORD;
+  v_status public.post_status;
+  v_created INTEGER := 0;
+  v_next TIMESTAMPTZ;
+  v_stale BOOLEAN;
+  v_occurrences INTEGER;
+BEGIN
+  FOR r IN
+    SELECT * FROM public.post_recurrences
+    WHERE active AND next_run_at <= now() + p_lookahead
+    ORDER BY next_run_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT status INTO v_status FROM public.posts WHERE id = r.post_id;
+
+    -- Canceled or rejected posts stop repeating
+    IF v_status IN ('canceled', 'draft') THEN
+      UPDATE public.post_recurrences SET active = false WHERE id = r.id;
+      CONTINUE;
+    END IF;
+
+    -- Occurrences missed while the scheduler was down are skipped rather
+    -- than all published at once
+    v_stale := r.next_run_at < now() - interval '1 hour';
+
+    WITH added AS (
+      INSERT INTO public.post_targets (post_id, social_account_id, platform, status, occurrence_at)
+      SELECT r.post_id, sa.id, sa.platform, 'queued', r.next_run_at
+      FROM public.social_accounts sa
+      WHERE sa.id = ANY (r.social_account_ids)
+        AND sa.workspace_id = r.workspace_id
+        AND sa.status = 'connected'
+        AND NOT v_stale
+        AND NOT EXISTS (
+          SELECT 1 FROM public.post_targets pt
+          WHERE pt.post_id = r.post_id
+            AND pt.social_account_id = sa.id
+            AND pt.occurrence_at = r.next_run_at
+        )
+      RETURNING id
+    )
+    INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+    SELECT id, r.next_run_at, 'queued', r.post_id || ':' || id
+    FROM added;
+
+    -- Published or failed posts go back on the schedule for the next run;
+    -- pending_approval posts stay parked until approved
+    IF NOT v_stale THEN
+      UPDATE public.posts
+      SET scheduled_at = r.next_run_at,
+          status = CASE WHEN status IN ('published', 'failed') THEN 'scheduled' ELSE status END
+      WHERE id = r.post_id;
+    END IF;
+
+    -- Skipped occurrences don't count towards the rule's COUNT
+    v_occurrences := r.occurrences_created + CASE WHEN v_stale THEN 0 ELSE 1 END;
+    v_next := CASE WHEN r.count IS NULL OR v_occurrences < r.count THEN
+      public.next_occurrence_at(
+        r.freq, r.interval_count, r.by_weekday, r.by_month_day,
+        r.time_of_day, r.timezone, r.starts_on, greatest(r.next_run_at, now()), r.until_date
+      )
+    END;
+
+    -- Set next_run_at directly; the trigger only fires on rule changes
+    UPDATE public.post_recurrences
+    SET occurrences_created = v_occurrences,
+        next_run_at = v_next,
+        active = v_next IS NOT NULL
+    WHERE id = r.id;
+
+    IF NOT v_stale THEN
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  FOR c IN
+    SELECT ec.*, sa.platform, sa.status AS account_status
+    FROM public.evergreen_channels ec
+    JOIN public.social_accounts sa ON sa.id = ec.social_account_id
+    WHERE ec.active AND ec.next_run_at <= now() + p_lookahead
+    ORDER BY ec.next_run_at
+    FOR UPDATE OF ec SKIP LOCKED
+  LOOP
+    IF c.account_status = 'connected' AND c.next_run_at >= now() - interval '1 hour' THEN
+      -- Least recently drawn first, skipping anything drawn too recently or
+      -- still waiting on an earlier draw
+      SELECT ei.* INTO v_item
+      FROM public.evergreen_items ei
+      JOIN public.posts p ON p.id = ei.post_id
+      WHERE ei.social_account_id = c.social_account_id
+        AND ei.active
+        AND p.status IN ('approved', 'scheduled', 'published', 'failed')
+        AND (ei.last_drawn_at IS NULL OR ei.last_drawn_at <= c.next_run_at - make_interval(days => c.min_repeat_days))
+        AND NOT EXISTS (
+          SELECT 1 FROM public.post_targets pt
+          WHERE pt.post_id = ei.post_id
+            AND pt.social_account_id = ei.social_account_id
+            AND pt.status IN ('queued', 'publishing')
+        )
+      ORDER BY ei.last_drawn_at NULLS FIRST, ei.created_at
+      LIMIT 1
+      FOR UPDATE OF ei SKIP LOCKED;
+
+      IF FOUND THEN
+        WITH added AS (
+          INSERT INTO public.post_targets (post_id, social_account_id, platform, status, occurrence_at)
+          VALUES (v_item.post_id, c.social_account_id, c.platform, 'queued', c.next_run_at)
+          RETURNING id
+        )
+        INSERT INTO public.publish_jobs (post_target_id, run_at, status, idempotency_key)
+        SELECT id, c.next_run_at, 'queued', v_item.post_id || ':' || id
+        FROM added;
+
+        UPDATE public.posts
+        SET status = CASE WHEN status IN ('published', 'failed') THEN 'scheduled' ELSE status END
+        WHERE id = v_item.post_id;
+
+        UPDATE public.evergreen_items
+        SET last_drawn_at = c.next_run_at,
+            times_drawn = times_drawn + 1
+        WHERE id = v_item.id;
+
+        v_created := v_created + 1;
+      END IF;
+    END IF;
+
+    -- An empty pool skips the slot rather than piling up
+    UPDATE public.evergreen_channels
+    SET next_run_at = public.next_occurrence_at(
+      'daily', c.every_days, NULL, NULL, c.post_time, c.timezone,
+      (c.next_run_at AT TIME ZONE c.timezone)::date, greatest(c.next_run_at, now())
+    )
+    WHERE social_account_id = c.social_account_id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_occurrences(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.materialize_occurrences(interval) TO service_role;
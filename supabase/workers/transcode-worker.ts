@@ -0,0 +1,416 @@
+// Video transcode worker. Picks up `assets` rows in transcode_status
+// 'pending', probes them with ffprobe and, where needed, transcodes them into
+// the house rendition (MP4 H.264/AAC, fitted inside 1080×1920) plus trimmed
+// cuts for platforms with shorter duration limits. Results land in
+// processed_storage_path and validation_report.renditions, which the
+// publishers read via _shared/renditions.ts.
+//
+// Runs on any host with Deno and a local ffmpeg/ffprobe — edge functions
+// can't spawn processes, so this is deployed separately:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-run --allow-read --allow-write \
+//     supabase/workers/transcode-worker.ts [--once]
+//
+// FFMPEG_PATH / FFPROBE_PATH override the binaries on PATH.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  RENDITION_FORMAT,
+  Rendition,
+  TRIM_DURATIONS_SEC,
+} from "../functions/_shared/media-specs.ts";
+
+const BUCKET = 'social-media';
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+// Supabase Storage's resumable endpoint takes exactly this chunk size
+// (except the last), so a rendition is never held in memory whole
+const UPLOAD_CHUNK = 6 * 1024 * 1024;
+const UPLOAD_ATTEMPTS = 5;
+const POLL_INTERVAL_MS = 15_000;
+// Rows stuck in 'processing' this long (worker crashed) are retried
+const STALE_AFTER_MINUTES = 60;
+
+const FFMPEG = Deno.env.get('FFMPEG_PATH') || 'ffmpeg';
+const FFPROBE = Deno.env.get('FFPROBE_PATH') || 'ffprobe';
+
+const supabase = createClient(SUPABASE_URL, SERVICE_KEY);
+
+// ---------------------------------------------------------------------------
+// ffmpeg helpers
+// ---------------------------------------------------------------------------
+
+async function run(cmd: string, args: string[]): Promise<string> {
+  const output = await new Deno.Command(cmd, { args, stdout: 'piped', stderr: 'piped' }).output();
+  if (!output.success) {
+    const stderr = new TextDecoder().decode(output.stderr).trim().split('\n').slice(-5).join('\n');
+    throw new Error(`${cmd} exited with ${output.code}: ${stderr}`);
+  }
+  return new TextDecoder().decode(output.stdout);
+}
+
+interface ProbeResult {
+  container: string;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  pixelFormat: string | null;
+  // display dimensions (rotation applied)
+  width: number;
+  height: number;
+  durationSeconds: number;
+  bitrateKbps: number | null;
+  sizeBytes: number;
+}
+
+// The parts of `ffprobe -print_format json` output read below
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  pix_fmt?: string;
+  width?: number;
+  height?: number;
+  duration?: string;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number }[];
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: { format_name?: string; duration?: string; bit_rate?: string; size?: string };
+}
+
+async function probe(path: string): Promise<ProbeResult> {
+  const json: FfprobeOutput = JSON.parse(await run(FFPROBE, [
+    '-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', path,
+  ]));
+  const streams = json.streams || [];
+  const video = streams.find((s) => s.codec_type === 'video');
+  const audio = streams.find((s) => s.codec_type === 'audio');
+
+  // Phones record portrait video as landscape + a rotation tag
+  const rotation = Math.abs(Number(
+    video?.tags?.rotate ?? video?.side_data_list?.find((d) => d.rotation !== undefined)?.rotation ?? 0
+  ));
+  const rotated = rotation === 90 || rotation === 270;
+  const width = Number(video?.width) || 0;
+  const height = Number(video?.height) || 0;
+
+  return {
+    container: json.format?.format_name || 'unknown',
+    videoCodec: video?.codec_name ?? null,
+    audioCodec: audio?.codec_name ?? null,
+    pixelFormat: video?.pix_fmt ?? null,
+    width: rotated ? height : width,
+    height: rotated ? width : height,
+    durationSeconds: Number(json.format?.duration ?? video?.duration) || 0,
+    bitrateKbps: json.format?.bit_rate ? Math.round(Number(json.format.bit_rate) / 1000) : null,
+    sizeBytes: Number(json.format?.size) || 0,
+  };
+}
+
+// Reasons the original can't be published as-is; empty means compliant
+function transcodeReasons(p: ProbeResult): string[] {
+  const reasons: string[] = [];
+  const longEdge = Math.max(p.width, p.height);
+  const shortEdge = Math.min(p.width, p.height);
+  if (!p.container.split(',').includes('mp4')) reasons.push(`container ${p.container}`);
+  if (p.videoCodec !== RENDITION_FORMAT.videoCodec) reasons.push(`video codec ${p.videoCodec}`);
+  if (p.audioCodec && p.audioCodec !== RENDITION_FORMAT.audioCodec) reasons.push(`audio codec ${p.audioCodec}`);
+  if (p.pixelFormat !== RENDITION_FORMAT.pixelFormat) reasons.push(`pixel format ${p.pixelFormat}`);
+  if (longEdge > RENDITION_FORMAT.longEdge || shortEdge > RENDITION_FORMAT.shortEdge) {
+    reasons.push(`resolution ${p.width}x${p.height}`);
+  }
+  const maxKbps = RENDITION_FORMAT.maxVideoBitrateKbps + RENDITION_FORMAT.audioBitrateKbps;
+  if (p.bitrateKbps && p.bitrateKbps > maxKbps * 1.25) reasons.push(`bitrate ${p.bitrateKbps}kbps`);
+  return reasons;
+}
+
+async function transcode(input: string, output: string, p: ProbeResult) {
+  const portrait = p.height >= p.width;
+  const maxW = portrait ? RENDITION_FORMAT.shortEdge : RENDITION_FORMAT.longEdge;
+  const maxH = portrait ? RENDITION_FORMAT.longEdge : RENDITION_FORMAT.shortEdge;
+  const kbps = RENDITION_FORMAT.maxVideoBitrateKbps;
+  await run(FFMPEG, [
+    '-y', '-i', input,
+    '-map', '0:v:0', '-map', '0:a:0?',
+    // Fit inside the box without upscaling; x264 needs even dimensions
+    '-vf', `scale='min(${maxW},iw)':'min(${maxH},ih)':force_original_aspect_ratio=decrease,scale=trunc(iw/2)*2:trunc(ih/2)*2`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-profile:v', 'high',
+    '-maxrate', `${kbps}k`, '-bufsize', `${kbps * 2}k`,
+    '-pix_fmt', RENDITION_FORMAT.pixelFormat,
+    '-c:a', 'aac', '-b:a', `${RENDITION_FORMAT.audioBitrateKbps}k`, '-ac', '2',
+    '-movflags', '+faststart',
+    output,
+  ]);
+}
+
+async function trim(input: string, output: string, seconds: number) {
+  // Stream copy: the rendition is already compliant, we only cut it short
+  await run(FFMPEG, ['-y', '-i', input, '-t', String(seconds), '-c', 'copy', '-movflags', '+faststart', output]);
+}
+
+async function thumbnail(input: string, output: string, atSeconds: number) {
+  await run(FFMPEG, [
+    '-y', '-ss', String(atSeconds), '-i', input,
+    '-frames:v', '1', '-vf', "scale='min(480,iw)':-2", '-q:v', '4', output,
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Storage helpers
+// ---------------------------------------------------------------------------
+
+// Originals can be several GB, so they go straight from the response to disk
+async function download(path: string, dest: string) {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, 60 * 60);
+  if (error || !data?.signedUrl) throw new Error(`Download failed for ${path}: ${error?.message}`);
+  const response = await fetch(data.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Download failed for ${path}: ${response.status} ${response.statusText}`);
+  }
+  const file = await Deno.open(dest, { write: true, create: true, truncate: true });
+  await response.body.pipeTo(file.writable);
+}
+
+const TUS_HEADERS = {
+  'authorization': `Bearer ${SERVICE_KEY}`,
+  'apikey': SERVICE_KEY,
+  'tus-resumable': '1.0.0',
+};
+
+function encodeMetadata(meta: Record<string, string>): string {
+  return Object.entries(meta)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+}
+
+// Fills buffer from the file's current position; returns the bytes read
+async function readChunk(file: Deno.FsFile, buffer: Uint8Array): Promise<number> {
+  let filled = 0;
+  while (filled < buffer.length) {
+    const n = await file.read(buffer.subarray(filled));
+    if (n === null) break;
+    filled += n;
+  }
+  return filled;
+}
+
+// Resumable (TUS) upload read from disk a chunk at a time. A failed chunk
+// asks the server for its offset and carries on from there.
+async function upload(src: string, path: string, contentType: string) {
+  const { size } = await Deno.stat(src);
+  const created = await fetch(`${SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...TUS_HEADERS,
+      'upload-length': String(size),
+      'upload-metadata': encodeMetadata({ bucketName: BUCKET, objectName: path, contentType, cacheControl: '3600' }),
+      'x-upsert': 'true',
+    },
+  });
+  const location = created.headers.get('location');
+  if (created.status !== 201 || !location) {
+    throw new Error(`Upload failed for ${path}: ${created.status} ${await created.text()}`);
+  }
+  const url = new URL(location, SUPABASE_URL).toString();
+
+  const file = await Deno.open(src, { read: true });
+  try {
+    const buffer = new Uint8Array(UPLOAD_CHUNK);
+    let offset = 0;
+    let failures = 0;
+    while (offset < size) {
+      await file.seek(offset, Deno.SeekMode.Start);
+      const length = await readChunk(file, buffer);
+      try {
+        const response = await fetch(url, {
+          method: 'PATCH',
+          headers: {
+            ...TUS_HEADERS,
+            'upload-offset': String(offset),
+            'content-type': 'application/offset+octet-stream',
+          },
+          body: buffer.subarray(0, length),
+        });
+        if (response.status !== 204) {
+          throw new Error(`${response.status} ${await response.text()}`);
+        }
+        offset = Number(response.headers.get('upload-offset'));
+        failures = 0;
+      } catch (error) {
+        if (++failures >= UPLOAD_ATTEMPTS) {
+          throw new Error(`Upload failed for ${path}: ${error instanceof Error ? error.message : error}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, failures * 2000));
+        const head = await fetch(url, { method: 'HEAD', headers: TUS_HEADERS });
+        if (!head.ok) throw new Error(`Upload failed for ${path}: lost the upload (${head.status})`);
+        offset = Number(head.headers.get('upload-offset') ?? offset);
+      }
+    }
+  } finally {
+    file.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Job processing
+// ---------------------------------------------------------------------------
+
+interface TranscodeAsset {
+  id: string;
+  workspace_id: string;
+  original_storage_path: string;
+  thumbnail_storage_path: string | null;
+  validation_report: Record<string, unknown> | null;
+}
+
+async function claimNext(): Promise<TranscodeAsset | null> {
+  const { data: candidates } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('transcode_status', 'pending')
+    .eq('type', 'video')
+    .order('created_at', { ascending: true })
+    .limit(5);
+
+  for (const asset of candidates || []) {
+    // Conditional claim so parallel workers don't process the same asset
+    const { data: claimed } = await supabase
+      .from('assets')
+      .update({ transcode_status: 'processing' })
+      .eq('id', asset.id)
+      .eq('transcode_status', 'pending')
+      .select('*')
+      .maybeSingle();
+    if (claimed) return claimed;
+  }
+  return null;
+}
+
+async function requeueStale() {
+  const cutoff = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000).toISOString();
+  await supabase
+    .from('assets')
+    .update({ transcode_status: 'pending' })
+    .eq('transcode_status', 'processing')
+    .lt('updated_at', cutoff);
+}
+
+async function processAsset(asset: TranscodeAsset) {
+  const dir = await Deno.makeTempDir({ prefix: 'transcode-' });
+  const base = `${asset.workspace_id}/processed/${asset.id}`;
+  try {
+    const original = `${dir}/original`;
+    await download(asset.original_storage_path, original);
+    const source = await probe(original);
+    if (!source.videoCodec) throw new Error('No video stream found');
+
+    const reasons = transcodeReasons(source);
+    let renditionFile = original;
+    let processedPath = asset.original_storage_path;
+    if (reasons.length) {
+      renditionFile = `${dir}/full.mp4`;
+      await transcode(original, renditionFile, source);
+      processedPath = `${base}.mp4`;
+      await upload(renditionFile, processedPath, 'video/mp4');
+    }
+    const full = await probe(renditionFile);
+
+    const renditions: Rendition[] = [{
+      path: processedPath,
+      maxDurationSec: null,
+      durationSeconds: full.durationSeconds,
+      width: full.width,
+      height: full.height,
+      sizeBytes: full.sizeBytes,
+    }];
+
+    for (const seconds of TRIM_DURATIONS_SEC.filter((s) => s < full.durationSeconds)) {
+      const file = `${dir}/trim-${seconds}.mp4`;
+      await trim(renditionFile, file, seconds);
+      const cut = await probe(file);
+      const path = `${base}-${seconds}s.mp4`;
+      await upload(file, path, 'video/mp4');
+      renditions.push({
+        path,
+        maxDurationSec: seconds,
+        durationSeconds: cut.durationSeconds,
+        width: cut.width,
+        height: cut.height,
+        sizeBytes: cut.sizeBytes,
+      });
+    }
+
+    let thumbnailPath = asset.thumbnail_storage_path;
+    if (!thumbnailPath) {
+      const file = `${dir}/thumb.jpg`;
+      await thumbnail(renditionFile, file, full.durationSeconds * 0.25);
+      thumbnailPath = `${asset.workspace_id}/thumbnails/${asset.id}.jpg`;
+      await upload(file, thumbnailPath, 'image/jpeg');
+    }
+
+    await supabase.from('assets').update({
+      transcode_status: 'ready',
+      processed_storage_path: processedPath,
+      thumbnail_storage_path: thumbnailPath,
+      width: source.width,
+      height: source.height,
+      duration_seconds: source.durationSeconds,
+      validation_report: {
+        ...(asset.validation_report || {}),
+        source,
+        transcoded: reasons.length > 0,
+        transcode_reasons: reasons,
+        renditions,
+        processed_at: new Date().toISOString(),
+      },
+    }).eq('id', asset.id);
+
+    console.log(`asset ${asset.id}: ready (${reasons.length ? `transcoded: ${reasons.join(', ')}` : 'already compliant'}, ${renditions.length} renditions)`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`asset ${asset.id}: failed`, message);
+    await supabase.from('assets').update({
+      transcode_status: 'failed',
+      validation_report: {
+        ...(asset.validation_report || {}),
+        error: message.slice(0, 1000),
+        processed_at: new Date().toISOString(),
+      },
+    }).eq('id', asset.id);
+  } finally {
+    await Deno.remove(dir, { recursive: true }).catch(() => {});
+  }
+}
+
+async function drainQueue(): Promise<number> {
+  await requeueStale();
+  let processed = 0;
+  for (let asset = await claimNext(); asset; asset = await claimNext()) {
+    await processAsset(asset);
+    processed++;
+  }
+  return processed;
+}
+
+if (import.meta.main) {
+  await run(FFMPEG, ['-version']).catch((error) => {
+    console.error(`ffmpeg not available (${FFMPEG}):`, error.message);
+    Deno.exit(1);
+  });
+
+  if (Deno.args.includes('--once')) {
+    console.log(`processed ${await drainQueue()} assets`);
+  } else {
+    console.log('transcode worker started');
+    while (true) {
+      try {
+        await drainQueue();
+      } catch (error) {
+        console.error('transcode worker error:', error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+}